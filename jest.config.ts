@@ -5,6 +5,14 @@ module.exports = {
     NODE_ENV: 'test',
   },
   restoreMocks: true,
+  setupFiles: ['<rootDir>/tests/utils/setupTestEnv.ts'],
+  // uuid and faker only ship ES modules, which Jest cannot require; they are compiled to CommonJS
+  transform: {
+    '^.+\\.js$': ['ts-jest', { tsconfig: { allowJs: true }, isolatedModules: true }],
+  },
+  transformIgnorePatterns: [
+    'node_modules/(?!(\\.pnpm/[^/]+/node_modules/)?(uuid|@faker-js/faker)/)',
+  ],
   coveragePathIgnorePatterns: ['node_modules', 'src/config', 'src/app.ts', 'tests'],
   coverageReporters: ['text', 'lcov', 'clover', 'html'],
 };
@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE "audit_logs" ADD COLUMN     "actor_pseudonym" TEXT,
+ADD COLUMN     "details_digest" TEXT,
+ADD COLUMN     "hash" TEXT,
+ADD COLUMN     "previous_hash" TEXT,
+ADD COLUMN     "sequence" SERIAL NOT NULL;
+
+-- CreateTable
+CREATE TABLE "audit_log_checkpoints" (
+    "id" TEXT NOT NULL,
+    "cutoff" TIMESTAMP(3) NOT NULL,
+    "deleted_count" INTEGER NOT NULL,
+    "gaps" JSONB NOT NULL,
+    "signature" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "audit_log_checkpoints_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "audit_log_checkpoints_created_at_idx" ON "audit_log_checkpoints"("created_at");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "audit_logs_sequence_key" ON "audit_logs"("sequence");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "audit_logs_hash_key" ON "audit_logs"("hash");
+
+-- CreateIndex
+CREATE INDEX "audit_logs_actor_pseudonym_idx" ON "audit_logs"("actor_pseudonym");
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "deletionRequestedAt" TIMESTAMP(3),
+ADD COLUMN     "deletionScheduledAt" TIMESTAMP(3),
+ADD COLUMN     "erasedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "users_deletionScheduledAt_idx" ON "users"("deletionScheduledAt");
@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "data_export_jobs" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "file_path" TEXT,
+    "file_size" INTEGER,
+    "error" TEXT,
+    "expires_at" TIMESTAMP(3),
+    "completed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "data_export_jobs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "data_export_jobs_user_id_idx" ON "data_export_jobs"("user_id");
+
+-- CreateIndex
+CREATE INDEX "data_export_jobs_status_idx" ON "data_export_jobs"("status");
+
+-- CreateIndex
+CREATE INDEX "data_export_jobs_expires_at_idx" ON "data_export_jobs"("expires_at");
+
+-- AddForeignKey
+ALTER TABLE "data_export_jobs" ADD CONSTRAINT "data_export_jobs_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,18 @@
+-- AlterTable
+ALTER TABLE "data_processing_records" ADD COLUMN     "ip_address" TEXT,
+ADD COLUMN     "status" TEXT NOT NULL DEFAULT 'ACTIVE',
+ADD COLUMN     "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ADD COLUMN     "user_agent" TEXT,
+ADD COLUMN     "withdrawn_at" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "data_processing_records_user_id_idx" ON "data_processing_records"("user_id");
+
+-- CreateIndex
+CREATE INDEX "data_processing_records_purpose_idx" ON "data_processing_records"("purpose");
+
+-- CreateIndex
+CREATE INDEX "data_processing_records_status_idx" ON "data_processing_records"("status");
+
+-- CreateIndex
+CREATE INDEX "data_processing_records_expires_at_idx" ON "data_processing_records"("expires_at");
@@ -0,0 +1,15 @@
+-- AlterEnum
+-- This migration adds more than one value to an enum.
+-- With PostgreSQL versions 11 and earlier, this is not possible
+-- in a single migration. This can be worked around by creating
+-- multiple migrations, each migration adding only one value to
+-- the enum.
+
+
+ALTER TYPE "OtpType" ADD VALUE 'TWO_FACTOR_EMAIL';
+ALTER TYPE "OtpType" ADD VALUE 'TWO_FACTOR_SMS';
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "emailTwoFactorEnabled" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "preferredTwoFactorMethod" TEXT,
+ADD COLUMN     "smsTwoFactorEnabled" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,14 @@
+-- AlterEnum
+ALTER TYPE "TokenType" ADD VALUE 'MAGIC_LINK';
+
+-- AlterEnum
+-- This migration adds more than one value to an enum.
+-- With PostgreSQL versions 11 and earlier, this is not possible
+-- in a single migration. This can be worked around by creating
+-- multiple migrations, each migration adding only one value to
+-- the enum.
+
+
+ALTER TYPE "SecurityEventType" ADD VALUE 'MAGIC_LINK_REQUESTED';
+ALTER TYPE "SecurityEventType" ADD VALUE 'MAGIC_LINK_LOGIN_SUCCESS';
+ALTER TYPE "SecurityEventType" ADD VALUE 'MAGIC_LINK_LOGIN_FAILED';
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "tokens" ADD COLUMN     "familyId" TEXT,
+ADD COLUMN     "rotatedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "tokens_familyId_idx" ON "tokens"("familyId");
@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "saml_connections" (
+    "id" TEXT NOT NULL,
+    "slug" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "idp_entity_id" TEXT NOT NULL,
+    "idp_sso_url" TEXT NOT NULL,
+    "idp_certificates" TEXT[],
+    "idp_metadata_url" TEXT,
+    "email_domains" TEXT[],
+    "attribute_mapping" JSONB NOT NULL DEFAULT '{}',
+    "role_mapping" JSONB NOT NULL DEFAULT '{}',
+    "allow_idp_initiated" BOOLEAN NOT NULL DEFAULT false,
+    "jit_provisioning" BOOLEAN NOT NULL DEFAULT true,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_by_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "saml_connections_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "saml_connections_slug_key" ON "saml_connections"("slug");
+
+-- AddForeignKey
+ALTER TABLE "saml_connections" ADD CONSTRAINT "saml_connections_created_by_id_fkey" FOREIGN KEY ("created_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
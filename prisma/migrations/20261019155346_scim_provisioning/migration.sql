@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "scimExternalId" TEXT;
+
+-- AlterTable
+ALTER TABLE "roles" ADD COLUMN     "scim_external_id" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "users_scimExternalId_key" ON "users"("scimExternalId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "roles_scim_external_id_key" ON "roles"("scim_external_id");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "social_accounts" ADD COLUMN     "token_expires_at" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "social_accounts_token_expires_at_idx" ON "social_accounts"("token_expires_at");
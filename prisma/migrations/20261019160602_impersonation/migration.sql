@@ -0,0 +1,19 @@
+-- AlterEnum
+-- This migration adds more than one value to an enum.
+-- With PostgreSQL versions 11 and earlier, this is not possible
+-- in a single migration. This can be worked around by creating
+-- multiple migrations, each migration adding only one value to
+-- the enum.
+
+
+ALTER TYPE "SecurityEventType" ADD VALUE 'IMPERSONATION_STARTED';
+ALTER TYPE "SecurityEventType" ADD VALUE 'IMPERSONATION_ENDED';
+
+-- AlterTable
+ALTER TABLE "user_sessions" ADD COLUMN     "impersonatorId" TEXT;
+
+-- AlterTable
+ALTER TABLE "audit_logs" ADD COLUMN     "impersonator_id" TEXT;
+
+-- CreateIndex
+CREATE INDEX "audit_logs_impersonator_id_idx" ON "audit_logs"("impersonator_id");
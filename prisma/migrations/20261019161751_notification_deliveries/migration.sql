@@ -0,0 +1,25 @@
+-- AlterTable
+ALTER TABLE "notifications" ADD COLUMN     "deliveredAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "notification_deliveries" (
+    "id" TEXT NOT NULL,
+    "notification_id" TEXT NOT NULL,
+    "connection_id" TEXT NOT NULL,
+    "sent_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "acknowledged_at" TIMESTAMP(3),
+
+    CONSTRAINT "notification_deliveries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "notification_deliveries_connection_id_idx" ON "notification_deliveries"("connection_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "notification_deliveries_notification_id_connection_id_key" ON "notification_deliveries"("notification_id", "connection_id");
+
+-- CreateIndex
+CREATE INDEX "notifications_userId_deliveredAt_idx" ON "notifications"("userId", "deliveredAt");
+
+-- AddForeignKey
+ALTER TABLE "notification_deliveries" ADD CONSTRAINT "notification_deliveries_notification_id_fkey" FOREIGN KEY ("notification_id") REFERENCES "notifications"("id") ON DELETE CASCADE ON UPDATE CASCADE;
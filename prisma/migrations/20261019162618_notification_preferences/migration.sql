@@ -0,0 +1,106 @@
+-- CreateEnum
+CREATE TYPE "DigestFrequency" AS ENUM ('DAILY', 'WEEKLY');
+
+-- CreateEnum
+CREATE TYPE "EmailDeliveryMode" AS ENUM ('INSTANT', 'DIGEST');
+
+-- CreateTable
+CREATE TABLE "notification_preferences" (
+    "user_id" TEXT NOT NULL,
+    "push_enabled" BOOLEAN NOT NULL DEFAULT true,
+    "email_enabled" BOOLEAN NOT NULL DEFAULT true,
+    "webhook_url" TEXT,
+    "webhook_secret" TEXT,
+    "quiet_hours_enabled" BOOLEAN NOT NULL DEFAULT false,
+    "quiet_hours_start" TEXT NOT NULL DEFAULT '22:00',
+    "quiet_hours_end" TEXT NOT NULL DEFAULT '08:00',
+    "timezone" TEXT NOT NULL DEFAULT 'UTC',
+    "digest_frequency" "DigestFrequency" NOT NULL DEFAULT 'DAILY',
+    "digest_hour" INTEGER NOT NULL DEFAULT 8,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "notification_preferences_pkey" PRIMARY KEY ("user_id")
+);
+
+-- CreateTable
+CREATE TABLE "notification_type_preferences" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "type" "NotificationType" NOT NULL,
+    "in_app" BOOLEAN,
+    "push" BOOLEAN,
+    "email" BOOLEAN,
+    "webhook" BOOLEAN,
+    "email_mode" "EmailDeliveryMode" NOT NULL DEFAULT 'INSTANT',
+
+    CONSTRAINT "notification_type_preferences_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "notification_type_preferences_user_id_type_key" ON "notification_type_preferences"("user_id", "type");
+
+-- AddForeignKey
+ALTER TABLE "notification_preferences" ADD CONSTRAINT "notification_preferences_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "notification_type_preferences" ADD CONSTRAINT "notification_type_preferences_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- MigrateData
+-- Copy the push switch and quiet hours of users.pushNotifications. Only switches set in the
+-- legacy JSON are copied; settings it does not name follow the new defaults.
+INSERT INTO "notification_preferences" ("user_id", "push_enabled", "quiet_hours_enabled", "quiet_hours_start", "quiet_hours_end", "updated_at")
+SELECT
+    "id",
+    COALESCE(("pushNotifications"->>'enabled')::BOOLEAN, true),
+    COALESCE(("pushNotifications"->'quietHours'->>'enabled')::BOOLEAN, false),
+    CASE WHEN "pushNotifications"->'quietHours'->>'start' ~ '^([01]?[0-9]|2[0-3]):[0-5][0-9]$'
+        THEN "pushNotifications"->'quietHours'->>'start' ELSE '22:00' END,
+    CASE WHEN "pushNotifications"->'quietHours'->>'end' ~ '^([01]?[0-9]|2[0-3]):[0-5][0-9]$'
+        THEN "pushNotifications"->'quietHours'->>'end' ELSE '08:00' END,
+    CURRENT_TIMESTAMP
+FROM "users"
+WHERE jsonb_typeof("pushNotifications"->'enabled') = 'boolean'
+    OR jsonb_typeof("pushNotifications"->'quietHours') = 'object';
+
+-- MigrateData
+-- Copy the email switches of users.emailNotifications onto the notification types they covered
+INSERT INTO "notification_type_preferences" ("id", "user_id", "type", "email")
+SELECT gen_random_uuid()::TEXT, "users"."id", "legacy"."type"::"NotificationType", bool_or(("users"."emailNotifications"->>"legacy"."key")::BOOLEAN)
+FROM "users"
+CROSS JOIN (VALUES
+    ('loginAlerts', 'LOGIN_ALERT'),
+    ('deviceLogins', 'LOGIN_ALERT'),
+    ('passwordChanges', 'PASSWORD_CHANGE'),
+    ('twoFactorChanges', 'TWO_FACTOR_SETUP'),
+    ('securityUpdates', 'SECURITY_ALERT'),
+    ('securityAlerts', 'SECURITY_ALERT')
+) AS "legacy" ("key", "type")
+WHERE jsonb_typeof("users"."emailNotifications"->"legacy"."key") = 'boolean'
+GROUP BY "users"."id", "legacy"."type";
+
+-- MigrateData
+-- Copy the push switches of users.pushNotifications, per type or in the older named form
+WITH "push_switches" AS (
+    SELECT "users"."id" AS "user_id", "types"."key" AS "type", "types"."value"::BOOLEAN AS "enabled"
+    FROM "users"
+    CROSS JOIN LATERAL jsonb_each_text(
+        CASE WHEN jsonb_typeof("users"."pushNotifications"->'types') = 'object'
+            THEN "users"."pushNotifications"->'types' ELSE '{}'::JSONB END
+    ) AS "types"
+    WHERE "types"."value" IN ('true', 'false')
+    UNION ALL
+    SELECT "users"."id", "legacy"."type", ("users"."pushNotifications"->>"legacy"."key")::BOOLEAN
+    FROM "users"
+    CROSS JOIN (VALUES ('loginAlerts', 'LOGIN_ALERT'), ('securityUpdates', 'SECURITY_ALERT')) AS "legacy" ("key", "type")
+    WHERE jsonb_typeof("users"."pushNotifications"->"legacy"."key") = 'boolean'
+)
+INSERT INTO "notification_type_preferences" ("id", "user_id", "type", "push")
+SELECT gen_random_uuid()::TEXT, "user_id", "type"::"NotificationType", bool_or("enabled")
+FROM "push_switches"
+WHERE "type" IN (SELECT unnest(enum_range(NULL::"NotificationType"))::TEXT)
+GROUP BY "user_id", "type"
+ON CONFLICT ("user_id", "type") DO UPDATE SET "push" = EXCLUDED."push";
+
+-- AlterTable
+ALTER TABLE "users" DROP COLUMN "emailNotifications",
+DROP COLUMN "pushNotifications";
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "notifications" ADD COLUMN     "digestPending" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "digestedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "notification_preferences" ADD COLUMN     "digest_day" INTEGER NOT NULL DEFAULT 1;
+
+-- CreateIndex
+CREATE INDEX "notifications_digestPending_userId_idx" ON "notifications"("digestPending", "userId");
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "scimProvisioned" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "roles" ADD COLUMN     "scim_provisioned" BOOLEAN NOT NULL DEFAULT false;
+
+-- MigrateData: users and roles an identity provider already holds an external id for stay
+-- managed by it, except administrators
+UPDATE "users" SET "scimProvisioned" = true WHERE "scimExternalId" IS NOT NULL AND "role" = 'USER';
+
+UPDATE "roles" SET "scim_provisioned" = true WHERE "scim_external_id" IS NOT NULL;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "social_accounts" ADD COLUMN     "refresh_failures" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "refresh_retry_at" TIMESTAMP(3);
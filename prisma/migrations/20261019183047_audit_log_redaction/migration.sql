@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "audit_logs" ADD COLUMN     "redacted_at" TIMESTAMP(3);
+
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "social_accounts" ADD COLUMN     "refresh_lease_until" TIMESTAMP(3);
@@ -18,7 +18,8 @@ import { performanceTracker, addPerformanceHeaders } from './middlewares/perform
 import { addRequestId } from './middlewares/requestId';
 import { sanitizeInput } from './middlewares/sanitize';
 import routes from './routes/v1';
-import { healthController } from './controllers';
+import scimRoutes from './routes/scim/v2.route';
+import { healthController, wellKnownController } from './controllers';
 import { errorConverter, errorHandler } from './utils/errorHandler';
 import ApiError from './utils/ApiError';
 import { requestLogger } from './utils/structuredLogger';
@@ -33,8 +34,8 @@ if (config.env !== 'test') {
 // set security HTTP headers
 app.use(helmet());
 
-// parse json request body
-app.use(express.json());
+// parse json request body; SCIM clients send application/scim+json
+app.use(express.json({ type: ['application/json', 'application/scim+json'] }));
 
 // parse urlencoded request body
 app.use(express.urlencoded({ extended: true }));
@@ -73,6 +74,10 @@ app.get('/v1/health/detailed', healthController.detailedHealthCheck);
 app.get('/v1/health/ready', healthController.readinessCheck);
 app.get('/v1/health/live', healthController.livenessCheck);
 
+// Discovery documents for services verifying our tokens (no rate limiting)
+app.get('/.well-known/jwks.json', wellKnownController.getJwks);
+app.get('/.well-known/openid-configuration', wellKnownController.getOpenIdConfiguration);
+
 // Global rate limiting - apply to all API endpoints
 app.use('/v1', apiLimiter);
 
@@ -94,6 +99,9 @@ if (config.env === 'production') {
 // v1 api routes
 app.use('/v1', routes);
 
+// SCIM 2.0 provisioning for identity providers
+app.use('/scim/v2', scimRoutes);
+
 // Welcome endpoint for root URL
 app.get('/', (req, res) => {
   res.json({
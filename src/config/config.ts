@@ -11,11 +11,17 @@ const envVarsSchema = z.object({
   NODE_ENV: z.enum(['production', 'development', 'test']),
   PORT: z.string().transform(Number).pipe(z.number().default(8000)),
   CLIENT_URL: z.string().default('http://localhost:8000'),
+  API_URL: z.string().default('http://localhost:8000'),
   JWT_SECRET: z.string(),
   JWT_ACCESS_EXPIRATION_MINUTES: z.string().transform(Number).pipe(z.number().default(30)),
   JWT_REFRESH_EXPIRATION_DAYS: z.string().transform(Number).pipe(z.number().default(30)),
   JWT_RESET_PASSWORD_EXPIRATION_MINUTES: z.string().transform(Number).pipe(z.number().default(10)),
   JWT_VERIFY_EMAIL_EXPIRATION_MINUTES: z.string().transform(Number).pipe(z.number().default(10)),
+  JWT_MAGIC_LINK_EXPIRATION_MINUTES: z.coerce.number().int().min(1).default(15),
+  JWT_SIGNING_ALGORITHM: z.enum(['RS256', 'ES256']).default('RS256'),
+  JWT_KEY_ROTATION_DAYS: z.coerce.number().int().min(1).default(30),
+  JWT_KEY_ENCRYPTION_SECRET: z.string().optional(),
+  JWT_IMPERSONATION_EXPIRATION_MINUTES: z.coerce.number().int().min(1).default(15),
   SMTP_HOST: z.string(),
   SMTP_PORT: z.string().transform(Number).pipe(z.number()),
   SMTP_USERNAME: z.string(),
@@ -25,12 +31,65 @@ const envVarsSchema = z.object({
   REDIS_PORT: z.string().transform(Number).pipe(z.number().default(6379)),
   REDIS_PASSWORD: z.string().optional(),
   REDIS_DB: z.string().transform(Number).pipe(z.number().default(0)),
+  AUDIT_LOG_SIGNING_SECRET: z.string().optional(),
+  ACCOUNT_DELETION_GRACE_DAYS: z.coerce.number().int().min(0).default(30),
+  DATA_EXPORT_DIR: z.string().default('exports'),
+  DATA_EXPORT_LINK_TTL_HOURS: z.coerce.number().int().min(1).default(24),
+  DATA_EXPORT_LINK_SECRET: z.string().optional(),
+  WEBAUTHN_RP_ID: z.string().default('localhost'),
+  WEBAUTHN_RP_NAME: z.string().default('REST API'),
+  WEBAUTHN_ORIGINS: z.string().optional(),
+  SMS_TRANSPORT: z.enum(['console', 'file']).default('console'),
+  SMS_FILE_PATH: z.string().default('logs/sms.log'),
+  OAUTH_LOGIN_URL: z.string().optional(),
+  GOOGLE_CLIENT_ID: z.string().optional(),
+  GOOGLE_CLIENT_SECRET: z.string().optional(),
+  GITHUB_CLIENT_ID: z.string().optional(),
+  GITHUB_CLIENT_SECRET: z.string().optional(),
+  SOCIAL_TOKEN_ENCRYPTION_SECRET: z.string().optional(),
+  NOTIFICATION_WEBHOOK_ENCRYPTION_SECRET: z.string().optional(),
+  OIDC_PROVIDERS: z.string().optional(),
+  OIDC_LOGIN_REDIRECT_URL: z.string().optional(),
+  SAML_SP_PRIVATE_KEY_FILE: z.string().optional(),
+  SAML_SP_CERTIFICATE_FILE: z.string().optional(),
+});
+
+// Settings of one generic OpenID Connect login provider, read from OIDC_<NAME>_* variables
+const oidcProviderSchema = z.object({
+  name: z
+    .string()
+    .regex(/^[a-z][a-z0-9]*$/, { message: 'OIDC provider names must be lowercase alphanumeric' })
+    .refine(name => !['google', 'github', 'providers', 'social', 'saml'].includes(name), {
+      message: 'OIDC provider name is reserved',
+    }),
+  displayName: z.string().min(1),
+  issuer: z.string().url(),
+  clientId: z.string().min(1),
+  // Omitted for public clients
+  clientSecret: z.string().optional(),
+  scopes: z.string().default('openid email profile'),
 });
 
 let envVars: z.infer<typeof envVarsSchema>;
+let oidcProviders: z.infer<typeof oidcProviderSchema>[];
 
 try {
   envVars = envVarsSchema.parse(process.env);
+  oidcProviders = (envVars.OIDC_PROVIDERS || '')
+    .split(',')
+    .map(name => name.trim().toLowerCase())
+    .filter(Boolean)
+    .map(name => {
+      const prefix = `OIDC_${name.toUpperCase()}_`;
+      return oidcProviderSchema.parse({
+        name,
+        displayName: process.env[`${prefix}DISPLAY_NAME`] || name,
+        issuer: process.env[`${prefix}ISSUER`],
+        clientId: process.env[`${prefix}CLIENT_ID`],
+        clientSecret: process.env[`${prefix}CLIENT_SECRET`] || undefined,
+        scopes: process.env[`${prefix}SCOPES`] || undefined,
+      });
+    });
 } catch (error) {
   const configError = new Error(
     `Config validation error: ${error instanceof z.ZodError ? error.issues[0]?.message : error.message}`
@@ -48,6 +107,17 @@ const config = {
     refreshExpirationDays: envVars.JWT_REFRESH_EXPIRATION_DAYS,
     resetPasswordExpirationMinutes: envVars.JWT_RESET_PASSWORD_EXPIRATION_MINUTES,
     verifyEmailExpirationMinutes: envVars.JWT_VERIFY_EMAIL_EXPIRATION_MINUTES,
+    magicLinkExpirationMinutes: envVars.JWT_MAGIC_LINK_EXPIRATION_MINUTES,
+    // Support staff acting as a user get an access token only, never longer than a normal one
+    impersonationExpirationMinutes: Math.min(
+      envVars.JWT_IMPERSONATION_EXPIRATION_MINUTES,
+      envVars.JWT_ACCESS_EXPIRATION_MINUTES
+    ),
+    // Access tokens are signed with rotating asymmetric keys published as a JWKS
+    signingAlgorithm: envVars.JWT_SIGNING_ALGORITHM,
+    keyRotationDays: envVars.JWT_KEY_ROTATION_DAYS,
+    // Encrypts signing private keys at rest; falls back to the JWT secret when not set
+    keyEncryptionSecret: envVars.JWT_KEY_ENCRYPTION_SECRET || envVars.JWT_SECRET,
   },
   email: {
     smtp: {
@@ -66,7 +136,67 @@ const config = {
     password: envVars.REDIS_PASSWORD,
     db: envVars.REDIS_DB,
   },
+  audit: {
+    // Keys audit log checkpoints and digests; falls back to the JWT secret when not set
+    signingSecret: envVars.AUDIT_LOG_SIGNING_SECRET || envVars.JWT_SECRET,
+  },
+  account: {
+    deletionGraceDays: envVars.ACCOUNT_DELETION_GRACE_DAYS,
+  },
+  dataExport: {
+    dir: path.resolve(process.cwd(), envVars.DATA_EXPORT_DIR),
+    linkTtlHours: envVars.DATA_EXPORT_LINK_TTL_HOURS,
+    linkSecret: envVars.DATA_EXPORT_LINK_SECRET || envVars.JWT_SECRET,
+  },
+  webauthn: {
+    rpId: envVars.WEBAUTHN_RP_ID,
+    rpName: envVars.WEBAUTHN_RP_NAME,
+    // Origins allowed to run ceremonies; defaults to the client app
+    origins: (envVars.WEBAUTHN_ORIGINS || envVars.CLIENT_URL).split(',').map(o => o.trim()),
+  },
+  sms: {
+    // Local stand-ins; production providers are plugged in with smsService.setTransport
+    transport: envVars.SMS_TRANSPORT,
+    filePath: path.resolve(process.cwd(), envVars.SMS_FILE_PATH),
+  },
+  oauth: {
+    // Page of the client app that signs the user in and asks for consent to an authorization
+    loginUrl: envVars.OAUTH_LOGIN_URL || `${envVars.CLIENT_URL}/oauth/authorize`,
+  },
+  social: {
+    google: {
+      clientId: envVars.GOOGLE_CLIENT_ID,
+      clientSecret: envVars.GOOGLE_CLIENT_SECRET,
+    },
+    github: {
+      clientId: envVars.GITHUB_CLIENT_ID,
+      clientSecret: envVars.GITHUB_CLIENT_SECRET,
+    },
+    // Encrypts provider access and refresh tokens at rest; falls back to the JWT secret when not set
+    tokenEncryptionSecret: envVars.SOCIAL_TOKEN_ENCRYPTION_SECRET || envVars.JWT_SECRET,
+  },
+  notifications: {
+    // Encrypts the secrets signing users' notification webhooks; falls back to the JWT secret
+    webhookEncryptionSecret: envVars.NOTIFICATION_WEBHOOK_ENCRYPTION_SECRET || envVars.JWT_SECRET,
+  },
+  oidc: {
+    providers: oidcProviders,
+    // Client app page that receives the one-time code after a provider login
+    loginRedirectUrl:
+      envVars.OIDC_LOGIN_REDIRECT_URL || `${envVars.CLIENT_URL}/auth/social/callback`,
+  },
+  saml: {
+    // PEM key pair signing AuthnRequests and SP metadata; both unsigned when not set
+    spPrivateKeyFile:
+      envVars.SAML_SP_PRIVATE_KEY_FILE &&
+      path.resolve(process.cwd(), envVars.SAML_SP_PRIVATE_KEY_FILE),
+    spCertificateFile:
+      envVars.SAML_SP_CERTIFICATE_FILE &&
+      path.resolve(process.cwd(), envVars.SAML_SP_CERTIFICATE_FILE),
+  },
   clientUrl: envVars.CLIENT_URL,
+  // Public base URL of this API, used for links sent by email
+  apiUrl: envVars.API_URL,
 };
 
 export default config;
@@ -1,8 +1,16 @@
 import prisma from '../client';
-import { Strategy as JwtStrategy, ExtractJwt, VerifyCallback } from 'passport-jwt';
-import config from './config';
+import { Request } from 'express';
+import {
+  Strategy as JwtStrategy,
+  ExtractJwt,
+  StrategyOptions,
+  VerifyCallbackWithRequest,
+} from 'passport-jwt';
+import tokenRevocationService from '../services/tokenRevocation.service';
+import signingKeyService from '../services/signingKey.service';
 import setupGoogleStrategy from '../strategies/google.strategy';
 import setupGitHubStrategy from '../strategies/github.strategy';
+import { AccessTokenPayload } from '../types/auth.types';
 
 // Use string literal for TokenType to avoid Prisma import issues
 const TokenType = {
@@ -13,27 +21,63 @@ const TokenType = {
   TWO_FACTOR: 'TWO_FACTOR',
 } as const;
 
-const jwtOptions = {
-  secretOrKey: config.jwt.secret,
+// Access tokens are verified with whichever non-retired signing key their `kid` header names
+const jwtOptions: StrategyOptions = {
+  secretOrKeyProvider: (req, rawJwtToken, done) => {
+    signingKeyService
+      .getVerificationKeyForToken(rawJwtToken)
+      .then(key =>
+        key
+          ? done(null, key.publicKey.export({ type: 'spki', format: 'pem' }))
+          : done(new Error('Unknown signing key'))
+      )
+      .catch(error => done(error));
+  },
+  algorithms: ['RS256', 'ES256'],
   jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
+  passReqToCallback: true,
 };
 
-const jwtVerify: VerifyCallback = async (payload, done) => {
+/**
+ * User a verified access token signs in, unless the token was revoked or the account is
+ * deactivated, locked or erased. Shared by the HTTP and WebSocket authentication.
+ * @param {AccessTokenPayload} payload
+ * @returns {Promise<Object | null>}
+ */
+export const findAccessTokenUser = async (payload: AccessTokenPayload) => {
+  if (await tokenRevocationService.isAccessTokenRevoked(payload)) {
+    return null;
+  }
+  const user = await prisma.user.findUnique({
+    select: {
+      id: true,
+      email: true,
+      name: true,
+      role: true,
+      isActive: true,
+      isLocked: true,
+      erasedAt: true,
+    },
+    where: { id: payload.sub },
+  });
+  if (!user || user.erasedAt || !user.isActive || user.isLocked) {
+    return null;
+  }
+  const { isActive, isLocked, erasedAt, ...authenticatedUser } = user;
+  return authenticatedUser;
+};
+
+const jwtVerify: VerifyCallbackWithRequest<Request> = async (req, payload, done) => {
   try {
     if (payload.type !== TokenType.ACCESS) {
       throw new Error('Invalid token type');
     }
-    const user = await prisma.user.findUnique({
-      select: {
-        id: true,
-        email: true,
-        name: true,
-      },
-      where: { id: payload.sub },
-    });
+    const user = await findAccessTokenUser(payload);
     if (!user) {
       return done(null, false);
     }
+    // Session and actor claims are read when the request principal is built
+    req.accessTokenPayload = payload;
     done(null, user);
   } catch (error) {
     done(error, false);
@@ -1,32 +1,17 @@
-import { Role } from '@prisma/client';
+import { Permission, Role } from '@prisma/client';
 
 const allRoles = {
+  // Users reach most /v1/users/:userId routes of their own account without the right those
+  // routes require; manageUsers (update or delete the account itself) is never granted that way.
+  // getSessions and manageSessions cover the user's own sessions only; the analytics, security
+  // event and cleanup routes of /v1/sessions require manageAllSessions.
   [Role.USER]: [
     'getProfile',
     'updateProfile',
     'getPreferences',
     'updatePreferences',
-    'getPrivacySettings',
-    'updatePrivacySettings',
-    'getAccountStatus',
-    'getUserStats',
-    'getUserActivity',
-    'getActivityStats',
-    'getUserDevices',
-    'getDeviceSessions',
-    'trustDevice',
-    'removeDevice',
-    'removeAllOtherDevices',
-    'getUserNotifications',
-    'markNotificationAsRead',
-    'markAllNotificationsAsRead',
-    'deleteNotification',
-    'deleteReadNotifications',
-    'getNotificationStats',
-    'getSecurityLogs',
-    'getSecurityStats',
-    'exportUserData',
-    'deleteAccount',
+    'getSessions',
+    'manageSessions',
     'uploadAvatar',
     'removeAvatar',
     'setupTwoFactor',
@@ -35,7 +20,12 @@ const allRoles = {
     'getTwoFactorStatus',
     'regenerateBackupCodes',
   ],
+  // Every right of USER is included, so admins can impersonate users (see impersonation.service)
   [Role.ADMIN]: [
+    'getProfile',
+    'updateProfile',
+    'getPreferences',
+    'updatePreferences',
     'getUsers',
     'manageUsers',
     'getUserProfile',
@@ -74,12 +64,107 @@ const allRoles = {
     'getLockedUsers',
     'unlockUserAccount',
     'forcePasswordChange',
+    'getSessions',
+    'manageSessions',
+    'manageAllSessions',
     'getDetailedHealthCheck',
+    'manageApiKeys',
+    'getAuditLogs',
+    'exportAuditLogs',
+    'manageAuditLogs',
+    'verifyAuditLogs',
+    'manageDataProcessing',
+    'manageOAuthClients',
+    'manageSamlConnections',
+    'scimProvisioning',
+    'impersonateUsers',
   ],
 };
 
+/**
+ * API key scopes ("resource:action") and the role rights / RBAC permissions they unlock.
+ * A key never grants more than its owner already has.
+ */
+const apiKeyScopes: Record<string, { rights: string[]; permissions: Permission[] }> = {
+  'users:read': {
+    rights: [
+      'getUsers',
+      'getUserProfile',
+      'getUserPreferences',
+      'getPrivacySettings',
+      'getAccountStatus',
+      'getUserStats',
+      'getUserActivity',
+      'getActivityStats',
+      'getUserDevices',
+      'getUserNotifications',
+      'getNotificationStats',
+      'exportUserData',
+      'getUsersWithExpiringPasswords',
+      'getLockedUsers',
+    ],
+    permissions: [Permission.USER_READ],
+  },
+  'users:write': {
+    rights: [
+      'manageUsers',
+      'updateUserProfile',
+      'updateUserPreferences',
+      'updatePrivacySettings',
+      'unlockUserAccount',
+      'forcePasswordChange',
+    ],
+    permissions: [Permission.USER_CREATE, Permission.USER_UPDATE],
+  },
+  'users:delete': {
+    rights: ['manageUsers', 'deleteAccount'],
+    permissions: [Permission.USER_DELETE],
+  },
+  'roles:read': {
+    rights: [],
+    permissions: [Permission.ROLE_READ],
+  },
+  'roles:write': {
+    rights: [],
+    permissions: [Permission.ROLE_CREATE, Permission.ROLE_UPDATE, Permission.ROLE_DELETE],
+  },
+  'audit:read': {
+    rights: ['getAuditLogs', 'verifyAuditLogs'],
+    permissions: [Permission.AUDIT_READ],
+  },
+  'audit:export': {
+    rights: ['exportAuditLogs'],
+    permissions: [Permission.AUDIT_EXPORT],
+  },
+  'sessions:read': {
+    rights: ['getSessions', 'getDeviceSessions'],
+    permissions: [Permission.SESSION_READ],
+  },
+  'sessions:write': {
+    rights: ['manageSessions', 'trustDevice', 'removeDevice', 'removeAllOtherDevices'],
+    permissions: [Permission.SESSION_MANAGE],
+  },
+  'security:read': {
+    rights: ['getSecurityLogs', 'getSecurityStats'],
+    permissions: [Permission.SECURITY_READ],
+  },
+  'analytics:read': {
+    rights: ['getDetailedHealthCheck'],
+    permissions: [Permission.ANALYTICS_READ],
+  },
+  // Identity providers pushing users and groups to /scim/v2
+  'scim:provision': {
+    rights: ['scimProvisioning'],
+    permissions: [],
+  },
+};
+
+// Scopes that delegate everything the key owner is allowed to do
+export const apiKeyWildcardScopes = ['*', 'admin:all'];
+
 export const roles = Object.keys(allRoles);
 export const roleRights = new Map(Object.entries(allRoles));
+export const apiKeyScopeGrants = new Map(Object.entries(apiKeyScopes));
 
 // Export roles object for use in routes
 export { Role };
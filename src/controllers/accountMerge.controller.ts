@@ -0,0 +1,54 @@
+import httpStatus from 'http-status';
+import { Request, Response } from 'express';
+import catchAsync from '../utils/catchAsync';
+import { sendSuccess } from '../utils/apiResponse';
+import accountMergeService from '../services/accountMerge.service';
+
+/**
+ * List accounts that probably belong to the current user
+ * @route GET /v1/me/account-merge/candidates
+ * @access Private
+ */
+const getCandidates = catchAsync(async (req: Request, res: Response) => {
+  const candidates = await accountMergeService.findDuplicateCandidates((req.user as any).id);
+  return sendSuccess(
+    res,
+    { candidates },
+    'Possible duplicate accounts retrieved successfully',
+    httpStatus.OK,
+    req.requestId
+  );
+});
+
+/**
+ * Prove control of both accounts and start merging the other one into the current one
+ * @route POST /v1/me/account-merge
+ * @access Private
+ */
+const startMerge = catchAsync(async (req: Request, res: Response) => {
+  const result = await accountMergeService.startMerge(
+    (req.user as any).id,
+    req.body.current,
+    req.body.other,
+    req
+  );
+  return sendSuccess(res, result, 'Account merge started', httpStatus.OK, req.requestId);
+});
+
+/**
+ * Verify second factors and merge the accounts
+ * @route POST /v1/me/account-merge/complete
+ * @access Private
+ */
+const completeMerge = catchAsync(async (req: Request, res: Response) => {
+  const { mergeToken, currentCode, otherCode } = req.body;
+  const merged = await accountMergeService.completeMerge(
+    (req.user as any).id,
+    mergeToken,
+    { currentCode, otherCode },
+    req
+  );
+  return sendSuccess(res, { merged }, 'Accounts merged successfully', httpStatus.OK, req.requestId);
+});
+
+export { getCandidates, startMerge, completeMerge };
@@ -0,0 +1,176 @@
+import httpStatus from 'http-status';
+import catchAsync from '../utils/catchAsync';
+import { sendSuccess, sendCreated } from '../utils/apiResponse';
+import ApiError from '../utils/ApiError';
+import apiKeyService from '../services/apiKey.service';
+import exclude from '../utils/exclude';
+import { Request, Response } from 'express';
+
+/**
+ * Create API key for the current user
+ * @route POST /v1/api-keys
+ * @access Private
+ */
+const createApiKey = catchAsync(async (req: Request, res: Response) => {
+  const userId = (req.user as any).id;
+  const apiKey = await apiKeyService.createApiKey(userId, req.body, req);
+
+  return sendCreated(
+    res,
+    { apiKey: exclude(apiKey as any, ['hashedKey']) },
+    'API key created successfully. Store the key now, it will not be shown again.',
+    req.requestId
+  );
+});
+
+/**
+ * Get API keys of the current user
+ * @route GET /v1/api-keys
+ * @access Private
+ */
+const getApiKeys = catchAsync(async (req: Request, res: Response) => {
+  const apiKeys = await apiKeyService.getUserApiKeys((req.user as any).id);
+  return sendSuccess(
+    res,
+    { apiKeys },
+    'API keys retrieved successfully',
+    httpStatus.OK,
+    req.requestId
+  );
+});
+
+/**
+ * Get API key by ID
+ * @route GET /v1/api-keys/:apiKeyId
+ * @access Private
+ */
+const getApiKey = catchAsync(async (req: Request, res: Response) => {
+  const apiKey = await apiKeyService.getApiKeyById(
+    (req.user as any).id,
+    req.params.apiKeyId as string
+  );
+  if (!apiKey) {
+    throw new ApiError(httpStatus.NOT_FOUND, 'API key not found');
+  }
+  return sendSuccess(
+    res,
+    { apiKey },
+    'API key retrieved successfully',
+    httpStatus.OK,
+    req.requestId
+  );
+});
+
+/**
+ * Update API key
+ * @route PATCH /v1/api-keys/:apiKeyId
+ * @access Private
+ */
+const updateApiKey = catchAsync(async (req: Request, res: Response) => {
+  const apiKey = await apiKeyService.updateApiKey(
+    (req.user as any).id,
+    req.params.apiKeyId as string,
+    req.body,
+    req
+  );
+  return sendSuccess(
+    res,
+    { apiKey: exclude(apiKey, ['hashedKey']) },
+    'API key updated successfully',
+    httpStatus.OK,
+    req.requestId
+  );
+});
+
+/**
+ * Rotate API key, invalidating the previous secret
+ * @route POST /v1/api-keys/:apiKeyId/regenerate
+ * @access Private
+ */
+const regenerateApiKey = catchAsync(async (req: Request, res: Response) => {
+  const key = await apiKeyService.regenerateApiKey(
+    (req.user as any).id,
+    req.params.apiKeyId as string,
+    req
+  );
+  return sendSuccess(
+    res,
+    { id: req.params.apiKeyId, key },
+    'API key regenerated successfully. Store the key now, it will not be shown again.',
+    httpStatus.OK,
+    req.requestId
+  );
+});
+
+/**
+ * Revoke API key
+ * @route DELETE /v1/api-keys/:apiKeyId
+ * @access Private
+ */
+const revokeApiKey = catchAsync(async (req: Request, res: Response) => {
+  await apiKeyService.revokeApiKey((req.user as any).id, req.params.apiKeyId as string, req);
+  res.status(httpStatus.NO_CONTENT).send();
+});
+
+/**
+ * Get API key usage statistics
+ * @route GET /v1/api-keys/:apiKeyId/usage
+ * @access Private
+ */
+const getApiKeyUsage = catchAsync(async (req: Request, res: Response) => {
+  const usage = await apiKeyService.getApiKeyUsageStats(
+    (req.user as any).id,
+    req.params.apiKeyId as string
+  );
+  return sendSuccess(
+    res,
+    { usage },
+    'API key usage retrieved successfully',
+    httpStatus.OK,
+    req.requestId
+  );
+});
+
+/**
+ * Get all API keys (admin only)
+ * @route GET /v1/api-keys/admin/all
+ * @access Private (Admin)
+ */
+const getAllApiKeys = catchAsync(async (req: Request, res: Response) => {
+  const apiKeys = await apiKeyService.getAllApiKeys();
+  return sendSuccess(
+    res,
+    { apiKeys: apiKeys.map(apiKey => exclude(apiKey, ['hashedKey'])) },
+    'API keys retrieved successfully',
+    httpStatus.OK,
+    req.requestId
+  );
+});
+
+/**
+ * Deactivate expired API keys (admin only)
+ * @route POST /v1/api-keys/admin/cleanup
+ * @access Private (Admin)
+ */
+const cleanupExpiredApiKeys = catchAsync(async (req: Request, res: Response) => {
+  const deactivatedCount = await apiKeyService.cleanupExpiredKeys();
+  return sendSuccess(
+    res,
+    { deactivatedCount },
+    'Expired API keys cleaned up successfully',
+    httpStatus.OK,
+    req.requestId
+  );
+});
+
+export {
+  createApiKey,
+  getApiKeys,
+  getApiKey,
+  updateApiKey,
+  regenerateApiKey,
+  revokeApiKey,
+  getApiKeyUsage,
+  getAllApiKeys,
+  cleanupExpiredApiKeys,
+};
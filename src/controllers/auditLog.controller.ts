@@ -14,6 +14,7 @@ const auditLogService = new AuditLogService();
 const getAuditLogs = catchAsync(async (req: Request, res: Response) => {
   const filters = {
     userId: req.query.userId as string,
+    impersonatorId: req.query.impersonatorId as string,
     action: req.query.action as string,
     resource: req.query.resource as string,
     resourceId: req.query.resourceId as string,
@@ -190,7 +191,25 @@ const cleanupOldAuditLogs = catchAsync(async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * Verify the audit log hash chain
+ * @route GET /v1/audit-logs/verify
+ * @access Private (Admin only)
+ */
+const verifyAuditLogChain = catchAsync(async (req: Request, res: Response) => {
+  const result = await auditLogService.verifyChain();
+
+  return sendSuccess(
+    res,
+    result,
+    result.valid ? 'Audit log chain is intact' : 'Audit log chain is broken',
+    httpStatus.OK,
+    req.requestId
+  );
+});
+
 export {
+  verifyAuditLogChain,
   getAuditLogs,
   getAuditLogById,
   getAuditLogStatistics,
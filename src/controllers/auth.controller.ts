@@ -59,8 +59,47 @@ const register = catchAsync(async (req: Request, res: Response) => {
  */
 const login = catchAsync(async (req: Request, res: Response) => {
   const { email, password } = req.body;
-  const tokens = await authService.loginUserWithEmailAndPassword(email, password, req);
-  return sendSuccess(res, { tokens }, 'Login successful', httpStatus.OK, req.requestId);
+  const result = await authService.loginUserWithEmailAndPassword(email, password, req);
+  if ('twoFactorRequired' in result) {
+    return sendSuccess(res, result, 'Second factor required', httpStatus.OK, req.requestId);
+  }
+  return sendSuccess(res, { tokens: result }, 'Login successful', httpStatus.OK, req.requestId);
+});
+
+/**
+ * Request a magic sign-in link
+ * @route POST /v1/auth/magic-link
+ * @access Public
+ */
+const requestMagicLink = catchAsync(async (req: Request, res: Response) => {
+  await authService.requestMagicLink(req.body.email, req);
+  res.status(httpStatus.NO_CONTENT).send();
+});
+
+/**
+ * Login with a magic link token
+ * @route POST /v1/auth/magic-link/verify
+ * @access Public
+ */
+const verifyMagicLink = catchAsync(async (req: Request, res: Response) => {
+  const result = await authService.loginWithMagicLink(req.body.token, req);
+  if ('twoFactorRequired' in result) {
+    return sendSuccess(res, result, 'Second factor required', httpStatus.OK, req.requestId);
+  }
+  return sendSuccess(res, { tokens: result }, 'Login successful', httpStatus.OK, req.requestId);
+});
+
+/**
+ * Login with the one-time code issued after signing in with an identity provider
+ * @route POST /v1/auth/social/exchange
+ * @access Public
+ */
+const exchangeSocialLoginCode = catchAsync(async (req: Request, res: Response) => {
+  const result = await authService.loginWithSocialLoginCode(req.body.code, req);
+  if ('twoFactorRequired' in result) {
+    return sendSuccess(res, result, 'Second factor required', httpStatus.OK, req.requestId);
+  }
+  return sendSuccess(res, { tokens: result }, 'Login successful', httpStatus.OK, req.requestId);
 });
 
 /**
@@ -199,27 +238,24 @@ const changePassword = catchAsync(async (req: Request, res: Response) => {
 });
 
 /**
- * Verify 2FA and complete login
+ * Verify a second factor code and complete login
  * @route POST /v1/auth/verify-2fa
  * @access Public
  */
 const verifyTwoFactor = catchAsync(async (req: Request, res: Response) => {
-  const { userId, token } = req.body;
-
-  const isValid = await authService.verifyTwoFactorToken(userId, token);
-
-  if (!isValid) {
-    throw new ApiError(httpStatus.UNAUTHORIZED, 'Invalid 2FA token');
-  }
-
-  const user = await authService.getUserById(userId);
-  const tokens = await tokenService.generateAuthTokens(user as any, req);
+  const { twoFactorToken, code, method } = req.body;
+  const tokens = await authService.loginWithTwoFactorCode(twoFactorToken, code, method, req);
+  return sendSuccess(res, { tokens }, 'Login successful', httpStatus.OK, req.requestId);
+});
 
-  res.send({
-    user: tokens.user,
-    tokens: tokens.access,
-    device: tokens.device,
-  });
+/**
+ * Send a login code by email or SMS for a pending two-factor login
+ * @route POST /v1/auth/2fa/send-code
+ * @access Public
+ */
+const sendTwoFactorCode = catchAsync(async (req: Request, res: Response) => {
+  await authService.sendTwoFactorLoginCode(req.body.twoFactorToken, req.body.method);
+  res.status(httpStatus.NO_CONTENT).send();
 });
 
 /**
@@ -484,7 +520,11 @@ const getPerformanceAlerts = catchAsync(async (req: Request, res: Response) => {
 export default {
   register,
   login,
+  requestMagicLink,
+  verifyMagicLink,
+  exchangeSocialLoginCode,
   verifyTwoFactor,
+  sendTwoFactorCode,
   logout,
   refreshTokens,
   forgotPassword,
@@ -0,0 +1,56 @@
+import httpStatus from 'http-status';
+import catchAsync from '../utils/catchAsync';
+import { sendSuccess } from '../utils/apiResponse';
+import dataExportService from '../services/dataExport.service';
+import { Request, Response } from 'express';
+
+/**
+ * Start an export of the current user's personal data
+ * @route POST /v1/me/export
+ * @access Private
+ */
+const requestExport = catchAsync(async (req: Request, res: Response) => {
+  const job = await dataExportService.requestExport((req.user as any).id);
+  return sendSuccess(
+    res,
+    { job: { id: job.id, status: job.status, createdAt: job.createdAt } },
+    'Data export started. A download link will be emailed when it is ready.',
+    httpStatus.ACCEPTED,
+    req.requestId
+  );
+});
+
+/**
+ * Poll the status of an export job
+ * @route GET /v1/me/export/:jobId
+ * @access Private
+ */
+const getExportJob = catchAsync(async (req: Request, res: Response) => {
+  const job = await dataExportService.getExportJob(
+    (req.user as any).id,
+    req.params.jobId as string
+  );
+  return sendSuccess(
+    res,
+    { job },
+    'Export job retrieved successfully',
+    httpStatus.OK,
+    req.requestId
+  );
+});
+
+/**
+ * Download an export archive through a signed link
+ * @route GET /v1/data-exports/:jobId/download
+ * @access Public (signed link)
+ */
+const downloadExport = catchAsync(async (req: Request, res: Response) => {
+  const filePath = await dataExportService.getDownloadPath(
+    req.params.jobId as string,
+    Number(req.query.expires),
+    req.query.signature as string
+  );
+  res.download(filePath, `personal-data-export-${req.params.jobId}.zip`);
+});
+
+export { requestExport, getExportJob, downloadExport };
@@ -0,0 +1,107 @@
+import httpStatus from 'http-status';
+import catchAsync from '../utils/catchAsync';
+import { sendSuccess, sendCreated } from '../utils/apiResponse';
+import ApiError from '../utils/ApiError';
+import dataProcessingService from '../services/dataProcessing.service';
+import { LegalBasis, ProcessingRecordStatus } from '../types/dataProcessing.types';
+import { Request, Response } from 'express';
+
+/**
+ * Get the current user's consents and processing records
+ * @route GET /v1/me/consents
+ * @access Private
+ */
+const getMyConsents = catchAsync(async (req: Request, res: Response) => {
+  const records = await dataProcessingService.getUserRecords(
+    (req.user as any).id,
+    req.query.status as ProcessingRecordStatus | undefined
+  );
+  return sendSuccess(
+    res,
+    { records },
+    'Processing records retrieved successfully',
+    httpStatus.OK,
+    req.requestId
+  );
+});
+
+/**
+ * Give consent for a processing purpose
+ * @route POST /v1/me/consents
+ * @access Private
+ */
+const giveConsent = catchAsync(async (req: Request, res: Response) => {
+  const record = await dataProcessingService.recordProcessing(
+    (req.user as any).id,
+    { ...req.body, legalBasis: LegalBasis.CONSENT },
+    req
+  );
+  return sendCreated(res, { record }, 'Consent recorded successfully', req.requestId);
+});
+
+/**
+ * Withdraw consent
+ * @route POST /v1/me/consents/:recordId/withdraw
+ * @access Private
+ */
+const withdrawConsent = catchAsync(async (req: Request, res: Response) => {
+  const record = await dataProcessingService.withdrawConsent(
+    (req.user as any).id,
+    req.params.recordId as string
+  );
+  return sendSuccess(
+    res,
+    { record },
+    'Consent withdrawn successfully',
+    httpStatus.OK,
+    req.requestId
+  );
+});
+
+/**
+ * Record processing of a user's data on any legal basis
+ * @route POST /v1/data-processing-records
+ * @access Private (Admin only)
+ */
+const recordProcessing = catchAsync(async (req: Request, res: Response) => {
+  const { userId, ...data } = req.body;
+  const record = await dataProcessingService.recordProcessing(userId, data);
+  return sendCreated(res, { record }, 'Processing record created successfully', req.requestId);
+});
+
+/**
+ * Query processing records, e.g. by purpose for an audit
+ * @route GET /v1/data-processing-records
+ * @access Private (Admin only)
+ */
+const queryRecords = catchAsync(async (req: Request, res: Response) => {
+  const result = await dataProcessingService.queryRecords(req.query as any);
+  return sendSuccess(
+    res,
+    result,
+    'Processing records retrieved successfully',
+    httpStatus.OK,
+    req.requestId
+  );
+});
+
+/**
+ * Get a processing record
+ * @route GET /v1/data-processing-records/:recordId
+ * @access Private (Admin only)
+ */
+const getRecord = catchAsync(async (req: Request, res: Response) => {
+  const record = await dataProcessingService.getRecordById(req.params.recordId as string);
+  if (!record) {
+    throw new ApiError(httpStatus.NOT_FOUND, 'Processing record not found');
+  }
+  return sendSuccess(
+    res,
+    { record },
+    'Processing record retrieved successfully',
+    httpStatus.OK,
+    req.requestId
+  );
+});
+
+export { getMyConsents, giveConsent, withdrawConsent, recordProcessing, queryRecords, getRecord };
@@ -0,0 +1,31 @@
+import httpStatus from 'http-status';
+import { Request, Response } from 'express';
+import catchAsync from '../utils/catchAsync';
+import { sendSuccess } from '../utils/apiResponse';
+import impersonationService from '../services/impersonation.service';
+
+/**
+ * Issue a short-lived access token acting as a user
+ * @route POST /v1/users/:userId/impersonation
+ * @access Private (Admin only)
+ */
+const startImpersonation = catchAsync(async (req: Request, res: Response) => {
+  const result = await impersonationService.startImpersonation(
+    req.params.userId as string,
+    req.body,
+    req
+  );
+  return sendSuccess(res, result, 'Impersonation started', httpStatus.CREATED, req.requestId);
+});
+
+/**
+ * End the impersonation session the request is made with
+ * @route DELETE /v1/users/:userId/impersonation
+ * @access Private (impersonation token)
+ */
+const endImpersonation = catchAsync(async (req: Request, res: Response) => {
+  await impersonationService.endImpersonation(req.params.userId as string, req);
+  return sendSuccess(res, null, 'Impersonation ended', httpStatus.OK, req.requestId);
+});
+
+export { startImpersonation, endImpersonation };
@@ -5,6 +5,18 @@ import deviceController from './device.controller';
 import profileController from './profile.controller';
 import healthController from './health.controller';
 import * as ipSecurityController from './ipSecurity.controller';
+import * as apiKeyController from './apiKey.controller';
+import * as dataExportController from './dataExport.controller';
+import * as dataProcessingController from './dataProcessing.controller';
+import * as webAuthnController from './webAuthn.controller';
+import * as wellKnownController from './wellKnown.controller';
+import * as oauthController from './oauth.controller';
+import * as samlController from './saml.controller';
+import * as scimController from './scim.controller';
+import * as accountMergeController from './accountMerge.controller';
+import * as impersonationController from './impersonation.controller';
+import * as notificationStreamController from './notificationStream.controller';
+import * as notificationPreferenceController from './notificationPreference.controller';
 
 export {
   authController,
@@ -14,4 +26,16 @@ export {
   profileController,
   healthController,
   ipSecurityController,
+  apiKeyController,
+  dataExportController,
+  dataProcessingController,
+  webAuthnController,
+  wellKnownController,
+  oauthController,
+  samlController,
+  scimController,
+  accountMergeController,
+  impersonationController,
+  notificationStreamController,
+  notificationPreferenceController,
 };
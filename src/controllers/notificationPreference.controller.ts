@@ -0,0 +1,43 @@
+import httpStatus from 'http-status';
+import { Request, Response } from 'express';
+import catchAsync from '../utils/catchAsync';
+import { sendSuccess } from '../utils/apiResponse';
+import notificationPreferenceService from '../services/notificationPreference.service';
+
+/**
+ * Get the current user's notification preferences
+ * @route GET /v1/me/notification-preferences
+ * @access Private
+ */
+const getPreferences = catchAsync(async (req: Request, res: Response) => {
+  const preferences = await notificationPreferenceService.getPreferences((req.user as any).id);
+  return sendSuccess(
+    res,
+    preferences,
+    'Notification preferences retrieved',
+    httpStatus.OK,
+    req.requestId
+  );
+});
+
+/**
+ * Update the current user's notification preferences. Setting a webhook URL returns the
+ * secret its requests are signed with, only in this response.
+ * @route PATCH /v1/me/notification-preferences
+ * @access Private
+ */
+const updatePreferences = catchAsync(async (req: Request, res: Response) => {
+  const preferences = await notificationPreferenceService.updatePreferences(
+    (req.user as any).id,
+    req.body
+  );
+  return sendSuccess(
+    res,
+    preferences,
+    'Notification preferences updated',
+    httpStatus.OK,
+    req.requestId
+  );
+});
+
+export { getPreferences, updatePreferences };
@@ -0,0 +1,122 @@
+import httpStatus from 'http-status';
+import { Request, Response } from 'express';
+import logger from '../config/logger';
+import catchAsync from '../utils/catchAsync';
+import notificationStreamService from '../services/notificationStream.service';
+import notificationDeliveryService from '../services/notificationDelivery.service';
+import notificationPreferenceService from '../services/notificationPreference.service';
+import { NotificationTypeName } from '../types/notification.types';
+
+// Keeps proxies from closing an idle stream
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+// How long the browser waits before reconnecting a dropped stream
+const RECONNECT_DELAY_MS = 5 * 1000;
+
+/**
+ * Stream the current user's push notifications as Server-Sent Events. Stored notifications
+ * use their id as the event id and are replayed after the `Last-Event-ID` a reconnecting
+ * client sends. Disabled notification types are skipped, and stored notifications are held
+ * back during quiet hours and sent once they end.
+ * @route GET /v1/me/notifications/stream
+ * @access Private
+ */
+const streamNotifications = catchAsync(async (req: Request, res: Response) => {
+  const userId = (req.user as any).id as string;
+  let cursor = await notificationStreamService.getCursor(userId, req.get('Last-Event-ID'));
+
+  // no-transform also keeps the compression middleware from buffering events
+  res.status(httpStatus.OK).set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+  res.flushHeaders();
+  res.write(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+
+  let closed = false;
+  // Set while quiet hours hold back stored notifications
+  let held = false;
+  let pending = Promise.resolve();
+
+  const enqueue = (task: () => Promise<void>) => {
+    pending = pending.then(task).catch(error => {
+      logger.error('Failed to stream notifications', { userId, error });
+    });
+  };
+
+  const writeEvent = (message: any, id?: string) => {
+    if (!closed) {
+      res.write(`${id ? `id: ${id}\n` : ''}data: ${JSON.stringify(message)}\n\n`);
+    }
+  };
+
+  const sendStoredNotifications = async () => {
+    const preferences = await notificationPreferenceService.getPreferences(userId);
+    held = notificationPreferenceService.isInQuietHours(preferences);
+    if (held) {
+      return;
+    }
+
+    let batch;
+    do {
+      batch = await notificationStreamService.getNotificationsAfter(userId, cursor);
+      for (const notification of batch) {
+        if (notificationPreferenceService.resolveRoutes(preferences, notification.type).push) {
+          writeEvent(notificationDeliveryService.toPushMessage(notification), notification.id);
+        }
+        cursor = { id: notification.id, createdAt: notification.createdAt };
+      }
+    } while (!closed && batch.length === notificationStreamService.REPLAY_BATCH_SIZE);
+  };
+
+  const sendMessage = async (message: any, type: NotificationTypeName) => {
+    const preferences = await notificationPreferenceService.getPreferences(userId);
+    if (
+      !notificationPreferenceService.isInQuietHours(preferences) &&
+      notificationPreferenceService.resolveRoutes(preferences, type).push
+    ) {
+      writeEvent(message);
+    }
+  };
+
+  const heartbeat = setInterval(() => {
+    if (!closed) {
+      res.write(': heartbeat\n\n');
+    }
+    if (held) {
+      enqueue(sendStoredNotifications);
+    }
+  }, HEARTBEAT_INTERVAL_MS);
+
+  // The stream ends with the access token it was opened with; the client reconnects with a new one
+  const tokenExpiresAt = req.accessTokenPayload?.exp;
+  const expiry = tokenExpiresAt ? setTimeout(close, tokenExpiresAt * 1000 - Date.now()) : undefined;
+
+  const removeStream = notificationStreamService.addStream(userId, {
+    onEvent: event => {
+      if (event.notificationId) {
+        enqueue(sendStoredNotifications);
+      } else {
+        enqueue(() => sendMessage(event.message, event.notificationType as NotificationTypeName));
+      }
+    },
+    close,
+  });
+
+  function close() {
+    if (closed) {
+      return;
+    }
+    closed = true;
+    clearInterval(heartbeat);
+    clearTimeout(expiry);
+    removeStream();
+    res.end();
+  }
+
+  req.on('close', close);
+  enqueue(sendStoredNotifications);
+});
+
+export { streamNotifications };
@@ -0,0 +1,190 @@
+import httpStatus from 'http-status';
+import catchAsync from '../utils/catchAsync';
+import { sendSuccess, sendCreated } from '../utils/apiResponse';
+import oauthService from '../services/oauth.service';
+import oauthClientService from '../services/oauthClient.service';
+import { AuthorizationRequest } from '../types/oauth.types';
+import { Request, Response } from 'express';
+
+/**
+ * Start an authorization request by sending the user to the sign-in and consent page
+ * @route GET /v1/oauth/authorize
+ * @access Public
+ */
+const startAuthorization = catchAsync(async (req: Request, res: Response) => {
+  const redirectUrl = await oauthService.startAuthorization(
+    req.query as unknown as AuthorizationRequest
+  );
+  res.redirect(httpStatus.FOUND, redirectUrl);
+});
+
+/**
+ * Describe an authorization request for the consent screen
+ * @route GET /v1/oauth/authorize/details
+ * @access Private
+ */
+const getAuthorizationDetails = catchAsync(async (req: Request, res: Response) => {
+  const details = await oauthService.getAuthorizationDetails(
+    (req.user as any).id,
+    req.query as unknown as AuthorizationRequest
+  );
+  return sendSuccess(
+    res,
+    details,
+    'Authorization request retrieved successfully',
+    httpStatus.OK,
+    req.requestId
+  );
+});
+
+/**
+ * Approve or deny an authorization request
+ * @route POST /v1/oauth/authorize
+ * @access Private
+ */
+const authorize = catchAsync(async (req: Request, res: Response) => {
+  const { approved, ...params } = req.body;
+  const redirectTo = await oauthService.authorize((req.user as any).id, params, approved, req);
+  return sendSuccess(res, { redirectTo }, 'Authorization completed', httpStatus.OK, req.requestId);
+});
+
+/**
+ * Token endpoint
+ * @route POST /v1/oauth/token
+ * @access Client authentication
+ */
+const token = catchAsync(async (req: Request, res: Response) => {
+  const tokens = await oauthService.exchangeToken(req);
+  // Standard OAuth response body, not wrapped in the API response envelope
+  res.set({ 'Cache-Control': 'no-store', Pragma: 'no-cache' }).json(tokens);
+});
+
+/**
+ * Token introspection (RFC 7662)
+ * @route POST /v1/oauth/introspect
+ * @access Client authentication
+ */
+const introspect = catchAsync(async (req: Request, res: Response) => {
+  const result = await oauthService.introspect(req);
+  res.set('Cache-Control', 'no-store').json(result);
+});
+
+/**
+ * Token revocation (RFC 7009)
+ * @route POST /v1/oauth/revoke
+ * @access Client authentication
+ */
+const revoke = catchAsync(async (req: Request, res: Response) => {
+  await oauthService.revoke(req);
+  res.status(httpStatus.OK).end();
+});
+
+/**
+ * OpenID Connect UserInfo endpoint
+ * @route GET|POST /v1/oauth/userinfo
+ * @access OAuth access token with the openid scope
+ */
+const getUserInfo = catchAsync(async (req: Request, res: Response) => {
+  const claims = await oauthService.getUserInfo(req.get('Authorization'));
+  res.set('Cache-Control', 'no-store').json(claims);
+});
+
+/**
+ * Register an OAuth client. The secret of a confidential client is only returned here.
+ * @route POST /v1/oauth/clients
+ * @access Private (Admin only)
+ */
+const createClient = catchAsync(async (req: Request, res: Response) => {
+  const result = await oauthClientService.createClient(req.body, (req.user as any).id);
+  return sendCreated(res, result, 'OAuth client registered successfully', req.requestId);
+});
+
+/**
+ * List OAuth clients
+ * @route GET /v1/oauth/clients
+ * @access Private (Admin only)
+ */
+const listClients = catchAsync(async (req: Request, res: Response) => {
+  const clients = await oauthClientService.listClients();
+  return sendSuccess(
+    res,
+    { clients },
+    'OAuth clients retrieved successfully',
+    httpStatus.OK,
+    req.requestId
+  );
+});
+
+/**
+ * Get an OAuth client
+ * @route GET /v1/oauth/clients/:clientId
+ * @access Private (Admin only)
+ */
+const getClient = catchAsync(async (req: Request, res: Response) => {
+  const client = await oauthClientService.getClient(req.params.clientId as string);
+  return sendSuccess(
+    res,
+    { client },
+    'OAuth client retrieved successfully',
+    httpStatus.OK,
+    req.requestId
+  );
+});
+
+/**
+ * Update an OAuth client
+ * @route PATCH /v1/oauth/clients/:clientId
+ * @access Private (Admin only)
+ */
+const updateClient = catchAsync(async (req: Request, res: Response) => {
+  const client = await oauthClientService.updateClient(req.params.clientId as string, req.body);
+  return sendSuccess(
+    res,
+    { client },
+    'OAuth client updated successfully',
+    httpStatus.OK,
+    req.requestId
+  );
+});
+
+/**
+ * Issue a new secret for a confidential OAuth client
+ * @route POST /v1/oauth/clients/:clientId/secret
+ * @access Private (Admin only)
+ */
+const rotateClientSecret = catchAsync(async (req: Request, res: Response) => {
+  const result = await oauthClientService.rotateClientSecret(req.params.clientId as string);
+  return sendSuccess(
+    res,
+    result,
+    'OAuth client secret rotated successfully',
+    httpStatus.OK,
+    req.requestId
+  );
+});
+
+/**
+ * Delete an OAuth client and every token issued to it
+ * @route DELETE /v1/oauth/clients/:clientId
+ * @access Private (Admin only)
+ */
+const deleteClient = catchAsync(async (req: Request, res: Response) => {
+  await oauthClientService.deleteClient(req.params.clientId as string);
+  res.status(httpStatus.NO_CONTENT).send();
+});
+
+export {
+  startAuthorization,
+  getAuthorizationDetails,
+  authorize,
+  token,
+  introspect,
+  revoke,
+  getUserInfo,
+  createClient,
+  listClients,
+  getClient,
+  updateClient,
+  rotateClientSecret,
+  deleteClient,
+};
@@ -132,7 +132,18 @@ const deleteAccount = catchAsync(async (req: Request, res: Response) => {
     throw new ApiError(httpStatus.BAD_REQUEST, 'Password is required to delete account');
   }
 
-  await ProfileService.deleteAccount(user.id, password, req.ip);
+  const result = await ProfileService.deleteAccount(user.id, password, req.ip);
+  res.status(httpStatus.ACCEPTED).send(result);
+});
+
+/**
+ * Cancel a pending account deletion
+ * @route POST /v1/profile/account/cancel-deletion
+ * @access Private
+ */
+const cancelAccountDeletion = catchAsync(async (req: Request, res: Response) => {
+  const user = req.user as User;
+  await ProfileService.cancelAccountDeletion(user.id, req.ip);
   res.status(httpStatus.NO_CONTENT).send();
 });
 
@@ -175,6 +186,7 @@ export default {
   getUserStats,
   exportUserData,
   deleteAccount,
+  cancelAccountDeletion,
   uploadProfilePicture,
   removeProfilePicture,
 };
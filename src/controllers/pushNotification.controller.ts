@@ -5,7 +5,7 @@ import catchAsync from '../utils/catchAsync';
 import { sendSuccess, sendError } from '../utils/apiResponse';
 import { ErrorCode } from '../utils/apiResponse';
 import ApiError from '../utils/ApiError';
-import prisma from '../client';
+import notificationPreferenceService from '../services/notificationPreference.service';
 import { getWebSocketController } from '../controllers/websocket.controller';
 
 /**
@@ -14,28 +14,14 @@ import { getWebSocketController } from '../controllers/websocket.controller';
  * @access Private
  */
 const getPushPreferences = catchAsync(async (req: Request, res: Response) => {
-  const userId = req.params.userId as string;
-
-  const user = await prisma.user.findUnique({
-    where: { id: userId },
-    select: { pushNotifications: true },
-  });
-
-  if (!user) {
-    throw new ApiError(httpStatus.NOT_FOUND, 'User not found');
-  }
-
-  const preferences = user.pushNotifications
-    ? typeof user.pushNotifications === 'string'
-      ? JSON.parse(user.pushNotifications)
-      : user.pushNotifications
-    : {
-        enabled: true,
-        types: {},
-        quietHours: { enabled: false, start: '22:00', end: '08:00' },
-      };
-
-  sendSuccess(res, preferences, 'Push notification preferences retrieved');
+  const preferences = await notificationPreferenceService.getPreferences(
+    req.params.userId as string
+  );
+  sendSuccess(
+    res,
+    notificationPreferenceService.toPushPreferences(preferences),
+    'Push notification preferences retrieved'
+  );
 });
 
 /**
@@ -44,37 +30,27 @@ const getPushPreferences = catchAsync(async (req: Request, res: Response) => {
  * @access Private
  */
 const updatePushPreferences = catchAsync(async (req: Request, res: Response) => {
-  const userId = req.params.userId as string;
-  const preferences = req.body;
-
-  // Validate preferences structure
-  const validPreferences = {
-    enabled: preferences.enabled !== false,
-    types: preferences.types || {},
-    quietHours: {
-      enabled: Boolean(preferences.quietHours?.enabled),
-      start: preferences.quietHours?.start || '22:00',
-      end: preferences.quietHours?.end || '08:00',
-    },
-  };
-
-  const user = await prisma.user.findUnique({
-    where: { id: userId },
-    select: { pushNotifications: true },
-  });
-
-  if (!user) {
-    throw new ApiError(httpStatus.NOT_FOUND, 'User not found');
-  }
-
-  await prisma.user.update({
-    where: { id: userId },
-    data: {
-      pushNotifications: validPreferences,
-    },
-  });
+  const { enabled, types, quietHours } = req.body;
+
+  const preferences = await notificationPreferenceService.updatePreferences(
+    req.params.userId as string,
+    {
+      push: { enabled },
+      quietHours,
+      types: Object.fromEntries(
+        Object.entries((types || {}) as Record<string, boolean>).map(([type, push]) => [
+          type,
+          { push },
+        ])
+      ),
+    }
+  );
 
-  sendSuccess(res, validPreferences, 'Push notification preferences updated');
+  sendSuccess(
+    res,
+    notificationPreferenceService.toPushPreferences(preferences),
+    'Push notification preferences updated'
+  );
 });
 
 /**
@@ -123,7 +99,7 @@ const getWebSocketStatus = catchAsync(async (req: Request, res: Response) => {
 
   try {
     const wsController = getWebSocketController();
-    const connections = wsController?.getUserConnections(userId) || 0;
+    const connections = await wsController.getUserConnections(userId);
     const isConnected = connections > 0;
 
     sendSuccess(
@@ -133,8 +109,8 @@ const getWebSocketStatus = catchAsync(async (req: Request, res: Response) => {
         isConnected,
         connections,
         serverInfo: {
-          connectedUsers: wsController?.getConnectedUsersCount() || 0,
-          wsPort: process.env.WS_PORT || '8080',
+          connectedUsers: await wsController.getConnectedUsersCount(),
+          path: '/ws',
         },
       },
       'WebSocket status retrieved'
@@ -151,65 +127,21 @@ const getWebSocketStatus = catchAsync(async (req: Request, res: Response) => {
  * @access Private
  */
 const subscribeToNotifications = catchAsync(async (req: Request, res: Response) => {
-  const userId = req.params.userId as string;
-  const { types } = req.body;
-
-  if (!Array.isArray(types)) {
-    throw new ApiError(httpStatus.BAD_REQUEST, 'Types must be an array');
-  }
-
-  try {
-    // Update user preferences with subscriptions
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      select: { pushNotifications: true },
-    });
-
-    if (!user) {
-      throw new ApiError(httpStatus.NOT_FOUND, 'User not found');
-    }
-
-    const currentPrefs = user.pushNotifications
-      ? typeof user.pushNotifications === 'string'
-        ? JSON.parse(user.pushNotifications)
-        : user.pushNotifications
-      : {
-          enabled: true,
-          types: {},
-          quietHours: { enabled: false, start: '22:00', end: '08:00' },
-        };
-
-    const updatedPrefs = {
-      ...currentPrefs,
-      types: {
-        ...currentPrefs.types,
-        // Add or update subscription types
-        ...types.reduce((acc, type) => {
-          acc[type] = true;
-          return acc;
-        }, {}),
-      },
-    };
-
-    await prisma.user.update({
-      where: { id: userId },
-      data: {
-        pushNotifications: updatedPrefs,
-      },
-    });
-
-    sendSuccess(
-      res,
-      {
-        subscribedTypes: types,
-        allTypes: Object.keys(updatedPrefs.types),
-      },
-      'Subscribed to notification types'
-    );
-  } catch (error) {
-    console.error('Error subscribing to notifications:', error);
-    sendError(res, ErrorCode.INTERNAL_SERVER_ERROR, 'Failed to subscribe to notifications');
-  }
+  const { types } = req.body as { types: string[] };
+
+  const preferences = await notificationPreferenceService.setPushTypes(
+    req.params.userId as string,
+    Object.fromEntries(types.map(type => [type, true]))
+  );
+
+  sendSuccess(
+    res,
+    {
+      subscribedTypes: types,
+      allTypes: Object.keys(preferences.types),
+    },
+    'Subscribed to notification types'
+  );
 });
 
 /**
@@ -218,68 +150,21 @@ const subscribeToNotifications = catchAsync(async (req: Request, res: Response)
  * @access Private
  */
 const unsubscribeFromNotifications = catchAsync(async (req: Request, res: Response) => {
-  const userId = req.params.userId as string;
-  const { types } = req.body;
-
-  if (!Array.isArray(types)) {
-    throw new ApiError(httpStatus.BAD_REQUEST, 'Types must be an array');
-  }
-
-  try {
-    // Update user preferences to remove subscriptions
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      select: { pushNotifications: true },
-    });
-
-    if (!user) {
-      throw new ApiError(httpStatus.NOT_FOUND, 'User not found');
-    }
-
-    const currentPrefs = user.pushNotifications
-      ? typeof user.pushNotifications === 'string'
-        ? JSON.parse(user.pushNotifications)
-        : user.pushNotifications
-      : {
-          enabled: true,
-          types: {},
-          quietHours: { enabled: false, start: '22:00', end: '08:00' },
-        };
-
-    const updatedPrefs = {
-      ...currentPrefs,
-      types: {
-        ...currentPrefs.types,
-        // Remove subscription types
-        ...types.reduce(
-          (acc, type) => {
-            delete acc[type];
-            return acc;
-          },
-          { ...currentPrefs.types }
-        ),
-      },
-    };
-
-    await prisma.user.update({
-      where: { id: userId },
-      data: {
-        pushNotifications: updatedPrefs,
-      },
-    });
-
-    sendSuccess(
-      res,
-      {
-        unsubscribedTypes: types,
-        remainingTypes: Object.keys(updatedPrefs.types),
-      },
-      'Unsubscribed from notification types'
-    );
-  } catch (error) {
-    console.error('Error unsubscribing from notifications:', error);
-    sendError(res, ErrorCode.INTERNAL_SERVER_ERROR, 'Failed to unsubscribe from notifications');
-  }
+  const { types } = req.body as { types: string[] };
+
+  const preferences = await notificationPreferenceService.setPushTypes(
+    req.params.userId as string,
+    Object.fromEntries(types.map(type => [type, null]))
+  );
+
+  sendSuccess(
+    res,
+    {
+      unsubscribedTypes: types,
+      remainingTypes: Object.keys(preferences.types),
+    },
+    'Unsubscribed from notification types'
+  );
 });
 
 export {
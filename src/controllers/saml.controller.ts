@@ -0,0 +1,150 @@
+import httpStatus from 'http-status';
+import catchAsync from '../utils/catchAsync';
+import { sendSuccess, sendCreated } from '../utils/apiResponse';
+import ApiError from '../utils/ApiError';
+import config from '../config/config';
+import logger from '../config/logger';
+import samlService from '../services/saml.service';
+import samlConnectionService, { SAML_PROVIDER_PREFIX } from '../services/samlConnection.service';
+import tokenService from '../services/token.service';
+import { Request, Response } from 'express';
+
+/**
+ * SP endpoints an IdP administrator needs when registering a connection
+ * @param {string} slug
+ */
+const endpointsOf = (slug: string) => ({
+  spEntityId: samlService.getSpEntityId(slug),
+  acsUrl: samlService.getAcsUrl(slug),
+});
+
+/**
+ * Start an SP-initiated login by sending the user to the IdP
+ * @route GET /v1/auth/saml/:connection/login
+ * @access Public
+ */
+const login = catchAsync(async (req: Request, res: Response) => {
+  const url = await samlService.createLoginUrl(req.params.connection as string);
+  res.redirect(httpStatus.FOUND, url);
+});
+
+/**
+ * Assertion Consumer Service. Sends the browser back to the client app with a one-time login
+ * code, or with an error.
+ * @route POST /v1/auth/saml/:connection/acs
+ * @access Public
+ */
+const assertionConsumerService = catchAsync(async (req: Request, res: Response) => {
+  const slug = req.params.connection as string;
+
+  const redirectUrl = new URL(config.oidc.loginRedirectUrl);
+  redirectUrl.searchParams.set('provider', `${SAML_PROVIDER_PREFIX}${slug}`);
+  try {
+    const user = await samlService.completeLogin(slug, req.body);
+    redirectUrl.searchParams.set('code', await tokenService.generateSocialLoginToken(user.id));
+  } catch (error) {
+    logger.warn('SAML login failed', { connection: slug, error: error.message });
+    redirectUrl.searchParams.set(
+      'error',
+      error instanceof ApiError ? error.message : 'Sign-in failed. Please try again.'
+    );
+  }
+  res.redirect(httpStatus.SEE_OTHER, redirectUrl.toString());
+});
+
+/**
+ * Service provider metadata to register with the IdP
+ * @route GET /v1/auth/saml/:connection/metadata
+ * @access Public
+ */
+const getMetadata = catchAsync(async (req: Request, res: Response) => {
+  const metadata = await samlService.getMetadata(req.params.connection as string);
+  res.type('application/samlmetadata+xml').send(metadata);
+});
+
+/**
+ * Create a SAML connection
+ * @route POST /v1/saml-connections
+ * @access Private (Admin only)
+ */
+const createConnection = catchAsync(async (req: Request, res: Response) => {
+  const connection = await samlConnectionService.createConnection(req.body, (req.user as any).id);
+  return sendCreated(
+    res,
+    { connection, ...endpointsOf(connection.slug) },
+    'SAML connection created successfully',
+    req.requestId
+  );
+});
+
+/**
+ * List SAML connections
+ * @route GET /v1/saml-connections
+ * @access Private (Admin only)
+ */
+const listConnections = catchAsync(async (req: Request, res: Response) => {
+  const connections = await samlConnectionService.listConnections();
+  return sendSuccess(
+    res,
+    { connections },
+    'SAML connections retrieved successfully',
+    httpStatus.OK,
+    req.requestId
+  );
+});
+
+/**
+ * Get a SAML connection
+ * @route GET /v1/saml-connections/:connection
+ * @access Private (Admin only)
+ */
+const getConnection = catchAsync(async (req: Request, res: Response) => {
+  const connection = await samlConnectionService.getConnection(req.params.connection as string);
+  return sendSuccess(
+    res,
+    { connection, ...endpointsOf(connection.slug) },
+    'SAML connection retrieved successfully',
+    httpStatus.OK,
+    req.requestId
+  );
+});
+
+/**
+ * Update a SAML connection
+ * @route PATCH /v1/saml-connections/:connection
+ * @access Private (Admin only)
+ */
+const updateConnection = catchAsync(async (req: Request, res: Response) => {
+  const connection = await samlConnectionService.updateConnection(
+    req.params.connection as string,
+    req.body
+  );
+  return sendSuccess(
+    res,
+    { connection },
+    'SAML connection updated successfully',
+    httpStatus.OK,
+    req.requestId
+  );
+});
+
+/**
+ * Delete a SAML connection and unlink the identities signed in through it
+ * @route DELETE /v1/saml-connections/:connection
+ * @access Private (Admin only)
+ */
+const deleteConnection = catchAsync(async (req: Request, res: Response) => {
+  await samlConnectionService.deleteConnection(req.params.connection as string);
+  res.status(httpStatus.NO_CONTENT).send();
+});
+
+export {
+  login,
+  assertionConsumerService,
+  getMetadata,
+  createConnection,
+  listConnections,
+  getConnection,
+  updateConnection,
+  deleteConnection,
+};
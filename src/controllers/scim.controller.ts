@@ -0,0 +1,174 @@
+import httpStatus from 'http-status';
+import { Request, Response } from 'express';
+import catchAsync from '../utils/catchAsync';
+import scimService, { ScimQuery } from '../services/scim.service';
+
+/**
+ * Send a SCIM resource. Created resources also carry their URL in the Location header.
+ * @param {Response} res
+ * @param {number} status
+ * @param {Object} body
+ */
+const sendScim = (res: Response, status: number, body: any) => {
+  if (status === httpStatus.CREATED && body.meta?.location) {
+    res.location(body.meta.location);
+  }
+  res.status(status).type('application/scim+json').json(body);
+};
+
+const scimQuery = (req: Request) => req.query as ScimQuery;
+
+/**
+ * @route GET /scim/v2/ServiceProviderConfig
+ * @access Private (SCIM API key)
+ */
+const getServiceProviderConfig = (req: Request, res: Response) =>
+  sendScim(res, httpStatus.OK, scimService.getServiceProviderConfig());
+
+/**
+ * @route GET /scim/v2/Schemas
+ * @access Private (SCIM API key)
+ */
+const listSchemas = (req: Request, res: Response) =>
+  sendScim(res, httpStatus.OK, scimService.listSchemas());
+
+/**
+ * @route GET /scim/v2/Schemas/:id
+ * @access Private (SCIM API key)
+ */
+const getSchema = (req: Request, res: Response) =>
+  sendScim(res, httpStatus.OK, scimService.getSchema(req.params.id as string));
+
+/**
+ * @route GET /scim/v2/ResourceTypes
+ * @access Private (SCIM API key)
+ */
+const listResourceTypes = (req: Request, res: Response) =>
+  sendScim(res, httpStatus.OK, scimService.listResourceTypes());
+
+/**
+ * @route GET /scim/v2/ResourceTypes/:id
+ * @access Private (SCIM API key)
+ */
+const getResourceType = (req: Request, res: Response) =>
+  sendScim(res, httpStatus.OK, scimService.getResourceType(req.params.id as string));
+
+/**
+ * @route GET /scim/v2/Users
+ * @access Private (SCIM API key)
+ */
+const listUsers = catchAsync(async (req: Request, res: Response) => {
+  sendScim(res, httpStatus.OK, await scimService.listUsers(scimQuery(req)));
+});
+
+/**
+ * @route GET /scim/v2/Users/:id
+ * @access Private (SCIM API key)
+ */
+const getUser = catchAsync(async (req: Request, res: Response) => {
+  sendScim(res, httpStatus.OK, await scimService.getUser(req.params.id as string, scimQuery(req)));
+});
+
+/**
+ * @route POST /scim/v2/Users
+ * @access Private (SCIM API key)
+ */
+const createUser = catchAsync(async (req: Request, res: Response) => {
+  sendScim(res, httpStatus.CREATED, await scimService.createUser(req.body));
+});
+
+/**
+ * @route PUT /scim/v2/Users/:id
+ * @access Private (SCIM API key)
+ */
+const replaceUser = catchAsync(async (req: Request, res: Response) => {
+  sendScim(res, httpStatus.OK, await scimService.replaceUser(req.params.id as string, req.body));
+});
+
+/**
+ * @route PATCH /scim/v2/Users/:id
+ * @access Private (SCIM API key)
+ */
+const patchUser = catchAsync(async (req: Request, res: Response) => {
+  const user = await scimService.patchUser(req.params.id as string, req.body.Operations);
+  sendScim(res, httpStatus.OK, user);
+});
+
+/**
+ * @route DELETE /scim/v2/Users/:id
+ * @access Private (SCIM API key)
+ */
+const deleteUser = catchAsync(async (req: Request, res: Response) => {
+  await scimService.deleteUser(req.params.id as string);
+  res.status(httpStatus.NO_CONTENT).send();
+});
+
+/**
+ * @route GET /scim/v2/Groups
+ * @access Private (SCIM API key)
+ */
+const listGroups = catchAsync(async (req: Request, res: Response) => {
+  sendScim(res, httpStatus.OK, await scimService.listGroups(scimQuery(req)));
+});
+
+/**
+ * @route GET /scim/v2/Groups/:id
+ * @access Private (SCIM API key)
+ */
+const getGroup = catchAsync(async (req: Request, res: Response) => {
+  sendScim(res, httpStatus.OK, await scimService.getGroup(req.params.id as string, scimQuery(req)));
+});
+
+/**
+ * @route POST /scim/v2/Groups
+ * @access Private (SCIM API key)
+ */
+const createGroup = catchAsync(async (req: Request, res: Response) => {
+  sendScim(res, httpStatus.CREATED, await scimService.createGroup(req.body));
+});
+
+/**
+ * @route PUT /scim/v2/Groups/:id
+ * @access Private (SCIM API key)
+ */
+const replaceGroup = catchAsync(async (req: Request, res: Response) => {
+  sendScim(res, httpStatus.OK, await scimService.replaceGroup(req.params.id as string, req.body));
+});
+
+/**
+ * @route PATCH /scim/v2/Groups/:id
+ * @access Private (SCIM API key)
+ */
+const patchGroup = catchAsync(async (req: Request, res: Response) => {
+  const group = await scimService.patchGroup(req.params.id as string, req.body.Operations);
+  sendScim(res, httpStatus.OK, group);
+});
+
+/**
+ * @route DELETE /scim/v2/Groups/:id
+ * @access Private (SCIM API key)
+ */
+const deleteGroup = catchAsync(async (req: Request, res: Response) => {
+  await scimService.deleteGroup(req.params.id as string);
+  res.status(httpStatus.NO_CONTENT).send();
+});
+
+export {
+  getServiceProviderConfig,
+  listSchemas,
+  getSchema,
+  listResourceTypes,
+  getResourceType,
+  listUsers,
+  getUser,
+  createUser,
+  replaceUser,
+  patchUser,
+  deleteUser,
+  listGroups,
+  getGroup,
+  createGroup,
+  replaceGroup,
+  patchGroup,
+  deleteGroup,
+};
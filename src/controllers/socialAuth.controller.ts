@@ -2,8 +2,12 @@ import httpStatus from 'http-status';
 import catchAsync from '../utils/catchAsync';
 import { sendSuccess, sendError, ErrorCode } from '../utils/apiResponse';
 import ApiError from '../utils/ApiError';
-import { Request, Response } from 'express';
+import { NextFunction, Request, Response } from 'express';
+import config from '../config/config';
+import logger from '../config/logger';
 import SocialAuthService from '../services/socialAuth.service';
+import oidcService, { STATE_COOKIE, STATE_TTL_MS } from '../services/oidc.service';
+import tokenService from '../services/token.service';
 
 const socialAuthServiceInstance = new SocialAuthService();
 
@@ -51,13 +55,100 @@ const githubCallback = catchAsync(async (req: Request, res: Response) => {
   res.redirect('/api/v1/auth/github/callback');
 });
 
+/**
+ * Read a cookie from the request
+ * @param {Request} req
+ * @param {string} name
+ * @returns {string | undefined}
+ */
+const readCookie = (req: Request, name: string) => {
+  const cookie = req
+    .get('Cookie')
+    ?.split(';')
+    .map(part => part.trim())
+    .find(part => part.startsWith(`${name}=`));
+  return cookie ? decodeURIComponent(cookie.slice(name.length + 1)) : undefined;
+};
+
+/**
+ * List the configured OpenID Connect login providers
+ * @route GET /v1/auth/providers
+ * @access Public
+ */
+const getOidcProviders = catchAsync(async (req: Request, res: Response) => {
+  return sendSuccess(
+    res,
+    { providers: oidcService.listProviders() },
+    'Identity providers retrieved successfully',
+    httpStatus.OK,
+    req.requestId
+  );
+});
+
+/**
+ * Start a login with an OpenID Connect provider
+ * @route GET /v1/auth/:provider
+ * @access Public
+ */
+const oidcAuth = catchAsync(async (req: Request, res: Response, next: NextFunction) => {
+  const provider = oidcService.getProvider(req.params.provider as string);
+  if (!provider) {
+    // Not a provider name; let the remaining /auth routes handle it
+    return next();
+  }
+
+  const { url, state } = await oidcService.createAuthorizationRequest(provider.name);
+  res.cookie(STATE_COOKIE, state, {
+    httpOnly: true,
+    secure: config.env === 'production',
+    sameSite: 'lax',
+    maxAge: STATE_TTL_MS,
+    path: `/v1/auth/${provider.name}/callback`,
+  });
+  res.redirect(httpStatus.FOUND, url);
+});
+
+/**
+ * OpenID Connect provider callback. Sends the browser back to the client app with a one-time
+ * login code, or with an error.
+ * @route GET /v1/auth/:provider/callback
+ * @access Public
+ */
+const oidcCallback = catchAsync(async (req: Request, res: Response, next: NextFunction) => {
+  const provider = oidcService.getProvider(req.params.provider as string);
+  if (!provider) {
+    return next();
+  }
+
+  const state = readCookie(req, STATE_COOKIE);
+  res.clearCookie(STATE_COOKIE, { path: `/v1/auth/${provider.name}/callback` });
+
+  const redirectUrl = new URL(config.oidc.loginRedirectUrl);
+  redirectUrl.searchParams.set('provider', provider.name);
+  try {
+    const profile = await oidcService.completeAuthorization(provider.name, req.query, state);
+    const result = await socialAuthServiceInstance.findOrCreateUser(profile, req);
+    redirectUrl.searchParams.set(
+      'code',
+      await tokenService.generateSocialLoginToken(result.user.id)
+    );
+  } catch (error) {
+    logger.warn('OIDC login failed', { provider: provider.name, error: error.message });
+    redirectUrl.searchParams.set(
+      'error',
+      error instanceof ApiError ? error.message : 'Sign-in failed. Please try again.'
+    );
+  }
+  res.redirect(httpStatus.FOUND, redirectUrl.toString());
+});
+
 /**
  * Link social account to existing user
  * @route POST /v1/auth/link-social
  * @access Private
  */
 const linkSocialAccount = catchAsync(async (req: Request, res: Response) => {
-  const { provider, accessToken, refreshToken, scope } = req.body;
+  const { provider, accessToken, refreshToken, expiresIn, scope } = req.body;
   const userId = (req.user as any)?.id;
 
   if (!userId) {
@@ -76,6 +167,7 @@ const linkSocialAccount = catchAsync(async (req: Request, res: Response) => {
       providerId: req.body.providerId,
       accessToken,
       refreshToken,
+      expiresIn,
       scope,
     };
 
@@ -143,7 +235,7 @@ const getSocialAccounts = catchAsync(async (req: Request, res: Response) => {
  */
 const updateSocialTokens = catchAsync(async (req: Request, res: Response) => {
   const provider = req.params.provider as string;
-  const { accessToken, refreshToken, scope } = req.body;
+  const { accessToken, refreshToken, scope, expiresIn } = req.body;
   const userId = (req.user as any)?.id;
 
   if (!userId) {
@@ -156,7 +248,8 @@ const updateSocialTokens = catchAsync(async (req: Request, res: Response) => {
       provider,
       accessToken,
       refreshToken,
-      scope
+      scope,
+      expiresIn
     );
 
     return sendSuccess(res, { socialAccount }, 'Social account tokens updated successfully');
@@ -202,6 +295,9 @@ export {
   googleCallback,
   githubAuth,
   githubCallback,
+  getOidcProviders,
+  oidcAuth,
+  oidcCallback,
   linkSocialAccount,
   unlinkSocialAccount,
   getSocialAccounts,
@@ -76,6 +76,52 @@ const verifyToken = catchAsync(async (req: Request, res: Response) => {
   res.send({ isValid });
 });
 
+/**
+ * Send a code to confirm enabling or disabling email/SMS 2FA
+ * @route POST /v1/2fa/methods/:method/send-code
+ * @access Private
+ */
+const sendMethodCode = catchAsync(async (req: Request, res: Response) => {
+  const user = req.user as User;
+  await twoFactorService.sendOtpCode(user.id, req.params.method as 'email' | 'sms');
+  res.status(httpStatus.NO_CONTENT).send();
+});
+
+/**
+ * Enable email or SMS codes as a second factor
+ * @route POST /v1/2fa/methods/:method/enable
+ * @access Private
+ */
+const enableMethod = catchAsync(async (req: Request, res: Response) => {
+  const user = req.user as User;
+  const method = req.params.method as 'email' | 'sms';
+  await twoFactorService.enableOtpMethod(user.id, method, req.body.code);
+  res.status(httpStatus.OK).send({ message: `${method} 2FA enabled successfully` });
+});
+
+/**
+ * Disable email or SMS codes as a second factor
+ * @route POST /v1/2fa/methods/:method/disable
+ * @access Private
+ */
+const disableMethod = catchAsync(async (req: Request, res: Response) => {
+  const user = req.user as User;
+  const method = req.params.method as 'email' | 'sms';
+  await twoFactorService.disableOtpMethod(user.id, method, req.body.code);
+  res.status(httpStatus.OK).send({ message: `${method} 2FA disabled successfully` });
+});
+
+/**
+ * Set the second factor offered first at login
+ * @route PUT /v1/2fa/preferred-method
+ * @access Private
+ */
+const setPreferredMethod = catchAsync(async (req: Request, res: Response) => {
+  const user = req.user as User;
+  await twoFactorService.setPreferredMethod(user.id, req.body.method);
+  res.status(httpStatus.OK).send({ message: 'Preferred 2FA method updated successfully' });
+});
+
 export default {
   setupTwoFactor,
   enableTwoFactor,
@@ -83,4 +129,8 @@ export default {
   getTwoFactorStatus,
   regenerateBackupCodes,
   verifyToken,
+  sendMethodCode,
+  enableMethod,
+  disableMethod,
+  setPreferredMethod,
 };
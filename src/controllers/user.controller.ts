@@ -362,7 +362,21 @@ const exportUserData = catchAsync(async (req: Request, res: Response) => {
  * @access Private
  */
 const deleteAccount = catchAsync(async (req: Request, res: Response) => {
-  await profileService.deleteAccount(req.params.userId as string, req.body.password);
+  const result = await profileService.deleteAccount(
+    req.params.userId as string,
+    req.body.password,
+    req.ip
+  );
+  res.status(httpStatus.ACCEPTED).send(result);
+});
+
+/**
+ * Cancel a pending account deletion
+ * @route POST /v1/me/account/cancel-deletion
+ * @access Private
+ */
+const cancelAccountDeletion = catchAsync(async (req: Request, res: Response) => {
+  await profileService.cancelAccountDeletion(req.params.userId as string, req.ip);
   res.status(httpStatus.NO_CONTENT).send();
 });
 
@@ -493,6 +507,7 @@ export default {
   getPublicProfile,
   exportUserData,
   deleteAccount,
+  cancelAccountDeletion,
   getUsersWithExpiringPasswords,
   getLockedUsers,
   unlockUserAccount,
@@ -0,0 +1,139 @@
+import httpStatus from 'http-status';
+import catchAsync from '../utils/catchAsync';
+import { sendSuccess, sendCreated } from '../utils/apiResponse';
+import authService from '../services/auth.service';
+import userService from '../services/user.service';
+import webAuthnService from '../services/webAuthn.service';
+import { Request, Response } from 'express';
+
+/**
+ * Get options for registering a passkey
+ * @route POST /v1/auth/webauthn/register/options
+ * @access Private
+ */
+const registrationOptions = catchAsync(async (req: Request, res: Response) => {
+  const options = await webAuthnService.generateRegistration((req.user as any).id);
+  return sendSuccess(
+    res,
+    { options },
+    'Registration options generated',
+    httpStatus.OK,
+    req.requestId
+  );
+});
+
+/**
+ * Verify the authenticator's response and store the passkey
+ * @route POST /v1/auth/webauthn/register/verify
+ * @access Private
+ */
+const verifyRegistration = catchAsync(async (req: Request, res: Response) => {
+  const credential = await webAuthnService.verifyRegistration(
+    (req.user as any).id,
+    req.body.credential,
+    req.body.name,
+    req
+  );
+  return sendCreated(res, { credential }, 'Passkey registered successfully', req.requestId);
+});
+
+/**
+ * Get options for signing in with a passkey
+ * @route POST /v1/auth/webauthn/authenticate/options
+ * @access Public
+ */
+const authenticationOptions = catchAsync(async (req: Request, res: Response) => {
+  const { email, twoFactorToken } = req.body;
+
+  let options;
+  if (twoFactorToken) {
+    const tokenDoc = await authService.verifyTwoFactorLoginToken(twoFactorToken);
+    options = await webAuthnService.generateAuthentication(tokenDoc.userId, true);
+  } else {
+    // Unknown emails fall back to a discoverable-credential ceremony so accounts can't be probed
+    const user = email ? await userService.getUserByEmail(email) : null;
+    options = await webAuthnService.generateAuthentication(user?.id);
+  }
+
+  return sendSuccess(
+    res,
+    { options },
+    'Authentication options generated',
+    httpStatus.OK,
+    req.requestId
+  );
+});
+
+/**
+ * Verify a passkey assertion and log the user in
+ * @route POST /v1/auth/webauthn/authenticate/verify
+ * @access Public
+ */
+const verifyAuthentication = catchAsync(async (req: Request, res: Response) => {
+  const tokens = await authService.loginWithWebAuthn(
+    req.body.credential,
+    req,
+    req.body.twoFactorToken
+  );
+  return sendSuccess(res, { tokens }, 'Login successful', httpStatus.OK, req.requestId);
+});
+
+/**
+ * List the current user's passkeys
+ * @route GET /v1/me/webauthn/credentials
+ * @access Private
+ */
+const listCredentials = catchAsync(async (req: Request, res: Response) => {
+  const credentials = await webAuthnService.listCredentials((req.user as any).id);
+  return sendSuccess(
+    res,
+    { credentials },
+    'Passkeys retrieved successfully',
+    httpStatus.OK,
+    req.requestId
+  );
+});
+
+/**
+ * Rename a passkey
+ * @route PATCH /v1/me/webauthn/credentials/:credentialId
+ * @access Private
+ */
+const renameCredential = catchAsync(async (req: Request, res: Response) => {
+  const credential = await webAuthnService.renameCredential(
+    (req.user as any).id,
+    req.params.credentialId as string,
+    req.body.name
+  );
+  return sendSuccess(
+    res,
+    { credential },
+    'Passkey renamed successfully',
+    httpStatus.OK,
+    req.requestId
+  );
+});
+
+/**
+ * Remove a passkey
+ * @route DELETE /v1/me/webauthn/credentials/:credentialId
+ * @access Private
+ */
+const removeCredential = catchAsync(async (req: Request, res: Response) => {
+  await webAuthnService.removeCredential(
+    (req.user as any).id,
+    req.params.credentialId as string,
+    req
+  );
+  res.status(httpStatus.NO_CONTENT).send();
+});
+
+export {
+  registrationOptions,
+  verifyRegistration,
+  authenticationOptions,
+  verifyAuthentication,
+  listCredentials,
+  renameCredential,
+  removeCredential,
+};
@@ -1,25 +1,21 @@
+import crypto from 'crypto';
+import { Server } from 'http';
 import { WebSocketServer, WebSocket } from 'ws';
-import { Request, Response } from 'express';
-import jwt from 'jsonwebtoken';
-import config from '../config/config';
-import prisma from '../client';
-
-// Notification types from Prisma schema
-enum NotificationType {
-  LOGIN_ALERT,
-  PASSWORD_CHANGE,
-  EMAIL_VERIFICATION,
-  TWO_FACTOR_SETUP,
-  ACCOUNT_LOCKED,
-  SECURITY_ALERT,
-  SYSTEM_UPDATE,
-  WELCOME,
-}
+import { NotificationType } from '@prisma/client';
+import { findAccessTokenUser } from '../config/passport';
+import logger from '../config/logger';
+import tokenService from '../services/token.service';
+import realtimeService, { RealtimeEvent } from '../services/realtime.service';
+import notificationDeliveryService from '../services/notificationDelivery.service';
+import notificationPreferenceService from '../services/notificationPreference.service';
 
 interface AuthenticatedWebSocket extends WebSocket {
   userId?: string;
+  connectionId?: string;
   isAuthenticated?: boolean;
   isAlive?: boolean;
+  // Notification types the socket subscribed to; all types when unset or empty
+  subscriptions?: NotificationType[];
 }
 
 interface WebSocketMessage {
@@ -28,19 +24,27 @@ interface WebSocketMessage {
   token?: string;
 }
 
+// Presence of open connections is renewed well within realtimeService.PRESENCE_TTL_SECONDS
+const PRESENCE_REFRESH_INTERVAL_MS = 30 * 1000;
+
+/**
+ * WebSocket server sharing the HTTP server's port. Sockets of this instance are tracked here;
+ * events for them are published through realtimeService so that every instance delivers to
+ * its own sockets.
+ */
 class WebSocketController {
   private wss: WebSocketServer;
   private clients: Map<string, Set<AuthenticatedWebSocket>> = new Map(); // userId -> Set of WebSocket connections
   private clientToUserId: Map<AuthenticatedWebSocket, string> = new Map(); // WebSocket -> userId
+  private presenceInterval: NodeJS.Timeout;
 
-  constructor() {
-    this.wss = new WebSocketServer({
-      port: parseInt(process.env.WS_PORT || '8080'),
-      path: '/ws',
-    });
+  constructor(server: Server) {
+    this.wss = new WebSocketServer({ server, path: '/ws' });
 
     this.setupEventHandlers();
-    console.log(`WebSocket server started on port ${process.env.WS_PORT || '8080'}`);
+    realtimeService.subscribe(event => this.deliver(event));
+    this.presenceInterval = setInterval(() => this.refreshPresence(), PRESENCE_REFRESH_INTERVAL_MS);
+    logger.info('WebSocket server attached at /ws');
   }
 
   /**
@@ -48,7 +52,7 @@ class WebSocketController {
    */
   private setupEventHandlers(): void {
     this.wss.on('connection', (ws: AuthenticatedWebSocket, req) => {
-      console.log('New WebSocket connection attempt');
+      logger.debug('New WebSocket connection attempt');
 
       // Set up ping/pong for connection health
       ws.isAlive = true;
@@ -62,7 +66,7 @@ class WebSocketController {
           const parsedMessage: WebSocketMessage = JSON.parse(message);
           await this.handleMessage(ws, parsedMessage);
         } catch (error) {
-          console.error('Invalid message format:', error);
+          logger.warn('Invalid WebSocket message format', { error });
           this.sendError(ws, 'Invalid message format');
         }
       });
@@ -74,7 +78,7 @@ class WebSocketController {
 
       // Handle connection errors
       ws.on('error', error => {
-        console.error('WebSocket error:', error);
+        logger.error('WebSocket error', { userId: ws.userId, error });
         this.handleDisconnect(ws);
       });
 
@@ -115,6 +119,10 @@ class WebSocketController {
         await this.handleMarkAsRead(ws, message.data);
         break;
 
+      case 'ack_notification':
+        await this.handleAcknowledge(ws, message.data);
+        break;
+
       case 'mark_all_notifications_read':
         await this.handleMarkAllAsRead(ws);
         break;
@@ -146,31 +154,43 @@ class WebSocketController {
         return;
       }
 
-      const decoded = jwt.verify(token, config.jwt.secret) as any;
-      ws.userId = decoded.userId;
+      const decoded = await tokenService.verifyAccessToken(token);
+      // Same checks as HTTP requests: revoked tokens and unusable accounts are refused
+      if (!(await findAccessTokenUser(decoded))) {
+        throw new Error('Access token revoked or account unusable');
+      }
+      if (ws.isAuthenticated) {
+        this.handleDisconnect(ws);
+      }
+      ws.userId = decoded.sub;
+      ws.connectionId = crypto.randomUUID();
       ws.isAuthenticated = true;
 
       // Add to client tracking
-      if (!this.clients.has(decoded.userId)) {
-        this.clients.set(decoded.userId, new Set());
+      if (!this.clients.has(decoded.sub)) {
+        this.clients.set(decoded.sub, new Set());
       }
-      this.clients.get(decoded.userId)!.add(ws);
-      this.clientToUserId.set(ws, decoded.userId);
+      this.clients.get(decoded.sub)!.add(ws);
+      this.clientToUserId.set(ws, decoded.sub);
+      await realtimeService.trackConnection(decoded.sub, ws.connectionId);
 
-      console.log(`User ${decoded.userId} authenticated via WebSocket`);
+      logger.info('User authenticated via WebSocket', { userId: decoded.sub });
 
       // Send success response
       this.sendMessage(ws, {
         type: 'authenticated',
         data: {
-          userId: decoded.userId,
+          userId: decoded.sub,
           message: 'Successfully authenticated',
         },
       });
     } catch (error) {
-      console.error('Authentication error:', error);
+      logger.warn('WebSocket authentication failed', { error });
       this.sendError(ws, 'Invalid authentication token');
+      return;
     }
+
+    await this.replayUndelivered(ws);
   }
 
   /**
@@ -188,6 +208,11 @@ class WebSocketController {
     try {
       const { default: notificationService } = await import('../services/notification.service');
       await notificationService.markAsRead(ws.userId, data.notificationId);
+      await notificationDeliveryService.acknowledge(
+        ws.userId,
+        [data.notificationId],
+        ws.connectionId!
+      );
 
       // Broadcast to user's other connections
       this.broadcastToUser(
@@ -207,11 +232,47 @@ class WebSocketController {
         data: { notificationId: data.notificationId },
       });
     } catch (error) {
-      console.error('Error marking notification as read:', error);
+      logger.error('Error marking notification as read', { userId: ws.userId, error });
       this.sendError(ws, 'Failed to mark notification as read');
     }
   }
 
+  /**
+   * Handle acknowledgement of received notifications
+   */
+  private async handleAcknowledge(
+    ws: AuthenticatedWebSocket,
+    data: { notificationId?: string; notificationIds?: string[] }
+  ): Promise<void> {
+    if (!ws.isAuthenticated || !ws.userId) {
+      this.sendError(ws, 'Not authenticated');
+      return;
+    }
+
+    const notificationIds =
+      data?.notificationIds ?? (data?.notificationId ? [data.notificationId] : []);
+    if (!Array.isArray(notificationIds) || notificationIds.length === 0) {
+      this.sendError(ws, 'Notification ids required');
+      return;
+    }
+
+    try {
+      const acknowledged = await notificationDeliveryService.acknowledge(
+        ws.userId,
+        notificationIds,
+        ws.connectionId!
+      );
+
+      this.sendMessage(ws, {
+        type: 'notification_ack_success',
+        data: { notificationIds: acknowledged },
+      });
+    } catch (error) {
+      logger.error('Error acknowledging notifications', { userId: ws.userId, error });
+      this.sendError(ws, 'Failed to acknowledge notifications');
+    }
+  }
+
   /**
    * Handle mark all notifications as read
    */
@@ -243,7 +304,7 @@ class WebSocketController {
         data: { count },
       });
     } catch (error) {
-      console.error('Error marking all notifications as read:', error);
+      logger.error('Error marking all notifications as read', { userId: ws.userId, error });
       this.sendError(ws, 'Failed to mark all notifications as read');
     }
   }
@@ -261,12 +322,14 @@ class WebSocketController {
     }
 
     // Store subscription data on the WebSocket
-    (ws as any).subscriptions = data.types || [];
+    ws.subscriptions = data.types || [];
 
     this.sendMessage(ws, {
       type: 'subscribed',
       data: { types: data.types },
     });
+
+    await this.replayUndelivered(ws);
   }
 
   /**
@@ -281,7 +344,7 @@ class WebSocketController {
       return;
     }
 
-    const subscriptions = (ws as any).subscriptions || [];
+    const subscriptions = ws.subscriptions || [];
     data.types.forEach((type: NotificationType) => {
       const index = subscriptions.indexOf(type);
       if (index > -1) {
@@ -300,7 +363,7 @@ class WebSocketController {
    */
   private handleDisconnect(ws: AuthenticatedWebSocket): void {
     if (ws.userId) {
-      console.log(`User ${ws.userId} disconnected from WebSocket`);
+      logger.info('User disconnected from WebSocket', { userId: ws.userId });
 
       // Remove from client tracking
       const userClients = this.clients.get(ws.userId);
@@ -311,6 +374,102 @@ class WebSocketController {
         }
       }
       this.clientToUserId.delete(ws);
+      if (ws.connectionId) {
+        realtimeService
+          .untrackConnection(ws.userId, ws.connectionId)
+          .catch(error =>
+            logger.error('Failed to untrack WebSocket connection', { userId: ws.userId, error })
+          );
+      }
+    }
+  }
+
+  /**
+   * Send the notifications no client has acknowledged yet to a connection, which acknowledges
+   * them with `ack_notification`. Nothing is replayed during the user's quiet hours.
+   */
+  private async replayUndelivered(ws: AuthenticatedWebSocket): Promise<void> {
+    try {
+      const preferences = await notificationPreferenceService.getPreferences(ws.userId!);
+      if (notificationPreferenceService.isInQuietHours(preferences)) {
+        return;
+      }
+      const notifications = (
+        await notificationDeliveryService.getUndelivered(
+          ws.userId!,
+          ws.connectionId!,
+          ws.subscriptions
+        )
+      ).filter(
+        notification =>
+          notificationPreferenceService.resolveRoutes(preferences, notification.type).push
+      );
+      notifications.forEach(notification =>
+        this.sendMessage(ws, notificationDeliveryService.toPushMessage(notification))
+      );
+      await notificationDeliveryService.recordSent(
+        notifications.map(notification => ({
+          notificationId: notification.id,
+          connectionId: ws.connectionId!,
+        }))
+      );
+    } catch (error) {
+      logger.error('Failed to replay undelivered notifications', { userId: ws.userId, error });
+    }
+  }
+
+  /**
+   * Renew the presence of this instance's connections, which expires if the instance stops
+   */
+  private async refreshPresence(): Promise<void> {
+    try {
+      for (const [ws, userId] of this.clientToUserId) {
+        if (ws.connectionId) {
+          await realtimeService.trackConnection(userId, ws.connectionId);
+        }
+      }
+    } catch (error) {
+      logger.error('Failed to refresh WebSocket presence', { error });
+    }
+  }
+
+  /**
+   * Deliver an event published by any instance to the matching sockets of this instance
+   */
+  private deliver(event: RealtimeEvent): void {
+    const targets = event.userId
+      ? [...(this.clients.get(event.userId) || [])]
+      : [...this.clientToUserId.keys()];
+
+    const sentTo: string[] = [];
+    targets.forEach(client => {
+      if (
+        client.readyState !== WebSocket.OPEN ||
+        client.connectionId === event.excludeConnectionId
+      ) {
+        return;
+      }
+      // Sockets that subscribed to some notification types only receive those
+      const subscriptions = client.subscriptions || [];
+      if (
+        event.notificationType !== undefined &&
+        subscriptions.length > 0 &&
+        !subscriptions.includes(event.notificationType)
+      ) {
+        return;
+      }
+      this.sendMessage(client, event.message);
+      if (client.connectionId) {
+        sentTo.push(client.connectionId);
+      }
+    });
+
+    // Stored notifications stay unacknowledged until a client confirms them
+    const { notificationId } = event;
+    if (notificationId) {
+      notificationDeliveryService
+        .recordSent(sentTo.map(connectionId => ({ notificationId, connectionId })))
+        .catch(error => logger.error('Failed to record notification delivery', { error }));
     }
   }
 
@@ -341,17 +500,12 @@ class WebSocketController {
   }
 
   /**
-   * Broadcast message to all connections of a user
+   * Broadcast message to all connections of a user, on every instance
    */
   private broadcastToUser(userId: string, message: any, excludeWs?: AuthenticatedWebSocket): void {
-    const userClients = this.clients.get(userId);
-    if (userClients) {
-      userClients.forEach(client => {
-        if (client.readyState === WebSocket.OPEN && client !== excludeWs) {
-          this.sendMessage(client, message);
-        }
-      });
-    }
+    realtimeService
+      .publish({ userId, message, excludeConnectionId: excludeWs?.connectionId })
+      .catch(error => logger.error('Failed to publish WebSocket message', { userId, error }));
   }
 
   /**
@@ -360,48 +514,48 @@ class WebSocketController {
   async sendPushNotification(
     userId: string,
     notification: {
+      // Id and creation time of the stored notification, if there is one
+      id?: string;
+      timestamp?: Date;
       type: NotificationType;
       title: string;
       message: string;
       metadata?: any;
     }
   ): Promise<void> {
-    const userClients = this.clients.get(userId);
-    if (!userClients) return;
-
+    const { id, timestamp, ...content } = notification;
     const message = {
       type: 'push_notification',
       data: {
-        id: `push_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-        ...notification,
-        timestamp: new Date(),
+        id: id ?? `push_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        ...content,
+        timestamp: timestamp ?? new Date(),
         isRead: false,
       },
     };
 
-    userClients.forEach(client => {
-      if (client.readyState === WebSocket.OPEN) {
-        // Check if user is subscribed to this notification type
-        const subscriptions = (client as any).subscriptions || [];
-        if (subscriptions.length === 0 || subscriptions.includes(notification.type)) {
-          this.sendMessage(client, message);
-        }
-      }
+    await realtimeService.publish({
+      userId,
+      notificationType: notification.type,
+      notificationId: id,
+      message,
     });
   }
 
   /**
-   * Get connected users count
+   * Get connected users count across all instances
    */
-  getConnectedUsersCount(): number {
-    return this.clients.size;
+  async getConnectedUsersCount(): Promise<number> {
+    return (await realtimeService.countOnlineUsers()) ?? this.clients.size;
   }
 
   /**
-   * Get user's active connections
+   * Get user's active connections across all instances
    */
-  getUserConnections(userId: string): number {
-    return this.clients.get(userId)?.size || 0;
+  async getUserConnections(userId: string): Promise<number> {
+    return (
+      (await realtimeService.countUserConnections(userId)) ?? (this.clients.get(userId)?.size || 0)
+    );
   }
 
   /**
@@ -421,13 +575,7 @@ class WebSocketController {
       },
     };
 
-    this.clients.forEach(userClients => {
-      userClients.forEach(client => {
-        if (client.readyState === WebSocket.OPEN) {
-          this.sendMessage(client, message);
-        }
-      });
-    });
+    await realtimeService.publish({ message });
   }
 
   /**
@@ -436,17 +584,29 @@ class WebSocketController {
   getServer(): WebSocketServer {
     return this.wss;
   }
+
+  /**
+   * Close every connection of this instance so clients reconnect to another one
+   */
+  async close(): Promise<void> {
+    clearInterval(this.presenceInterval);
+    await realtimeService.close();
+    for (const ws of this.clientToUserId.keys()) {
+      ws.close(1001, 'Server shutting down');
+    }
+    this.wss.close();
+  }
 }
 
 // Singleton instance
 let webSocketController: WebSocketController | null = null;
 
 /**
- * Initialize WebSocket controller
+ * Initialize WebSocket controller on the HTTP server
  */
-export const initializeWebSocket = (): WebSocketController => {
+export const initializeWebSocket = (server: Server): WebSocketController => {
   if (!webSocketController) {
-    webSocketController = new WebSocketController();
+    webSocketController = new WebSocketController(server);
   }
   return webSocketController;
 };
@@ -0,0 +1,24 @@
+import catchAsync from '../utils/catchAsync';
+import signingKeyService from '../services/signingKey.service';
+import oauthService from '../services/oauth.service';
+import { Request, Response } from 'express';
+
+/**
+ * Public keys verifying access tokens, as a JSON Web Key Set
+ * @route GET /.well-known/jwks.json
+ * @access Public
+ */
+export const getJwks = catchAsync(async (req: Request, res: Response) => {
+  const jwks = await signingKeyService.getJwks();
+  // Standard JWKS body, not wrapped in the API response envelope
+  res.set('Cache-Control', 'public, max-age=300').json(jwks);
+});
+
+/**
+ * OpenID Connect discovery document
+ * @route GET /.well-known/openid-configuration
+ * @access Public
+ */
+export const getOpenIdConfiguration = (req: Request, res: Response) => {
+  res.set('Cache-Control', 'public, max-age=3600').json(oauthService.getDiscoveryDocument());
+};
@@ -4,7 +4,15 @@ import prisma from './client';
 import config from './config/config';
 import logger from './config/logger';
 import tokenCleanupService from './services/tokenCleanup.service';
-import { initializeWebSocket } from './controllers/websocket.controller';
+import accountErasureService from './services/accountErasure.service';
+import dataExportService from './services/dataExport.service';
+import dataProcessingService from './services/dataProcessing.service';
+import cacheService from './services/cache.service';
+import signingKeyService from './services/signingKey.service';
+import socialTokenService from './services/socialToken.service';
+import notificationStreamService from './services/notificationStream.service';
+import notificationDigestService from './services/notificationDigest.service';
+import { getWebSocketController, initializeWebSocket } from './controllers/websocket.controller';
 import { initializeTracing } from './utils/tracing';
 
 // Initialize OpenTelemetry tracing
@@ -17,20 +25,41 @@ prisma
   .$connect()
   .then(() => {
     logger.info('Connected to SQL Database');
-    logger.debug('Attempting to start HTTP server...');
 
-    // Initialize WebSocket server
-    initializeWebSocket();
+    // Access token revocation and other caches are skipped until Redis is connected
+    cacheService.connect();
+    logger.debug('Attempting to start HTTP server...');
 
     server = app.listen(config.port, () => {
       logger.info(`Listening to port ${config.port}`);
       logger.info(`🚀 API Server running at http://localhost:${config.port}`);
       logger.info(`📚 API Documentation available at http://localhost:${config.port}/v1/docs`);
-      logger.info(`🔌 WebSocket server running on port ${process.env.WS_PORT || '8080'}`);
+      logger.info(`🔌 WebSocket server running at ws://localhost:${config.port}/ws`);
       logger.debug('Server started successfully');
 
+      // WebSocket connections share the HTTP port; events reach other instances through Redis
+      initializeWebSocket(server);
+
+      // Generate the access token signing key when due and retire keys it replaced
+      signingKeyService.scheduleKeyRotation(60);
+
       // Schedule token cleanup to run every 15 minutes
       tokenCleanupService.scheduleTokenCleanup(15);
+
+      // Erase accounts whose deletion grace period has ended
+      accountErasureService.scheduleErasureProcessing(60);
+
+      // Remove personal data export archives once their download link expires
+      dataExportService.scheduleExportCleanup(60);
+
+      // Expire processing records and consents that reached their expiry date
+      dataProcessingService.scheduleRecordExpiry(60);
+
+      // Renew linked provider access tokens before they expire
+      socialTokenService.scheduleTokenRefresh(5);
+
+      // Email notification digests at each user's digest hour
+      notificationDigestService.scheduleDigests(15);
     });
   })
   .catch((error: Error) => {
@@ -69,9 +98,14 @@ const unexpectedErrorHandler = (error: unknown) => {
 process.on('uncaughtException', unexpectedErrorHandler);
 process.on('unhandledRejection', unexpectedErrorHandler);
 
-process.on('SIGTERM', () => {
+process.on('SIGTERM', async () => {
   logger.info('SIGTERM received');
   if (server) {
+    // Open WebSockets and notification streams would otherwise keep the server from closing
+    notificationStreamService.closeStreams();
+    await getWebSocketController()
+      .close()
+      .catch(error => logger.error('Failed to close WebSocket server', { error }));
     server.close();
   }
 });
@@ -0,0 +1,134 @@
+import { Request, Response, NextFunction } from 'express';
+import AuditLogService, { AuditCategory, AuditSeverity } from '../services/auditLog.service';
+import logger from '../config/logger';
+
+const auditLogService = new AuditLogService();
+
+export interface AuditOptions {
+  /** Resource name stored on the audit row, e.g. 'user' or 'role' */
+  resource: string;
+  /** Defaults to CREATE/UPDATE/DELETE derived from the HTTP method */
+  action?: string;
+  /** Route param holding the resource ID, e.g. 'userId' */
+  resourceIdParam?: string;
+  category?: AuditCategory;
+  severity?: AuditSeverity;
+  /** Loads the current state of the resource so before/after values can be diffed */
+  load?: (resourceId: string, req: Request) => Promise<any>;
+}
+
+const METHOD_ACTIONS: Record<string, string> = {
+  POST: 'CREATE',
+  PUT: 'UPDATE',
+  PATCH: 'UPDATE',
+  DELETE: 'DELETE',
+};
+
+/**
+ * Find the ID of a newly created resource in a JSON response body
+ */
+const extractCreatedId = (body: any): string | undefined => {
+  const data = body?.data ?? body;
+  if (!data || typeof data !== 'object') return undefined;
+  if (data.id) return String(data.id);
+
+  const nested = Object.values(data).find(
+    (value: any) => value && typeof value === 'object' && !Array.isArray(value) && value.id
+  ) as any;
+  return nested ? String(nested.id) : undefined;
+};
+
+const loadSafely = async (options: AuditOptions, resourceId: string, req: Request) => {
+  try {
+    return await options.load!(resourceId, req);
+  } catch (error) {
+    logger.warn('Audit snapshot failed', { resource: options.resource, resourceId, error });
+    return undefined;
+  }
+};
+
+/**
+ * Audit trail middleware
+ * Snapshots the resource before the handler runs and records an AuditLog row with the
+ * changed fields once the request completes successfully.
+ */
+export const audit = (options: AuditOptions) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const action = options.action || METHOD_ACTIONS[req.method] || req.method;
+    const paramId = options.resourceIdParam ? req.params[options.resourceIdParam] : undefined;
+    const resourceId = Array.isArray(paramId) ? paramId[0] : paramId;
+
+    const before =
+      resourceId && options.load ? await loadSafely(options, resourceId, req) : undefined;
+
+    let responseBody: any;
+    const originalJson = res.json;
+    res.json = function (this: Response, body?: any) {
+      responseBody = body;
+      return originalJson.call(this, body);
+    };
+
+    res.on('finish', async () => {
+      if (res.statusCode >= 400) return;
+
+      try {
+        const targetId = resourceId || extractCreatedId(responseBody);
+        let after: any;
+        if (action !== 'DELETE') {
+          after =
+            targetId && options.load
+              ? await loadSafely(options, targetId, req)
+              : (responseBody?.data ?? req.body);
+        }
+
+        const { oldValues, newValues } = auditLogService.diffValues(before, after);
+
+        await auditLogService.createLogFromRequest(
+          req,
+          action,
+          options.resource,
+          targetId,
+          oldValues,
+          newValues,
+          options.severity,
+          options.category || 'DATA'
+        );
+      } catch (error) {
+        logger.error('Failed to write audit log', {
+          resource: options.resource,
+          action,
+          requestId: req.requestId,
+          error,
+        });
+      }
+    });
+
+    next();
+  };
+};
+
+/**
+ * Record a request made with an impersonation token once it completes, whatever its outcome.
+ * The entry carries the impersonated user and the admin acting as them.
+ */
+export const auditImpersonatedRequest = (req: Request, res: Response) => {
+  res.on('finish', () => {
+    auditLogService
+      .createLogFromRequest(
+        req,
+        'IMPERSONATED_REQUEST',
+        'request',
+        undefined,
+        undefined,
+        // Path only; query strings can carry tokens
+        { method: req.method, path: req.originalUrl.split('?')[0], statusCode: res.statusCode },
+        'INFO',
+        'SECURITY'
+      )
+      .catch(error =>
+        logger.error('Failed to audit impersonated request', { requestId: req.requestId, error })
+      );
+  });
+};
+
+export default audit;
@@ -4,20 +4,46 @@ import ApiError from '../utils/ApiError';
 import { roleRights } from '../config/roles';
 import { NextFunction, Request, Response } from 'express';
 import { User } from '../types/response';
-import jwt from 'jsonwebtoken';
-import config from '../config/config';
 import prisma from '../client';
 import { Role } from '@prisma/client';
+import apiKeyService from '../services/apiKey.service';
+import tokenRevocationService from '../services/tokenRevocation.service';
+import tokenService from '../services/token.service';
+import { AccessTokenPayload, AuthPrincipal } from '../types/auth.types';
+import { trackAuthenticationOperation } from '../utils/metrics';
+import { auditImpersonatedRequest } from './audit';
 
 // Extend Express Request to include user
 declare global {
   namespace Express {
     interface Request {
       user?: User;
+      principal?: AuthPrincipal;
+      accessTokenPayload?: AccessTokenPayload;
     }
   }
 }
 
+// Admin rights a user never gets on their own account without holding them. manageUsers changes
+// the role, status or verification of the account or deletes it outright; users edit themselves
+// through /v1/me and /v1/profile instead.
+const ownerExcludedRights = ['manageUsers', 'manageAllSessions'];
+
+const hasRequiredRights = (req: any, principal: AuthPrincipal, requiredRights: string[]) => {
+  if (!requiredRights.length) {
+    return true;
+  }
+  if (requiredRights.every(requiredRight => principal.rights.includes(requiredRight))) {
+    return true;
+  }
+  // Users reach their own resources without the right; API keys only act through their scopes
+  return (
+    principal.type !== 'apiKey' &&
+    req.params.userId === principal.userId &&
+    !requiredRights.some(requiredRight => ownerExcludedRights.includes(requiredRight))
+  );
+};
+
 const verifyCallback =
   (
     req: any,
@@ -30,15 +56,18 @@ const verifyCallback =
       return reject(new ApiError(httpStatus.UNAUTHORIZED, 'Please authenticate'));
     }
     req.user = user;
+    req.principal = {
+      type: 'user',
+      userId: user.id,
+      role: user.role,
+      rights: roleRights.get(user.role) ?? [],
+      permissions: '*',
+      sessionId: req.accessTokenPayload?.sid,
+      impersonatorId: req.accessTokenPayload?.act?.sub,
+    };
 
-    if (requiredRights.length) {
-      const userRights = roleRights.get(user.role) ?? [];
-      const hasRequiredRights = requiredRights.every(requiredRight =>
-        userRights.includes(requiredRight)
-      );
-      if (!hasRequiredRights && req.params.userId !== user.id) {
-        return reject(new ApiError(httpStatus.FORBIDDEN, 'Forbidden'));
-      }
+    if (!hasRequiredRights(req, req.principal, requiredRights)) {
+      return reject(new ApiError(httpStatus.FORBIDDEN, 'Forbidden'));
     }
 
     resolve();
@@ -54,7 +83,12 @@ const auth =
         verifyCallback(req, resolve, reject, requiredRights)
       )(req, res, next);
     })
-      .then(() => next())
+      .then(() => {
+        if (req.principal?.impersonatorId) {
+          auditImpersonatedRequest(req, res);
+        }
+        next();
+      })
       .catch(err => next(err));
   };
 
@@ -68,7 +102,10 @@ const authByRole =
       return next(new ApiError(httpStatus.UNAUTHORIZED, 'Please authenticate'));
     }
     try {
-      const payload = jwt.verify(token, config.jwt.secret) as any;
+      const payload = await tokenService.verifyAccessToken(token);
+      if (await tokenRevocationService.isAccessTokenRevoked(payload)) {
+        return next(new ApiError(httpStatus.UNAUTHORIZED, 'Please authenticate'));
+      }
       const user = await prisma.user.findUnique({ where: { id: payload.sub as string } });
       if (!user) {
         return next(new ApiError(httpStatus.UNAUTHORIZED, 'User not found'));
@@ -83,5 +120,108 @@ const authByRole =
     }
   };
 
-export { auth, authByRole };
+/**
+ * Resolve an API key into the request user and principal. The key acts as its owner, limited to
+ * the rights its scopes grant.
+ */
+const authenticateWithApiKey = async (req: Request, rawApiKey: string) => {
+  try {
+    const apiKey = await apiKeyService.authenticateApiKey(rawApiKey, req);
+    const owner = await prisma.user.findUnique({
+      select: {
+        id: true,
+        email: true,
+        name: true,
+        role: true,
+        isActive: true,
+        isLocked: true,
+        erasedAt: true,
+      },
+      where: { id: apiKey.userId },
+    });
+    if (!owner || !owner.isActive || owner.isLocked || owner.erasedAt) {
+      throw new ApiError(httpStatus.UNAUTHORIZED, 'Invalid or expired API key');
+    }
+
+    const grants = apiKeyService.resolveGrants(apiKey, owner.role);
+    req.user = owner as User;
+    req.principal = {
+      type: 'apiKey',
+      userId: owner.id,
+      role: owner.role,
+      rights: grants.rights,
+      permissions: grants.permissions,
+      apiKeyId: apiKey.id,
+    };
+    trackAuthenticationOperation('api_key', 'success');
+  } catch (err) {
+    trackAuthenticationOperation('api_key', 'failure');
+    throw err;
+  }
+};
+
+/**
+ * Authenticate with either a JWT bearer token or an X-API-Key header.
+ * API keys act as their owner, limited to the rights their scopes grant.
+ */
+const authenticate =
+  (...requiredRights: string[]) =>
+  async (req: Request, res: Response, next: NextFunction) => {
+    const rawApiKey = req.header('X-API-Key');
+    if (!rawApiKey) {
+      return auth(...requiredRights)(req, res, next);
+    }
+
+    try {
+      await authenticateWithApiKey(req, rawApiKey);
+    } catch (err) {
+      return next(err);
+    }
+
+    if (!hasRequiredRights(req, req.principal!, requiredRights)) {
+      return next(new ApiError(httpStatus.FORBIDDEN, 'Forbidden'));
+    }
+    next();
+  };
+
+/**
+ * Authenticate with an API key only, sent as a bearer token or an X-API-Key header. For
+ * protocols such as SCIM whose clients can only be configured with a bearer token.
+ */
+const apiKeyAuth =
+  (...requiredRights: string[]) =>
+  async (req: Request, res: Response, next: NextFunction) => {
+    const authorization = req.get('Authorization');
+    const rawApiKey = authorization?.startsWith('Bearer ')
+      ? authorization.slice(7).trim()
+      : req.header('X-API-Key');
+    if (!rawApiKey) {
+      return next(new ApiError(httpStatus.UNAUTHORIZED, 'Please authenticate'));
+    }
+
+    try {
+      await authenticateWithApiKey(req, rawApiKey);
+    } catch (err) {
+      return next(err);
+    }
+
+    if (!hasRequiredRights(req, req.principal!, requiredRights)) {
+      return next(new ApiError(httpStatus.FORBIDDEN, 'Forbidden'));
+    }
+    next();
+  };
+
+/**
+ * Refuse requests made with an impersonation token. Support may look around as the user but not
+ * change how they sign in: passwords, email, second factors, passkeys, linked accounts, API keys,
+ * OAuth grants, merges and deletion stay with the user.
+ */
+const denyImpersonation = (req: Request, res: Response, next: NextFunction) => {
+  if (req.principal?.impersonatorId) {
+    return next(new ApiError(httpStatus.FORBIDDEN, 'Not allowed while impersonating a user'));
+  }
+  next();
+};
+
+export { auth, authByRole, authenticate, apiKeyAuth, denyImpersonation };
 export default auth;
@@ -5,6 +5,19 @@ import RbacService from '../services/rbac.service';
 
 const rbacService = new RbacService();
 
+/**
+ * API keys may only exercise the RBAC permissions granted by their scopes
+ */
+const principalAllows = (req: Request, permissions: string[], mode: 'any' | 'all'): boolean => {
+  const granted = req.principal?.permissions;
+  if (!granted || granted === '*') {
+    return true;
+  }
+  return mode === 'any'
+    ? permissions.some(permission => granted.includes(permission))
+    : permissions.every(permission => granted.includes(permission));
+};
+
 /**
  * Middleware to check if user has required permission
  */
@@ -16,6 +29,10 @@ const requirePermission = (permission: string) => {
       return sendError(res, ErrorCode.UNAUTHORIZED, 'Authentication required');
     }
 
+    if (!principalAllows(req, [permission], 'all')) {
+      return sendError(res, ErrorCode.FORBIDDEN, 'Insufficient permissions', httpStatus.FORBIDDEN);
+    }
+
     try {
       const hasPermission = await rbacService.userHasPermission(userId, permission);
 
@@ -41,6 +58,10 @@ const requireAnyPermission = (permissions: string[]) => {
       return sendError(res, ErrorCode.UNAUTHORIZED, 'Authentication required');
     }
 
+    if (!principalAllows(req, permissions, 'any')) {
+      return sendError(res, ErrorCode.FORBIDDEN, 'Insufficient permissions', httpStatus.FORBIDDEN);
+    }
+
     try {
       const hasPermission = await rbacService.userHasAnyPermission(userId, permissions);
 
@@ -66,6 +87,10 @@ const requireAllPermissions = (permissions: string[]) => {
       return sendError(res, ErrorCode.UNAUTHORIZED, 'Authentication required');
     }
 
+    if (!principalAllows(req, permissions, 'all')) {
+      return sendError(res, ErrorCode.FORBIDDEN, 'Insufficient permissions', httpStatus.FORBIDDEN);
+    }
+
     try {
       const hasAllPermissions = await rbacService.userHasAllPermissions(userId, permissions);
 
@@ -21,8 +21,12 @@ const validate =
         )
       );
 
-      const value = combinedSchema.parse(obj);
+      const { query, ...value } = combinedSchema.parse(obj) as Record<string, unknown>;
       Object.assign(req, value);
+      if (query) {
+        // Express 5 exposes req.query as a getter, so it cannot be assigned directly
+        Object.defineProperty(req, 'query', { value: query, writable: true, enumerable: true });
+      }
       return next();
     } catch (error) {
       const errorMessage =
@@ -0,0 +1,192 @@
+import express, { ErrorRequestHandler } from 'express';
+import httpStatus from 'http-status';
+import { apiKeyAuth } from '../../middlewares/auth';
+import validate from '../../middlewares/validate';
+import audit from '../../middlewares/audit';
+import { scimValidation } from '../../validations';
+import { scimController } from '../../controllers';
+import userService from '../../services/user.service';
+import RbacService from '../../services/rbac.service';
+import ScimError from '../../utils/ScimError';
+import logger from '../../config/logger';
+
+const router = express.Router();
+const rbacService = new RbacService();
+
+const auditUser = audit({
+  resource: 'user',
+  resourceIdParam: 'id',
+  load: userId => userService.getUserById(userId),
+});
+
+const auditGroup = audit({
+  resource: 'role',
+  resourceIdParam: 'id',
+  category: 'SECURITY',
+  load: roleId => rbacService.getRoleById(roleId),
+});
+
+router.use(apiKeyAuth('scimProvisioning'));
+
+/**
+ * @route GET /scim/v2/ServiceProviderConfig
+ * @desc SCIM features supported by this service provider
+ * @access Private (SCIM API key)
+ */
+router.get('/ServiceProviderConfig', scimController.getServiceProviderConfig);
+
+/**
+ * @route GET /scim/v2/Schemas
+ * @desc Schemas of the User and Group resources
+ * @access Private (SCIM API key)
+ */
+router.get('/Schemas', scimController.listSchemas);
+router.get('/Schemas/:id', scimController.getSchema);
+
+/**
+ * @route GET /scim/v2/ResourceTypes
+ * @desc Resource types served
+ * @access Private (SCIM API key)
+ */
+router.get('/ResourceTypes', scimController.listResourceTypes);
+router.get('/ResourceTypes/:id', scimController.getResourceType);
+
+/**
+ * @route GET /scim/v2/Users
+ * @desc List users, optionally filtered
+ * @access Private (SCIM API key)
+ */
+router.get('/Users', validate(scimValidation.listResources), scimController.listUsers);
+
+/**
+ * @route POST /scim/v2/Users
+ * @desc Provision a user
+ * @access Private (SCIM API key)
+ */
+router.post(
+  '/Users',
+  validate(scimValidation.createUser),
+  audit({ resource: 'user' }),
+  scimController.createUser
+);
+
+/**
+ * @route GET /scim/v2/Users/:id
+ * @desc Get a user
+ * @access Private (SCIM API key)
+ */
+router.get('/Users/:id', validate(scimValidation.getResource), scimController.getUser);
+
+/**
+ * @route PUT /scim/v2/Users/:id
+ * @desc Replace a user
+ * @access Private (SCIM API key)
+ */
+router.put(
+  '/Users/:id',
+  validate(scimValidation.replaceUser),
+  auditUser,
+  scimController.replaceUser
+);
+
+/**
+ * @route PATCH /scim/v2/Users/:id
+ * @desc Update a user; setting active to false deactivates the account
+ * @access Private (SCIM API key)
+ */
+router.patch(
+  '/Users/:id',
+  validate(scimValidation.patchResource),
+  auditUser,
+  scimController.patchUser
+);
+
+/**
+ * @route DELETE /scim/v2/Users/:id
+ * @desc Delete a user
+ * @access Private (SCIM API key)
+ */
+router.delete(
+  '/Users/:id',
+  validate(scimValidation.deleteResource),
+  auditUser,
+  scimController.deleteUser
+);
+
+/**
+ * @route GET /scim/v2/Groups
+ * @desc List groups (roles), optionally filtered
+ * @access Private (SCIM API key)
+ */
+router.get('/Groups', validate(scimValidation.listResources), scimController.listGroups);
+
+/**
+ * @route POST /scim/v2/Groups
+ * @desc Provision a group as a role
+ * @access Private (SCIM API key)
+ */
+router.post(
+  '/Groups',
+  validate(scimValidation.createGroup),
+  audit({ resource: 'role', category: 'SECURITY' }),
+  scimController.createGroup
+);
+
+/**
+ * @route GET /scim/v2/Groups/:id
+ * @desc Get a group with its members
+ * @access Private (SCIM API key)
+ */
+router.get('/Groups/:id', validate(scimValidation.getResource), scimController.getGroup);
+
+/**
+ * @route PUT /scim/v2/Groups/:id
+ * @desc Replace a group and its members
+ * @access Private (SCIM API key)
+ */
+router.put(
+  '/Groups/:id',
+  validate(scimValidation.replaceGroup),
+  auditGroup,
+  scimController.replaceGroup
+);
+
+/**
+ * @route PATCH /scim/v2/Groups/:id
+ * @desc Update a group or add and remove members
+ * @access Private (SCIM API key)
+ */
+router.patch(
+  '/Groups/:id',
+  validate(scimValidation.patchResource),
+  auditGroup,
+  scimController.patchGroup
+);
+
+/**
+ * @route DELETE /scim/v2/Groups/:id
+ * @desc Delete a group, removing the role from its members
+ * @access Private (SCIM API key)
+ */
+router.delete(
+  '/Groups/:id',
+  validate(scimValidation.deleteResource),
+  auditGroup,
+  scimController.deleteGroup
+);
+
+router.use((req, res, next) => {
+  next(new ScimError(httpStatus.NOT_FOUND, 'Not found'));
+});
+
+// SCIM clients expect every error in the SCIM error format
+const scimErrorConverter: ErrorRequestHandler = (err, req, res, next) => {
+  const error = ScimError.from(err);
+  if (error.statusCode >= httpStatus.INTERNAL_SERVER_ERROR) {
+    logger.error('SCIM request failed', { error: err, requestId: req.requestId });
+  }
+  next(error);
+};
+router.use(scimErrorConverter);
+
+export default router;
@@ -0,0 +1,283 @@
+import express from 'express';
+import auth, { denyImpersonation } from '../../middlewares/auth';
+import validate from '../../middlewares/validate';
+import { apiKeyValidation } from '../../validations';
+import { apiKeyController } from '../../controllers';
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: API Keys
+ *   description: Self-service API key management
+ */
+
+/**
+ * @swagger
+ * /api-keys/admin/all:
+ *   get:
+ *     summary: Get all API keys
+ *     description: Retrieve every API key in the system together with its owner
+ *     tags: [API Keys]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: API keys retrieved successfully
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.get('/admin/all', auth('manageApiKeys'), apiKeyController.getAllApiKeys);
+
+/**
+ * @swagger
+ * /api-keys/admin/cleanup:
+ *   post:
+ *     summary: Deactivate expired API keys
+ *     description: Deactivate every active API key whose expiration date has passed
+ *     tags: [API Keys]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Expired API keys deactivated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 deactivatedCount:
+ *                   type: integer
+ *                   example: 3
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.post('/admin/cleanup', auth('manageApiKeys'), apiKeyController.cleanupExpiredApiKeys);
+
+/**
+ * @swagger
+ * /api-keys:
+ *   post:
+ *     summary: Create API key
+ *     description: Create a new API key for the current user. The plain key is only returned once.
+ *     tags: [API Keys]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ApiKeyCreate'
+ *     responses:
+ *       201:
+ *         description: API key created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 apiKey:
+ *                   allOf:
+ *                     - $ref: '#/components/schemas/ApiKey'
+ *                     - type: object
+ *                       properties:
+ *                         key:
+ *                           type: string
+ *                           example: 'ak_3f9c...'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *   get:
+ *     summary: Get my API keys
+ *     description: List the API keys owned by the current user
+ *     tags: [API Keys]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: API keys retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 apiKeys:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/ApiKey'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ */
+router
+  .route('/')
+  .post(
+    auth(),
+    denyImpersonation,
+    validate(apiKeyValidation.createApiKey),
+    apiKeyController.createApiKey
+  )
+  .get(auth(), apiKeyController.getApiKeys);
+
+/**
+ * @swagger
+ * /api-keys/{apiKeyId}:
+ *   get:
+ *     summary: Get API key
+ *     tags: [API Keys]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: apiKeyId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: API key retrieved successfully
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *   patch:
+ *     summary: Update API key
+ *     description: Update the name, permissions or restrictions of an API key
+ *     tags: [API Keys]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: apiKeyId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ApiKeyUpdate'
+ *     responses:
+ *       200:
+ *         description: API key updated successfully
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *   delete:
+ *     summary: Revoke API key
+ *     description: Deactivate an API key immediately
+ *     tags: [API Keys]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: apiKeyId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: API key revoked successfully
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ */
+router
+  .route('/:apiKeyId')
+  .get(auth(), validate(apiKeyValidation.getApiKey), apiKeyController.getApiKey)
+  .patch(
+    auth(),
+    denyImpersonation,
+    validate(apiKeyValidation.updateApiKey),
+    apiKeyController.updateApiKey
+  )
+  .delete(
+    auth(),
+    denyImpersonation,
+    validate(apiKeyValidation.revokeApiKey),
+    apiKeyController.revokeApiKey
+  );
+
+/**
+ * @swagger
+ * /api-keys/{apiKeyId}/regenerate:
+ *   post:
+ *     summary: Rotate API key
+ *     description: Issue a new secret for the API key. The previous secret stops working immediately.
+ *     tags: [API Keys]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: apiKeyId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: API key regenerated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 id:
+ *                   type: string
+ *                 key:
+ *                   type: string
+ *                   example: 'ak_3f9c...'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ */
+router.post(
+  '/:apiKeyId/regenerate',
+  auth(),
+  denyImpersonation,
+  validate(apiKeyValidation.regenerateApiKey),
+  apiKeyController.regenerateApiKey
+);
+
+/**
+ * @swagger
+ * /api-keys/{apiKeyId}/usage:
+ *   get:
+ *     summary: Get API key usage
+ *     description: Usage counters and rate limit consumption for an API key
+ *     tags: [API Keys]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: apiKeyId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: API key usage retrieved successfully
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ */
+router.get(
+  '/:apiKeyId/usage',
+  auth(),
+  validate(apiKeyValidation.getApiKeyUsage),
+  apiKeyController.getApiKeyUsage
+);
+
+export default router;
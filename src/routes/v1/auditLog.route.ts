@@ -1,5 +1,5 @@
 import express from 'express';
-import auth from '../../middlewares/auth';
+import { authenticate } from '../../middlewares/auth';
 import validate from '../../middlewares/validate';
 import {
   getAuditLogs,
@@ -9,60 +9,65 @@ import {
   getUserAuditHistory,
   searchAuditLogs,
   cleanupOldAuditLogs,
+  verifyAuditLogChain,
 } from '../../controllers/auditLog.controller';
 
 const router = express.Router();
 
-// All routes require authentication
-router.use(auth());
-
 /**
  * @route GET /v1/audit-logs
  * @desc Get audit logs with filtering
  * @access Private (Admin only)
  */
-router.get('/', getAuditLogs);
+router.get('/', authenticate('getAuditLogs'), getAuditLogs);
+
+/**
+ * @route GET /v1/audit-logs/verify
+ * @desc Walk the audit log hash chain and report the first broken link
+ * @access Private (Admin only)
+ */
+router.get('/verify', authenticate('verifyAuditLogs'), verifyAuditLogChain);
 
 /**
  * @route GET /v1/audit-logs/:logId
  * @desc Get audit log by ID
  * @access Private (Admin only)
  */
-router.get('/:logId', getAuditLogById);
+router.get('/:logId', authenticate('getAuditLogs'), getAuditLogById);
 
 /**
  * @route GET /v1/audit-logs/statistics
  * @desc Get audit log statistics
  * @access Private (Admin only)
  */
-router.get('/statistics', getAuditLogStatistics);
+router.get('/statistics', authenticate('getAuditLogs'), getAuditLogStatistics);
 
 /**
  * @route GET /v1/audit-logs/export
  * @desc Export audit logs to CSV
  * @access Private (Admin only)
  */
-router.get('/export', exportAuditLogs);
+router.get('/export', authenticate('exportAuditLogs'), exportAuditLogs);
 
 /**
  * @route GET /v1/audit-logs/users/:userId
  * @desc Get user's audit history
  * @access Private (Admin or self)
  */
-router.get('/users/:userId', getUserAuditHistory);
+router.get('/users/:userId', authenticate('getAuditLogs'), getUserAuditHistory);
 
 /**
  * @route GET /v1/audit-logs/search
  * @desc Search audit logs
  * @access Private (Admin only)
  */
-router.get('/search', searchAuditLogs);
+router.get('/search', authenticate('getAuditLogs'), searchAuditLogs);
 
 /**
  * @route DELETE /v1/audit-logs/cleanup
  * @desc Cleanup old audit logs
  * @access Private (Admin only)
  */
-router.delete('/cleanup', cleanupOldAuditLogs);
+router.delete('/cleanup', authenticate('manageAuditLogs'), cleanupOldAuditLogs);
 
 export default router;
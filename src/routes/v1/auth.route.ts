@@ -3,7 +3,7 @@ import httpStatus from 'http-status';
 import validate from '../../middlewares/validate';
 import { authValidation } from '../../validations';
 import { authController } from '../../controllers';
-import auth from '../../middlewares/auth';
+import auth, { denyImpersonation } from '../../middlewares/auth';
 import {
   progressiveAuthLimiter,
   progressivePasswordResetLimiter,
@@ -45,9 +45,48 @@ router.post(
   authController.login
 );
 
+/**
+ * @route POST /v1/auth/magic-link
+ * @desc Email a single-use sign-in link
+ * @access Public
+ */
+router.post(
+  '/magic-link',
+  ipSecurityMiddleware,
+  progressiveAuthLimiter,
+  validate(authValidation.requestMagicLink),
+  authController.requestMagicLink
+);
+
+/**
+ * @route POST /v1/auth/magic-link/verify
+ * @desc Exchange a magic link token for auth tokens
+ * @access Public
+ */
+router.post(
+  '/magic-link/verify',
+  ipSecurityMiddleware,
+  progressiveAuthLimiter,
+  validate(authValidation.verifyMagicLink),
+  authController.verifyMagicLink
+);
+
+/**
+ * @route POST /v1/auth/social/exchange
+ * @desc Exchange the one-time code from an identity provider login for auth tokens
+ * @access Public
+ */
+router.post(
+  '/social/exchange',
+  ipSecurityMiddleware,
+  progressiveAuthLimiter,
+  validate(authValidation.exchangeSocialLoginCode),
+  authController.exchangeSocialLoginCode
+);
+
 /**
  * @route POST /v1/auth/verify-2fa
- * @desc Verify 2FA and complete login
+ * @desc Verify a TOTP, backup, email or SMS code and complete login
  * @access Public
  */
 router.post(
@@ -57,6 +96,18 @@ router.post(
   authController.verifyTwoFactor
 );
 
+/**
+ * @route POST /v1/auth/2fa/send-code
+ * @desc Send a login code by email or SMS for a pending two-factor login
+ * @access Public
+ */
+router.post(
+  '/2fa/send-code',
+  progressiveAuthLimiter,
+  validate(authValidation.sendTwoFactorCode),
+  authController.sendTwoFactorCode
+);
+
 /**
  * @route POST /v1/auth/logout
  * @desc Logout user
@@ -185,6 +236,7 @@ router.post(
 router.post(
   '/change-password',
   auth(),
+  denyImpersonation,
   validate(authValidation.changePassword),
   authController.changePassword
 );
@@ -194,7 +246,7 @@ router.post(
  * @desc Setup 2FA
  * @access Private
  */
-router.post('/2fa/setup', auth(), authController.setupTwoFactor);
+router.post('/2fa/setup', auth(), denyImpersonation, authController.setupTwoFactor);
 
 /**
  * @route POST /v1/auth/2fa/enable
@@ -204,6 +256,7 @@ router.post('/2fa/setup', auth(), authController.setupTwoFactor);
 router.post(
   '/2fa/enable',
   auth(),
+  denyImpersonation,
   validate(authValidation.enableTwoFactor),
   authController.enableTwoFactor
 );
@@ -216,6 +269,7 @@ router.post(
 router.post(
   '/2fa/disable',
   auth(),
+  denyImpersonation,
   validate(authValidation.disableTwoFactor),
   authController.disableTwoFactor
 );
@@ -235,6 +289,7 @@ router.get('/2fa/status', auth(), authController.getTwoFactorStatus);
 router.post(
   '/2fa/regenerate-backup-codes',
   auth(),
+  denyImpersonation,
   validate(authValidation.regenerateBackupCodes),
   authController.regenerateBackupCodes
 );
@@ -438,6 +493,67 @@ export default router;
  *               message: "Invalid email or password"
  */
 
+/**
+ * @swagger
+ * /auth/magic-link:
+ *   post:
+ *     summary: Request a magic sign-in link
+ *     description: Email a single-use sign-in link. The response is the same whether or not the email is registered.
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *           example:
+ *             email: "user@example.com"
+ *     responses:
+ *       "204":
+ *         description: Link sent if the account exists
+ *       "400":
+ *         $ref: '#/components/responses/BadRequest'
+ *
+ * /auth/magic-link/verify:
+ *   post:
+ *     summary: Login with a magic link
+ *     description: Exchange the token from a magic link for access and refresh tokens, or a two-factor challenge when a second factor is enabled.
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *             properties:
+ *               token:
+ *                 type: string
+ *     responses:
+ *       "200":
+ *         description: Login successful or second factor required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 tokens:
+ *                   $ref: '#/components/schemas/AuthTokens'
+ *       "400":
+ *         $ref: '#/components/responses/BadRequest'
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *       "403":
+ *         $ref: '#/components/responses/Forbidden'
+ */
+
 /**
  * @swagger
  * /auth/logout:
@@ -0,0 +1,59 @@
+import express from 'express';
+import validate from '../../middlewares/validate';
+import { dataExportValidation } from '../../validations';
+import { dataExportController } from '../../controllers';
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Data Export
+ *   description: Personal data export archives (GDPR subject access requests)
+ */
+
+/**
+ * @swagger
+ * /data-exports/{jobId}/download:
+ *   get:
+ *     summary: Download personal data export
+ *     description: Download the ZIP archive of an export job. The link is emailed to the user and is signed and time-limited.
+ *     tags: [Data Export]
+ *     parameters:
+ *       - in: path
+ *         name: jobId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: expires
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: signature
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: ZIP archive with one JSON and one CSV file per entity
+ *         content:
+ *           application/zip:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       410:
+ *         description: Download link has expired
+ */
+router.get(
+  '/:jobId/download',
+  validate(dataExportValidation.downloadExport),
+  dataExportController.downloadExport
+);
+
+export default router;
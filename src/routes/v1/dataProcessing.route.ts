@@ -0,0 +1,47 @@
+import express from 'express';
+import { authenticate } from '../../middlewares/auth';
+import validate from '../../middlewares/validate';
+import audit from '../../middlewares/audit';
+import { dataProcessingValidation } from '../../validations';
+import { dataProcessingController } from '../../controllers';
+
+const router = express.Router();
+
+// Records of processing activities are for administrators and the legal team
+router.use(authenticate('manageDataProcessing'));
+
+/**
+ * @route GET /v1/data-processing-records
+ * @desc Query processing records by purpose, legal basis, status or user
+ * @access Private (Admin only)
+ */
+router.get(
+  '/',
+  validate(dataProcessingValidation.queryRecords),
+  dataProcessingController.queryRecords
+);
+
+/**
+ * @route POST /v1/data-processing-records
+ * @desc Record processing of a user's data on a given legal basis
+ * @access Private (Admin only)
+ */
+router.post(
+  '/',
+  validate(dataProcessingValidation.recordProcessing),
+  audit({ resource: 'data_processing_record', category: 'DATA' }),
+  dataProcessingController.recordProcessing
+);
+
+/**
+ * @route GET /v1/data-processing-records/:recordId
+ * @desc Get a processing record
+ * @access Private (Admin only)
+ */
+router.get(
+  '/:recordId',
+  validate(dataProcessingValidation.getRecord),
+  dataProcessingController.getRecord
+);
+
+export default router;
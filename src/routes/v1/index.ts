@@ -13,6 +13,13 @@ import roleRoute from './role.route';
 import passwordPolicyRoute from './passwordPolicy.route';
 import auditLogRoute from './auditLog.route';
 import sessionManagementRoute from './sessionManagement.route';
+import apiKeyRoute from './apiKey.route';
+import dataExportRoute from './dataExport.route';
+import dataProcessingRoute from './dataProcessing.route';
+import webAuthnRoute from './webAuthn.route';
+import oauthRoute from './oauth.route';
+import samlRoute from './saml.route';
+import samlConnectionRoute from './samlConnection.route';
 import config from '../../config/config';
 
 const router = express.Router();
@@ -22,6 +29,15 @@ const defaultRoutes = [
     path: '/auth',
     route: authRoute,
   },
+  // Must stay ahead of socialAuthRoute, which requires authentication for everything under /auth
+  {
+    path: '/auth/webauthn',
+    route: webAuthnRoute,
+  },
+  {
+    path: '/auth/saml',
+    route: samlRoute,
+  },
   {
     path: '/users',
     route: userRoute,
@@ -70,6 +86,26 @@ const defaultRoutes = [
     path: '/sessions',
     route: sessionManagementRoute,
   },
+  {
+    path: '/api-keys',
+    route: apiKeyRoute,
+  },
+  {
+    path: '/data-exports',
+    route: dataExportRoute,
+  },
+  {
+    path: '/data-processing-records',
+    route: dataProcessingRoute,
+  },
+  {
+    path: '/oauth',
+    route: oauthRoute,
+  },
+  {
+    path: '/saml-connections',
+    route: samlConnectionRoute,
+  },
 ];
 
 // routes available only in development mode
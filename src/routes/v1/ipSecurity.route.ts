@@ -3,9 +3,18 @@ import validate from '../../middlewares/validate';
 import { ipSecurityController } from '../../controllers';
 import auth from '../../middlewares/auth';
 import { ipSecurityValidation } from '../../validations';
+import audit from '../../middlewares/audit';
+import { ipSecurityService } from '../../services';
 
 const router = express.Router();
 
+const auditIPRule = audit({
+  resource: 'ip_security_rule',
+  resourceIdParam: 'id',
+  category: 'SECURITY',
+  load: id => ipSecurityService.getIPRuleById(id),
+});
+
 /**
  * @swagger
  * /ip-security/rules:
@@ -68,6 +77,7 @@ router.post(
   '/rules',
   auth('manageUsers'),
   validate(ipSecurityValidation.createIPRule),
+  auditIPRule,
   ipSecurityController.createIPRule
 );
 
@@ -133,6 +143,7 @@ router.put(
   '/rules/:id',
   auth('manageUsers'),
   validate(ipSecurityValidation.updateIPRule),
+  auditIPRule,
   ipSecurityController.updateIPRule
 );
 
@@ -141,7 +152,7 @@ router.put(
  * @desc Delete IP security rule
  * @access Private (Admin)
  */
-router.delete('/rules/:id', auth('manageUsers'), ipSecurityController.deleteIPRule);
+router.delete('/rules/:id', auth('manageUsers'), auditIPRule, ipSecurityController.deleteIPRule);
 
 /**
  * @route GET /v1/ip-security/stats
@@ -1,8 +1,26 @@
 import express from 'express';
-import auth from '../../middlewares/auth';
+import auth, { denyImpersonation } from '../../middlewares/auth';
 import validate from '../../middlewares/validate';
-import { userValidation } from '../../validations';
-import { userController } from '../../controllers';
+import audit from '../../middlewares/audit';
+import {
+  userValidation,
+  dataExportValidation,
+  dataProcessingValidation,
+  webAuthnValidation,
+  accountMergeValidation,
+  notificationPreferenceValidation,
+} from '../../validations';
+import {
+  userController,
+  dataExportController,
+  dataProcessingController,
+  webAuthnController,
+  accountMergeController,
+  notificationStreamController,
+  notificationPreferenceController,
+} from '../../controllers';
+import { progressiveAuthLimiter } from '../../middlewares/progressiveRateLimiter';
+import dataProcessingService from '../../services/dataProcessing.service';
 
 const router = express.Router();
 
@@ -53,6 +71,24 @@ router.patch('/preferences', validate(userValidation.updateUserPreferences), (re
   userController.updateUserPreferences(req, res, next);
 });
 
+/**
+ * @route GET /v1/me/notification-preferences
+ * @desc Get current user's notification channels, quiet hours, digest and per-type settings
+ * @access Private
+ */
+router.get('/notification-preferences', notificationPreferenceController.getPreferences);
+
+/**
+ * @route PATCH /v1/me/notification-preferences
+ * @desc Update current user's notification preferences
+ * @access Private
+ */
+router.patch(
+  '/notification-preferences',
+  validate(notificationPreferenceValidation.updatePreferences),
+  notificationPreferenceController.updatePreferences
+);
+
 /**
  * @route GET /v1/me/privacy
  * @desc Get current user's privacy settings
@@ -185,6 +221,13 @@ router.get('/notifications', validate(userValidation.getUserNotifications), (req
   userController.getUserNotifications(req, res, next);
 });
 
+/**
+ * @route GET /v1/me/notifications/stream
+ * @desc Stream current user's push notifications as Server-Sent Events
+ * @access Private
+ */
+router.get('/notifications/stream', notificationStreamController.streamNotifications);
+
 /**
  * @route PATCH /v1/me/notifications/:notificationId/read
  * @desc Mark notification as read
@@ -281,15 +324,153 @@ router.get('/export', validate(userValidation.exportUserData), (req, res, next)
   userController.exportUserData(req, res, next);
 });
 
+/**
+ * @route POST /v1/me/export
+ * @desc Start a full export of the current user's personal data as a ZIP archive
+ * @access Private
+ */
+router.post('/export', dataExportController.requestExport);
+
+/**
+ * @route GET /v1/me/export/:jobId
+ * @desc Poll the status of a personal data export
+ * @access Private
+ */
+router.get(
+  '/export/:jobId',
+  validate(dataExportValidation.getExportJob),
+  dataExportController.getExportJob
+);
+
+/**
+ * @route GET /v1/me/consents
+ * @desc Get current user's consents and other processing records
+ * @access Private
+ */
+router.get(
+  '/consents',
+  validate(dataProcessingValidation.getMyConsents),
+  dataProcessingController.getMyConsents
+);
+
+/**
+ * @route POST /v1/me/consents
+ * @desc Give consent for a processing purpose
+ * @access Private
+ */
+router.post(
+  '/consents',
+  validate(dataProcessingValidation.giveConsent),
+  audit({ resource: 'data_processing_record', action: 'GIVE_CONSENT', category: 'DATA' }),
+  dataProcessingController.giveConsent
+);
+
+/**
+ * @route POST /v1/me/consents/:recordId/withdraw
+ * @desc Withdraw a previously given consent
+ * @access Private
+ */
+router.post(
+  '/consents/:recordId/withdraw',
+  validate(dataProcessingValidation.withdrawConsent),
+  audit({
+    resource: 'data_processing_record',
+    action: 'WITHDRAW_CONSENT',
+    resourceIdParam: 'recordId',
+    category: 'DATA',
+    load: recordId => dataProcessingService.getRecordById(recordId),
+  }),
+  dataProcessingController.withdrawConsent
+);
+
 /**
  * @route DELETE /v1/me/account
- * @desc Delete current user's account
+ * @desc Schedule erasure of the current user's account after the grace period
+ * @access Private
+ */
+router.delete(
+  '/account',
+  denyImpersonation,
+  validate(userValidation.deleteAccount),
+  (req, res, next) => {
+    // Set userId from authenticated user
+    (req.params as any).userId = (req.user as any)?.id;
+    userController.deleteAccount(req, res, next);
+  }
+);
+
+/**
+ * @route POST /v1/me/account/cancel-deletion
+ * @desc Cancel a pending deletion of the current user's account
  * @access Private
  */
-router.delete('/account', validate(userValidation.deleteAccount), (req, res, next) => {
+router.post('/account/cancel-deletion', (req, res, next) => {
   // Set userId from authenticated user
   (req.params as any).userId = (req.user as any)?.id;
-  userController.deleteAccount(req, res, next);
+  userController.cancelAccountDeletion(req, res, next);
 });
 
+/**
+ * @route GET /v1/me/account-merge/candidates
+ * @desc List other accounts that probably belong to the current user
+ * @access Private
+ */
+router.get('/account-merge/candidates', accountMergeController.getCandidates);
+
+/**
+ * @route POST /v1/me/account-merge
+ * @desc Prove control of the current and another account to start merging them
+ * @access Private
+ */
+router.post(
+  '/account-merge',
+  denyImpersonation,
+  progressiveAuthLimiter,
+  validate(accountMergeValidation.startMerge),
+  accountMergeController.startMerge
+);
+
+/**
+ * @route POST /v1/me/account-merge/complete
+ * @desc Verify second factors and merge the other account into the current one
+ * @access Private
+ */
+router.post(
+  '/account-merge/complete',
+  denyImpersonation,
+  validate(accountMergeValidation.completeMerge),
+  accountMergeController.completeMerge
+);
+
+/**
+ * @route GET /v1/me/webauthn/credentials
+ * @desc List current user's passkeys
+ * @access Private
+ */
+router.get('/webauthn/credentials', webAuthnController.listCredentials);
+
+/**
+ * @route PATCH /v1/me/webauthn/credentials/:credentialId
+ * @desc Rename a passkey
+ * @access Private
+ */
+router.patch(
+  '/webauthn/credentials/:credentialId',
+  denyImpersonation,
+  validate(webAuthnValidation.renameCredential),
+  webAuthnController.renameCredential
+);
+
+/**
+ * @route DELETE /v1/me/webauthn/credentials/:credentialId
+ * @desc Remove a passkey
+ * @access Private
+ */
+router.delete(
+  '/webauthn/credentials/:credentialId',
+  denyImpersonation,
+  validate(webAuthnValidation.removeCredential),
+  webAuthnController.removeCredential
+);
+
 export default router;
@@ -0,0 +1,159 @@
+import express from 'express';
+import auth, { denyImpersonation } from '../../middlewares/auth';
+import validate from '../../middlewares/validate';
+import audit from '../../middlewares/audit';
+import { progressiveAuthLimiter } from '../../middlewares/progressiveRateLimiter';
+import { oauthValidation } from '../../validations';
+import { oauthController } from '../../controllers';
+import oauthClientService from '../../services/oauthClient.service';
+
+const router = express.Router();
+
+const auditClient = audit({
+  resource: 'oauth_client',
+  resourceIdParam: 'clientId',
+  category: 'SECURITY',
+  load: clientId => oauthClientService.getClient(clientId),
+});
+
+/**
+ * @route GET /v1/oauth/authorize
+ * @desc Start an authorization code flow; redirects to the sign-in and consent page
+ * @access Public
+ */
+router.get(
+  '/authorize',
+  validate(oauthValidation.startAuthorization),
+  oauthController.startAuthorization
+);
+
+/**
+ * @route GET /v1/oauth/authorize/details
+ * @desc Describe an authorization request for the consent screen
+ * @access Private
+ */
+router.get(
+  '/authorize/details',
+  auth(),
+  validate(oauthValidation.getAuthorizationDetails),
+  oauthController.getAuthorizationDetails
+);
+
+/**
+ * @route POST /v1/oauth/authorize
+ * @desc Approve or deny an authorization request; returns the client redirect
+ * @access Private
+ */
+router.post(
+  '/authorize',
+  auth(),
+  denyImpersonation,
+  validate(oauthValidation.authorize),
+  oauthController.authorize
+);
+
+/**
+ * @route POST /v1/oauth/token
+ * @desc Exchange an authorization code, refresh token or client credentials for tokens
+ * @access Client authentication
+ */
+router.post('/token', progressiveAuthLimiter, oauthController.token);
+
+/**
+ * @route POST /v1/oauth/introspect
+ * @desc Token introspection (RFC 7662)
+ * @access Client authentication
+ */
+router.post('/introspect', progressiveAuthLimiter, oauthController.introspect);
+
+/**
+ * @route POST /v1/oauth/revoke
+ * @desc Token revocation (RFC 7009)
+ * @access Client authentication
+ */
+router.post('/revoke', progressiveAuthLimiter, oauthController.revoke);
+
+/**
+ * @route GET|POST /v1/oauth/userinfo
+ * @desc OpenID Connect claims about the user an access token was issued for
+ * @access OAuth access token
+ */
+router.route('/userinfo').get(oauthController.getUserInfo).post(oauthController.getUserInfo);
+
+/**
+ * @route GET /v1/oauth/clients
+ * @desc List registered OAuth clients
+ * @access Private (Admin only)
+ */
+router.get('/clients', auth('manageOAuthClients'), oauthController.listClients);
+
+/**
+ * @route POST /v1/oauth/clients
+ * @desc Register an OAuth client
+ * @access Private (Admin only)
+ */
+router.post(
+  '/clients',
+  auth('manageOAuthClients'),
+  validate(oauthValidation.createClient),
+  audit({ resource: 'oauth_client', category: 'SECURITY' }),
+  oauthController.createClient
+);
+
+/**
+ * @route GET /v1/oauth/clients/:clientId
+ * @desc Get an OAuth client
+ * @access Private (Admin only)
+ */
+router.get(
+  '/clients/:clientId',
+  auth('manageOAuthClients'),
+  validate(oauthValidation.getClient),
+  oauthController.getClient
+);
+
+/**
+ * @route PATCH /v1/oauth/clients/:clientId
+ * @desc Update an OAuth client; deactivating it revokes its tokens
+ * @access Private (Admin only)
+ */
+router.patch(
+  '/clients/:clientId',
+  auth('manageOAuthClients'),
+  validate(oauthValidation.updateClient),
+  auditClient,
+  oauthController.updateClient
+);
+
+/**
+ * @route POST /v1/oauth/clients/:clientId/secret
+ * @desc Issue a new client secret
+ * @access Private (Admin only)
+ */
+router.post(
+  '/clients/:clientId/secret',
+  auth('manageOAuthClients'),
+  validate(oauthValidation.rotateClientSecret),
+  audit({
+    resource: 'oauth_client',
+    resourceIdParam: 'clientId',
+    action: 'ROTATE_SECRET',
+    category: 'SECURITY',
+  }),
+  oauthController.rotateClientSecret
+);
+
+/**
+ * @route DELETE /v1/oauth/clients/:clientId
+ * @desc Delete an OAuth client
+ * @access Private (Admin only)
+ */
+router.delete(
+  '/clients/:clientId',
+  auth('manageOAuthClients'),
+  validate(oauthValidation.deleteClient),
+  auditClient,
+  oauthController.deleteClient
+);
+
+export default router;
@@ -13,8 +13,18 @@ import {
   checkPasswordExpiry,
   getPasswordStrength,
 } from '../../controllers/passwordPolicy.controller';
+import audit from '../../middlewares/audit';
+import PasswordPolicyService from '../../services/passwordPolicy.service';
 
 const router = express.Router();
+const passwordPolicyService = new PasswordPolicyService();
+
+const auditPolicy = audit({
+  resource: 'password_policy',
+  resourceIdParam: 'policyId',
+  category: 'SECURITY',
+  load: policyId => passwordPolicyService.getPolicyById(policyId),
+});
 
 // All routes require authentication
 router.use(auth());
@@ -31,21 +41,21 @@ router.get('/active', getActivePolicy);
  * @desc Create password policy
  * @access Private (Admin only)
  */
-router.post('/', validate({ body: rbacValidation.createRole }), createPolicy);
+router.post('/', validate({ body: rbacValidation.createRole }), auditPolicy, createPolicy);
 
 /**
  * @route PUT /v1/password-policies/:policyId
  * @desc Update password policy
  * @access Private (Admin only)
  */
-router.put('/:policyId', validate({ body: rbacValidation.updateRole }), updatePolicy);
+router.put('/:policyId', validate({ body: rbacValidation.updateRole }), auditPolicy, updatePolicy);
 
 /**
  * @route DELETE /v1/password-policies/:policyId
  * @desc Delete password policy
  * @access Private (Admin only)
  */
-router.delete('/:policyId', deletePolicy);
+router.delete('/:policyId', auditPolicy, deletePolicy);
 
 /**
  * @route GET /v1/password-policies
@@ -1,5 +1,5 @@
 import express from 'express';
-import auth from '../../middlewares/auth';
+import auth, { denyImpersonation } from '../../middlewares/auth';
 import validate from '../../middlewares/validate';
 import { profileValidation } from '../../validations';
 import { profileController } from '../../controllers';
@@ -83,15 +83,23 @@ router.get('/export', profileController.exportUserData);
 
 /**
  * @route DELETE /v1/profile/account
- * @desc Delete user account
+ * @desc Schedule account erasure after the deletion grace period
  * @access Private
  */
 router.delete(
   '/account',
+  denyImpersonation,
   validate(profileValidation.deleteAccount),
   profileController.deleteAccount
 );
 
+/**
+ * @route POST /v1/profile/account/cancel-deletion
+ * @desc Cancel a pending account deletion during the grace period
+ * @access Private
+ */
+router.post('/account/cancel-deletion', profileController.cancelAccountDeletion);
+
 /**
  * @route POST /v1/profile/profile-picture
  * @desc Upload profile picture
@@ -16,8 +16,29 @@ import {
   getUserPermissions,
   checkUserPermission,
 } from '../../controllers/role.controller';
+import audit, { AuditOptions } from '../../middlewares/audit';
+import RbacService from '../../services/rbac.service';
 
 const router = express.Router();
+const rbacService = new RbacService();
+
+const loadRole = (roleId: string) => rbacService.getRoleById(roleId);
+const auditRole = audit({
+  resource: 'role',
+  resourceIdParam: 'roleId',
+  category: 'SECURITY',
+  load: loadRole,
+});
+
+// Role assignments are audited as a snapshot of the user's active role names
+const auditUserRoles: Omit<AuditOptions, 'resource'> = {
+  resourceIdParam: 'userId',
+  category: 'SECURITY',
+  severity: 'WARNING',
+  load: async userId => ({
+    roles: (await rbacService.getUserRoles(userId)).map(userRole => userRole.role.name).sort(),
+  }),
+};
 
 // All routes require authentication
 router.use(auth());
@@ -27,7 +48,7 @@ router.use(auth());
  * @desc Create a new role
  * @access Private (Admin only)
  */
-router.post('/', validate({ body: rbacValidation.createRole }), createRole);
+router.post('/', validate({ body: rbacValidation.createRole }), auditRole, createRole);
 
 /**
  * @route GET /v1/roles
@@ -48,14 +69,14 @@ router.get('/:roleId', getRoleById);
  * @desc Update role
  * @access Private (Admin only)
  */
-router.put('/:roleId', validate({ body: rbacValidation.updateRole }), updateRole);
+router.put('/:roleId', validate({ body: rbacValidation.updateRole }), auditRole, updateRole);
 
 /**
  * @route DELETE /v1/roles/:roleId
  * @desc Delete role
  * @access Private (Admin only)
  */
-router.delete('/:roleId', deleteRole);
+router.delete('/:roleId', auditRole, deleteRole);
 
 /**
  * @route POST /v1/roles/:roleId/permissions
@@ -65,10 +86,27 @@ router.delete('/:roleId', deleteRole);
 router.post(
   '/:roleId/permissions',
   validate({ body: rbacValidation.assignPermissions }),
+  audit({
+    resource: 'role',
+    action: 'ASSIGN_PERMISSIONS',
+    resourceIdParam: 'roleId',
+    category: 'SECURITY',
+    load: loadRole,
+  }),
   assignPermissionsToRole
 );
 
-router.delete('/:roleId/permissions/:permissionId', removePermissionFromRole);
+router.delete(
+  '/:roleId/permissions/:permissionId',
+  audit({
+    resource: 'role',
+    action: 'REMOVE_PERMISSION',
+    resourceIdParam: 'roleId',
+    category: 'SECURITY',
+    load: loadRole,
+  }),
+  removePermissionFromRole
+);
 
 /**
  * @route POST /v1/users/:userId/roles
@@ -78,6 +116,7 @@ router.delete('/:roleId/permissions/:permissionId', removePermissionFromRole);
 router.post(
   '/users/:userId/roles',
   validate({ body: rbacValidation.assignRoleToUser }),
+  audit({ resource: 'user_role', action: 'ASSIGN_ROLE', ...auditUserRoles }),
   assignRoleToUser
 );
 
@@ -86,7 +125,11 @@ router.post(
  * @desc Remove role from user
  * @access Private (Admin only)
  */
-router.delete('/users/:userId/roles/:roleId', removeRoleFromUser);
+router.delete(
+  '/users/:userId/roles/:roleId',
+  audit({ resource: 'user_role', action: 'REMOVE_ROLE', ...auditUserRoles }),
+  removeRoleFromUser
+);
 
 /**
  * @route GET /v1/users/:userId/roles
@@ -0,0 +1,37 @@
+import express from 'express';
+import validate from '../../middlewares/validate';
+import { samlValidation } from '../../validations';
+import { samlController } from '../../controllers';
+
+const router = express.Router();
+
+/**
+ * @route GET /v1/auth/saml/:connection/login
+ * @desc Start an SP-initiated login; redirects to the identity provider
+ * @access Public
+ */
+router.get('/:connection/login', validate(samlValidation.login), samlController.login);
+
+/**
+ * @route POST /v1/auth/saml/:connection/acs
+ * @desc Assertion Consumer Service; redirects to the client app with a one-time code
+ * @access Public
+ */
+router.post(
+  '/:connection/acs',
+  validate(samlValidation.assertionConsumerService),
+  samlController.assertionConsumerService
+);
+
+/**
+ * @route GET /v1/auth/saml/:connection/metadata
+ * @desc Service provider metadata to register with the identity provider
+ * @access Public
+ */
+router.get(
+  '/:connection/metadata',
+  validate(samlValidation.getMetadata),
+  samlController.getMetadata
+);
+
+export default router;
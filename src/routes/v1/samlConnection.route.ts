@@ -0,0 +1,70 @@
+import express from 'express';
+import auth from '../../middlewares/auth';
+import validate from '../../middlewares/validate';
+import audit from '../../middlewares/audit';
+import { samlValidation } from '../../validations';
+import { samlController } from '../../controllers';
+import samlConnectionService from '../../services/samlConnection.service';
+
+const router = express.Router();
+
+const auditConnection = audit({
+  resource: 'saml_connection',
+  resourceIdParam: 'connection',
+  category: 'SECURITY',
+  load: slug => samlConnectionService.getConnection(slug),
+});
+
+router.use(auth('manageSamlConnections'));
+
+/**
+ * @route GET /v1/saml-connections
+ * @desc List SAML connections
+ * @access Private (Admin only)
+ */
+router.get('/', samlController.listConnections);
+
+/**
+ * @route POST /v1/saml-connections
+ * @desc Create a SAML connection from IdP metadata or explicit IdP settings
+ * @access Private (Admin only)
+ */
+router.post(
+  '/',
+  validate(samlValidation.createConnection),
+  audit({ resource: 'saml_connection', category: 'SECURITY' }),
+  samlController.createConnection
+);
+
+/**
+ * @route GET /v1/saml-connections/:connection
+ * @desc Get a SAML connection with the SP endpoints to register at the IdP
+ * @access Private (Admin only)
+ */
+router.get('/:connection', validate(samlValidation.getConnection), samlController.getConnection);
+
+/**
+ * @route PATCH /v1/saml-connections/:connection
+ * @desc Update a SAML connection; a metadata URL re-imports the IdP settings
+ * @access Private (Admin only)
+ */
+router.patch(
+  '/:connection',
+  validate(samlValidation.updateConnection),
+  auditConnection,
+  samlController.updateConnection
+);
+
+/**
+ * @route DELETE /v1/saml-connections/:connection
+ * @desc Delete a SAML connection and unlink the identities signed in through it
+ * @access Private (Admin only)
+ */
+router.delete(
+  '/:connection',
+  validate(samlValidation.deleteConnection),
+  auditConnection,
+  samlController.deleteConnection
+);
+
+export default router;
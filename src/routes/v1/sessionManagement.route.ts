@@ -1,5 +1,5 @@
 import express from 'express';
-import auth from '../../middlewares/auth';
+import { authenticate } from '../../middlewares/auth';
 import validate from '../../middlewares/validate';
 import {
   getUserSessions,
@@ -18,91 +18,94 @@ import {
 
 const router = express.Router();
 
-// All routes require authentication
-router.use(auth());
+// Fixed paths come ahead of /:sessionId, which would otherwise match them
 
 /**
  * @route GET /v1/sessions
  * @desc Get user's sessions
  * @access Private
  */
-router.get('/', getUserSessions);
+router.get('/', authenticate('getSessions'), getUserSessions);
 
 /**
- * @route GET /v1/sessions/:sessionId
- * @desc Get session by session ID
- * @access Private
+ * @route GET /v1/sessions/analytics
+ * @desc Get session analytics
+ * @access Private (Admin only)
  */
-router.get('/:sessionId', getSessionBySessionId);
+router.get('/analytics', authenticate('manageAllSessions'), getSessionAnalytics);
 
 /**
- * @route DELETE /v1/sessions/:sessionId
- * @desc Revoke session
+ * @route GET /v1/sessions/security-events
+ * @desc Get user's security events
  * @access Private
  */
-router.delete('/:sessionId', revokeSession);
+router.get('/security-events', authenticate('getSessions'), getUserSecurityEvents);
+
+/**
+ * @route PUT /v1/sessions/security-events/:eventId/resolve
+ * @desc Resolve security event
+ * @access Private (Admin only)
+ */
+router.put(
+  '/security-events/:eventId/resolve',
+  authenticate('manageAllSessions'),
+  resolveSecurityEvent
+);
+
+/**
+ * @route GET /v1/sessions/check-suspicious/:userId
+ * @desc Check for suspicious activity
+ * @access Private (Admin only)
+ */
+router.get('/check-suspicious/:userId', authenticate('manageAllSessions'), checkSuspiciousActivity);
 
 /**
  * @route DELETE /v1/sessions/revoke-others
  * @desc Revoke all user sessions except current
  * @access Private
  */
-router.delete('/revoke-others', revokeOtherSessions);
+router.delete('/revoke-others', authenticate('manageSessions'), revokeOtherSessions);
 
 /**
  * @route DELETE /v1/sessions/revoke-all
  * @desc Revoke all user sessions
  * @access Private
  */
-router.delete('/revoke-all', revokeAllUserSessions);
+router.delete('/revoke-all', authenticate('manageSessions'), revokeAllUserSessions);
 
 /**
- * @route GET /v1/sessions/analytics
- * @desc Get session analytics
+ * @route DELETE /v1/sessions/cleanup-expired
+ * @desc Cleanup expired sessions
  * @access Private (Admin only)
  */
-router.get('/analytics', getSessionAnalytics);
+router.delete('/cleanup-expired', authenticate('manageAllSessions'), cleanupExpiredSessions);
 
 /**
- * @route GET /v1/sessions/:sessionId/security-events
- * @desc Get session security events
+ * @route GET /v1/sessions/:sessionId
+ * @desc Get session by session ID
  * @access Private
  */
-router.get('/:sessionId/security-events', getSessionSecurityEvents);
+router.get('/:sessionId', authenticate('getSessions'), getSessionBySessionId);
 
 /**
- * @route GET /v1/sessions/security-events
- * @desc Get user's security events
+ * @route DELETE /v1/sessions/:sessionId
+ * @desc Revoke session
  * @access Private
  */
-router.get('/security-events', getUserSecurityEvents);
-
-/**
- * @route PUT /v1/sessions/security-events/:eventId/resolve
- * @desc Resolve security event
- * @access Private (Admin only)
- */
-router.put('/security-events/:eventId/resolve', resolveSecurityEvent);
+router.delete('/:sessionId', authenticate('manageSessions'), revokeSession);
 
 /**
- * @route GET /v1/sessions/check-suspicious/:userId
- * @desc Check for suspicious activity
- * @access Private (Admin only)
+ * @route GET /v1/sessions/:sessionId/security-events
+ * @desc Get session security events
+ * @access Private
  */
-router.get('/check-suspicious/:userId', checkSuspiciousActivity);
+router.get('/:sessionId/security-events', authenticate('getSessions'), getSessionSecurityEvents);
 
 /**
  * @route GET /v1/sessions/:sessionId/security-score
  * @desc Get session security score
  * @access Private
  */
-router.get('/:sessionId/security-score', getSessionSecurityScore);
-
-/**
- * @route DELETE /v1/sessions/cleanup-expired
- * @desc Cleanup expired sessions
- * @access Private (Admin only)
- */
-router.delete('/cleanup-expired', cleanupExpiredSessions);
+router.get('/:sessionId/security-score', authenticate('getSessions'), getSessionSecurityScore);
 
 export default router;
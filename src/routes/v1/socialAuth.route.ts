@@ -1,11 +1,14 @@
 import express from 'express';
-import auth from '../../middlewares/auth';
+import auth, { denyImpersonation } from '../../middlewares/auth';
 import validate from '../../middlewares/validate';
 import {
   googleAuth,
   googleCallback,
   githubAuth,
   githubCallback,
+  getOidcProviders,
+  oidcAuth,
+  oidcCallback,
   linkSocialAccount,
   unlinkSocialAccount,
   getSocialAccounts,
@@ -21,6 +24,27 @@ router.get('/google/callback', googleCallback);
 router.get('/github', githubAuth);
 router.get('/github/callback', githubCallback);
 
+/**
+ * @route GET /v1/auth/providers
+ * @desc List the configured OpenID Connect login providers
+ * @access Public
+ */
+router.get('/providers', getOidcProviders);
+
+/**
+ * @route GET /v1/auth/:provider
+ * @desc Start a login with a configured OpenID Connect provider
+ * @access Public
+ */
+router.get('/:provider', oidcAuth);
+
+/**
+ * @route GET /v1/auth/:provider/callback
+ * @desc OpenID Connect provider callback; redirects to the client app with a one-time code
+ * @access Public
+ */
+router.get('/:provider/callback', oidcCallback);
+
 // Protected routes for social account management
 router.use(auth());
 
@@ -29,14 +53,14 @@ router.use(auth());
  * @desc Link social account to existing user
  * @access Private
  */
-router.post('/link-social', linkSocialAccount);
+router.post('/link-social', denyImpersonation, linkSocialAccount);
 
 /**
  * @route DELETE /v1/auth/unlink-social/:provider
  * @desc Unlink social account from user
  * @access Private
  */
-router.delete('/unlink-social/:provider', unlinkSocialAccount);
+router.delete('/unlink-social/:provider', denyImpersonation, unlinkSocialAccount);
 
 /**
  * @route GET /v1/auth/social-accounts
@@ -50,7 +74,7 @@ router.get('/social-accounts', getSocialAccounts);
  * @desc Update social account tokens
  * @access Private
  */
-router.put('/social-accounts/:provider/tokens', updateSocialTokens);
+router.put('/social-accounts/:provider/tokens', denyImpersonation, updateSocialTokens);
 
 /**
  * @route GET /v1/auth/can-authenticate/:provider
@@ -1,5 +1,5 @@
 import express from 'express';
-import auth from '../../middlewares/auth';
+import auth, { denyImpersonation } from '../../middlewares/auth';
 import validate from '../../middlewares/validate';
 import { twoFactorValidation } from '../../validations';
 import { twoFactorController } from '../../controllers';
@@ -12,7 +12,7 @@ const router = express.Router();
  * @desc Setup 2FA for user
  * @access Private
  */
-router.post('/setup', auth(), twoFactorController.setupTwoFactor);
+router.post('/setup', auth(), denyImpersonation, twoFactorController.setupTwoFactor);
 
 /**
  * @route POST /v1/2fa/enable
@@ -22,6 +22,7 @@ router.post('/setup', auth(), twoFactorController.setupTwoFactor);
 router.post(
   '/enable',
   auth(),
+  denyImpersonation,
   validate(twoFactorValidation.enableTwoFactor),
   twoFactorController.enableTwoFactor
 );
@@ -34,6 +35,7 @@ router.post(
 router.post(
   '/disable',
   auth(),
+  denyImpersonation,
   validate(twoFactorValidation.disableTwoFactor),
   twoFactorController.disableTwoFactor
 );
@@ -53,6 +55,7 @@ router.get('/status', auth(), twoFactorController.getTwoFactorStatus);
 router.post(
   '/regenerate-backup-codes',
   auth(),
+  denyImpersonation,
   validate(twoFactorValidation.regenerateBackupCodes),
   twoFactorController.regenerateBackupCodes
 );
@@ -64,6 +67,59 @@ router.post(
  */
 router.post('/verify', validate(twoFactorValidation.verifyToken), twoFactorController.verifyToken);
 
+/**
+ * @route POST /v1/2fa/methods/:method/send-code
+ * @desc Send a code to confirm enabling or disabling email/SMS 2FA
+ * @access Private
+ */
+router.post(
+  '/methods/:method/send-code',
+  auth(),
+  denyImpersonation,
+  sensitiveOperationLimiter,
+  validate(twoFactorValidation.sendMethodCode),
+  twoFactorController.sendMethodCode
+);
+
+/**
+ * @route POST /v1/2fa/methods/:method/enable
+ * @desc Enable email or SMS codes as a second factor
+ * @access Private
+ */
+router.post(
+  '/methods/:method/enable',
+  auth(),
+  denyImpersonation,
+  validate(twoFactorValidation.enableMethod),
+  twoFactorController.enableMethod
+);
+
+/**
+ * @route POST /v1/2fa/methods/:method/disable
+ * @desc Disable email or SMS codes as a second factor
+ * @access Private
+ */
+router.post(
+  '/methods/:method/disable',
+  auth(),
+  denyImpersonation,
+  validate(twoFactorValidation.disableMethod),
+  twoFactorController.disableMethod
+);
+
+/**
+ * @route PUT /v1/2fa/preferred-method
+ * @desc Set the second factor offered first at login
+ * @access Private
+ */
+router.put(
+  '/preferred-method',
+  auth(),
+  denyImpersonation,
+  validate(twoFactorValidation.setPreferredMethod),
+  twoFactorController.setPreferredMethod
+);
+
 export default router;
 
 /**
@@ -251,6 +307,133 @@ export default router;
  *                     hasBackupCodes:
  *                       type: boolean
  *                       description: Whether backup codes are available
+ *                     methods:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *                         enum: [totp, webauthn, email, sms]
+ *                       description: Enrolled second factors, preferred first
+ *                     preferredMethod:
+ *                       type: string
+ *                       nullable: true
+ *                       enum: [totp, webauthn, email, sms]
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *
+ * /two-factor/methods/{method}/send-code:
+ *   post:
+ *     summary: Send a confirmation code
+ *     description: Send a one-time code by email or SMS, used to enable or disable that factor
+ *     tags: [Two-Factor Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: method
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [email, sms]
+ *     responses:
+ *       "204":
+ *         description: Code sent
+ *       "400":
+ *         $ref: '#/components/responses/BadRequest'
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *
+ * /two-factor/methods/{method}/enable:
+ *   post:
+ *     summary: Enable email or SMS 2FA
+ *     tags: [Two-Factor Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: method
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [email, sms]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 description: 6-digit code sent to the channel
+ *                 example: "123456"
+ *     responses:
+ *       "200":
+ *         description: Method enabled successfully
+ *       "400":
+ *         $ref: '#/components/responses/BadRequest'
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *
+ * /two-factor/methods/{method}/disable:
+ *   post:
+ *     summary: Disable email or SMS 2FA
+ *     tags: [Two-Factor Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: method
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [email, sms]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 description: 6-digit code sent to the channel
+ *                 example: "123456"
+ *     responses:
+ *       "200":
+ *         description: Method disabled successfully
+ *       "400":
+ *         $ref: '#/components/responses/BadRequest'
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *
+ * /two-factor/preferred-method:
+ *   put:
+ *     summary: Set preferred 2FA method
+ *     description: Choose which enrolled factor is offered first at login
+ *     tags: [Two-Factor Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - method
+ *             properties:
+ *               method:
+ *                 type: string
+ *                 enum: [totp, webauthn, email, sms]
+ *     responses:
+ *       "200":
+ *         description: Preferred method updated successfully
+ *       "400":
+ *         $ref: '#/components/responses/BadRequest'
  *       "401":
  *         $ref: '#/components/responses/Unauthorized'
  */
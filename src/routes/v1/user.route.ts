@@ -1,39 +1,67 @@
 import express from 'express';
-import auth from '../../middlewares/auth';
+import { authenticate, denyImpersonation } from '../../middlewares/auth';
 import validate from '../../middlewares/validate';
-import { userValidation } from '../../validations';
-import { userController } from '../../controllers';
-import { Role } from '../../config/roles';
+import { impersonationValidation, userValidation } from '../../validations';
+import { impersonationController, userController } from '../../controllers';
+import audit from '../../middlewares/audit';
+import { userService } from '../../services';
 
 const router = express.Router();
 
+const loadUser = (userId: string) => userService.getUserById(userId);
+const auditUser = audit({ resource: 'user', resourceIdParam: 'userId', load: loadUser });
+
 /**
  * @route POST /v1/users
  * @desc Create user (Admin only)
  * @access Private (Admin only)
  */
-router.post('/', auth(Role.ADMIN), validate(userValidation.createUser), userController.createUser);
+router.post(
+  '/',
+  authenticate('manageUsers'),
+  validate(userValidation.createUser),
+  auditUser,
+  userController.createUser
+);
 
 /**
  * @route GET /v1/users
  * @desc Get users (Admin only)
  * @access Private (Admin only)
  */
-router.get('/', auth(Role.ADMIN), validate(userValidation.getUsers), userController.getUsers);
+router.get(
+  '/',
+  authenticate('getUsers'),
+  validate(userValidation.getUsers),
+  userController.getUsers
+);
 
 /**
  * @route GET /v1/users/:userId
  * @desc Get user
  * @access Private
  */
-router.get('/:userId', auth(), validate(userValidation.getUser), userController.getUser);
+router.get(
+  '/:userId',
+  authenticate('getUsers'),
+  validate(userValidation.getUser),
+  userController.getUser
+);
 
 /**
  * @route PATCH /v1/users/:userId
- * @desc Update user
- * @access Private
+ * @desc Update user, including role, status and email verification (Admin only). Users update
+ * their own account through /v1/me/profile.
+ * @access Private (Admin only)
  */
-router.patch('/:userId', auth(), validate(userValidation.updateUser), userController.updateUser);
+router.patch(
+  '/:userId',
+  authenticate('manageUsers'),
+  denyImpersonation,
+  validate(userValidation.updateUser),
+  auditUser,
+  userController.updateUser
+);
 
 /**
  * @route DELETE /v1/users/:userId
@@ -42,8 +70,10 @@ router.patch('/:userId', auth(), validate(userValidation.updateUser), userContro
  */
 router.delete(
   '/:userId',
-  auth(Role.ADMIN),
+  authenticate('manageUsers'),
+  denyImpersonation,
   validate(userValidation.deleteUser),
+  auditUser,
   userController.deleteUser
 );
 
@@ -54,7 +84,7 @@ router.delete(
  */
 router.get(
   '/:userId/profile',
-  auth(),
+  authenticate('getUserProfile'),
   validate(userValidation.getUserProfile),
   userController.getUserProfile
 );
@@ -66,8 +96,9 @@ router.get(
  */
 router.patch(
   '/:userId/profile',
-  auth(),
+  authenticate('updateUserProfile'),
   validate(userValidation.updateUserProfile),
+  auditUser,
   userController.updateUserProfile
 );
 
@@ -78,7 +109,7 @@ router.patch(
  */
 router.get(
   '/:userId/preferences',
-  auth(),
+  authenticate('getUserPreferences'),
   validate(userValidation.getUserPreferences),
   userController.getUserPreferences
 );
@@ -90,8 +121,9 @@ router.get(
  */
 router.patch(
   '/:userId/preferences',
-  auth(),
+  authenticate('updateUserPreferences'),
   validate(userValidation.updateUserPreferences),
+  auditUser,
   userController.updateUserPreferences
 );
 
@@ -102,7 +134,7 @@ router.patch(
  */
 router.get(
   '/:userId/privacy',
-  auth(),
+  authenticate('getPrivacySettings'),
   validate(userValidation.getPrivacySettings),
   userController.getPrivacySettings
 );
@@ -114,8 +146,9 @@ router.get(
  */
 router.patch(
   '/:userId/privacy',
-  auth(),
+  authenticate('updatePrivacySettings'),
   validate(userValidation.updatePrivacySettings),
+  auditUser,
   userController.updatePrivacySettings
 );
 
@@ -126,7 +159,7 @@ router.patch(
  */
 router.get(
   '/:userId/account-status',
-  auth(),
+  authenticate('getAccountStatus'),
   validate(userValidation.getAccountStatus),
   userController.getAccountStatus
 );
@@ -138,7 +171,7 @@ router.get(
  */
 router.get(
   '/:userId/stats',
-  auth(),
+  authenticate('getUserStats'),
   validate(userValidation.getUserStats),
   userController.getUserStats
 );
@@ -150,7 +183,7 @@ router.get(
  */
 router.get(
   '/:userId/activity',
-  auth(),
+  authenticate('getUserActivity'),
   validate(userValidation.getUserActivity),
   userController.getUserActivity
 );
@@ -162,7 +195,7 @@ router.get(
  */
 router.get(
   '/:userId/activity/stats',
-  auth(),
+  authenticate('getActivityStats'),
   validate(userValidation.getActivityStats),
   userController.getActivityStats
 );
@@ -174,7 +207,7 @@ router.get(
  */
 router.get(
   '/:userId/devices',
-  auth(),
+  authenticate('getUserDevices'),
   validate(userValidation.getUserDevices),
   userController.getUserDevices
 );
@@ -186,7 +219,7 @@ router.get(
  */
 router.get(
   '/:userId/devices/sessions',
-  auth(),
+  authenticate('getDeviceSessions'),
   validate(userValidation.getDeviceSessions),
   userController.getDeviceSessions
 );
@@ -198,7 +231,7 @@ router.get(
  */
 router.post(
   '/:userId/devices/:deviceId/trust',
-  auth(),
+  authenticate('trustDevice'),
   validate(userValidation.trustDevice),
   userController.trustDevice
 );
@@ -210,7 +243,7 @@ router.post(
  */
 router.delete(
   '/:userId/devices/:deviceId',
-  auth(),
+  authenticate('removeDevice'),
   validate(userValidation.removeDevice),
   userController.removeDevice
 );
@@ -222,7 +255,7 @@ router.delete(
  */
 router.delete(
   '/:userId/devices',
-  auth(),
+  authenticate('removeAllOtherDevices'),
   validate(userValidation.removeAllOtherDevices),
   userController.removeAllOtherDevices
 );
@@ -234,7 +267,7 @@ router.delete(
  */
 router.get(
   '/:userId/notifications',
-  auth(),
+  authenticate('getUserNotifications'),
   validate(userValidation.getUserNotifications),
   userController.getUserNotifications
 );
@@ -246,7 +279,7 @@ router.get(
  */
 router.patch(
   '/:userId/notifications/:notificationId/read',
-  auth(),
+  authenticate('markNotificationAsRead'),
   validate(userValidation.markNotificationAsRead),
   userController.markNotificationAsRead
 );
@@ -256,7 +289,11 @@ router.patch(
  * @desc Mark all notifications as read
  * @access Private
  */
-router.patch('/:userId/notifications/read-all', auth(), userController.markAllNotificationsAsRead);
+router.patch(
+  '/:userId/notifications/read-all',
+  authenticate('markAllNotificationsAsRead'),
+  userController.markAllNotificationsAsRead
+);
 
 /**
  * @route DELETE /v1/users/:userId/notifications/:notificationId
@@ -265,7 +302,7 @@ router.patch('/:userId/notifications/read-all', auth(), userController.markAllNo
  */
 router.delete(
   '/:userId/notifications/:notificationId',
-  auth(),
+  authenticate('deleteNotification'),
   validate(userValidation.deleteNotification),
   userController.deleteNotification
 );
@@ -275,14 +312,22 @@ router.delete(
  * @desc Delete read notifications
  * @access Private
  */
-router.delete('/:userId/notifications/read', auth(), userController.deleteReadNotifications);
+router.delete(
+  '/:userId/notifications/read',
+  authenticate('deleteReadNotifications'),
+  userController.deleteReadNotifications
+);
 
 /**
  * @route GET /v1/users/:userId/notifications/stats
  * @desc Get notification statistics
  * @access Private
  */
-router.get('/:userId/notifications/stats', auth(), userController.getNotificationStats);
+router.get(
+  '/:userId/notifications/stats',
+  authenticate('getNotificationStats'),
+  userController.getNotificationStats
+);
 
 /**
  * @route GET /v1/users/:userId/security-logs
@@ -291,7 +336,7 @@ router.get('/:userId/notifications/stats', auth(), userController.getNotificatio
  */
 router.get(
   '/:userId/security-logs',
-  auth(),
+  authenticate('getSecurityLogs'),
   validate(userValidation.getSecurityLogs),
   userController.getSecurityLogs
 );
@@ -303,7 +348,7 @@ router.get(
  */
 router.get(
   '/:userId/security-logs/stats',
-  auth(),
+  authenticate('getSecurityStats'),
   validate(userValidation.getSecurityStats),
   userController.getSecurityStats
 );
@@ -326,20 +371,28 @@ router.get(
  */
 router.get(
   '/:userId/export',
-  auth(),
+  authenticate('exportUserData'),
   validate(userValidation.exportUserData),
   userController.exportUserData
 );
 
 /**
  * @route DELETE /v1/users/:userId/account
- * @desc Delete user account
+ * @desc Schedule account erasure after the deletion grace period
  * @access Private
  */
 router.delete(
   '/:userId/account',
-  auth(),
+  authenticate('deleteAccount'),
+  denyImpersonation,
   validate(userValidation.deleteAccount),
+  audit({
+    resource: 'user',
+    action: 'DELETE_ACCOUNT',
+    resourceIdParam: 'userId',
+    severity: 'WARNING',
+    load: loadUser,
+  }),
   userController.deleteAccount
 );
 
@@ -351,7 +404,7 @@ router.delete(
  */
 router.get(
   '/expiring-passwords',
-  auth(Role.ADMIN),
+  authenticate('getUsersWithExpiringPasswords'),
   validate(userValidation.getUsersWithExpiringPasswords),
   userController.getUsersWithExpiringPasswords
 );
@@ -361,7 +414,7 @@ router.get(
  * @desc Get locked users (Admin only)
  * @access Private (Admin only)
  */
-router.get('/locked', auth(Role.ADMIN), userController.getLockedUsers);
+router.get('/locked', authenticate('getLockedUsers'), userController.getLockedUsers);
 
 /**
  * @route PATCH /v1/users/:userId/unlock
@@ -370,8 +423,15 @@ router.get('/locked', auth(Role.ADMIN), userController.getLockedUsers);
  */
 router.patch(
   '/:userId/unlock',
-  auth(Role.ADMIN),
+  authenticate('unlockUserAccount'),
   validate(userValidation.unlockUserAccount),
+  audit({
+    resource: 'user',
+    action: 'UNLOCK',
+    resourceIdParam: 'userId',
+    category: 'SECURITY',
+    load: loadUser,
+  }),
   userController.unlockUserAccount
 );
 
@@ -382,11 +442,42 @@ router.patch(
  */
 router.patch(
   '/:userId/force-password-change',
-  auth(Role.ADMIN),
+  authenticate('forcePasswordChange'),
   validate(userValidation.forcePasswordChange),
+  audit({
+    resource: 'user',
+    action: 'FORCE_PASSWORD_CHANGE',
+    resourceIdParam: 'userId',
+    category: 'SECURITY',
+    load: loadUser,
+  }),
   userController.forcePasswordChange
 );
 
+/**
+ * @route POST /v1/users/:userId/impersonation
+ * @desc Issue a short-lived access token acting as the user (Admin only; not for other admins)
+ * @access Private (Admin only)
+ */
+router.post(
+  '/:userId/impersonation',
+  authenticate('impersonateUsers'),
+  validate(impersonationValidation.startImpersonation),
+  impersonationController.startImpersonation
+);
+
+/**
+ * @route DELETE /v1/users/:userId/impersonation
+ * @desc End the impersonation session the request is made with
+ * @access Private (impersonation token)
+ */
+router.delete(
+  '/:userId/impersonation',
+  authenticate('impersonateUsers'),
+  validate(impersonationValidation.endImpersonation),
+  impersonationController.endImpersonation
+);
+
 /**
  * @route GET /v1/users/export
  * @desc Export users list (Admin only)
@@ -394,7 +485,7 @@ router.patch(
  */
 router.get(
   '/export',
-  auth(Role.ADMIN),
+  authenticate('getUsers'),
   validate(userValidation.exportUsers),
   userController.exportUsers
 );
@@ -0,0 +1,57 @@
+import express from 'express';
+import auth, { denyImpersonation } from '../../middlewares/auth';
+import validate from '../../middlewares/validate';
+import { progressiveAuthLimiter } from '../../middlewares/progressiveRateLimiter';
+import { ipSecurityMiddleware } from '../../middlewares/ipSecurity';
+import { webAuthnValidation } from '../../validations';
+import { webAuthnController } from '../../controllers';
+
+const router = express.Router();
+
+/**
+ * @route POST /v1/auth/webauthn/register/options
+ * @desc Get options for registering a passkey
+ * @access Private
+ */
+router.post('/register/options', auth(), denyImpersonation, webAuthnController.registrationOptions);
+
+/**
+ * @route POST /v1/auth/webauthn/register/verify
+ * @desc Verify the authenticator's response and store the passkey
+ * @access Private
+ */
+router.post(
+  '/register/verify',
+  auth(),
+  denyImpersonation,
+  validate(webAuthnValidation.verifyRegistration),
+  webAuthnController.verifyRegistration
+);
+
+/**
+ * @route POST /v1/auth/webauthn/authenticate/options
+ * @desc Get options for a passkey login, either passwordless or as a second factor
+ * @access Public
+ */
+router.post(
+  '/authenticate/options',
+  ipSecurityMiddleware,
+  progressiveAuthLimiter,
+  validate(webAuthnValidation.authenticationOptions),
+  webAuthnController.authenticationOptions
+);
+
+/**
+ * @route POST /v1/auth/webauthn/authenticate/verify
+ * @desc Verify a passkey assertion and log in
+ * @access Public
+ */
+router.post(
+  '/authenticate/verify',
+  ipSecurityMiddleware,
+  progressiveAuthLimiter,
+  validate(webAuthnValidation.verifyAuthentication),
+  webAuthnController.verifyAuthentication
+);
+
+export default router;
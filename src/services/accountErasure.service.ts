@@ -0,0 +1,322 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import httpStatus from 'http-status';
+import moment from 'moment';
+import { ActivityType } from '@prisma/client';
+import prisma from '../client';
+import config from '../config/config';
+import logger from '../config/logger';
+import ApiError from '../utils/ApiError';
+import { encryptPassword, isPasswordMatch } from '../utils/encryption';
+import AuditLogService from './auditLog.service';
+import emailService from './email.service';
+import socialTokenService from './socialToken.service';
+import userActivityService from './userActivity.service';
+import { LegalBasis, ProcessingRecordStatus } from '../types/dataProcessing.types';
+
+/**
+ * Account Erasure Service
+ * GDPR right to erasure: a deletion request opens a grace period during which it can be
+ * cancelled, after which the account is irreversibly anonymised.
+ *
+ * The User row is kept as an anonymised tombstone so the DataProcessingRecord documenting the
+ * erasure stays attached; every other row tied to the user is deleted or stripped of PII.
+ */
+
+const auditLogService = new AuditLogService();
+
+// Categories of personal data removed by an erasure, recorded on the DataProcessingRecord
+const ERASED_DATA_TYPES = [
+  'profile',
+  'contact_details',
+  'credentials',
+  'two_factor_secrets',
+  'tokens',
+  'sessions',
+  'devices',
+  'social_accounts',
+  'otps',
+  'notifications',
+  'activity_history',
+  'api_keys',
+  'passkeys',
+  'oauth_grants',
+  'role_assignments',
+  'data_exports',
+];
+
+// Proof of erasure is retained for the statutory limitation period
+const ERASURE_RECORD_RETENTION_YEARS = 6;
+
+interface ErasureStats {
+  processed: number;
+  failed: number;
+  duration: number;
+}
+
+/**
+ * Schedule erasure of a user's account after the configured grace period
+ * @param {string} userId
+ * @param {string} password - current password of the account owner
+ * @param {string} [ipAddress]
+ * @returns {Promise<{ id: string; deletionScheduledAt: Date }>}
+ */
+const requestErasure = async (userId: string, password: string, ipAddress?: string) => {
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+  if (!user || user.erasedAt) {
+    throw new ApiError(httpStatus.NOT_FOUND, 'User not found');
+  }
+  if (!(await isPasswordMatch(password, user.password))) {
+    throw new ApiError(httpStatus.UNAUTHORIZED, 'Incorrect password');
+  }
+  if (user.deletionScheduledAt) {
+    throw new ApiError(httpStatus.CONFLICT, 'Account deletion is already scheduled');
+  }
+
+  const deletionScheduledAt = moment().add(config.account.deletionGraceDays, 'days').toDate();
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { deletionRequestedAt: new Date(), deletionScheduledAt },
+  });
+
+  await userActivityService.createActivity({
+    userId,
+    activityType: ActivityType.ACCOUNT_LOCKED,
+    description: 'Account deletion requested',
+    metadata: { deletionScheduledAt },
+    ipAddress,
+  });
+
+  emailService
+    .sendAccountDeletionScheduledEmail(user.email, user.name || 'User', {
+      scheduledFor: deletionScheduledAt,
+    })
+    .catch(error => logger.error('Failed to send account deletion email', { userId, error }));
+
+  return { id: userId, deletionScheduledAt };
+};
+
+/**
+ * Cancel a pending erasure during the grace period
+ * @param {string} userId
+ * @param {string} [ipAddress]
+ */
+const cancelErasure = async (userId: string, ipAddress?: string) => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { id: true, deletionScheduledAt: true, erasedAt: true },
+  });
+  if (!user || user.erasedAt) {
+    throw new ApiError(httpStatus.NOT_FOUND, 'User not found');
+  }
+  if (!user.deletionScheduledAt) {
+    throw new ApiError(httpStatus.BAD_REQUEST, 'No account deletion is scheduled');
+  }
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { deletionRequestedAt: null, deletionScheduledAt: null },
+  });
+
+  await userActivityService.createActivity({
+    userId,
+    activityType: ActivityType.ACCOUNT_UNLOCKED,
+    description: 'Account deletion cancelled',
+    ipAddress,
+  });
+};
+
+/**
+ * Irreversibly anonymise a user and remove every row holding their personal data
+ * @param {string} userId
+ */
+const eraseUser = async (userId: string) => {
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+  if (!user) {
+    throw new ApiError(httpStatus.NOT_FOUND, 'User not found');
+  }
+  if (user.erasedAt) {
+    return;
+  }
+
+  // Export archives are files on disk, outside the transaction below
+  const exports = await prisma.dataExportJob.findMany({
+    where: { userId, filePath: { not: null } },
+    select: { filePath: true },
+  });
+  await Promise.all(exports.map(job => fs.promises.rm(job.filePath!, { force: true })));
+
+  await socialTokenService.revokeUserTokens(userId);
+
+  const erasedAt = new Date();
+  // Random credentials nobody knows; the account can never be signed into again
+  const password = await encryptPassword(crypto.randomBytes(32).toString('hex'));
+
+  await prisma.$transaction([
+    prisma.token.deleteMany({ where: { userId } }),
+    prisma.userSession.deleteMany({ where: { userId } }),
+    prisma.device.deleteMany({ where: { userId } }),
+    prisma.socialAccount.deleteMany({ where: { userId } }),
+    prisma.otp.deleteMany({ where: { userId } }),
+    prisma.notification.deleteMany({ where: { userId } }),
+    prisma.passwordHistory.deleteMany({ where: { userId } }),
+    prisma.passwordBreachCheck.deleteMany({ where: { userId } }),
+    prisma.userActivity.deleteMany({ where: { userId } }),
+    prisma.apiKey.deleteMany({ where: { userId } }),
+    prisma.webAuthnCredential.deleteMany({ where: { userId } }),
+    prisma.webAuthnChallenge.deleteMany({ where: { userId } }),
+    prisma.oAuthToken.deleteMany({ where: { userId } }),
+    prisma.oAuthAuthorizationCode.deleteMany({ where: { userId } }),
+    prisma.userRole.deleteMany({ where: { userId } }),
+    prisma.dataExportJob.deleteMany({ where: { userId } }),
+    prisma.notificationPreference.deleteMany({ where: { userId } }),
+    prisma.notificationTypePreference.deleteMany({ where: { userId } }),
+    prisma.securityLog.updateMany({
+      where: { userId },
+      data: { userId: null, email: null },
+    }),
+    prisma.user.update({
+      where: { id: userId },
+      data: {
+        email: `erased-${userId}@erased.invalid`,
+        name: null,
+        password,
+        phone: null,
+        phoneCode: null,
+        country: null,
+        state: null,
+        city: null,
+        address: null,
+        profilePicture: null,
+        dateOfBirth: null,
+        gender: null,
+        lastLoginAt: null,
+        twoFactorEnabled: false,
+        twoFactorSecret: null,
+        twoFactorBackupCodes: [],
+        twoFactorVerified: false,
+        emailTwoFactorEnabled: false,
+        smsTwoFactorEnabled: false,
+        preferredTwoFactorMethod: null,
+        preferences: {},
+        isActive: false,
+        isLocked: true,
+        deletionScheduledAt: null,
+        erasedAt,
+      },
+    }),
+    prisma.dataProcessingRecord.updateMany({
+      where: { userId, status: ProcessingRecordStatus.ACTIVE },
+      data: { status: ProcessingRecordStatus.WITHDRAWN, withdrawnAt: erasedAt },
+    }),
+    prisma.dataProcessingRecord.create({
+      data: {
+        userId,
+        purpose: 'ACCOUNT_ERASURE',
+        legalBasis: LegalBasis.LEGAL_OBLIGATION,
+        dataTypes: ERASED_DATA_TYPES,
+        retention: `Proof of erasure retained for ${ERASURE_RECORD_RETENTION_YEARS} years`,
+        expiresAt: moment(erasedAt).add(ERASURE_RECORD_RETENTION_YEARS, 'years').toDate(),
+      },
+    }),
+  ]);
+
+  // Audit entries are retained for compliance but only reference the user by pseudonym
+  await auditLogService.redactUserLogs(userId);
+  await auditLogService.createLog({
+    action: 'ERASE',
+    resource: 'user',
+    resourceId: auditLogService.pseudonymise(userId),
+    newValues: { erasedAt, dataTypes: ERASED_DATA_TYPES },
+    severity: 'CRITICAL',
+    category: 'DATA',
+  });
+
+  logger.info('User account erased', { userId });
+};
+
+/**
+ * Erase every account whose grace period has ended
+ * @returns {Promise<ErasureStats>}
+ */
+/**
+ * Redact the account snapshots still held by audit entries of erased users, such as those of
+ * users erased before entries could be redacted. Each redaction is recorded in the audit chain.
+ * @param {number} limit - Maximum number of users handled in one run
+ * @returns {Promise<number>} Number of users whose entries were redacted
+ */
+const redactErasedUserSnapshots = async (limit: number = 100): Promise<number> => {
+  const erasedUsers = await prisma.$queryRaw<{ resourceId: string }[]>`
+    SELECT DISTINCT a."resource_id" AS "resourceId"
+    FROM "audit_logs" a
+    JOIN "users" u ON u."id" = a."resource_id"
+    WHERE u."erasedAt" IS NOT NULL
+      AND a."resource" IN ('user', 'user_role')
+      AND a."redacted_at" IS NULL
+    LIMIT ${limit}`;
+
+  for (const { resourceId } of erasedUsers) {
+    await auditLogService.redactUserLogs(resourceId);
+  }
+  return erasedUsers.length;
+};
+
+const processDueErasures = async (): Promise<ErasureStats> => {
+  const startTime = Date.now();
+  const stats: ErasureStats = { processed: 0, failed: 0, duration: 0 };
+
+  const dueUsers = await prisma.user.findMany({
+    where: { deletionScheduledAt: { lte: new Date() }, erasedAt: null },
+    select: { id: true },
+  });
+
+  for (const { id } of dueUsers) {
+    try {
+      await eraseUser(id);
+      stats.processed++;
+    } catch (error) {
+      stats.failed++;
+      logger.error('Account erasure failed', { userId: id, error });
+    }
+  }
+
+  try {
+    await redactErasedUserSnapshots();
+  } catch (error) {
+    logger.error('Audit log redaction of erased users failed', { error });
+  }
+
+  stats.duration = Date.now() - startTime;
+  if (dueUsers.length > 0) {
+    logger.info('Account erasure run completed', stats);
+  }
+  return stats;
+};
+
+/**
+ * Schedule processing of due erasures
+ * @param {number} intervalMinutes - Interval in minutes between runs
+ */
+const scheduleErasureProcessing = (intervalMinutes: number = 60) => {
+  logger.info(`Scheduling account erasure processing every ${intervalMinutes} minutes`);
+
+  setInterval(
+    async () => {
+      try {
+        await processDueErasures();
+      } catch (error) {
+        logger.error('Scheduled account erasure failed (non-critical)', { error });
+      }
+    },
+    intervalMinutes * 60 * 1000
+  );
+};
+
+export default {
+  requestErasure,
+  cancelErasure,
+  eraseUser,
+  processDueErasures,
+  scheduleErasureProcessing,
+};
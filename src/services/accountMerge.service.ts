@@ -0,0 +1,475 @@
+import crypto from 'crypto';
+import httpStatus from 'http-status';
+import { Request } from 'express';
+import { SecurityEventType, TokenType } from '@prisma/client';
+import prisma from '../client';
+import config from '../config/config';
+import logger from '../config/logger';
+import ApiError from '../utils/ApiError';
+import { isPasswordMatch } from '../utils/encryption';
+import { TwoFactorMethod } from '../types/auth.types';
+import cacheService, { CacheKeys, CacheTTL } from './cache.service';
+import tokenService from './token.service';
+import twoFactorService from './twoFactor.service';
+import tokenRevocationService from './tokenRevocation.service';
+import securityService from './security.service';
+import AuditLogService from './auditLog.service';
+import authService from './auth.service';
+
+const auditLogService = new AuditLogService();
+
+const MAX_CODE_ATTEMPTS = 5;
+
+/** Profile fields copied from the merged account when the surviving account has none */
+const PROFILE_FIELDS = [
+  'name',
+  'phone',
+  'phoneCode',
+  'country',
+  'state',
+  'city',
+  'address',
+  'profilePicture',
+  'dateOfBirth',
+  'gender',
+] as const;
+
+/** Account fields a merge credential is checked against */
+const CREDENTIAL_USER_SELECT = {
+  id: true,
+  email: true,
+  password: true,
+  isLocked: true,
+  isActive: true,
+  erasedAt: true,
+  lockoutUntil: true,
+} as const;
+
+/**
+ * Proof of control of an account: its password, or a one-time login code from signing in
+ * with one of its social or SSO providers
+ */
+export interface MergeCredential {
+  email?: string;
+  password?: string;
+  loginCode?: string;
+}
+
+interface SecondFactor {
+  methods: TwoFactorMethod[];
+  method: TwoFactorMethod;
+}
+
+interface PendingMerge {
+  targetId: string;
+  sourceId: string;
+  twoFactor: { current: SecondFactor | null; other: SecondFactor | null };
+  attempts: number;
+}
+
+/**
+ * Hide most of an email address, e.g. `j***@example.com`
+ * @param {string} email
+ * @returns {string}
+ */
+const maskEmail = (email: string) => {
+  const [local, domain] = email.split('@');
+  return `${local.slice(0, 1)}***@${domain}`;
+};
+
+/**
+ * Issuer of the subjects of a provider. Login providers with the same issuer, such as Google
+ * and an OIDC provider configured for accounts.google.com, identify a person by the same subject.
+ * @param {string} provider
+ * @returns {string}
+ */
+const issuerOf = (provider: string) => {
+  if (provider === 'google') {
+    return 'https://accounts.google.com';
+  }
+  return config.oidc.providers.find(oidc => oidc.name === provider)?.issuer ?? provider;
+};
+
+/**
+ * Providers whose subjects are the same as those of a provider
+ * @param {string} provider
+ * @returns {string[]}
+ */
+const providersSharingSubjects = (provider: string) => {
+  const issuer = issuerOf(provider);
+  return [
+    ...new Set(
+      ['google', ...config.oidc.providers.map(oidc => oidc.name), provider].filter(
+        other => issuerOf(other) === issuer
+      )
+    ),
+  ];
+};
+
+/**
+ * Find other accounts that belong to the same person according to an identifier verified on
+ * both: the verified email in another case, or the subject of a linked login provider. Nothing
+ * about the other accounts is returned, only which identifier of the current account matched;
+ * the user proves control of the other account by signing in to it.
+ * @param {string} userId
+ * @returns {Promise<Object[]>}
+ */
+const findDuplicateCandidates = async (userId: string) => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      email: true,
+      isEmailVerified: true,
+      socialAccounts: { select: { provider: true, providerId: true } },
+    },
+  });
+  if (!user) {
+    throw new ApiError(httpStatus.NOT_FOUND, 'User not found');
+  }
+
+  const conditions: any[] = user.socialAccounts.map(account => ({
+    socialAccounts: {
+      some: {
+        provider: { in: providersSharingSubjects(account.provider) },
+        providerId: account.providerId,
+      },
+    },
+  }));
+  if (user.isEmailVerified) {
+    conditions.push({ isEmailVerified: true, email: { equals: user.email, mode: 'insensitive' } });
+  }
+  if (conditions.length === 0) {
+    return [];
+  }
+
+  const candidates = await prisma.user.findMany({
+    where: { id: { not: userId }, erasedAt: null, OR: conditions },
+    select: {
+      email: true,
+      isEmailVerified: true,
+      socialAccounts: { select: { provider: true, providerId: true } },
+    },
+    orderBy: { createdAt: 'asc' },
+    take: 10,
+  });
+
+  return candidates.map(candidate => ({
+    reasons: [
+      ...(user.isEmailVerified &&
+      candidate.isEmailVerified &&
+      candidate.email.toLowerCase() === user.email.toLowerCase()
+        ? ['email']
+        : []),
+      ...user.socialAccounts
+        .filter(account =>
+          candidate.socialAccounts.some(
+            other =>
+              other.providerId === account.providerId &&
+              issuerOf(other.provider) === issuerOf(account.provider)
+          )
+        )
+        .map(account => account.provider),
+    ],
+  }));
+};
+
+/**
+ * Check a credential and return the account it proves control of. Wrong passwords count
+ * towards the account lockout, and a credential of a locked, deactivated or erased account is
+ * refused with the same error as a wrong one, so the response does not reveal the account state.
+ * @param {MergeCredential} credential
+ * @param {Request} req
+ * @param {string} [userId] - account the credential must belong to
+ * @returns {Promise<Object>}
+ */
+const verifyCredential = async (credential: MergeCredential, req: Request, userId?: string) => {
+  let user;
+  let error;
+  if (credential.loginCode) {
+    error = new ApiError(httpStatus.UNAUTHORIZED, 'Invalid or expired login code');
+    let loginCodeDoc;
+    try {
+      loginCodeDoc = await tokenService.verifyToken(credential.loginCode, TokenType.SOCIAL_LOGIN);
+    } catch {
+      throw error;
+    }
+    await tokenService.blacklistToken(loginCodeDoc.id);
+    user = await prisma.user.findUnique({
+      where: { id: loginCodeDoc.userId },
+      select: CREDENTIAL_USER_SELECT,
+    });
+    if (!user || (userId && user.id !== userId)) {
+      throw error;
+    }
+  } else {
+    error = new ApiError(httpStatus.UNAUTHORIZED, 'Incorrect email or password');
+    user = await prisma.user.findUnique({
+      where: userId ? { id: userId } : { email: credential.email as string },
+      select: CREDENTIAL_USER_SELECT,
+    });
+    if (!user || !user.password) {
+      throw error;
+    }
+    // A locked out account is not checked, so its password cannot be guessed meanwhile
+    if (authService.isTemporarilyLockedOut(user)) {
+      throw error;
+    }
+    if (!(await isPasswordMatch(credential.password as string, user.password))) {
+      await authService.recordFailedLogin(user.id, req);
+      throw error;
+    }
+  }
+
+  if (user.isLocked || !user.isActive || user.erasedAt) {
+    throw error;
+  }
+  return user;
+};
+
+/**
+ * Second factor that must be verified before the account is merged. Email and SMS codes are
+ * sent straight away.
+ * @param {string} userId
+ * @returns {Promise<SecondFactor | null>}
+ */
+const requireSecondFactor = async (userId: string): Promise<SecondFactor | null> => {
+  const { methods, preferredMethod } = await twoFactorService.getEnrolledMethods(userId);
+  if (!preferredMethod) {
+    return null;
+  }
+
+  // Passkeys cannot be verified alongside a second account, so a code-based factor is needed
+  const codeMethods: TwoFactorMethod[] = methods.filter(method => method !== 'webauthn');
+  if (codeMethods.length === 0) {
+    throw new ApiError(
+      httpStatus.BAD_REQUEST,
+      'Enable an authenticator app, email or SMS second factor to merge this account'
+    );
+  }
+
+  const method = codeMethods.includes(preferredMethod) ? preferredMethod : codeMethods[0];
+  if (method === 'email' || method === 'sms') {
+    await twoFactorService.sendOtpCode(userId, method);
+  }
+  return { methods: codeMethods, method };
+};
+
+/**
+ * Start merging another account into the current one. Control of both accounts is proven
+ * with a password or a social login code, followed by a second factor where one is enrolled.
+ * @param {string} userId - current account, which is kept
+ * @param {MergeCredential} current - proof for the current account
+ * @param {MergeCredential} other - proof for the account merged into it
+ * @param {Request} req
+ * @returns {Promise<Object>} merge token and the second factors to verify
+ */
+const startMerge = async (
+  userId: string,
+  current: MergeCredential,
+  other: MergeCredential,
+  req: Request
+) => {
+  const target = await verifyCredential(current, req, userId);
+  const source = await verifyCredential(other, req);
+  if (source.id === target.id) {
+    throw new ApiError(httpStatus.BAD_REQUEST, 'Both credentials belong to this account');
+  }
+
+  const pending: PendingMerge = {
+    targetId: target.id,
+    sourceId: source.id,
+    twoFactor: {
+      current: await requireSecondFactor(target.id),
+      other: await requireSecondFactor(source.id),
+    },
+    attempts: 0,
+  };
+
+  const mergeToken = crypto.randomBytes(32).toString('hex');
+  const saved = await cacheService.set(CacheKeys.ACCOUNT_MERGE(mergeToken), pending, {
+    ttl: CacheTTL.LONG,
+  });
+  if (!saved) {
+    throw new ApiError(httpStatus.SERVICE_UNAVAILABLE, 'Account merging is unavailable right now');
+  }
+
+  return {
+    mergeToken,
+    expiresIn: CacheTTL.LONG,
+    account: { email: maskEmail(source.email) },
+    twoFactor: pending.twoFactor,
+  };
+};
+
+/**
+ * Verify a second factor code if the account needs one
+ * @param {string} userId
+ * @param {SecondFactor | null} secondFactor
+ * @param {string} [code]
+ * @returns {Promise<boolean>}
+ */
+const verifySecondFactor = async (
+  userId: string,
+  secondFactor: SecondFactor | null,
+  code?: string
+) => {
+  if (!secondFactor) {
+    return true;
+  }
+  if (!code) {
+    return false;
+  }
+  for (const method of secondFactor.methods) {
+    if (await twoFactorService.verifyLoginCode(userId, method, code)) {
+      return true;
+    }
+  }
+  return false;
+};
+
+/**
+ * Move everything the merged account owns that is kept to the surviving account, then delete
+ * the merged account. Records kept for compliance, such as consents and security logs, move
+ * along with the API keys and OAuth grants, so the delete does not cascade to them.
+ * @param {string} sourceId - account merged away
+ * @param {string} targetId - account kept
+ * @returns {Promise<Object>} what was moved
+ */
+const mergeAccounts = async (sourceId: string, targetId: string) => {
+  return prisma.$transaction(async (tx: any) => {
+    const [source, target] = await Promise.all([
+      tx.user.findUnique({ where: { id: sourceId } }),
+      tx.user.findUnique({ where: { id: targetId } }),
+    ]);
+
+    const moveTo = { data: { userId: targetId }, where: { userId: sourceId } };
+    const socialAccounts = await tx.socialAccount.updateMany(moveTo);
+    const devices = await tx.device.updateMany(moveTo);
+    const notifications = await tx.notification.updateMany(moveTo);
+    const activities = await tx.userActivity.updateMany(moveTo);
+    const dataProcessingRecords = await tx.dataProcessingRecord.updateMany(moveTo);
+    const securityLogs = await tx.securityLog.updateMany(moveTo);
+    const oauthTokens = await tx.oAuthToken.updateMany(moveTo);
+    const apiKeys = await tx.apiKey.findMany({
+      where: { userId: sourceId },
+      select: { hashedKey: true },
+    });
+    await tx.apiKey.updateMany(moveTo);
+
+    // Roles both accounts hold are kept once
+    const heldRoles = await tx.userRole.findMany({
+      where: { userId: targetId },
+      select: { roleId: true },
+    });
+    await tx.userRole.deleteMany({
+      where: {
+        userId: sourceId,
+        roleId: { in: heldRoles.map((userRole: { roleId: string }) => userRole.roleId) },
+      },
+    });
+    const roles = await tx.userRole.updateMany(moveTo);
+
+    const profileFields = PROFILE_FIELDS.filter(
+      field => target[field] == null && source[field] != null
+    );
+    if (profileFields.length > 0) {
+      await tx.user.update({
+        where: { id: targetId },
+        data: Object.fromEntries(profileFields.map(field => [field, source[field]])),
+      });
+    }
+
+    await tx.user.delete({ where: { id: sourceId } });
+
+    return {
+      mergedUserId: sourceId,
+      mergedEmail: source.email,
+      socialAccounts: socialAccounts.count,
+      devices: devices.count,
+      notifications: notifications.count,
+      activities: activities.count,
+      roleAssignments: roles.count,
+      dataProcessingRecords: dataProcessingRecords.count,
+      securityLogs: securityLogs.count,
+      oauthTokens: oauthTokens.count,
+      apiKeys: apiKeys.length,
+      profileFields,
+      movedKeyHashes: apiKeys.map((apiKey: { hashedKey: string }) => apiKey.hashedKey) as string[],
+    };
+  });
+};
+
+/**
+ * Verify the second factors of a pending merge and merge the other account into the current
+ * one. The merged account is deleted and signed out everywhere.
+ * @param {string} userId - current account
+ * @param {string} mergeToken
+ * @param {Object} codes - second factor codes of the current and the other account
+ * @param {Request} req
+ * @returns {Promise<Object>} summary of what was merged
+ */
+const completeMerge = async (
+  userId: string,
+  mergeToken: string,
+  codes: { currentCode?: string; otherCode?: string },
+  req: Request
+) => {
+  const key = CacheKeys.ACCOUNT_MERGE(mergeToken);
+  const pending = await cacheService.get<PendingMerge>(key);
+  if (!pending || pending.targetId !== userId) {
+    throw new ApiError(httpStatus.BAD_REQUEST, 'Invalid or expired merge request');
+  }
+
+  const verified =
+    (await verifySecondFactor(pending.targetId, pending.twoFactor.current, codes.currentCode)) &&
+    (await verifySecondFactor(pending.sourceId, pending.twoFactor.other, codes.otherCode));
+  if (!verified) {
+    pending.attempts += 1;
+    if (pending.attempts >= MAX_CODE_ATTEMPTS) {
+      await cacheService.del(key);
+    } else {
+      await cacheService.set(key, pending, { ttl: CacheTTL.LONG });
+    }
+    throw new ApiError(httpStatus.UNAUTHORIZED, 'Invalid two-factor code');
+  }
+  await cacheService.del(key);
+
+  const { mergedEmail, movedKeyHashes, ...summary } = await mergeAccounts(
+    pending.sourceId,
+    pending.targetId
+  );
+  await tokenRevocationService.revokeUserAccessTokens(pending.sourceId);
+  // Cached keys still name the merged account as their owner
+  await Promise.all(
+    movedKeyHashes.map(hashedKey => cacheService.del(CacheKeys.API_KEY(hashedKey)))
+  );
+
+  await auditLogService
+    .createLogFromRequest(
+      req,
+      'MERGE',
+      'user',
+      pending.targetId,
+      { mergedUserId: pending.sourceId, mergedEmail },
+      summary,
+      'WARNING',
+      'SECURITY'
+    )
+    .catch(error => logger.error('Failed to audit account merge', { userId, error }));
+  await securityService.logSecurityEvent({
+    userId: pending.targetId,
+    ipAddress: req.ip || '',
+    userAgent: req.get('User-Agent') || 'Unknown',
+    eventType: SecurityEventType.ACCOUNT_MERGED,
+    success: true,
+    details: { mergedUserId: pending.sourceId, timestamp: new Date().toISOString() },
+  });
+
+  return summary;
+};
+
+export default {
+  findDuplicateCandidates,
+  startMerge,
+  completeMerge,
+};
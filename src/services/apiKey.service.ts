@@ -1,10 +1,13 @@
 import { PrismaClient, User } from '@prisma/client';
 import crypto from 'crypto';
+import prisma from '../client';
 import ApiError from '../utils/ApiError';
 import httpStatus from 'http-status';
 import { Request } from 'express';
 import AuditLogService from './auditLog.service';
-import { SecurityEventType } from '@prisma/client';
+import cacheService, { CacheKeys, CacheTTL } from './cache.service';
+import { Permission, SecurityEventType } from '@prisma/client';
+import { apiKeyScopeGrants, apiKeyWildcardScopes, roleRights } from '../config/roles';
 
 // Define ApiKey type locally since it's not exported from Prisma
 type ApiKey = {
@@ -52,13 +55,11 @@ interface ApiKeyUsage {
 
 class ApiKeyService {
   private prisma: PrismaClient;
-  private keyCache: Map<string, ApiKey> = new Map();
   private usageCache: Map<string, ApiKeyUsage[]> = new Map();
-  private cacheTimeout = 5 * 60 * 1000; // 5 minutes
   private auditLogService: AuditLogService;
 
   constructor() {
-    this.prisma = new PrismaClient();
+    this.prisma = prisma;
     this.auditLogService = new AuditLogService();
   }
 
@@ -76,6 +77,30 @@ class ApiKeyService {
     return crypto.createHash('sha256').update(apiKey).digest('hex');
   }
 
+  /**
+   * Look up a key in the cache shared by all instances, so a revocation applies everywhere at once
+   */
+  private async getCachedKey(hashedKey: string): Promise<ApiKey | null> {
+    const key = await cacheService.get<ApiKey>(CacheKeys.API_KEY(hashedKey));
+    if (!key) {
+      return null;
+    }
+    return {
+      ...key,
+      expiresAt: key.expiresAt ? new Date(key.expiresAt) : null,
+      lastUsedAt: key.lastUsedAt ? new Date(key.lastUsedAt) : null,
+      createdAt: new Date(key.createdAt),
+      updatedAt: new Date(key.updatedAt),
+    };
+  }
+
+  /**
+   * Drop a key from the shared cache after it was revoked, regenerated or changed
+   */
+  private async forgetKey(hashedKey: string): Promise<void> {
+    await cacheService.del(CacheKeys.API_KEY(hashedKey));
+  }
+
   /**
    * Create a new API key
    */
@@ -127,53 +152,63 @@ class ApiKeyService {
    * Validate API key
    */
   async validateApiKey(apiKey: string, req: Request): Promise<ApiKey | null> {
+    try {
+      return await this.authenticateApiKey(apiKey, req);
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * Authenticate API key, throwing an ApiError describing the first failed restriction
+   */
+  async authenticateApiKey(apiKey: string, req: Request): Promise<ApiKey> {
     const hashedKey = this.hashApiKey(apiKey);
 
     // Check cache first
-    const cachedKey = this.keyCache.get(apiKey);
-    if (cachedKey && this.isKeyValid(cachedKey, req)) {
-      await this.updateKeyUsage(cachedKey.id, req);
-      return cachedKey;
-    }
+    let key = await this.getCachedKey(hashedKey);
 
-    // Check database
-    const dbKey = await this.prisma.apiKey.findFirst({
-      where: {
-        hashedKey,
-        isActive: true,
-      },
-    });
+    if (!key) {
+      // Check database
+      key = await this.prisma.apiKey.findFirst({
+        where: {
+          hashedKey,
+          isActive: true,
+        },
+      });
 
-    if (!dbKey) {
-      return null;
-    }
+      if (!key) {
+        throw new ApiError(httpStatus.UNAUTHORIZED, 'Invalid or expired API key');
+      }
 
-    if (!this.isKeyValid(dbKey, req)) {
-      return null;
+      // Cache the key
+      await cacheService.set(CacheKeys.API_KEY(hashedKey), key, { ttl: CacheTTL.MEDIUM });
     }
 
-    // Cache the key
-    this.keyCache.set(apiKey, dbKey);
-    setTimeout(() => this.keyCache.delete(apiKey), this.cacheTimeout);
+    this.assertKeyRestrictions(key, req);
+
+    if (!(await this.consumeRateLimit(key))) {
+      throw new ApiError(httpStatus.TOO_MANY_REQUESTS, 'API key rate limit exceeded');
+    }
 
-    await this.updateKeyUsage(dbKey.id, req);
-    return dbKey;
+    await this.updateKeyUsage(key.id, req);
+    return key;
   }
 
   /**
-   * Check if API key is valid
+   * Enforce expiration, IP and origin restrictions of an API key
    */
-  private isKeyValid(apiKey: ApiKey, req: Request): boolean {
+  private assertKeyRestrictions(apiKey: ApiKey, req: Request): void {
     // Check expiration
     if (apiKey.expiresAt && apiKey.expiresAt < new Date()) {
-      return false;
+      throw new ApiError(httpStatus.UNAUTHORIZED, 'Invalid or expired API key');
     }
 
     // Check IP restrictions
     if (apiKey.allowedIPs.length > 0) {
       const clientIP = req.ip || req.connection.remoteAddress;
       if (!apiKey.allowedIPs.includes(clientIP as string)) {
-        return false;
+        throw new ApiError(httpStatus.FORBIDDEN, 'IP address not allowed for this API key');
       }
     }
 
@@ -181,12 +216,9 @@ class ApiKeyService {
     if (apiKey.allowedOrigins.length > 0) {
       const origin = req.get('Origin');
       if (!origin || !apiKey.allowedOrigins.includes(origin)) {
-        return false;
+        throw new ApiError(httpStatus.FORBIDDEN, 'Origin not allowed for this API key');
       }
     }
-
-    // Check rate limit
-    return this.checkRateLimit(apiKey);
   }
 
   /**
@@ -202,6 +234,60 @@ class ApiKeyService {
     return recentUsage.length < apiKey.rateLimitPerHour;
   }
 
+  /**
+   * Count a request against the hourly limit, shared across instances through Redis
+   */
+  private async consumeRateLimit(apiKey: ApiKey): Promise<boolean> {
+    const window = Math.floor(Date.now() / (CacheTTL.HOUR * 1000));
+    const cacheKey = CacheKeys.API_KEY_USAGE(apiKey.id, window);
+
+    await cacheService.setnx(cacheKey, 0, CacheTTL.HOUR);
+    const count = await cacheService.incr(cacheKey);
+
+    // Redis unavailable, fall back to this instance's usage cache
+    if (count === null) {
+      return this.checkRateLimit(apiKey);
+    }
+
+    return count <= apiKey.rateLimitPerHour;
+  }
+
+  /**
+   * Resolve the role rights and RBAC permissions an API key grants, capped by its owner's role
+   */
+  resolveGrants(
+    apiKey: ApiKey,
+    ownerRole: string
+  ): { rights: string[]; permissions: string[] | '*' } {
+    const ownerRights = roleRights.get(ownerRole) ?? [];
+    const scopes: string[] = Array.isArray(apiKey.permissions) ? apiKey.permissions : [];
+
+    if (scopes.some(scope => apiKeyWildcardScopes.includes(scope))) {
+      return { rights: ownerRights, permissions: '*' };
+    }
+
+    const rights = new Set<string>();
+    const permissions = new Set<string>();
+
+    for (const scope of scopes) {
+      const grant = apiKeyScopeGrants.get(scope);
+      if (grant) {
+        grant.rights.forEach(right => rights.add(right));
+        grant.permissions.forEach(permission => permissions.add(permission));
+      } else if (Object.values(Permission).includes(scope as Permission)) {
+        permissions.add(scope);
+      } else {
+        // Plain role right names are accepted as-is
+        rights.add(scope);
+      }
+    }
+
+    return {
+      rights: ownerRights.filter(right => rights.has(right)),
+      permissions: Array.from(permissions),
+    };
+  }
+
   /**
    * Update API key usage
    */
@@ -315,6 +401,7 @@ class ApiKeyService {
         allowedOrigins: data.allowedOrigins,
       },
     });
+    await this.forgetKey(apiKey.hashedKey);
 
     // Log the update
     await this.auditLogService.createLog({
@@ -351,11 +438,7 @@ class ApiKeyService {
     });
 
     // Remove from cache
-    this.keyCache.forEach((key, cacheKey) => {
-      if (key.id === apiKeyId) {
-        this.keyCache.delete(cacheKey);
-      }
-    });
+    await this.forgetKey(apiKey.hashedKey);
 
     // Log the revocation
     await this.auditLogService.createLog({
@@ -423,11 +506,7 @@ class ApiKeyService {
     });
 
     // Remove old key from cache
-    this.keyCache.forEach((key, cacheKey) => {
-      if (key.id === apiKeyId) {
-        this.keyCache.delete(cacheKey);
-      }
-    });
+    await this.forgetKey(apiKey.hashedKey);
 
     // Log the regeneration
     await this.auditLogService.createLog({
@@ -465,11 +544,7 @@ class ApiKeyService {
       });
 
       // Remove from cache
-      this.keyCache.forEach((cachedKey, cacheKey) => {
-        if (cachedKey.id === key.id) {
-          this.keyCache.delete(cacheKey);
-        }
-      });
+      await this.forgetKey(key.hashedKey);
     }
 
     return expiredKeys.length;
@@ -1,9 +1,48 @@
 import httpStatus from 'http-status';
+import crypto from 'crypto';
 import prisma from '../client';
+import config from '../config/config';
 import ApiError from '../utils/ApiError';
-import { AuditLog } from '@prisma/client';
+import { AuditLog, Prisma } from '@prisma/client';
 import { Request } from 'express';
 
+export type AuditSeverity = 'INFO' | 'WARNING' | 'ERROR' | 'CRITICAL';
+export type AuditCategory = 'SECURITY' | 'AUTH' | 'DATA' | 'SYSTEM' | 'GENERAL';
+
+// Fields whose values must never be persisted in an audit trail
+const REDACTED_FIELD_PATTERN = /password|secret|token|hashedKey|backupCodes/i;
+const REDACTED_VALUE = '[REDACTED]';
+
+// previousHash of the very first entry in the chain
+const GENESIS_HASH = '0'.repeat(64);
+// pg advisory lock key serialising appends to (and pruning of) the chain
+const AUDIT_CHAIN_LOCK_KEY = 7_243_001;
+const VERIFY_BATCH_SIZE = 1000;
+// Chain entry recording which entries had their personal details removed
+const REDACTION_ACTION = 'REDACT';
+const REDACTION_RESOURCE = 'audit_log';
+
+interface ChainGap {
+  fromSequence: number;
+  toSequence: number;
+  previousHash: string;
+  lastHash: string;
+}
+
+interface ChainVerificationResult {
+  valid: boolean;
+  checkedCount: number;
+  checkpointCount: number;
+  firstBrokenLink?: {
+    id?: string;
+    sequence?: number;
+    timestamp?: Date;
+    reason: string;
+    expectedPreviousHash?: string;
+    actualPreviousHash?: string | null;
+  };
+}
+
 interface CreateAuditLogData {
   userId?: string;
   action: string;
@@ -15,12 +54,14 @@ interface CreateAuditLogData {
   userAgent?: string;
   sessionId?: string;
   requestId?: string;
-  severity?: 'INFO' | 'WARNING' | 'ERROR' | 'CRITICAL';
-  category?: 'SECURITY' | 'AUTH' | 'DATA' | 'SYSTEM' | 'GENERAL';
+  severity?: AuditSeverity;
+  category?: AuditCategory;
+  impersonatorId?: string;
 }
 
 interface AuditLogFilters {
   userId?: string;
+  impersonatorId?: string;
   action?: string;
   resource?: string;
   resourceId?: string;
@@ -38,25 +79,315 @@ interface AuditLogFilters {
  */
 class AuditLogService {
   /**
-   * Create audit log entry
+   * Create audit log entry, linking it to the previous entry's hash
    */
   async createLog(data: CreateAuditLogData): Promise<AuditLog> {
-    return await prisma.auditLog.create({
-      data: {
-        userId: data.userId,
-        action: data.action,
-        resource: data.resource,
-        resourceId: data.resourceId,
-        oldValues: data.oldValues,
-        newValues: data.newValues,
-        ipAddress: data.ipAddress,
-        userAgent: data.userAgent,
-        sessionId: data.sessionId,
-        requestId: data.requestId,
-        severity: data.severity || 'INFO',
-        category: data.category || 'GENERAL',
-      },
+    return await prisma.$transaction(async tx => {
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(${AUDIT_CHAIN_LOCK_KEY})`;
+      return await this.appendLog(tx, data);
+    });
+  }
+
+  /**
+   * Append an entry to the chain. The caller holds the chain lock.
+   */
+  private async appendLog(
+    tx: Prisma.TransactionClient,
+    data: CreateAuditLogData
+  ): Promise<AuditLog> {
+    const last = await tx.auditLog.findFirst({
+      where: { hash: { not: null } },
+      orderBy: { sequence: 'desc' },
+      select: { hash: true },
     });
+
+    const entry = {
+      userId: data.userId,
+      action: data.action,
+      resource: data.resource,
+      resourceId: data.resourceId,
+      oldValues: data.oldValues,
+      newValues: data.newValues,
+      ipAddress: data.ipAddress,
+      userAgent: data.userAgent,
+      sessionId: data.sessionId,
+      requestId: data.requestId,
+      severity: data.severity || 'INFO',
+      category: data.category || 'GENERAL',
+      impersonatorId: data.impersonatorId,
+      timestamp: new Date(),
+      previousHash: last?.hash || GENESIS_HASH,
+    };
+    const attribution = {
+      actorPseudonym: entry.userId ? this.pseudonymise(entry.userId) : null,
+      detailsDigest: this.digestDetails(entry),
+    };
+
+    return await tx.auditLog.create({
+      data: { ...entry, ...attribution, hash: this.computeHash({ ...entry, ...attribution }) },
+    });
+  }
+
+  /**
+   * Stable keyed pseudonym for a user ID
+   */
+  pseudonymise(userId: string): string {
+    return crypto.createHmac('sha256', config.audit.signingSecret).update(userId).digest('hex');
+  }
+
+  /**
+   * Detach a user's audit entries from their account, keeping only the pseudonym, and remove the
+   * personal details of the entries they made or that snapshot their account. The details digest
+   * stays in the chain, and a REDACT entry appended to the chain records the sequences of the
+   * redacted entries; verification only accepts entries without details that it lists.
+   */
+  async redactUserLogs(userId: string): Promise<number> {
+    return await prisma.$transaction(async tx => {
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(${AUDIT_CHAIN_LOCK_KEY})`;
+
+      const entries = await tx.auditLog.findMany({
+        where: {
+          OR: [
+            { userId },
+            { resource: { in: ['user', 'user_role'] }, resourceId: userId, redactedAt: null },
+          ],
+        },
+        orderBy: { sequence: 'asc' },
+        select: { sequence: true },
+      });
+      if (entries.length === 0) {
+        return 0;
+      }
+      const sequences = entries.map(entry => entry.sequence);
+
+      await tx.auditLog.updateMany({
+        where: { sequence: { in: sequences } },
+        data: {
+          oldValues: Prisma.DbNull,
+          newValues: Prisma.DbNull,
+          ipAddress: null,
+          userAgent: null,
+          redactedAt: new Date(),
+        },
+      });
+      await tx.auditLog.updateMany({ where: { userId }, data: { userId: null } });
+
+      // Kept by retention cleanup, which never removes critical entries
+      await this.appendLog(tx, {
+        action: REDACTION_ACTION,
+        resource: REDACTION_RESOURCE,
+        resourceId: this.pseudonymise(userId),
+        newValues: { sequences },
+        severity: 'CRITICAL',
+        category: 'DATA',
+      });
+      return sequences.length;
+    });
+  }
+
+  /**
+   * Sequences of the entries redacted according to the REDACT entries of the chain. Those entries
+   * are verified by the chain walk like any other, so a forged or altered list breaks the chain.
+   */
+  private async getRedactedSequences(): Promise<Set<number>> {
+    const redactions = await prisma.auditLog.findMany({
+      where: { action: REDACTION_ACTION, resource: REDACTION_RESOURCE, hash: { not: null } },
+      select: { newValues: true },
+    });
+    const sequences = redactions.flatMap(
+      redaction => (redaction.newValues as { sequences?: number[] } | null)?.sequences ?? []
+    );
+    return new Set(sequences);
+  }
+
+  /**
+   * Keyed digest of the personal details of an entry: its values, IP address and user agent
+   */
+  private digestDetails(entry: Record<string, any>): string {
+    return crypto
+      .createHmac('sha256', config.audit.signingSecret)
+      .update(
+        this.canonicalize({
+          oldValues: entry.oldValues ?? null,
+          newValues: entry.newValues ?? null,
+          ipAddress: entry.ipAddress ?? null,
+          userAgent: entry.userAgent ?? null,
+        })
+      )
+      .digest('hex');
+  }
+
+  /**
+   * Hash of an entry's content together with the hash it links to. The user and personal details
+   * are covered through their pseudonym and digest, so the chain does not depend on the raw values.
+   */
+  private computeHash(entry: Record<string, any>): string {
+    const payload = {
+      previousHash: entry.previousHash,
+      actor: entry.actorPseudonym ?? null,
+      details: entry.detailsDigest ?? null,
+      action: entry.action,
+      resource: entry.resource,
+      resourceId: entry.resourceId ?? null,
+      sessionId: entry.sessionId ?? null,
+      requestId: entry.requestId ?? null,
+      severity: entry.severity,
+      category: entry.category,
+      // Left out of entries without one, so hashes of older entries still match
+      impersonator: entry.impersonatorId ?? undefined,
+      timestamp: new Date(entry.timestamp).toISOString(),
+    };
+    return crypto.createHash('sha256').update(this.canonicalize(payload)).digest('hex');
+  }
+
+  /**
+   * Deterministic JSON with sorted keys; Postgres jsonb does not preserve key order
+   */
+  private canonicalize(value: any): string {
+    if (value === null || value === undefined) return 'null';
+    if (Array.isArray(value)) return `[${value.map(item => this.canonicalize(item)).join(',')}]`;
+    if (value instanceof Date) return JSON.stringify(value.toISOString());
+    if (typeof value === 'object') {
+      const keys = Object.keys(value)
+        .filter(key => value[key] !== undefined)
+        .sort();
+      return `{${keys.map(key => `${JSON.stringify(key)}:${this.canonicalize(value[key])}`).join(',')}}`;
+    }
+    return JSON.stringify(value);
+  }
+
+  private signCheckpoint(checkpoint: { cutoff: Date; deletedCount: number; gaps: ChainGap[] }) {
+    return crypto
+      .createHmac('sha256', config.audit.signingSecret)
+      .update(
+        this.canonicalize({
+          cutoff: checkpoint.cutoff.toISOString(),
+          deletedCount: checkpoint.deletedCount,
+          gaps: checkpoint.gaps,
+        })
+      )
+      .digest('hex');
+  }
+
+  /**
+   * Walk the hash chain from the oldest retained entry and report the first broken link.
+   * Runs removed by retention cleanup are bridged by signed checkpoints.
+   */
+  async verifyChain(): Promise<ChainVerificationResult> {
+    const checkpoints = await prisma.auditLogCheckpoint.findMany({ orderBy: { createdAt: 'asc' } });
+
+    // previousHash of a deleted run -> hash of its last entry
+    const bridges = new Map<string, string>();
+    for (const checkpoint of checkpoints) {
+      const gaps = checkpoint.gaps as unknown as ChainGap[];
+      const expected = this.signCheckpoint({
+        cutoff: checkpoint.cutoff,
+        deletedCount: checkpoint.deletedCount,
+        gaps,
+      });
+      if (
+        expected.length !== checkpoint.signature.length ||
+        !crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(checkpoint.signature))
+      ) {
+        return {
+          valid: false,
+          checkedCount: 0,
+          checkpointCount: checkpoints.length,
+          firstBrokenLink: {
+            id: checkpoint.id,
+            timestamp: checkpoint.createdAt,
+            reason: 'Checkpoint signature is invalid',
+          },
+        };
+      }
+      for (const gap of gaps) {
+        bridges.set(gap.previousHash, gap.lastHash);
+      }
+    }
+
+    const redactedSequences = await this.getRedactedSequences();
+
+    let previousHash = GENESIS_HASH;
+    let checkedCount = 0;
+    let cursor: number | undefined;
+
+    for (;;) {
+      const batch = await prisma.auditLog.findMany({
+        where: {
+          hash: { not: null },
+          ...(cursor !== undefined && { sequence: { gt: cursor } }),
+        },
+        orderBy: { sequence: 'asc' },
+        take: VERIFY_BATCH_SIZE,
+      });
+      if (batch.length === 0) break;
+
+      for (const log of batch) {
+        let expectedPrevious = previousHash;
+        const visited = new Set<string>();
+        while (log.previousHash !== expectedPrevious && bridges.has(expectedPrevious)) {
+          if (visited.has(expectedPrevious)) break;
+          visited.add(expectedPrevious);
+          expectedPrevious = bridges.get(expectedPrevious)!;
+        }
+
+        const brokenLink = {
+          id: log.id,
+          sequence: log.sequence,
+          timestamp: log.timestamp,
+          expectedPreviousHash: expectedPrevious,
+          actualPreviousHash: log.previousHash,
+        };
+
+        if (log.previousHash !== expectedPrevious) {
+          return {
+            valid: false,
+            checkedCount,
+            checkpointCount: checkpoints.length,
+            firstBrokenLink: {
+              ...brokenLink,
+              reason: 'Previous hash does not match; an earlier entry was deleted or reordered',
+            },
+          };
+        }
+
+        // Entries without details are only accepted when a REDACT entry lists them
+        if (log.redactedAt && !redactedSequences.has(log.sequence)) {
+          return {
+            valid: false,
+            checkedCount,
+            checkpointCount: checkpoints.length,
+            firstBrokenLink: { ...brokenLink, reason: 'Entry was redacted without a record' },
+          };
+        }
+
+        // Redacted entries no longer hold the details their digest was computed from
+        const detailsMismatch = redactedSequences.has(log.sequence)
+          ? log.oldValues !== null ||
+            log.newValues !== null ||
+            log.ipAddress !== null ||
+            log.userAgent !== null
+          : log.detailsDigest !== this.digestDetails(log);
+        const attributionMismatch =
+          (log.userId !== null && log.actorPseudonym !== this.pseudonymise(log.userId)) ||
+          detailsMismatch;
+        if (attributionMismatch || this.computeHash(log) !== log.hash) {
+          return {
+            valid: false,
+            checkedCount,
+            checkpointCount: checkpoints.length,
+            firstBrokenLink: { ...brokenLink, reason: 'Entry content does not match its hash' },
+          };
+        }
+
+        previousHash = log.hash!;
+        checkedCount++;
+      }
+
+      cursor = batch[batch.length - 1].sequence;
+    }
+
+    return { valid: true, checkedCount, checkpointCount: checkpoints.length };
   }
 
   /**
@@ -69,8 +400,8 @@ class AuditLogService {
     resourceId?: string,
     oldValues?: any,
     newValues?: any,
-    severity?: 'INFO' | 'WARNING' | 'ERROR' | 'CRITICAL',
-    category?: 'SECURITY' | 'AUTH' | 'DATA' | 'SYSTEM' | 'GENERAL'
+    severity?: AuditSeverity,
+    category?: AuditCategory
   ): Promise<AuditLog> {
     const user = req.user as any;
 
@@ -83,13 +414,62 @@ class AuditLogService {
       newValues,
       ipAddress: req.ip,
       userAgent: req.get('User-Agent'),
-      sessionId: (req as any).session?.id,
-      requestId: (req as any).id,
+      sessionId: req.principal?.sessionId ?? (req as any).session?.id,
+      requestId: req.requestId,
       severity,
       category,
+      impersonatorId: req.principal?.impersonatorId,
     });
   }
 
+  /**
+   * Reduce two snapshots of a resource to the fields that changed, with sensitive values redacted.
+   * Missing snapshots (create/delete) keep every field on the side that exists.
+   */
+  diffValues(
+    before?: Record<string, any> | null,
+    after?: Record<string, any> | null
+  ): { oldValues?: Record<string, any>; newValues?: Record<string, any> } {
+    const oldSnapshot = this.toPlain(before);
+    const newSnapshot = this.toPlain(after);
+
+    if (!oldSnapshot || !newSnapshot) {
+      return {
+        oldValues: oldSnapshot ? this.redact(oldSnapshot) : undefined,
+        newValues: newSnapshot ? this.redact(newSnapshot) : undefined,
+      };
+    }
+
+    const oldValues: Record<string, any> = {};
+    const newValues: Record<string, any> = {};
+    const keys = new Set([...Object.keys(oldSnapshot), ...Object.keys(newSnapshot)]);
+
+    for (const key of keys) {
+      if (key === 'updatedAt') continue;
+      if (JSON.stringify(oldSnapshot[key]) !== JSON.stringify(newSnapshot[key])) {
+        oldValues[key] = oldSnapshot[key];
+        newValues[key] = newSnapshot[key];
+      }
+    }
+
+    return { oldValues: this.redact(oldValues), newValues: this.redact(newValues) };
+  }
+
+  private toPlain(value?: Record<string, any> | null): Record<string, any> | undefined {
+    if (!value || typeof value !== 'object') return undefined;
+    // Round-trip through JSON so Dates, Decimals and nested relations compare and store cleanly
+    return JSON.parse(JSON.stringify(value));
+  }
+
+  private redact(values: Record<string, any>): Record<string, any> {
+    return Object.fromEntries(
+      Object.entries(values).map(([key, value]) => [
+        key,
+        REDACTED_FIELD_PATTERN.test(key) ? REDACTED_VALUE : value,
+      ])
+    );
+  }
+
   /**
    * Get audit logs with filtering
    */
@@ -101,6 +481,7 @@ class AuditLogService {
   }> {
     const {
       userId,
+      impersonatorId,
       action,
       resource,
       resourceId,
@@ -115,6 +496,7 @@ class AuditLogService {
     const where: any = {};
 
     if (userId) where.userId = userId;
+    if (impersonatorId) where.impersonatorId = impersonatorId;
     if (action) where.action = { contains: action, mode: 'insensitive' };
     if (resource) where.resource = { contains: resource, mode: 'insensitive' };
     if (resourceId) where.resourceId = resourceId;
@@ -337,24 +719,62 @@ class AuditLogService {
   }
 
   /**
-   * Cleanup old audit logs
+   * Cleanup old audit logs, recording a signed checkpoint that bridges the removed entries
    */
   async cleanupOldLogs(daysToKeep: number = 365): Promise<number> {
     const cutoffDate = new Date();
     cutoffDate.setDate(cutoffDate.getDate() - daysToKeep);
 
-    const result = await prisma.auditLog.deleteMany({
-      where: {
-        timestamp: {
-          lt: cutoffDate,
-        },
-        severity: {
-          not: 'CRITICAL', // Keep critical logs
-        },
+    const where: Prisma.AuditLogWhereInput = {
+      timestamp: {
+        lt: cutoffDate,
       },
-    });
+      severity: {
+        not: 'CRITICAL', // Keep critical logs
+      },
+    };
 
-    return result.count;
+    return await prisma.$transaction(async tx => {
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(${AUDIT_CHAIN_LOCK_KEY})`;
+
+      const doomed = await tx.auditLog.findMany({
+        where: { ...where, hash: { not: null } },
+        orderBy: { sequence: 'asc' },
+        select: { sequence: true, hash: true, previousHash: true },
+      });
+
+      // Consecutive chain links collapse into one gap; a retained entry in between starts a new one
+      const gaps: ChainGap[] = [];
+      for (const log of doomed) {
+        const current = gaps[gaps.length - 1];
+        if (current && current.lastHash === log.previousHash) {
+          current.toSequence = log.sequence;
+          current.lastHash = log.hash!;
+        } else {
+          gaps.push({
+            fromSequence: log.sequence,
+            toSequence: log.sequence,
+            previousHash: log.previousHash!,
+            lastHash: log.hash!,
+          });
+        }
+      }
+
+      const result = await tx.auditLog.deleteMany({ where });
+
+      if (result.count > 0) {
+        const checkpoint = { cutoff: cutoffDate, deletedCount: result.count, gaps };
+        await tx.auditLogCheckpoint.create({
+          data: {
+            ...checkpoint,
+            gaps: gaps as unknown as Prisma.InputJsonValue,
+            signature: this.signCheckpoint(checkpoint),
+          },
+        });
+      }
+
+      return result.count;
+    });
   }
 
   /**
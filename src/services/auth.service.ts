@@ -1,44 +1,55 @@
 import httpStatus from 'http-status';
 import { TokenType } from '@prisma/client';
+import prisma from '../client';
 import tokenService from './token.service';
 import userService from './user.service';
 import twoFactorService from './twoFactor.service';
+import webAuthnService from './webAuthn.service';
 import ApiError from '../utils/ApiError';
 import { encryptPassword, isPasswordMatch } from '../utils/encryption';
 import { Request } from 'express';
+import { AuthenticationResponseJSON } from '@simplewebauthn/server';
 import moment from 'moment';
 import config from '../config/config';
+import logger from '../config/logger';
 import userActivityService from './userActivity.service';
 import deviceService from './device.service';
 import { passwordSecurityService } from './index';
 import securityService from './security.service';
+import notificationService from './notification.service';
 import { SecurityEventType } from '@prisma/client';
 import catchAsync from '../utils/catchAsync';
 import { createEmailVerificationOtp } from './otp.service';
-import { sendEmailVerificationOtp } from '../services/email.service';
+import emailService, { sendEmailVerificationOtp } from '../services/email.service';
+import { TwoFactorMethod } from '../types/auth.types';
 
-/**
- * Login with username and password
- * @param {string} email
- * @param {string} password
- * @param {Request} req
- * @returns {Promise<Object>}
- */
-const loginUserWithEmailAndPassword = async (email: string, password: string, req: Request) => {
-  const user = await userService.getUserByEmail(email);
-  if (!user) {
-    throw new ApiError(httpStatus.UNAUTHORIZED, 'Incorrect email or password');
-  }
+// Failed password checks after which the account is locked out for a while
+const MAX_FAILED_LOGIN_ATTEMPTS = 5;
+const LOCKOUT_DURATION_MINUTES = 15;
 
-  // Ensure user has required properties
-  if (!user.id || !user.password) {
-    throw new ApiError(httpStatus.INTERNAL_SERVER_ERROR, 'Invalid user data');
-  }
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  methods: TwoFactorMethod[];
+  preferredMethod: TwoFactorMethod;
+  twoFactorToken: string;
+}
 
-  if (!(await isPasswordMatch(password, user.password))) {
-    throw new ApiError(httpStatus.UNAUTHORIZED, 'Incorrect email or password');
-  }
+/**
+ * User fields a login is decided on
+ * @param {string} userId
+ * @returns {Promise<Object | null>}
+ */
+const getLoginUser = (userId: string) =>
+  prisma.user.findUnique({
+    where: { id: userId },
+    select: { id: true, email: true, isLocked: true, isActive: true, isEmailVerified: true },
+  });
 
+/**
+ * Ensure the account is neither locked nor deactivated
+ * @param {User} user
+ */
+const assertAccountActive = (user: { isLocked: boolean; isActive: boolean }) => {
   // Check if account is locked
   if (user.isLocked) {
     throw new ApiError(httpStatus.FORBIDDEN, 'Account is locked. Please contact support.');
@@ -48,6 +59,20 @@ const loginUserWithEmailAndPassword = async (email: string, password: string, re
   if (!user.isActive) {
     throw new ApiError(httpStatus.FORBIDDEN, 'Account is deactivated. Please contact support.');
   }
+};
+
+/**
+ * Ensure an authenticated user is allowed to start a session
+ * @param {User} user
+ * @returns {Promise<void>}
+ */
+const assertCanLogin = async (user: {
+  id: string;
+  isLocked: boolean;
+  isActive: boolean;
+  isEmailVerified: boolean;
+}) => {
+  assertAccountActive(user);
 
   // Check if email is verified
   if (!user.isEmailVerified) {
@@ -65,12 +90,15 @@ const loginUserWithEmailAndPassword = async (email: string, password: string, re
       'Device limit reached. Please remove an old device to log in from a new one.'
     );
   }
+};
 
-  // Reset failed login attempts on successful login
-  if (user.failedLoginAttempts > 0) {
-    await userService.updateUserById(user.id, { failedLoginAttempts: 0, lockoutUntil: null });
-  }
-
+/**
+ * Start a session for a user who passed every required factor
+ * @param {User} user
+ * @param {Request} req
+ * @returns {Promise<AuthTokensResponse>}
+ */
+const completeLogin = async (user: { id: string }, req: Request) => {
   // Update last login
   await userService.updateUserById(user.id, { lastLoginAt: new Date() });
 
@@ -83,6 +111,403 @@ const loginUserWithEmailAndPassword = async (email: string, password: string, re
   return tokens;
 };
 
+/**
+ * Issue a two-factor challenge when the user has enrolled a second factor
+ * @param {string} userId
+ * @returns {Promise<TwoFactorChallenge | null>}
+ */
+const createTwoFactorChallenge = async (userId: string): Promise<TwoFactorChallenge | null> => {
+  const { methods, preferredMethod } = await twoFactorService.getEnrolledMethods(userId);
+  if (!preferredMethod) {
+    return null;
+  }
+
+  const challenge: TwoFactorChallenge = {
+    twoFactorRequired: true,
+    methods,
+    preferredMethod,
+    twoFactorToken: await tokenService.generateTwoFactorToken(userId),
+  };
+
+  // Codes for the preferred channel are sent straight away; others on request
+  if (preferredMethod === 'email' || preferredMethod === 'sms') {
+    await twoFactorService
+      .sendOtpCode(userId, preferredMethod)
+      .catch(error =>
+        logger.error('Failed to send login code', { userId, preferredMethod, error })
+      );
+  }
+  return challenge;
+};
+
+/**
+ * Whether failed password checks have locked the account out for now
+ * @param {Object} user
+ * @returns {boolean}
+ */
+const isTemporarilyLockedOut = (user: { lockoutUntil: Date | null }) =>
+  !!user.lockoutUntil && user.lockoutUntil > new Date();
+
+/**
+ * Count a failed password check. The account is locked out for a while once the attempts reach
+ * the limit, and every further failure extends the lockout until a successful login resets them.
+ * @param {string} userId
+ * @param {Request} req
+ * @returns {Promise<void>}
+ */
+const recordFailedLogin = async (userId: string, req: Request) => {
+  const { email, name, failedLoginAttempts } = await prisma.user.update({
+    where: { id: userId },
+    data: { failedLoginAttempts: { increment: 1 } },
+    select: { email: true, name: true, failedLoginAttempts: true },
+  });
+  if (failedLoginAttempts < MAX_FAILED_LOGIN_ATTEMPTS) {
+    return;
+  }
+
+  const lockoutUntil = moment().add(LOCKOUT_DURATION_MINUTES, 'minutes').toDate();
+  await prisma.user.update({ where: { id: userId }, data: { lockoutUntil } });
+  if (failedLoginAttempts > MAX_FAILED_LOGIN_ATTEMPTS) {
+    return;
+  }
+
+  await securityService.logSecurityEvent({
+    userId,
+    ipAddress: req.ip || '',
+    userAgent: req.get('User-Agent') || 'Unknown',
+    eventType: SecurityEventType.ACCOUNT_LOCKED,
+    success: false,
+    details: { failedLoginAttempts, lockoutUntil, timestamp: new Date().toISOString() },
+  });
+  await emailService
+    .sendAccountLockoutEmail(email, name || 'User', {
+      reason: 'too many failed login attempts',
+      lockoutUntil,
+      failedAttempts: failedLoginAttempts,
+    })
+    .catch(error => logger.error('Failed to send lockout email', { userId, error }));
+};
+
+/**
+ * Login with username and password
+ * @param {string} email
+ * @param {string} password
+ * @param {Request} req
+ * @returns {Promise<AuthTokensResponse | TwoFactorChallenge>}
+ */
+const loginUserWithEmailAndPassword = async (email: string, password: string, req: Request) => {
+  const user = await userService.getUserByEmail(email);
+  if (!user) {
+    throw new ApiError(httpStatus.UNAUTHORIZED, 'Incorrect email or password');
+  }
+
+  // Ensure user has required properties
+  if (!user.id || !user.password) {
+    throw new ApiError(httpStatus.INTERNAL_SERVER_ERROR, 'Invalid user data');
+  }
+
+  if (isTemporarilyLockedOut(user)) {
+    throw new ApiError(
+      httpStatus.FORBIDDEN,
+      'Too many failed login attempts. Please try again later.'
+    );
+  }
+
+  if (!(await isPasswordMatch(password, user.password))) {
+    await recordFailedLogin(user.id, req);
+    throw new ApiError(httpStatus.UNAUTHORIZED, 'Incorrect email or password');
+  }
+
+  await assertCanLogin(user);
+
+  // Reset failed login attempts on successful login
+  if (user.failedLoginAttempts > 0) {
+    await userService.updateUserById(user.id, { failedLoginAttempts: 0, lockoutUntil: null });
+  }
+
+  // Any enrolled second factor must be verified before tokens are issued
+  const challenge = await createTwoFactorChallenge(user.id);
+  if (challenge) {
+    return challenge;
+  }
+
+  return completeLogin(user, req);
+};
+
+/**
+ * Whether the account is locked, either permanently or by a temporary lockout
+ * @param {string} email
+ * @returns {Promise<boolean>}
+ */
+const isLockedOut = async (email: string) => {
+  const { isLocked, lockoutUntil } = await checkAccountLockout(email);
+  return isLocked || (!!lockoutUntil && lockoutUntil > new Date());
+};
+
+/**
+ * Email a single-use sign-in link. Unknown, unverified and locked accounts are skipped silently
+ * so the response does not reveal which emails are registered.
+ * @param {string} email
+ * @param {Request} req
+ * @returns {Promise<void>}
+ */
+const requestMagicLink = async (email: string, req: Request) => {
+  const user = await userService.getUserByEmail(email);
+  if (!user || !user.isActive || !user.isEmailVerified || (await isLockedOut(email))) {
+    return;
+  }
+
+  const magicLinkToken = await tokenService.generateMagicLinkToken(user.id);
+  await emailService.sendMagicLinkEmail(user.email, magicLinkToken, user.name || 'User');
+
+  await securityService.logSecurityEvent({
+    userId: user.id,
+    ipAddress: req.ip || '',
+    userAgent: req.get('User-Agent') || 'Unknown',
+    eventType: SecurityEventType.MAGIC_LINK_REQUESTED,
+    success: true,
+    details: { timestamp: new Date().toISOString() },
+  });
+};
+
+/**
+ * Exchange a magic link token for auth tokens, or a two-factor challenge when a second factor
+ * is enrolled
+ * @param {string} magicLinkToken
+ * @param {Request} req
+ * @returns {Promise<AuthTokensResponse | TwoFactorChallenge>}
+ */
+const loginWithMagicLink = async (magicLinkToken: string, req: Request) => {
+  let magicLinkTokenDoc;
+  try {
+    magicLinkTokenDoc = await tokenService.verifyToken(magicLinkToken, TokenType.MAGIC_LINK);
+  } catch (error) {
+    await securityService.logSecurityEvent({
+      ipAddress: req.ip || '',
+      userAgent: req.get('User-Agent') || 'Unknown',
+      eventType: SecurityEventType.MAGIC_LINK_LOGIN_FAILED,
+      success: false,
+      details: { reason: 'invalid_token', timestamp: new Date().toISOString() },
+    });
+    throw new ApiError(httpStatus.UNAUTHORIZED, 'Invalid or expired magic link');
+  }
+
+  // Single use: the link is spent even if the login below is refused
+  await tokenService.blacklistToken(magicLinkTokenDoc.id);
+
+  const user = await getLoginUser(magicLinkTokenDoc.userId);
+  if (!user) {
+    throw new ApiError(httpStatus.UNAUTHORIZED, 'Invalid or expired magic link');
+  }
+  if (await isLockedOut(user.email)) {
+    await securityService.logSecurityEvent({
+      userId: user.id,
+      ipAddress: req.ip || '',
+      userAgent: req.get('User-Agent') || 'Unknown',
+      eventType: SecurityEventType.MAGIC_LINK_LOGIN_FAILED,
+      success: false,
+      details: { reason: 'account_locked', timestamp: new Date().toISOString() },
+    });
+    throw new ApiError(httpStatus.FORBIDDEN, 'Account is locked. Please contact support.');
+  }
+  await assertCanLogin(user);
+
+  await securityService.logSecurityEvent({
+    userId: user.id,
+    ipAddress: req.ip || '',
+    userAgent: req.get('User-Agent') || 'Unknown',
+    eventType: SecurityEventType.MAGIC_LINK_LOGIN_SUCCESS,
+    success: true,
+    details: { timestamp: new Date().toISOString() },
+  });
+
+  // The link replaces the password only; an enrolled second factor is still required
+  const challenge = await createTwoFactorChallenge(user.id);
+  if (challenge) {
+    return challenge;
+  }
+
+  return completeLogin(user, req);
+};
+
+/**
+ * Log in with the one-time code issued after a social provider login. A second factor is still
+ * required when one is enrolled.
+ * @param {string} socialLoginToken
+ * @param {Request} req
+ * @returns {Promise<AuthTokensResponse | TwoFactorChallenge>}
+ */
+const loginWithSocialLoginCode = async (socialLoginToken: string, req: Request) => {
+  let socialLoginTokenDoc;
+  try {
+    socialLoginTokenDoc = await tokenService.verifyToken(socialLoginToken, TokenType.SOCIAL_LOGIN);
+  } catch (error) {
+    await securityService.logSecurityEvent({
+      ipAddress: req.ip || '',
+      userAgent: req.get('User-Agent') || 'Unknown',
+      eventType: SecurityEventType.SOCIAL_LOGIN_FAILED,
+      success: false,
+      details: { reason: 'invalid_code', timestamp: new Date().toISOString() },
+    });
+    throw new ApiError(httpStatus.UNAUTHORIZED, 'Invalid or expired login code');
+  }
+
+  await tokenService.blacklistToken(socialLoginTokenDoc.id);
+
+  const user = await getLoginUser(socialLoginTokenDoc.userId);
+  if (!user) {
+    throw new ApiError(httpStatus.UNAUTHORIZED, 'Invalid or expired login code');
+  }
+  if (await isLockedOut(user.email)) {
+    await securityService.logSecurityEvent({
+      userId: user.id,
+      ipAddress: req.ip || '',
+      userAgent: req.get('User-Agent') || 'Unknown',
+      eventType: SecurityEventType.SOCIAL_LOGIN_FAILED,
+      success: false,
+      details: { reason: 'account_locked', timestamp: new Date().toISOString() },
+    });
+    throw new ApiError(httpStatus.FORBIDDEN, 'Account is locked. Please contact support.');
+  }
+  await assertCanLogin(user);
+
+  await securityService.logSecurityEvent({
+    userId: user.id,
+    ipAddress: req.ip || '',
+    userAgent: req.get('User-Agent') || 'Unknown',
+    eventType: SecurityEventType.SOCIAL_LOGIN_SUCCESS,
+    success: true,
+    details: { timestamp: new Date().toISOString() },
+  });
+
+  const challenge = await createTwoFactorChallenge(user.id);
+  if (challenge) {
+    return challenge;
+  }
+
+  return completeLogin(user, req);
+};
+
+/**
+ * Resolve the token issued after a successful first factor
+ * @param {string} twoFactorToken
+ * @returns {Promise<Token>}
+ */
+const verifyTwoFactorLoginToken = async (twoFactorToken: string) => {
+  try {
+    return await tokenService.verifyToken(twoFactorToken, TokenType.TWO_FACTOR);
+  } catch (error) {
+    throw new ApiError(httpStatus.UNAUTHORIZED, 'Invalid or expired two-factor token');
+  }
+};
+
+/**
+ * Send a login code over email or SMS for a pending two-factor login
+ * @param {string} twoFactorToken
+ * @param {'email' | 'sms'} method
+ * @returns {Promise<void>}
+ */
+const sendTwoFactorLoginCode = async (twoFactorToken: string, method: 'email' | 'sms') => {
+  const { userId } = await verifyTwoFactorLoginToken(twoFactorToken);
+  const { methods } = await twoFactorService.getEnrolledMethods(userId);
+  if (!methods.includes(method)) {
+    throw new ApiError(httpStatus.BAD_REQUEST, `${method} is not enabled for this account`);
+  }
+  await twoFactorService.sendOtpCode(userId, method);
+};
+
+/**
+ * Complete a two-factor login with a TOTP, backup, email or SMS code
+ * @param {string} twoFactorToken - issued by the password login
+ * @param {string} code
+ * @param {TwoFactorMethod} [method] - when omitted, every enrolled code-based factor is tried
+ * @param {Request} req
+ * @returns {Promise<AuthTokensResponse>}
+ */
+const loginWithTwoFactorCode = async (
+  twoFactorToken: string,
+  code: string,
+  method: TwoFactorMethod | undefined,
+  req: Request
+) => {
+  const twoFactorTokenDoc = await verifyTwoFactorLoginToken(twoFactorToken);
+  const { userId } = twoFactorTokenDoc;
+
+  const { methods } = await twoFactorService.getEnrolledMethods(userId);
+  if (method && !methods.includes(method)) {
+    throw new ApiError(httpStatus.BAD_REQUEST, `${method} is not enabled for this account`);
+  }
+  const candidates = (method ? [method] : methods).filter(m => m !== 'webauthn');
+
+  let verifiedMethod: TwoFactorMethod | undefined;
+  for (const candidate of candidates) {
+    if (await twoFactorService.verifyLoginCode(userId, candidate, code)) {
+      verifiedMethod = candidate;
+      break;
+    }
+  }
+
+  await securityService.logSecurityEvent({
+    userId,
+    ipAddress: req.ip || '',
+    userAgent: req.get('User-Agent') || 'Unknown',
+    eventType: SecurityEventType.TWO_FACTOR_VERIFIED,
+    success: !!verifiedMethod,
+    details: { method: verifiedMethod || method || null, timestamp: new Date().toISOString() },
+  });
+
+  if (!verifiedMethod) {
+    throw new ApiError(httpStatus.UNAUTHORIZED, 'Invalid two-factor code');
+  }
+
+  const user = await getLoginUser(userId);
+  if (!user) {
+    throw new ApiError(httpStatus.UNAUTHORIZED, 'Invalid two-factor code');
+  }
+  // The account may have been locked or deactivated since the password was checked
+  assertAccountActive(user);
+  await tokenService.blacklistToken(twoFactorTokenDoc.id);
+
+  return completeLogin(user, req);
+};
+
+/**
+ * Login with a passkey, either passwordless or as the second factor after a password
+ * @param {AuthenticationResponseJSON} response - assertion from the authenticator
+ * @param {Request} req
+ * @param {string} [twoFactorToken] - issued by the password login when a second factor is needed
+ * @returns {Promise<AuthTokensResponse>}
+ */
+const loginWithWebAuthn = async (
+  response: AuthenticationResponseJSON,
+  req: Request,
+  twoFactorToken?: string
+) => {
+  const twoFactorTokenDoc = twoFactorToken
+    ? await verifyTwoFactorLoginToken(twoFactorToken)
+    : undefined;
+
+  const userId = await webAuthnService.verifyAuthentication(
+    response,
+    req,
+    twoFactorTokenDoc?.userId
+  );
+
+  const user = await getLoginUser(userId);
+  if (!user) {
+    throw new ApiError(httpStatus.UNAUTHORIZED, 'Passkey authentication failed');
+  }
+  if (twoFactorTokenDoc) {
+    // The account may have been locked or deactivated since the password was checked
+    assertAccountActive(user);
+    await tokenService.blacklistToken(twoFactorTokenDoc.id);
+  } else {
+    await assertCanLogin(user);
+  }
+
+  return completeLogin(user, req);
+};
+
 /**
  * Logout
  * @param {string} refreshToken
@@ -92,7 +517,11 @@ const loginUserWithEmailAndPassword = async (email: string, password: string, re
  */
 const logout = async (refreshToken: string, req: Request, userId: string) => {
   const refreshTokenDoc = await tokenService.verifyToken(refreshToken, TokenType.REFRESH);
-  await tokenService.blacklistToken(refreshTokenDoc.id);
+  if (refreshTokenDoc.familyId) {
+    await tokenService.revokeTokenFamily(refreshTokenDoc.familyId);
+  } else {
+    await tokenService.blacklistToken(refreshTokenDoc.id);
+  }
   // Log logout activity
   await userActivityService.logLogoutActivity(userId, req);
   // End user session for this device
@@ -103,21 +532,80 @@ const logout = async (refreshToken: string, req: Request, userId: string) => {
 };
 
 /**
- * Refresh auth tokens
+ * Handle a refresh token presented after it was rotated. Either the client or an attacker holds a
+ * stolen copy, so the whole family is revoked and the user is alerted.
+ * @param {Token} refreshTokenDoc
+ * @param {Request} req
+ * @returns {Promise<void>}
+ */
+const handleRefreshTokenReuse = async (
+  refreshTokenDoc: { userId: string; familyId: string | null; deviceId: string | null },
+  req: Request
+) => {
+  const { userId, familyId, deviceId } = refreshTokenDoc;
+  if (familyId) {
+    await tokenService.revokeTokenFamily(familyId);
+  }
+
+  await securityService.logSecurityEvent({
+    userId,
+    ipAddress: req.ip || '',
+    userAgent: req.get('User-Agent') || 'Unknown',
+    eventType: SecurityEventType.SUSPICIOUS_ACTIVITY,
+    success: false,
+    details: {
+      reason: 'refresh_token_reuse',
+      familyId,
+      deviceId,
+      timestamp: new Date().toISOString(),
+    },
+  });
+
+  await notificationService
+    .sendSuspiciousActivityAlert(userId, 'Reuse of a revoked refresh token', req.ip || 'unknown')
+    .catch(error => logger.error('Failed to send refresh token reuse alert', { userId, error }));
+};
+
+/**
+ * Rotate a refresh token into a new token pair within the same family
  * @param {string} refreshToken
  * @param {Request} req
  * @returns {Promise<Object>}
  */
 const refreshAuth = async (refreshToken: string, req: Request) => {
   try {
-    const refreshTokenDoc = await tokenService.verifyToken(refreshToken, TokenType.REFRESH);
+    const refreshTokenDoc = await tokenService.findRefreshToken(refreshToken);
+    if (!refreshTokenDoc) {
+      throw new ApiError(httpStatus.UNAUTHORIZED, 'Please authenticate');
+    }
+    if (refreshTokenDoc.rotatedAt) {
+      await handleRefreshTokenReuse(refreshTokenDoc, req);
+      throw new ApiError(httpStatus.UNAUTHORIZED, 'Please authenticate');
+    }
+    if (refreshTokenDoc.blacklisted) {
+      throw new ApiError(httpStatus.UNAUTHORIZED, 'Please authenticate');
+    }
+
+    // A family whose session was ended elsewhere can no longer be refreshed
+    const { familyId } = refreshTokenDoc;
+    if (familyId && !(await tokenService.isTokenFamilyActive(familyId))) {
+      await tokenService.revokeTokenFamily(familyId);
+      throw new ApiError(httpStatus.UNAUTHORIZED, 'Please authenticate');
+    }
+
     const user = await userService.getUserById(refreshTokenDoc.userId);
     if (!user) {
       throw new ApiError(httpStatus.NOT_FOUND, 'User not found');
     }
-    const tokens = await tokenService.generateAuthTokens(user as any, req);
-    await tokenService.blacklistToken(refreshTokenDoc.id);
-    return tokens;
+
+    // Losing the race to a concurrent request with the same token counts as reuse
+    if (!(await tokenService.markTokenRotated(refreshTokenDoc.id))) {
+      await handleRefreshTokenReuse(refreshTokenDoc, req);
+      throw new ApiError(httpStatus.UNAUTHORIZED, 'Please authenticate');
+    }
+
+    // Tokens issued before families existed start one on their first rotation
+    return await tokenService.generateAuthTokens(user as any, req, familyId || undefined);
   } catch (error) {
     throw new ApiError(httpStatus.UNAUTHORIZED, 'Please authenticate');
   }
@@ -308,16 +796,6 @@ const checkAccountLockout = async (email: string) => {
   };
 };
 
-/**
- * Verify two-factor authentication token
- * @param {string} userId
- * @param {string} token
- * @returns {Promise<boolean>}
- */
-const verifyTwoFactorToken = async (userId: string, token: string) => {
-  return twoFactorService.verifyToken(userId, token);
-};
-
 /**
  * Get user by ID
  * @param {string} userId
@@ -329,6 +807,15 @@ const getUserById = async (userId: string) => {
 
 export default {
   loginUserWithEmailAndPassword,
+  isTemporarilyLockedOut,
+  recordFailedLogin,
+  loginWithWebAuthn,
+  requestMagicLink,
+  loginWithMagicLink,
+  loginWithSocialLoginCode,
+  loginWithTwoFactorCode,
+  sendTwoFactorLoginCode,
+  verifyTwoFactorLoginToken,
   logout,
   refreshAuth,
   resetPassword,
@@ -341,6 +828,5 @@ export default {
   getTwoFactorStatus,
   regenerateBackupCodes,
   checkAccountLockout,
-  verifyTwoFactorToken,
   getUserById,
 };
@@ -37,6 +37,17 @@ class CacheService {
     });
   }
 
+  /**
+   * Open the connection. Commands are skipped while disconnected, so this must run at startup.
+   */
+  async connect(): Promise<void> {
+    try {
+      await this.redis.connect();
+    } catch (error) {
+      logger.error('Redis connect error:', error);
+    }
+  }
+
   /**
    * Get value from cache
    */
@@ -150,6 +161,93 @@ class CacheService {
     }
   }
 
+  /**
+   * Publish a message to a pub/sub channel
+   */
+  async publish<T>(channel: string, message: T): Promise<boolean> {
+    if (!this.isConnected) {
+      return false;
+    }
+
+    try {
+      await this.redis.publish(channel, JSON.stringify(message));
+      return true;
+    } catch (error) {
+      logger.error('Cache publish error:', { channel, error });
+      return false;
+    }
+  }
+
+  /**
+   * Open a separate connection for subscribing to channels; a subscribed connection cannot
+   * run other commands
+   */
+  createSubscriber(): Redis {
+    const subscriber = this.redis.duplicate();
+    subscriber.on('error', error => {
+      logger.error('Redis subscriber connection error:', error);
+    });
+    return subscriber;
+  }
+
+  /**
+   * Add or update a sorted set member, optionally renewing the set's expiry
+   */
+  async zadd(key: string, score: number, member: string, ttl?: number): Promise<boolean> {
+    if (!this.isConnected) {
+      return false;
+    }
+
+    try {
+      const pipeline = this.redis.multi().zadd(key, score, member);
+      if (ttl) {
+        pipeline.expire(key, ttl);
+      }
+      await pipeline.exec();
+      return true;
+    } catch (error) {
+      logger.error('Cache zadd error:', { key, error });
+      return false;
+    }
+  }
+
+  /**
+   * Remove a sorted set member
+   */
+  async zrem(key: string, member: string): Promise<boolean> {
+    if (!this.isConnected) {
+      return false;
+    }
+
+    try {
+      return (await this.redis.zrem(key, member)) > 0;
+    } catch (error) {
+      logger.error('Cache zrem error:', { key, error });
+      return false;
+    }
+  }
+
+  /**
+   * Number of sorted set members scored min or higher. Members scored lower are removed.
+   */
+  async zcardFrom(key: string, min: number): Promise<number | null> {
+    if (!this.isConnected) {
+      return null;
+    }
+
+    try {
+      const results = await this.redis
+        .multi()
+        .zremrangebyscore(key, '-inf', `(${min}`)
+        .zcard(key)
+        .exec();
+      return Number(results?.[1]?.[1] ?? 0);
+    } catch (error) {
+      logger.error('Cache zcount error:', { key, error });
+      return null;
+    }
+  }
+
   /**
    * Get multiple keys
    */
@@ -295,9 +393,20 @@ export const CacheKeys = {
   USER_PREFERENCES: (userId: string) => `user:preferences:${userId}`,
   USER_SESSIONS: (userId: string) => `user:sessions:${userId}`,
   RATE_LIMIT: (identifier: string, operation: string) => `rate_limit:${identifier}:${operation}`,
+  API_KEY: (hashedKey: string) => `api_key:${hashedKey}`,
+  API_KEY_USAGE: (apiKeyId: string, window: number) => `api_key:usage:${apiKeyId}:${window}`,
   OTP: (userId: string, type: string) => `otp:${userId}:${type}`,
   PASSWORD_RESET_TOKEN: (token: string) => `password_reset:${token}`,
   EMAIL_VERIFICATION_TOKEN: (token: string) => `email_verification:${token}`,
+  ACCESS_TOKENS_REVOKED_BEFORE: (userId: string) => `auth:revoked_before:${userId}`,
+  REVOKED_SESSION: (sessionId: string) => `auth:revoked_session:${sessionId}`,
+  SAML_REQUEST: (connectionId: string, requestId: string) =>
+    `saml:request:${connectionId}:${requestId}`,
+  SAML_ASSERTION: (connectionId: string, assertionId: string) =>
+    `saml:assertion:${connectionId}:${assertionId}`,
+  ACCOUNT_MERGE: (mergeToken: string) => `account_merge:${mergeToken}`,
+  WS_USER_CONNECTIONS: (userId: string) => `ws:presence:${userId}`,
+  WS_ONLINE_USERS: 'ws:presence:users',
   API_RESPONSE: (endpoint: string, params: string) => `api:response:${endpoint}:${params}`,
   USER_SEARCH: (query: string) => `search:users:${query}`,
   ADMIN_STATS: 'admin:stats',
@@ -0,0 +1,417 @@
+import archiver from 'archiver';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import httpStatus from 'http-status';
+import moment from 'moment';
+import prisma from '../client';
+import config from '../config/config';
+import logger from '../config/logger';
+import ApiError from '../utils/ApiError';
+import emailService from './email.service';
+
+/**
+ * Data Export Service
+ * Assembles every row tied to a user into a ZIP archive (JSON + CSV per entity) for GDPR
+ * subject access requests. Archives are built in the background and downloaded through a
+ * signed, time-limited link.
+ */
+
+type ExportEntities = Record<string, Record<string, any>[]>;
+
+// Jobs unchanged for this long were abandoned, e.g. by a restart while building the archive
+const STALE_JOB_MINUTES = 30;
+
+/**
+ * Collect all personal data held about a user, keyed by entity name
+ * @param {string} userId
+ * @returns {Promise<ExportEntities>}
+ */
+const collectUserData = async (userId: string): Promise<ExportEntities> => {
+  const [
+    profile,
+    notifications,
+    activities,
+    securityLogs,
+    devices,
+    sessions,
+    socialAccounts,
+    apiKeys,
+    passkeys,
+    roleAssignments,
+    dataProcessingRecords,
+    notificationPreferences,
+    notificationTypePreferences,
+  ] = await Promise.all([
+    prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        id: true,
+        email: true,
+        name: true,
+        role: true,
+        phone: true,
+        phoneCode: true,
+        country: true,
+        state: true,
+        city: true,
+        address: true,
+        profilePicture: true,
+        dateOfBirth: true,
+        gender: true,
+        isEmailVerified: true,
+        twoFactorEnabled: true,
+        lastLoginAt: true,
+        passwordChangedAt: true,
+        preferences: true,
+        createdAt: true,
+        updatedAt: true,
+      },
+    }),
+    prisma.notification.findMany({ where: { userId }, orderBy: { createdAt: 'asc' } }),
+    prisma.userActivity.findMany({ where: { userId }, orderBy: { timestamp: 'asc' } }),
+    prisma.securityLog.findMany({ where: { userId }, orderBy: { timestamp: 'asc' } }),
+    prisma.device.findMany({ where: { userId }, orderBy: { createdAt: 'asc' } }),
+    prisma.userSession.findMany({ where: { userId }, orderBy: { createdAt: 'asc' } }),
+    prisma.socialAccount.findMany({
+      where: { userId },
+      select: {
+        id: true,
+        provider: true,
+        providerId: true,
+        scope: true,
+        createdAt: true,
+        updatedAt: true,
+      },
+    }),
+    prisma.apiKey.findMany({
+      where: { userId },
+      select: {
+        id: true,
+        name: true,
+        description: true,
+        permissions: true,
+        expiresAt: true,
+        rateLimitPerHour: true,
+        allowedIPs: true,
+        allowedOrigins: true,
+        isActive: true,
+        lastUsedAt: true,
+        usageCount: true,
+        createdAt: true,
+      },
+    }),
+    prisma.webAuthnCredential.findMany({
+      where: { userId },
+      select: {
+        id: true,
+        name: true,
+        transports: true,
+        deviceType: true,
+        backedUp: true,
+        lastUsedAt: true,
+        createdAt: true,
+      },
+    }),
+    prisma.userRole.findMany({
+      where: { userId },
+      include: { role: { select: { name: true, description: true } } },
+    }),
+    prisma.dataProcessingRecord.findMany({ where: { userId }, orderBy: { createdAt: 'asc' } }),
+    prisma.notificationPreference.findMany({
+      where: { userId },
+      select: {
+        pushEnabled: true,
+        emailEnabled: true,
+        webhookUrl: true,
+        quietHoursEnabled: true,
+        quietHoursStart: true,
+        quietHoursEnd: true,
+        timezone: true,
+        digestFrequency: true,
+        digestHour: true,
+        updatedAt: true,
+      },
+    }),
+    prisma.notificationTypePreference.findMany({ where: { userId } }),
+  ]);
+
+  return {
+    profile: profile ? [profile] : [],
+    notifications,
+    activities,
+    security_logs: securityLogs,
+    devices,
+    sessions,
+    social_accounts: socialAccounts,
+    api_keys: apiKeys,
+    passkeys,
+    role_assignments: roleAssignments.map(({ role, ...assignment }) => ({
+      ...assignment,
+      roleName: role.name,
+      roleDescription: role.description,
+    })),
+    data_processing_records: dataProcessingRecords,
+    notification_preferences: notificationPreferences,
+    notification_type_preferences: notificationTypePreferences,
+  };
+};
+
+/**
+ * Render rows as CSV; nested values are serialised as JSON
+ * @param {Object[]} rows
+ * @returns {string}
+ */
+const toCsv = (rows: Record<string, any>[]): string => {
+  const headers = Array.from(new Set(rows.flatMap(row => Object.keys(row))));
+  const escape = (value: any) => {
+    if (value === null || value === undefined) return '';
+    const text =
+      value instanceof Date
+        ? value.toISOString()
+        : typeof value === 'object'
+          ? JSON.stringify(value)
+          : String(value);
+    return `"${text.replace(/"/g, '""')}"`;
+  };
+
+  return [
+    headers.join(','),
+    ...rows.map(row => headers.map(key => escape(row[key])).join(',')),
+  ].join('\n');
+};
+
+/**
+ * Write the export archive to disk
+ * @param {string} filePath
+ * @param {ExportEntities} entities
+ * @returns {Promise<number>} archive size in bytes
+ */
+const writeArchive = (filePath: string, entities: ExportEntities): Promise<number> =>
+  new Promise((resolve, reject) => {
+    const output = fs.createWriteStream(filePath);
+    const archive = archiver('zip', { zlib: { level: 9 } });
+
+    output.on('close', () => resolve(archive.pointer()));
+    archive.on('error', reject);
+    archive.pipe(output);
+
+    for (const [name, rows] of Object.entries(entities)) {
+      archive.append(JSON.stringify(rows, null, 2), { name: `${name}.json` });
+      archive.append(toCsv(rows), { name: `${name}.csv` });
+    }
+    archive.append(
+      JSON.stringify(
+        {
+          generatedAt: new Date().toISOString(),
+          entities: Object.fromEntries(
+            Object.entries(entities).map(([name, rows]) => [name, rows.length])
+          ),
+        },
+        null,
+        2
+      ),
+      { name: 'manifest.json' }
+    );
+
+    archive.finalize();
+  });
+
+/**
+ * Signature binding a download link to its job and expiry
+ * @param {string} jobId
+ * @param {number} expires - unix timestamp (seconds)
+ * @returns {string}
+ */
+const signDownload = (jobId: string, expires: number): string =>
+  crypto
+    .createHmac('sha256', config.dataExport.linkSecret)
+    .update(`${jobId}:${expires}`)
+    .digest('hex');
+
+/**
+ * Build the signed download URL for a completed job
+ * @param {string} jobId
+ * @param {Date} expiresAt
+ * @returns {string}
+ */
+const getDownloadUrl = (jobId: string, expiresAt: Date): string => {
+  const expires = moment(expiresAt).unix();
+  const signature = signDownload(jobId, expires);
+  return `${config.apiUrl}/v1/data-exports/${jobId}/download?expires=${expires}&signature=${signature}`;
+};
+
+/**
+ * Build the archive for a job and email the download link
+ * @param {string} jobId
+ */
+const processExport = async (jobId: string) => {
+  const job = await prisma.dataExportJob.update({
+    where: { id: jobId },
+    data: { status: 'PROCESSING' },
+    include: { user: { select: { email: true, name: true } } },
+  });
+
+  try {
+    await fs.promises.mkdir(config.dataExport.dir, { recursive: true });
+    const filePath = path.join(config.dataExport.dir, `${job.id}.zip`);
+
+    const entities = await collectUserData(job.userId);
+    const fileSize = await writeArchive(filePath, entities);
+    const expiresAt = moment().add(config.dataExport.linkTtlHours, 'hours').toDate();
+
+    await prisma.dataExportJob.update({
+      where: { id: jobId },
+      data: { status: 'COMPLETED', filePath, fileSize, expiresAt, completedAt: new Date() },
+    });
+
+    await emailService.sendDataExportReadyEmail(job.user.email, job.user.name || 'User', {
+      downloadUrl: getDownloadUrl(jobId, expiresAt),
+      expiresAt,
+    });
+
+    logger.info('Data export completed', { jobId, userId: job.userId, fileSize });
+  } catch (error) {
+    logger.error('Data export failed', { jobId, userId: job.userId, error });
+    await prisma.dataExportJob.update({
+      where: { id: jobId },
+      data: { status: 'FAILED', error: error instanceof Error ? error.message : String(error) },
+    });
+  }
+};
+
+/**
+ * Start an export job for a user, reusing one that is already in progress. Stale jobs are
+ * marked failed, so they do not block new exports.
+ * @param {string} userId
+ * @returns {Promise<DataExportJob>}
+ */
+const requestExport = async (userId: string) => {
+  await prisma.dataExportJob.updateMany({
+    where: {
+      userId,
+      status: { in: ['PENDING', 'PROCESSING'] },
+      updatedAt: { lt: moment().subtract(STALE_JOB_MINUTES, 'minutes').toDate() },
+    },
+    data: { status: 'FAILED', error: 'Export did not finish in time' },
+  });
+
+  const inProgress = await prisma.dataExportJob.findFirst({
+    where: { userId, status: { in: ['PENDING', 'PROCESSING'] } },
+  });
+  if (inProgress) {
+    return inProgress;
+  }
+
+  const job = await prisma.dataExportJob.create({ data: { userId } });
+
+  // Built in the background; clients poll the job status
+  setImmediate(() => {
+    processExport(job.id).catch(error =>
+      logger.error('Data export job crashed', { jobId: job.id, error })
+    );
+  });
+
+  return job;
+};
+
+/**
+ * Get an export job owned by a user
+ * @param {string} userId
+ * @param {string} jobId
+ */
+const getExportJob = async (userId: string, jobId: string) => {
+  const job = await prisma.dataExportJob.findFirst({
+    where: { id: jobId, userId },
+    select: {
+      id: true,
+      status: true,
+      fileSize: true,
+      error: true,
+      expiresAt: true,
+      completedAt: true,
+      createdAt: true,
+    },
+  });
+  if (!job) {
+    throw new ApiError(httpStatus.NOT_FOUND, 'Export job not found');
+  }
+  return job;
+};
+
+/**
+ * Resolve the archive path for a signed download link
+ * @param {string} jobId
+ * @param {number} expires
+ * @param {string} signature
+ * @returns {Promise<string>} path of the archive on disk
+ */
+const getDownloadPath = async (jobId: string, expires: number, signature: string) => {
+  const expected = signDownload(jobId, expires);
+  if (
+    signature.length !== expected.length ||
+    !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))
+  ) {
+    throw new ApiError(httpStatus.FORBIDDEN, 'Invalid download link');
+  }
+  if (expires < moment().unix()) {
+    throw new ApiError(httpStatus.GONE, 'Download link has expired');
+  }
+
+  const job = await prisma.dataExportJob.findUnique({ where: { id: jobId } });
+  if (!job || job.status !== 'COMPLETED' || !job.filePath) {
+    throw new ApiError(httpStatus.NOT_FOUND, 'Export not found');
+  }
+  return job.filePath;
+};
+
+/**
+ * Delete archives whose download window has passed
+ * @returns {Promise<number>} number of expired jobs
+ */
+const cleanupExpiredExports = async (): Promise<number> => {
+  const expired = await prisma.dataExportJob.findMany({
+    where: { status: 'COMPLETED', expiresAt: { lt: new Date() } },
+    select: { id: true, filePath: true },
+  });
+
+  for (const job of expired) {
+    if (job.filePath) {
+      await fs.promises.rm(job.filePath, { force: true });
+    }
+    await prisma.dataExportJob.update({
+      where: { id: job.id },
+      data: { status: 'EXPIRED', filePath: null },
+    });
+  }
+
+  return expired.length;
+};
+
+/**
+ * Schedule cleanup of expired export archives
+ * @param {number} intervalMinutes - Interval in minutes between runs
+ */
+const scheduleExportCleanup = (intervalMinutes: number = 60) => {
+  logger.info(`Scheduling data export cleanup every ${intervalMinutes} minutes`);
+
+  setInterval(
+    async () => {
+      try {
+        await cleanupExpiredExports();
+      } catch (error) {
+        logger.error('Scheduled data export cleanup failed (non-critical)', { error });
+      }
+    },
+    intervalMinutes * 60 * 1000
+  );
+};
+
+export default {
+  collectUserData,
+  requestExport,
+  getExportJob,
+  getDownloadPath,
+  cleanupExpiredExports,
+  scheduleExportCleanup,
+};
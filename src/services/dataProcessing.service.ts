@@ -0,0 +1,171 @@
+import httpStatus from 'http-status';
+import { Request } from 'express';
+import prisma from '../client';
+import logger from '../config/logger';
+import ApiError from '../utils/ApiError';
+import {
+  CreateProcessingRecord,
+  LegalBasis,
+  ProcessingRecordFilters,
+  ProcessingRecordStatus,
+} from '../types/dataProcessing.types';
+
+/**
+ * Data Processing Service
+ * Records of processing activities (GDPR Art. 30): what is processed about a user, for which
+ * purpose and on which legal basis. Consent-based records can be withdrawn by the user.
+ */
+
+/**
+ * Record processing for a user. An active record for the same purpose is superseded.
+ * @param {string} userId
+ * @param {CreateProcessingRecord} data
+ * @param {Request} [req] - captured as evidence of where consent was given
+ */
+const recordProcessing = async (userId: string, data: CreateProcessingRecord, req?: Request) => {
+  if (data.expiresAt.getTime() <= Date.now()) {
+    throw new ApiError(httpStatus.BAD_REQUEST, 'Expiration date must be in the future');
+  }
+
+  const [, record] = await prisma.$transaction([
+    prisma.dataProcessingRecord.updateMany({
+      where: { userId, purpose: data.purpose, status: ProcessingRecordStatus.ACTIVE },
+      data: { status: ProcessingRecordStatus.SUPERSEDED },
+    }),
+    prisma.dataProcessingRecord.create({
+      data: {
+        userId,
+        purpose: data.purpose,
+        legalBasis: data.legalBasis,
+        dataTypes: data.dataTypes,
+        retention: data.retention,
+        expiresAt: data.expiresAt,
+        ipAddress: req?.ip,
+        userAgent: req?.get('User-Agent'),
+      },
+    }),
+  ]);
+
+  return record;
+};
+
+/**
+ * Get a user's processing records
+ * @param {string} userId
+ * @param {ProcessingRecordStatus} [status]
+ */
+const getUserRecords = async (userId: string, status?: ProcessingRecordStatus) => {
+  return await prisma.dataProcessingRecord.findMany({
+    where: { userId, ...(status && { status }) },
+    orderBy: { createdAt: 'desc' },
+  });
+};
+
+/**
+ * Get a processing record by ID
+ * @param {string} recordId
+ */
+const getRecordById = async (recordId: string) => {
+  return await prisma.dataProcessingRecord.findUnique({ where: { id: recordId } });
+};
+
+/**
+ * Withdraw consent. Only records whose legal basis is consent can be withdrawn.
+ * @param {string} userId
+ * @param {string} recordId
+ */
+const withdrawConsent = async (userId: string, recordId: string) => {
+  const record = await prisma.dataProcessingRecord.findFirst({
+    where: { id: recordId, userId },
+  });
+
+  if (!record) {
+    throw new ApiError(httpStatus.NOT_FOUND, 'Processing record not found');
+  }
+  if (record.legalBasis !== LegalBasis.CONSENT) {
+    throw new ApiError(
+      httpStatus.BAD_REQUEST,
+      `Processing based on ${record.legalBasis} cannot be withdrawn`
+    );
+  }
+  if (record.status !== ProcessingRecordStatus.ACTIVE) {
+    throw new ApiError(httpStatus.CONFLICT, 'Consent is no longer active');
+  }
+
+  return await prisma.dataProcessingRecord.update({
+    where: { id: recordId },
+    data: { status: ProcessingRecordStatus.WITHDRAWN, withdrawnAt: new Date() },
+  });
+};
+
+/**
+ * Query processing records across users
+ * @param {ProcessingRecordFilters} filters
+ */
+const queryRecords = async (filters: ProcessingRecordFilters) => {
+  const { purpose, legalBasis, status, userId, page = 1, limit = 50 } = filters;
+
+  const where: any = {};
+  if (purpose) where.purpose = purpose;
+  if (legalBasis) where.legalBasis = legalBasis;
+  if (status) where.status = status;
+  if (userId) where.userId = userId;
+
+  const [records, total] = await Promise.all([
+    prisma.dataProcessingRecord.findMany({
+      where,
+      include: { user: { select: { id: true, email: true, name: true } } },
+      orderBy: { createdAt: 'desc' },
+      skip: (page - 1) * limit,
+      take: limit,
+    }),
+    prisma.dataProcessingRecord.count({ where }),
+  ]);
+
+  return { records, total, page, totalPages: Math.ceil(total / limit) };
+};
+
+/**
+ * Mark active records past their expiry as expired
+ * @returns {Promise<number>} number of expired records
+ */
+const expireRecords = async (): Promise<number> => {
+  const result = await prisma.dataProcessingRecord.updateMany({
+    where: { status: ProcessingRecordStatus.ACTIVE, expiresAt: { lte: new Date() } },
+    data: { status: ProcessingRecordStatus.EXPIRED },
+  });
+
+  if (result.count > 0) {
+    logger.info('Expired data processing records', { count: result.count });
+  }
+  return result.count;
+};
+
+/**
+ * Schedule expiry of processing records
+ * @param {number} intervalMinutes - Interval in minutes between runs
+ */
+const scheduleRecordExpiry = (intervalMinutes: number = 60) => {
+  logger.info(`Scheduling data processing record expiry every ${intervalMinutes} minutes`);
+
+  setInterval(
+    async () => {
+      try {
+        await expireRecords();
+      } catch (error) {
+        logger.error('Scheduled data processing record expiry failed (non-critical)', { error });
+      }
+    },
+    intervalMinutes * 60 * 1000
+  );
+};
+
+export default {
+  recordProcessing,
+  getUserRecords,
+  getRecordById,
+  withdrawConsent,
+  queryRecords,
+  expireRecords,
+  scheduleRecordExpiry,
+};
@@ -160,6 +160,24 @@ If you did not create an account, then ignore this email.`;
   await sendEmail(to, subject, text, html);
 };
 
+/**
+ * Send magic login link email
+ * @param {string} to
+ * @param {string} token
+ * @param {string} name
+ * @returns {Promise}
+ */
+const sendMagicLinkEmail = async (to: string, token: string, name: string) => {
+  const magicLinkUrl = `${config.clientUrl || 'http://localhost:8000'}/magic-link?token=${token}`;
+  const subject = 'Your sign-in link';
+  const text = `Dear ${name},
+To sign in, click on this link: ${magicLinkUrl}
+The link expires in ${config.jwt.magicLinkExpirationMinutes} minutes and can only be used once.
+If you did not request a sign-in link, then ignore this email.`;
+  const html = `<div>Dear ${name},<br><br>To sign in, click on this link: <a href="${magicLinkUrl}">Sign In</a><br><br>The link expires in ${config.jwt.magicLinkExpirationMinutes} minutes and can only be used once.<br><br>If you did not request a sign-in link, then ignore this email.</div>`;
+  await sendEmail(to, subject, text, html);
+};
+
 /**
  * Send welcome email
  * @param {string} to
@@ -396,6 +414,122 @@ If this wasn't you, please secure your account immediately.`;
   await sendEmail(to, subject, text, html);
 };
 
+/**
+ * Send account deletion scheduled email
+ * @param {string} to
+ * @param {string} name
+ * @param {Object} data
+ * @returns {Promise}
+ */
+const sendAccountDeletionScheduledEmail = async (
+  to: string,
+  name: string,
+  data: { scheduledFor: Date }
+) => {
+  const subject = 'Account Deletion Scheduled';
+  const text = `Dear ${name},
+Your account is scheduled for permanent deletion on ${data.scheduledFor.toUTCString()}.
+Until then you can sign in and cancel the deletion from your account settings.
+
+If you did not request this, please secure your account immediately.`;
+
+  const html = `<div>
+    <h3>Account Deletion Scheduled</h3>
+    <p>Dear ${name},</p>
+    <p>Your account is scheduled for permanent deletion on <strong>${data.scheduledFor.toUTCString()}</strong>.</p>
+    <p>Until then you can sign in and cancel the deletion from your account settings.</p>
+    <p>If you did not request this, please secure your account immediately.</p>
+  </div>`;
+
+  await sendEmail(to, subject, text, html);
+};
+
+/**
+ * Send personal data export ready email
+ * @param {string} to
+ * @param {string} name
+ * @param {Object} data
+ * @returns {Promise}
+ */
+const sendDataExportReadyEmail = async (
+  to: string,
+  name: string,
+  data: { downloadUrl: string; expiresAt: Date }
+) => {
+  const subject = 'Your Data Export Is Ready';
+  const text = `Dear ${name},
+The export of your personal data is ready. Download it here:
+${data.downloadUrl}
+
+This link expires on ${data.expiresAt.toUTCString()}.`;
+
+  const html = `<div>
+    <h3>Your Data Export Is Ready</h3>
+    <p>Dear ${name},</p>
+    <p>The export of your personal data is ready.</p>
+    <p><a href="${data.downloadUrl}">Download your data</a></p>
+    <p>This link expires on <strong>${data.expiresAt.toUTCString()}</strong>.</p>
+  </div>`;
+
+  await sendEmail(to, subject, text, html);
+};
+
+/**
+ * Send notification digest email
+ * @param {string} to
+ * @param {string} name
+ * @param {Object} data
+ * @returns {Promise}
+ */
+const sendNotificationDigestEmail = async (
+  to: string,
+  name: string,
+  data: {
+    frequency: 'DAILY' | 'WEEKLY';
+    timezone: string;
+    total: number;
+    notifications: { title: string; message: string; createdAt: Date }[];
+  }
+) => {
+  const period = data.frequency === 'WEEKLY' ? 'Weekly' : 'Daily';
+  const count = data.total;
+  const more = count - data.notifications.length;
+  const formatDate = (date: Date) => date.toLocaleString('en-US', { timeZone: data.timezone });
+
+  const subject = `Your ${period} Notification Digest (${count})`;
+  const text = `Dear ${name},
+You have ${count} unread notification${count === 1 ? '' : 's'}:
+
+${data.notifications
+  .map(
+    notification => `- ${notification.title} (${formatDate(notification.createdAt)})
+  ${notification.message}`
+  )
+  .join('\n\n')}${more > 0 ? `\n\n...and ${more} more in the app.` : ''}
+
+You can change how often you receive this digest in your notification settings.`;
+
+  const html = `<div>
+    <h3>Your ${period} Notification Digest</h3>
+    <p>Dear ${name},</p>
+    <p>You have <strong>${count}</strong> unread notification${count === 1 ? '' : 's'}:</p>
+    <ul>
+      ${data.notifications
+        .map(
+          notification => `<li>
+        <strong>${notification.title}</strong> <small>${formatDate(notification.createdAt)}</small>
+        <p>${notification.message}</p>
+      </li>`
+        )
+        .join('')}
+    </ul>
+    ${more > 0 ? `<p>...and ${more} more in the app.</p>` : ''}
+    <p>You can change how often you receive this digest in your notification settings.</p>
+  </div>`;
+
+  await sendEmail(to, subject, text, html);
+};
+
 /**
  * Send email verification OTP
  * @param {string} to
@@ -424,6 +558,20 @@ export const sendPasswordResetOtp = async (to: string, otp: string, name: string
   await sendEmail(to, subject, text, html);
 };
 
+/**
+ * Send a two-factor authentication code
+ * @param {string} to
+ * @param {string} otp
+ * @param {string} name
+ * @returns {Promise}
+ */
+export const sendTwoFactorOtp = async (to: string, otp: string, name: string) => {
+  const subject = 'Your Sign-In Code';
+  const text = `Dear ${name},\nYour sign-in verification code is: ${otp}\nThis code will expire in 5 minutes. If you did not try to sign in, change your password immediately.`;
+  const html = `<div>Dear ${name},<br><br>Your sign-in verification code is: <b>${otp}</b><br><br>This code will expire in 5 minutes.<br>If you did not try to sign in, change your password immediately.</div>`;
+  await sendEmail(to, subject, text, html);
+};
+
 /**
  * Verify SMTP connection at startup
  */
@@ -441,6 +589,7 @@ export default {
   sendEmail,
   sendResetPasswordEmail,
   sendVerificationEmail,
+  sendMagicLinkEmail,
   sendWelcomeEmail,
   sendLoginAlertEmail,
   sendAccountLockoutEmail,
@@ -450,8 +599,12 @@ export default {
   sendDeviceLoginEmail,
   sendPasswordChangeEmail,
   sendTwoFactorEmail,
+  sendAccountDeletionScheduledEmail,
+  sendDataExportReadyEmail,
+  sendNotificationDigestEmail,
   sendEmailVerificationOtp,
   sendPasswordResetOtp,
+  sendTwoFactorOtp,
   verifySmtpConnection,
   checkEmailServiceHealth,
   transporter,
@@ -84,7 +84,19 @@ class EnhancedSecurityLoggingService {
         riskScore = success ? 1 : 0;
         break;
 
+      case SecurityEventType.WEBAUTHN_LOGIN_SUCCESS:
+      case SecurityEventType.MAGIC_LINK_REQUESTED:
+      case SecurityEventType.MAGIC_LINK_LOGIN_SUCCESS:
+      case SecurityEventType.SOCIAL_LOGIN_SUCCESS:
+        category = SecurityCategory.AUTHENTICATION;
+        severity = SecuritySeverity.LOW;
+        riskScore = 1;
+        break;
+
       case SecurityEventType.LOGIN_FAILED:
+      case SecurityEventType.WEBAUTHN_LOGIN_FAILED:
+      case SecurityEventType.MAGIC_LINK_LOGIN_FAILED:
+      case SecurityEventType.SOCIAL_LOGIN_FAILED:
         category = SecurityCategory.AUTHENTICATION;
         severity = SecuritySeverity.MEDIUM;
         riskScore = 3;
@@ -110,6 +122,9 @@ class EnhancedSecurityLoggingService {
 
       case SecurityEventType.TWO_FACTOR_ENABLED:
       case SecurityEventType.TWO_FACTOR_DISABLED:
+      case SecurityEventType.WEBAUTHN_REGISTERED:
+      case SecurityEventType.WEBAUTHN_REMOVED:
+      case SecurityEventType.OAUTH_AUTHORIZED:
         category = SecurityCategory.ACCOUNT_MANAGEMENT;
         severity = SecuritySeverity.MEDIUM;
         riskScore = 4;
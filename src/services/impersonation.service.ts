@@ -0,0 +1,227 @@
+import crypto from 'crypto';
+import httpStatus from 'http-status';
+import moment from 'moment';
+import { Request } from 'express';
+import { Permission, Role, SecurityEventType, TokenType } from '@prisma/client';
+import prisma from '../client';
+import config from '../config/config';
+import logger from '../config/logger';
+import { roleRights } from '../config/roles';
+import ApiError from '../utils/ApiError';
+import tokenService from './token.service';
+import tokenRevocationService from './tokenRevocation.service';
+import notificationService from './notification.service';
+import securityService from './security.service';
+import AuditLogService from './auditLog.service';
+import RbacService from './rbac.service';
+
+/**
+ * Impersonation Service
+ * Lets support staff act as a user with a short-lived access token. The token carries the
+ * admin in its `act` claim and belongs to its own session, listed with the user's sessions, and
+ * every request made with it is written to the audit log.
+ */
+
+const auditLogService = new AuditLogService();
+const rbacService = new RbacService();
+
+// RBAC permissions that manage users, like the manageUsers right
+const USER_MANAGEMENT_PERMISSIONS: string[] = [
+  Permission.USER_CREATE,
+  Permission.USER_UPDATE,
+  Permission.USER_DELETE,
+];
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+/**
+ * Role rights and RBAC permissions a user holds
+ * @param {string} userId
+ * @param {Role} role
+ * @returns {Promise<Set<string>>}
+ */
+const getEffectiveRights = async (userId: string, role: Role) => {
+  const permissions = await rbacService.getUserPermissions(userId);
+  return new Set([
+    ...(roleRights.get(role) ?? []),
+    ...permissions.map(permission => permission.name),
+  ]);
+};
+
+/**
+ * Issue an access token acting as another user. There is no refresh token: the admin starts a
+ * new impersonation once it expires.
+ * @param {string} userId - user to act as
+ * @param {Object} options
+ * @param {string} options.reason - why support needs access, kept in the audit log
+ * @param {boolean} options.notifyUser - tell the user that support accessed their account
+ * @param {Request} req - request of the admin
+ * @returns {Promise<Object>} the impersonation access token and its session
+ */
+const startImpersonation = async (
+  userId: string,
+  { reason, notifyUser }: { reason: string; notifyUser: boolean },
+  req: Request
+) => {
+  const principal = req.principal!;
+  if (principal.type !== 'user' || principal.impersonatorId) {
+    throw new ApiError(httpStatus.FORBIDDEN, 'Impersonation must be started by an administrator');
+  }
+  if (principal.userId === userId) {
+    throw new ApiError(httpStatus.BAD_REQUEST, 'You cannot impersonate yourself');
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      id: true,
+      email: true,
+      name: true,
+      role: true,
+      isActive: true,
+      isLocked: true,
+      erasedAt: true,
+    },
+  });
+  if (!user || user.erasedAt) {
+    throw new ApiError(httpStatus.NOT_FOUND, 'User not found');
+  }
+  if (!user.isActive || user.isLocked) {
+    throw new ApiError(
+      httpStatus.BAD_REQUEST,
+      'Cannot impersonate a deactivated or locked account'
+    );
+  }
+
+  // Impersonation only ever narrows what the admin can do: the user must hold strictly fewer
+  // rights, counting the RBAC roles of both, and none that manage users
+  const admin = req.user as any;
+  const [userRights, adminRights] = await Promise.all([
+    getEffectiveRights(user.id, user.role),
+    getEffectiveRights(admin.id, admin.role),
+  ]);
+  if (
+    userRights.has('manageUsers') ||
+    USER_MANAGEMENT_PERMISSIONS.some(permission => userRights.has(permission))
+  ) {
+    throw new ApiError(httpStatus.FORBIDDEN, 'Users who can manage users cannot be impersonated');
+  }
+  if (
+    [...userRights].some(right => !adminRights.has(right)) ||
+    userRights.size >= adminRights.size
+  ) {
+    throw new ApiError(
+      httpStatus.FORBIDDEN,
+      'Users with rights you do not hold cannot be impersonated'
+    );
+  }
+
+  const sessionId = crypto.randomUUID();
+  const expires = moment().add(config.jwt.impersonationExpirationMinutes, 'minutes');
+
+  const session = await prisma.userSession.create({
+    data: {
+      userId,
+      sessionId,
+      impersonatorId: admin.id,
+      deviceName: `Support access by ${admin.name || 'an administrator'}`,
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent'),
+      isActive: true,
+      lastActivity: new Date(),
+      expiresAt: expires.toDate(),
+    },
+  });
+
+  const accessToken = await tokenService.generateAccessToken(userId, expires, sessionId, admin.id);
+  // Only a hash is kept: the token is handed to the admin once and never looked up by value
+  await tokenService.saveToken(hashToken(accessToken), userId, expires, TokenType.ACCESS);
+
+  await auditLogService.createLogFromRequest(
+    req,
+    'IMPERSONATION_START',
+    'user',
+    userId,
+    undefined,
+    { sessionId, reason, expiresAt: expires.toISOString(), notifyUser },
+    'WARNING',
+    'SECURITY'
+  );
+  await securityService.logSecurityEvent({
+    userId,
+    ipAddress: req.ip || '',
+    userAgent: req.get('User-Agent') || 'Unknown',
+    eventType: SecurityEventType.IMPERSONATION_STARTED,
+    success: true,
+    details: { impersonatorId: admin.id, sessionId, timestamp: new Date().toISOString() },
+  });
+
+  if (notifyUser) {
+    await notificationService
+      .sendSecurityUpdate(
+        userId,
+        'Support accessed your account',
+        `A member of our support team signed in to your account at ${new Date().toLocaleString()} ` +
+          'to help with a support request. The session is listed with your active sessions.'
+      )
+      .catch(error => logger.error('Failed to notify impersonated user', { userId, error }));
+  }
+
+  return {
+    access: {
+      token: accessToken,
+      expires: expires.toDate(),
+    },
+    session: {
+      id: session.sessionId,
+      expires: session.expiresAt,
+    },
+    impersonation: {
+      userId,
+      impersonatorId: admin.id,
+    },
+  };
+};
+
+/**
+ * End the impersonation session the request was made with, revoking its access token
+ * @param {string} userId - impersonated user
+ * @param {Request} req - request made with the impersonation token
+ * @returns {Promise<void>}
+ */
+const endImpersonation = async (userId: string, req: Request) => {
+  const { impersonatorId, sessionId } = req.principal!;
+  if (!impersonatorId || !sessionId || req.principal!.userId !== userId) {
+    throw new ApiError(httpStatus.BAD_REQUEST, 'This is not an impersonation session of this user');
+  }
+
+  await prisma.userSession.updateMany({
+    where: { sessionId, impersonatorId },
+    data: { isActive: false, lastActivity: new Date() },
+  });
+  await tokenRevocationService.revokeSessionAccessTokens(sessionId);
+
+  await auditLogService.createLogFromRequest(
+    req,
+    'IMPERSONATION_END',
+    'user',
+    userId,
+    undefined,
+    { sessionId },
+    'INFO',
+    'SECURITY'
+  );
+  await securityService.logSecurityEvent({
+    userId,
+    ipAddress: req.ip || '',
+    userAgent: req.get('User-Agent') || 'Unknown',
+    eventType: SecurityEventType.IMPERSONATION_ENDED,
+    success: true,
+    details: { impersonatorId, sessionId, timestamp: new Date().toISOString() },
+  });
+};
+
+export default {
+  startImpersonation,
+  endImpersonation,
+};
@@ -132,6 +132,15 @@ class IPSecurityManagementService {
     }
   }
 
+  /**
+   * Get IP security rule by ID
+   */
+  async getIPRuleById(id: string): Promise<any> {
+    return await prisma.iPSecurityRule.findUnique({
+      where: { id },
+    });
+  }
+
   /**
    * Update IP security rule
    */
@@ -1,65 +1,37 @@
 import { Request } from 'express';
 import prisma from '../client';
 import emailService from './email.service';
+import notificationDeliveryService from './notificationDelivery.service';
+import notificationDispatcher from './notificationDispatcher.service';
 import ApiError from '../utils/ApiError';
 import httpStatus from 'http-status';
-
-// Notification types from Prisma schema
-enum NotificationType {
-  LOGIN_ALERT,
-  PASSWORD_CHANGE,
-  EMAIL_VERIFICATION,
-  TWO_FACTOR_SETUP,
-  ACCOUNT_LOCKED,
-  SECURITY_ALERT,
-  SYSTEM_UPDATE,
-  WELCOME,
-}
+import { NotificationTypeName } from '../types/notification.types';
 
 /**
- * Create a new notification
+ * Create an in-app notification and push it to the user's connected clients, as their
+ * preferences allow
  * @param {string} userId - User ID
- * @param {NotificationType} type - Notification type
+ * @param {NotificationTypeName} type - Notification type
  * @param {string} title - Notification title
  * @param {string} message - Notification message
  * @param {object} metadata - Additional data
- * @returns {Promise<any>}
+ * @returns {Promise<any>} the stored notification, or null when the user turned off the type
  */
 const createNotification = async (
   userId: string,
-  type: any, // Using any to avoid circular dependency with NotificationType enum
+  type: NotificationTypeName,
   title: string,
   message: string,
   metadata: Record<string, any> = {}
 ): Promise<any> => {
-  const notification = await prisma.notification.create({
-    data: {
-      userId,
-      type,
-      title,
-      message,
-      metadata,
-      isRead: false,
-    },
+  const { notification } = await notificationDispatcher.dispatch({
+    userId,
+    type,
+    title,
+    message,
+    metadata,
+    channels: ['inApp', 'push'],
   });
-
-  // Send push notification if WebSocket service is available
-  try {
-    const { getWebSocketController } = await import('../controllers/websocket.controller');
-    const wsController = getWebSocketController();
-    if (wsController) {
-      await wsController.sendPushNotification(userId, {
-        type,
-        title,
-        message,
-        metadata,
-      });
-    }
-  } catch (error) {
-    // WebSocket service not initialized, which is fine for some operations
-    console.log('WebSocket service not available for push notification');
-  }
-
   return notification;
 };
 
@@ -67,48 +39,25 @@ const createNotification = async (
  * Send login alert notification
  */
 const sendLoginAlert = async (user: any, req: Request, deviceInfo: any): Promise<void> => {
-  // Check if user has login alerts enabled (stored in preferences)
-  let userPreferences: any = {};
-  if (user.preferences) {
-    if (typeof user.preferences === 'string') {
-      userPreferences = JSON.parse(user.preferences);
-    } else {
-      userPreferences = user.preferences;
-    }
-  }
-  if (!userPreferences.loginAlerts) {
-    return;
-  }
-
   const title = 'New Login Detected';
   const message = `A new login was detected on your account from ${deviceInfo.deviceName} (${deviceInfo.ipAddress}) at ${new Date().toLocaleString()}.`;
 
-  // Create notification record
-  await createNotification(user.id, NotificationType.LOGIN_ALERT, title, message, {
-    deviceName: deviceInfo.deviceName,
-    ipAddress: deviceInfo.ipAddress,
-    timestamp: new Date().toISOString(),
-  });
-
-  // Send email notification if enabled
-  let emailPrefs: any = {};
-  if (user.emailNotifications) {
-    if (typeof user.emailNotifications === 'string') {
-      emailPrefs = JSON.parse(user.emailNotifications);
-    } else {
-      emailPrefs = user.emailNotifications;
-    }
-  }
-  if (emailPrefs.loginAlerts) {
-    try {
-      await emailService.sendLoginAlertEmail(user.email, {
+  await notificationDispatcher.dispatch({
+    userId: user.id,
+    type: 'LOGIN_ALERT',
+    title,
+    message,
+    metadata: {
+      deviceName: deviceInfo.deviceName,
+      ipAddress: deviceInfo.ipAddress,
+      timestamp: new Date().toISOString(),
+    },
+    sendEmail: recipient =>
+      emailService.sendLoginAlertEmail(recipient.email, {
         deviceName: deviceInfo.deviceName,
         ipAddress: deviceInfo.ipAddress,
-      });
-    } catch (error) {
-      console.error('Failed to send login alert email:', error);
-    }
-  }
+      }),
+  });
 };
 
 /**
@@ -119,57 +68,31 @@ const sendSecurityUpdate = async (
   title: string,
   message: string
 ): Promise<void> => {
-  const user = await prisma.user.findUnique({
-    where: { id: userId },
-    select: { email: true, emailNotifications: true },
+  await notificationDispatcher.dispatch({
+    userId,
+    type: 'SECURITY_ALERT',
+    title,
+    message,
+    sendEmail: recipient =>
+      emailService.sendSecurityUpdateEmail(recipient.email, { title, message }),
   });
-
-  if (!user) {
-    throw new ApiError(httpStatus.NOT_FOUND, 'User not found');
-  }
-
-  // Create notification record
-  await createNotification(userId, NotificationType.SECURITY_ALERT, title, message);
-
-  // Send email if enabled
-  const emailPrefs = user.emailNotifications ? JSON.parse(user.emailNotifications as string) : {};
-  if (emailPrefs.securityUpdates) {
-    try {
-      await emailService.sendSecurityUpdateEmail(user.email, { title, message });
-    } catch (error) {
-      console.error('Failed to send security update email:', error);
-    }
-  }
 };
 
 /**
  * Send password expiry notification
  */
 const sendPasswordExpiryAlert = async (userId: string, daysUntilExpiry: number): Promise<void> => {
-  const user = await prisma.user.findUnique({
-    where: { id: userId },
-    select: { email: true, emailNotifications: true },
-  });
-
-  if (!user) {
-    throw new ApiError(httpStatus.NOT_FOUND, 'User not found');
-  }
-
   const title = 'Password Expiry Alert';
   const message = `Your password will expire in ${daysUntilExpiry} days. Please change it soon to maintain account security.`;
 
-  // Create notification record
-  await createNotification(userId, NotificationType.PASSWORD_CHANGE, title, message);
-
-  // Send email if enabled
-  const emailPrefs = user.emailNotifications ? JSON.parse(user.emailNotifications as string) : {};
-  if (emailPrefs.passwordChanges) {
-    try {
-      await emailService.sendPasswordExpiryEmail(user.email, { daysUntilExpiry });
-    } catch (error) {
-      console.error('Failed to send password expiry email:', error);
-    }
-  }
+  await notificationDispatcher.dispatch({
+    userId,
+    type: 'PASSWORD_CHANGE',
+    title,
+    message,
+    sendEmail: recipient =>
+      emailService.sendPasswordExpiryEmail(recipient.email, { daysUntilExpiry }),
+  });
 };
 
 /**
@@ -180,30 +103,17 @@ const sendSuspiciousActivityAlert = async (
   activity: string,
   location: string
 ): Promise<void> => {
-  const user = await prisma.user.findUnique({
-    where: { id: userId },
-    select: { email: true, emailNotifications: true },
-  });
-
-  if (!user) {
-    throw new ApiError(httpStatus.NOT_FOUND, 'User not found');
-  }
-
   const title = 'Suspicious Activity Detected';
   const message = `Suspicious activity detected: ${activity} from ${location}. If this wasn't you, please secure your account immediately.`;
 
-  // Create notification record
-  await createNotification(userId, NotificationType.SECURITY_ALERT, title, message);
-
-  // Send email if enabled
-  const emailPrefs = user.emailNotifications ? JSON.parse(user.emailNotifications as string) : {};
-  if (emailPrefs.securityAlerts) {
-    try {
-      await emailService.sendSuspiciousActivityEmail(user.email, { activity, location });
-    } catch (error) {
-      console.error('Failed to send suspicious activity email:', error);
-    }
-  }
+  await notificationDispatcher.dispatch({
+    userId,
+    type: 'SECURITY_ALERT',
+    title,
+    message,
+    sendEmail: recipient =>
+      emailService.sendSuspiciousActivityEmail(recipient.email, { activity, location }),
+  });
 };
 
 /**
@@ -214,7 +124,7 @@ const getUserNotifications = async (
   options: {
     page?: number;
     limit?: number;
-    type?: NotificationType;
+    type?: NotificationTypeName;
     isRead?: boolean;
   } = {}
 ): Promise<{
@@ -350,40 +260,21 @@ const sendLoginNotification = async (
     os?: string;
   }
 ): Promise<void> => {
-  const user = await prisma.user.findUnique({
-    where: { id: userId },
-    select: { email: true, name: true, emailNotifications: true },
-  });
-
-  if (!user) {
-    throw new ApiError(httpStatus.NOT_FOUND, 'User not found');
-  }
-
-  // Create notification
-  await createNotification(
+  await notificationDispatcher.dispatch({
     userId,
-    NotificationType.LOGIN_ALERT,
-    'New Login Detected',
-    `New login from ${loginData.deviceName} (${loginData.ipAddress})`,
-    {
+    type: 'LOGIN_ALERT',
+    title: 'New Login Detected',
+    message: `New login from ${loginData.deviceName} (${loginData.ipAddress})`,
+    metadata: {
       deviceName: loginData.deviceName,
       ipAddress: loginData.ipAddress,
       location: loginData.location,
       browser: loginData.browser,
       os: loginData.os,
       timestamp: new Date(),
-    }
-  );
-
-  // Send email if enabled
-  const emailNotifications = getEmailNotifications(user.emailNotifications);
-  if (emailNotifications.loginAlerts) {
-    try {
-      await emailService.sendLoginAlertEmail(user.email, loginData);
-    } catch (error) {
-      console.error('Failed to send login notification email:', error);
-    }
-  }
+    },
+    sendEmail: recipient => emailService.sendLoginAlertEmail(recipient.email, loginData),
+  });
 };
 
 /**
@@ -400,37 +291,19 @@ const sendPasswordChangeNotification = async (
     timestamp: Date;
   }
 ): Promise<void> => {
-  const user = await prisma.user.findUnique({
-    where: { id: userId },
-    select: { email: true, name: true, emailNotifications: true },
-  });
-
-  if (!user) {
-    throw new ApiError(httpStatus.NOT_FOUND, 'User not found');
-  }
-
-  // Create notification
-  await createNotification(
+  await notificationDispatcher.dispatch({
     userId,
-    NotificationType.PASSWORD_CHANGE,
-    'Password Changed',
-    'Your password has been successfully changed',
-    {
+    type: 'PASSWORD_CHANGE',
+    title: 'Password Changed',
+    message: 'Your password has been successfully changed',
+    metadata: {
       ipAddress: changeData.ipAddress,
       deviceName: changeData.deviceName,
       timestamp: changeData.timestamp,
-    }
-  );
-
-  // Send email if enabled
-  const emailNotifications = getEmailNotifications(user.emailNotifications);
-  if (emailNotifications.passwordChanges) {
-    try {
-      await emailService.sendPasswordChangeEmail(user.email, user.name || 'User', changeData);
-    } catch (error) {
-      console.error('Failed to send password change notification email:', error);
-    }
-  }
+    },
+    sendEmail: recipient =>
+      emailService.sendPasswordChangeEmail(recipient.email, recipient.name || 'User', changeData),
+  });
 };
 
 /**
@@ -440,34 +313,20 @@ const sendPasswordChangeNotification = async (
  * @returns {Promise<void>}
  */
 const sendTwoFactorNotification = async (userId: string, enabled: boolean): Promise<void> => {
-  const user = await prisma.user.findUnique({
-    where: { id: userId },
-    select: { email: true, name: true, emailNotifications: true },
-  });
-
-  if (!user) {
-    throw new ApiError(httpStatus.NOT_FOUND, 'User not found');
-  }
-
   const action = enabled ? 'enabled' : 'disabled';
-  const title = `Two-Factor Authentication ${enabled ? 'Enabled' : 'Disabled'}`;
-  const message = `Two-factor authentication has been ${action} for your account`;
 
-  // Create notification
-  await createNotification(userId, NotificationType.TWO_FACTOR_SETUP, title, message, {
-    enabled,
-    timestamp: new Date(),
+  await notificationDispatcher.dispatch({
+    userId,
+    type: 'TWO_FACTOR_SETUP',
+    title: `Two-Factor Authentication ${enabled ? 'Enabled' : 'Disabled'}`,
+    message: `Two-factor authentication has been ${action} for your account`,
+    metadata: {
+      enabled,
+      timestamp: new Date(),
+    },
+    sendEmail: recipient =>
+      emailService.sendTwoFactorEmail(recipient.email, recipient.name || 'User', { enabled }),
   });
-
-  // Send email if enabled
-  const emailNotifications = getEmailNotifications(user.emailNotifications);
-  if (emailNotifications.twoFactorChanges) {
-    try {
-      await emailService.sendTwoFactorEmail(user.email, user.name || 'User', { enabled });
-    } catch (error) {
-      console.error('Failed to send 2FA notification email:', error);
-    }
-  }
 };
 
 /**
@@ -486,46 +345,28 @@ const sendDeviceLoginNotification = async (
     os?: string;
   }
 ): Promise<void> => {
-  const user = await prisma.user.findUnique({
-    where: { id: userId },
-    select: { email: true, name: true, emailNotifications: true },
-  });
-
-  if (!user) {
-    throw new ApiError(httpStatus.NOT_FOUND, 'User not found');
-  }
-
-  // Create notification
-  await createNotification(
+  await notificationDispatcher.dispatch({
     userId,
-    NotificationType.LOGIN_ALERT,
-    'New Device Login',
-    `New login from ${deviceData.deviceName}`,
-    {
+    type: 'LOGIN_ALERT',
+    title: 'New Device Login',
+    message: `New login from ${deviceData.deviceName}`,
+    metadata: {
       deviceName: deviceData.deviceName,
       ipAddress: deviceData.ipAddress,
       location: deviceData.location,
       browser: deviceData.browser,
       os: deviceData.os,
       timestamp: new Date(),
-    }
-  );
-
-  // Send email if enabled
-  const emailNotifications = getEmailNotifications(user.emailNotifications);
-  if (emailNotifications.deviceLogins) {
-    try {
-      await emailService.sendDeviceLoginEmail(user.email, user.name || 'User', deviceData);
-    } catch (error) {
-      console.error('Failed to send device login notification email:', error);
-    }
-  }
+    },
+    sendEmail: recipient =>
+      emailService.sendDeviceLoginEmail(recipient.email, recipient.name || 'User', deviceData),
+  });
 };
 
 /**
  * Get notification statistics
  * @param {string} userId - User ID
- * @returns {Promise<{total: number, unread: number, byType: Record<string, number>}>}
+ * @returns {Promise<{total: number, unread: number, byType: Record<string, number>, delivery: object}>}
  */
 const getNotificationStats = async (
   userId: string
@@ -533,8 +374,14 @@ const getNotificationStats = async (
   total: number;
   unread: number;
   byType: Record<string, number>;
+  delivery: {
+    acknowledged: number;
+    awaitingAcknowledgement: number;
+    pending: number;
+    lastAcknowledgedAt: Date | null;
+  };
 }> => {
-  const [total, unread, byType] = await Promise.all([
+  const [total, unread, byType, delivery] = await Promise.all([
     prisma.notification.count({ where: { userId } }),
     prisma.notification.count({ where: { userId, isRead: false } }),
     prisma.notification.groupBy({
@@ -542,6 +389,7 @@ const getNotificationStats = async (
       where: { userId },
       _count: { type: true },
     }),
+    notificationDeliveryService.getDeliveryStats(userId),
   ]);
 
   const byTypeMap: Record<string, number> = {};
@@ -553,21 +401,10 @@ const getNotificationStats = async (
     total,
     unread,
     byType: byTypeMap,
+    delivery,
   };
 };
 
-function getEmailNotifications(notifications: any): any {
-  if (!notifications) return {};
-  if (typeof notifications === 'string') {
-    try {
-      return JSON.parse(notifications);
-    } catch {
-      return {};
-    }
-  }
-  return notifications;
-}
-
 export default {
   createNotification,
   sendLoginAlert,
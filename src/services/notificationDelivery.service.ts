@@ -0,0 +1,139 @@
+import { NotificationType } from '@prisma/client';
+import prisma from '../client';
+
+/**
+ * Notification Delivery Service
+ * Tracks which WebSocket connections each stored notification was sent to and which of them
+ * acknowledged it. Notifications no client has acknowledged are sent again when a connection
+ * of the user authenticates or subscribes, so users who were offline still receive them.
+ */
+
+/** A stored notification sent to one WebSocket connection */
+export interface Delivery {
+  notificationId: string;
+  connectionId: string;
+}
+
+// Most recent unacknowledged notifications replayed to a connection
+const REPLAY_LIMIT = 50;
+
+/**
+ * The payload WebSocket clients receive for a stored notification
+ * @param {Object} notification
+ * @returns {Object}
+ */
+const toPushMessage = (notification: any) => ({
+  type: 'push_notification',
+  data: {
+    id: notification.id,
+    type: notification.type,
+    title: notification.title,
+    message: notification.message,
+    metadata: notification.metadata,
+    timestamp: notification.createdAt,
+    isRead: notification.isRead,
+  },
+});
+
+/**
+ * Record that notifications were sent to connections
+ * @param {Delivery[]} deliveries
+ * @returns {Promise<void>}
+ */
+const recordSent = async (deliveries: Delivery[]) => {
+  if (deliveries.length === 0) {
+    return;
+  }
+  await prisma.notificationDelivery.createMany({ data: deliveries, skipDuplicates: true });
+};
+
+/**
+ * Acknowledge notifications a connection received. Ids of other users' notifications are
+ * ignored.
+ * @param {string} userId
+ * @param {string[]} notificationIds
+ * @param {string} connectionId
+ * @returns {Promise<string[]>} ids of the acknowledged notifications
+ */
+const acknowledge = async (userId: string, notificationIds: string[], connectionId: string) => {
+  const notifications = await prisma.notification.findMany({
+    where: { id: { in: notificationIds }, userId },
+    select: { id: true },
+  });
+  const ids: string[] = notifications.map((notification: { id: string }) => notification.id);
+  if (ids.length === 0) {
+    return ids;
+  }
+
+  const now = new Date();
+  await prisma.notificationDelivery.updateMany({
+    where: { notificationId: { in: ids }, connectionId, acknowledgedAt: null },
+    data: { acknowledgedAt: now },
+  });
+  await prisma.notification.updateMany({
+    where: { id: { in: ids }, deliveredAt: null },
+    data: { deliveredAt: now },
+  });
+  return ids;
+};
+
+/**
+ * Unread notifications no client has acknowledged and that were not sent to a connection yet,
+ * oldest first
+ * @param {string} userId
+ * @param {string} connectionId
+ * @param {NotificationType[]} [types] - notification types the connection subscribed to; all when empty
+ * @returns {Promise<Object[]>}
+ */
+const getUndelivered = async (
+  userId: string,
+  connectionId: string,
+  types: NotificationType[] = []
+) => {
+  const notifications = await prisma.notification.findMany({
+    where: {
+      userId,
+      isRead: false,
+      deliveredAt: null,
+      deliveries: { none: { connectionId } },
+      ...(types.length > 0 && { type: { in: types } }),
+    },
+    orderBy: { createdAt: 'desc' },
+    take: REPLAY_LIMIT,
+  });
+  return notifications.reverse();
+};
+
+/**
+ * Delivery status of a user's notifications
+ * @param {string} userId
+ * @returns {Promise<Object>} acknowledged by a client, sent but not acknowledged, and not sent
+ * to any connection yet
+ */
+const getDeliveryStats = async (userId: string) => {
+  const [acknowledged, awaitingAcknowledgement, pending, lastAcknowledged] = await Promise.all([
+    prisma.notification.count({ where: { userId, deliveredAt: { not: null } } }),
+    prisma.notification.count({ where: { userId, deliveredAt: null, deliveries: { some: {} } } }),
+    prisma.notification.count({ where: { userId, deliveredAt: null, deliveries: { none: {} } } }),
+    prisma.notification.findFirst({
+      where: { userId, deliveredAt: { not: null } },
+      orderBy: { deliveredAt: 'desc' },
+      select: { deliveredAt: true },
+    }),
+  ]);
+
+  return {
+    acknowledged,
+    awaitingAcknowledgement,
+    pending,
+    lastAcknowledgedAt: lastAcknowledged?.deliveredAt ?? null,
+  };
+};
+
+export default {
+  toPushMessage,
+  recordSent,
+  acknowledge,
+  getUndelivered,
+  getDeliveryStats,
+};
@@ -0,0 +1,145 @@
+import prisma from '../client';
+import logger from '../config/logger';
+import emailService from './email.service';
+import notificationPreferenceService from './notificationPreference.service';
+import { NotificationPreferences, NotificationTypeName } from '../types/notification.types';
+
+/**
+ * Notification Digest Service
+ * Emails of notification types in digest mode are not sent when the notification is created;
+ * the notification is queued (digestPending) and the unread ones are emailed together at the
+ * user's digest hour, daily or weekly, in their time zone. A queued notification leaves the
+ * queue when a digest run takes it, so it is never emailed twice.
+ */
+
+// Notifications listed in one digest email; older ones are only counted
+const DIGEST_LIST_LIMIT = 50;
+
+interface DigestStats {
+  sent: number;
+  failed: number;
+  duration: number;
+}
+
+/**
+ * Email the user a digest of their queued notifications that are still unread. Every queued
+ * notification leaves the queue, read or not; they are queued again if the email fails.
+ * @param {string} userId
+ * @param {NotificationPreferences} preferences
+ * @returns {Promise<number>} number of notifications in the digest
+ */
+const sendDigest = async (userId: string, preferences: NotificationPreferences) => {
+  // Taking the queue in one update keeps a concurrent run from emailing the same notifications
+  const digestedAt = new Date();
+  const { count } = await prisma.notification.updateMany({
+    where: { userId, digestPending: true },
+    data: { digestPending: false, digestedAt },
+  });
+  if (count === 0) {
+    return 0;
+  }
+
+  const [user, unread] = await Promise.all([
+    prisma.user.findUnique({
+      where: { id: userId },
+      select: { email: true, name: true, erasedAt: true },
+    }),
+    prisma.notification.findMany({
+      where: { userId, digestedAt, isRead: false },
+      orderBy: { createdAt: 'desc' },
+      select: { type: true, title: true, message: true, createdAt: true },
+    }),
+  ]);
+  // Types switched off for email since they were queued are left out
+  const notifications = unread.filter(
+    notification =>
+      notificationPreferenceService.resolveRoutes(
+        preferences,
+        notification.type as NotificationTypeName
+      ).email
+  );
+  if (!user || user.erasedAt || notifications.length === 0) {
+    return 0;
+  }
+
+  try {
+    await emailService.sendNotificationDigestEmail(user.email, user.name || 'User', {
+      frequency: preferences.digest.frequency,
+      timezone: preferences.timezone,
+      total: notifications.length,
+      notifications: notifications.slice(0, DIGEST_LIST_LIMIT),
+    });
+  } catch (error) {
+    await prisma.notification.updateMany({
+      where: { userId, digestedAt },
+      data: { digestPending: true, digestedAt: null },
+    });
+    throw error;
+  }
+  return notifications.length;
+};
+
+/**
+ * Send the digests that are due: users with a notification queued before their most recent
+ * digest time
+ * @returns {Promise<DigestStats>}
+ */
+const processDueDigests = async (): Promise<DigestStats> => {
+  const startTime = Date.now();
+  const stats: DigestStats = { sent: 0, failed: 0, duration: 0 };
+  const now = new Date();
+
+  const queues = await prisma.notification.groupBy({
+    by: ['userId'],
+    where: { digestPending: true },
+    _min: { createdAt: true },
+  });
+
+  for (const queue of queues) {
+    try {
+      const preferences = await notificationPreferenceService.getPreferences(queue.userId);
+      if (
+        queue._min.createdAt >= notificationPreferenceService.getLastDigestTime(preferences, now)
+      ) {
+        continue;
+      }
+      if ((await sendDigest(queue.userId, preferences)) > 0) {
+        stats.sent++;
+      }
+    } catch (error) {
+      stats.failed++;
+      logger.error('Notification digest failed', { userId: queue.userId, error });
+    }
+  }
+
+  stats.duration = Date.now() - startTime;
+  if (stats.sent > 0 || stats.failed > 0) {
+    logger.info('Notification digest run completed', stats);
+  }
+  return stats;
+};
+
+/**
+ * Schedule sending due digests. Digests go out within one interval of the user's digest hour.
+ * @param {number} intervalMinutes - Interval in minutes between runs
+ */
+const scheduleDigests = (intervalMinutes: number = 15) => {
+  logger.info(`Scheduling notification digests every ${intervalMinutes} minutes`);
+
+  setInterval(
+    async () => {
+      try {
+        await processDueDigests();
+      } catch (error) {
+        logger.error('Scheduled notification digest failed (non-critical)', { error });
+      }
+    },
+    intervalMinutes * 60 * 1000
+  );
+};
+
+export default {
+  sendDigest,
+  processDueDigests,
+  scheduleDigests,
+};
@@ -0,0 +1,184 @@
+import crypto from 'crypto';
+import prisma from '../client';
+import logger from '../config/logger';
+import emailService from './email.service';
+import notificationPreferenceService from './notificationPreference.service';
+import {
+  DispatchResult,
+  NotificationChannel,
+  NotificationEvent,
+} from '../types/notification.types';
+import { resolvesToPublicAddresses } from '../utils/publicAddress';
+
+/**
+ * Notification Dispatcher
+ * Single entry point for notifying a user. An event is routed to the in-app list, WebSocket and
+ * Server-Sent Events clients, email and the user's webhook according to their notification
+ * preferences. Only storing the in-app notification can fail the dispatch; the other channels
+ * are best effort and their failures are logged.
+ */
+
+const WEBHOOK_TIMEOUT_MS = 5 * 1000;
+
+/**
+ * Push a notification to the user's connected clients. Stored notifications that are not
+ * pushed, or not received, are replayed when a client reconnects.
+ * @param {NotificationEvent} event
+ * @param {Object | null} notification - stored notification, if the event was stored
+ * @returns {Promise<boolean>}
+ */
+const sendPush = async (event: NotificationEvent, notification: any | null) => {
+  try {
+    const { getWebSocketController } = await import('../controllers/websocket.controller');
+    await getWebSocketController().sendPushNotification(event.userId, {
+      id: notification?.id,
+      timestamp: notification?.createdAt,
+      type: event.type as any,
+      title: event.title,
+      message: event.message,
+      metadata: event.metadata,
+    });
+    return true;
+  } catch (error) {
+    logger.warn('Push notification not sent', { userId: event.userId, type: event.type, error });
+    return false;
+  }
+};
+
+/**
+ * Email the user about an event
+ * @param {NotificationEvent} event
+ * @returns {Promise<boolean>}
+ */
+const sendEmail = async (event: NotificationEvent) => {
+  try {
+    const recipient = await prisma.user.findUnique({
+      where: { id: event.userId },
+      select: { id: true, email: true, name: true, erasedAt: true },
+    });
+    if (!recipient || recipient.erasedAt) {
+      return false;
+    }
+    if (event.sendEmail) {
+      await event.sendEmail(recipient);
+    } else {
+      await emailService.sendSecurityUpdateEmail(recipient.email, {
+        title: event.title,
+        message: event.message,
+      });
+    }
+    return true;
+  } catch (error) {
+    logger.error('Notification email not sent', { userId: event.userId, type: event.type, error });
+    return false;
+  }
+};
+
+/**
+ * POST an event to the user's webhook. The body is signed with HMAC-SHA256 over
+ * `<timestamp>.<body>` using the secret issued when the webhook URL was set.
+ * @param {NotificationEvent} event
+ * @param {Object | null} notification - stored notification, if the event was stored
+ * @returns {Promise<boolean>}
+ */
+const sendWebhook = async (event: NotificationEvent, notification: any | null) => {
+  try {
+    const target = await notificationPreferenceService.getWebhookTarget(event.userId);
+    if (!target) {
+      return false;
+    }
+
+    const body = JSON.stringify({
+      id: notification?.id ?? null,
+      type: event.type,
+      title: event.title,
+      message: event.message,
+      metadata: event.metadata ?? {},
+      timestamp: (notification?.createdAt ?? new Date()).toISOString(),
+    });
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const signature = crypto
+      .createHmac('sha256', target.secret)
+      .update(`${timestamp}.${body}`)
+      .digest('hex');
+
+    // The host is resolved again on every request, so a name pointed at the internal network
+    // after the webhook was saved is not called
+    if (!(await resolvesToPublicAddresses(new URL(target.url).hostname))) {
+      throw new Error('Webhook host does not resolve to a public address');
+    }
+    const response = await fetch(target.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Notification-Timestamp': timestamp,
+        'X-Notification-Signature': `sha256=${signature}`,
+      },
+      body,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      throw new Error(`Webhook responded with status ${response.status}`);
+    }
+    return true;
+  } catch (error) {
+    logger.warn('Notification webhook failed', { userId: event.userId, type: event.type, error });
+    return false;
+  }
+};
+
+/**
+ * Notify a user about an event on the channels their preferences route its type to. Pushes
+ * are held back during quiet hours, and emails of types in digest mode wait for the user's
+ * next digest (see notificationDigest.service).
+ * @param {NotificationEvent} event
+ * @returns {Promise<DispatchResult>} the stored notification and the channels that were used
+ */
+const dispatch = async (event: NotificationEvent): Promise<DispatchResult> => {
+  const preferences = await notificationPreferenceService.getPreferences(event.userId);
+  const routes = notificationPreferenceService.resolveRoutes(preferences, event.type);
+  const routed = (channel: NotificationChannel) =>
+    routes[channel] && (!event.channels || event.channels.includes(channel));
+  const channels: NotificationChannel[] = [];
+  // Digest emails are built from stored notifications, so without one the email is sent now
+  const digested = routed('email') && routes.emailMode === 'DIGEST' && routed('inApp');
+
+  let notification = null;
+  if (routed('inApp')) {
+    notification = await prisma.notification.create({
+      data: {
+        userId: event.userId,
+        type: event.type,
+        title: event.title,
+        message: event.message,
+        metadata: event.metadata ?? {},
+        isRead: false,
+        digestPending: digested,
+      },
+    });
+    channels.push('inApp');
+  }
+
+  if (
+    routed('push') &&
+    !notificationPreferenceService.isInQuietHours(preferences) &&
+    (await sendPush(event, notification))
+  ) {
+    channels.push('push');
+  }
+
+  if (routed('email') && !digested && (await sendEmail(event))) {
+    channels.push('email');
+  }
+
+  if (routed('webhook') && (await sendWebhook(event, notification))) {
+    channels.push('webhook');
+  }
+
+  return { notification, channels };
+};
+
+export default {
+  dispatch,
+};
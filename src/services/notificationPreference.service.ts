@@ -0,0 +1,355 @@
+import crypto from 'crypto';
+import httpStatus from 'http-status';
+import { NotificationType } from '@prisma/client';
+import prisma from '../client';
+import config from '../config/config';
+import ApiError from '../utils/ApiError';
+import { encryptSecret, decryptSecret } from '../utils/encryption';
+import { resolvesToPublicAddresses } from '../utils/publicAddress';
+import {
+  ChannelRoutes,
+  EmailDeliveryMode,
+  LegacyNotificationSettings,
+  NotificationPreferences,
+  NotificationPreferencesUpdate,
+  NotificationTypeName,
+  NotificationTypePreferences,
+} from '../types/notification.types';
+
+/**
+ * Notification Preference Service
+ * Reads and updates how a user is notified: the push, email and webhook channels, quiet hours,
+ * digest settings, and the channels of each notification type.
+ */
+
+const DEFAULT_PREFERENCES: NotificationPreferences = {
+  push: { enabled: true },
+  email: { enabled: true },
+  webhook: { url: null },
+  quietHours: { enabled: false, start: '22:00', end: '08:00' },
+  timezone: 'UTC',
+  digest: { frequency: 'DAILY', hour: 8, day: 1 },
+  types: {},
+};
+
+// Types emailed unless the user opts out; other types are only emailed when opted in
+const EMAILED_TYPES: NotificationTypeName[] = [
+  'LOGIN_ALERT',
+  'PASSWORD_CHANGE',
+  'TWO_FACTOR_SETUP',
+  'ACCOUNT_LOCKED',
+  'SECURITY_ALERT',
+];
+
+const CHANNELS = ['inApp', 'push', 'email', 'webhook'] as const;
+
+// Types each legacy emailNotifications and pushNotifications switch stood for
+const LEGACY_EMAIL_SWITCHES: Record<string, NotificationTypeName> = {
+  loginAlerts: 'LOGIN_ALERT',
+  deviceLogins: 'LOGIN_ALERT',
+  passwordChanges: 'PASSWORD_CHANGE',
+  twoFactorChanges: 'TWO_FACTOR_SETUP',
+};
+const LEGACY_PUSH_SWITCHES: Record<string, NotificationTypeName> = {
+  loginAlerts: 'LOGIN_ALERT',
+  securityUpdates: 'SECURITY_ALERT',
+};
+
+/**
+ * Typed preferences from the stored rows, with defaults for everything not stored
+ * @param {Object | null} preference - NotificationPreference row
+ * @param {Object[]} typePreferences - NotificationTypePreference rows
+ * @returns {NotificationPreferences}
+ */
+const toPreferences = (preference: any, typePreferences: any[]): NotificationPreferences => {
+  const types: NotificationPreferences['types'] = {};
+  typePreferences.forEach(row => {
+    const typePreference: NotificationTypePreferences = { emailMode: row.emailMode };
+    CHANNELS.forEach(channel => {
+      if (row[channel] !== null && row[channel] !== undefined) {
+        typePreference[channel] = row[channel];
+      }
+    });
+    types[row.type as NotificationTypeName] = typePreference;
+  });
+
+  if (!preference) {
+    return { ...DEFAULT_PREFERENCES, types };
+  }
+  return {
+    push: { enabled: preference.pushEnabled },
+    email: { enabled: preference.emailEnabled },
+    webhook: { url: preference.webhookUrl },
+    quietHours: {
+      enabled: preference.quietHoursEnabled,
+      start: preference.quietHoursStart,
+      end: preference.quietHoursEnd,
+    },
+    timezone: preference.timezone,
+    digest: {
+      frequency: preference.digestFrequency,
+      hour: preference.digestHour,
+      day: preference.digestDay,
+    },
+    types,
+  };
+};
+
+/**
+ * Notification preferences of a user
+ * @param {string} userId
+ * @returns {Promise<NotificationPreferences>}
+ */
+const getPreferences = async (userId: string): Promise<NotificationPreferences> => {
+  const [preference, typePreferences] = await Promise.all([
+    prisma.notificationPreference.findUnique({ where: { userId } }),
+    prisma.notificationTypePreference.findMany({ where: { userId } }),
+  ]);
+  return toPreferences(preference, typePreferences);
+};
+
+/**
+ * Update notification preferences; only the settings given change. Setting a webhook URL
+ * issues a new secret for signing its requests, returned only in this response.
+ * @param {string} userId
+ * @param {NotificationPreferencesUpdate} update
+ * @returns {Promise<NotificationPreferences & { webhook: { secret?: string } }>}
+ */
+const updatePreferences = async (userId: string, update: NotificationPreferencesUpdate) => {
+  const data: Record<string, any> = {};
+  if (update.push?.enabled !== undefined) data.pushEnabled = update.push.enabled;
+  if (update.email?.enabled !== undefined) data.emailEnabled = update.email.enabled;
+  if (update.quietHours?.enabled !== undefined) data.quietHoursEnabled = update.quietHours.enabled;
+  if (update.quietHours?.start) data.quietHoursStart = update.quietHours.start;
+  if (update.quietHours?.end) data.quietHoursEnd = update.quietHours.end;
+  if (update.timezone) data.timezone = update.timezone;
+  if (update.digest?.frequency) data.digestFrequency = update.digest.frequency;
+  if (update.digest?.hour !== undefined) data.digestHour = update.digest.hour;
+  if (update.digest?.day !== undefined) data.digestDay = update.digest.day;
+
+  let webhookSecret: string | undefined;
+  if (update.webhook) {
+    if (
+      update.webhook.url &&
+      !(await resolvesToPublicAddresses(new URL(update.webhook.url).hostname))
+    ) {
+      throw new ApiError(httpStatus.BAD_REQUEST, 'Webhook URL must point to a public host');
+    }
+    webhookSecret = update.webhook.url ? crypto.randomBytes(32).toString('hex') : undefined;
+    data.webhookUrl = update.webhook.url;
+    data.webhookSecret = webhookSecret
+      ? encryptSecret(webhookSecret, config.notifications.webhookEncryptionSecret)
+      : null;
+  }
+
+  await prisma.notificationPreference.upsert({
+    where: { userId },
+    create: { userId, ...data },
+    update: data,
+  });
+  const typeUpdates = Object.entries(update.types ?? {}) as [
+    NotificationType,
+    NotificationTypePreferences,
+  ][];
+  for (const [type, typeUpdate] of typeUpdates) {
+    await prisma.notificationTypePreference.upsert({
+      where: { userId_type: { userId, type } },
+      create: { userId, type, ...typeUpdate },
+      update: typeUpdate,
+    });
+  }
+
+  const preferences = await getPreferences(userId);
+  return { ...preferences, webhook: { ...preferences.webhook, secret: webhookSecret } };
+};
+
+/**
+ * Channels a notification type is sent on for a user, before quiet hours
+ * @param {NotificationPreferences} preferences
+ * @param {NotificationTypeName} type
+ * @returns {ChannelRoutes & { emailMode: EmailDeliveryMode }}
+ */
+const resolveRoutes = (
+  preferences: NotificationPreferences,
+  type: NotificationTypeName
+): ChannelRoutes & { emailMode: EmailDeliveryMode } => {
+  const overrides = preferences.types[type];
+  return {
+    inApp: overrides?.inApp ?? true,
+    push: preferences.push.enabled && (overrides?.push ?? true),
+    email: preferences.email.enabled && (overrides?.email ?? EMAILED_TYPES.includes(type)),
+    webhook: Boolean(preferences.webhook.url) && (overrides?.webhook ?? true),
+    emailMode: overrides?.emailMode ?? 'INSTANT',
+  };
+};
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Wall clock time in a time zone
+ * @param {Date} date
+ * @param {string} timeZone - IANA time zone
+ * @returns {{ weekday: number, minutes: number }} weekday with 0 as Sunday, and minutes since midnight
+ */
+const localTime = (date: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+  const part = (type: string) => parts.find(p => p.type === type)?.value ?? '';
+  return {
+    weekday: WEEKDAYS.indexOf(part('weekday')),
+    minutes: Number(part('hour')) * 60 + Number(part('minute')),
+  };
+};
+
+/**
+ * Check if quiet hours are active in the user's time zone
+ * @param {NotificationPreferences} preferences
+ * @param {Date} [now]
+ * @returns {boolean}
+ */
+const isInQuietHours = (preferences: NotificationPreferences, now: Date = new Date()) => {
+  const { enabled, start, end } = preferences.quietHours;
+  if (!enabled) {
+    return false;
+  }
+
+  const toMinutes = (time: string) => {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+  };
+  const current = localTime(now, preferences.timezone).minutes;
+  const startTime = toMinutes(start);
+  const endTime = toMinutes(end);
+
+  if (startTime <= endTime) {
+    // Same day range (e.g., 13:00 to 15:00)
+    return current >= startTime && current < endTime;
+  }
+  // Overnight range (e.g., 22:00 to 08:00 next day)
+  return current >= startTime || current < endTime;
+};
+
+/**
+ * Most recent time a digest was due for the user: their digest hour in their time zone, on
+ * their digest weekday for weekly digests
+ * @param {NotificationPreferences} preferences
+ * @param {Date} [now]
+ * @returns {Date}
+ */
+const getLastDigestTime = (preferences: NotificationPreferences, now: Date = new Date()) => {
+  const { frequency, hour, day } = preferences.digest;
+  const { weekday, minutes } = localTime(now, preferences.timezone);
+  const MINUTES_PER_DAY = 24 * 60;
+
+  const period = frequency === 'WEEKLY' ? 7 * MINUTES_PER_DAY : MINUTES_PER_DAY;
+  const current = frequency === 'WEEKLY' ? weekday * MINUTES_PER_DAY + minutes : minutes;
+  const scheduled = frequency === 'WEEKLY' ? day * MINUTES_PER_DAY + hour * 60 : hour * 60;
+  const sinceDigest = (current - scheduled + period) % period;
+
+  const startOfMinute = Math.floor(now.getTime() / 60000) * 60000;
+  return new Date(startOfMinute - sinceDigest * 60 * 1000);
+};
+
+/**
+ * Preference update from the legacy emailNotifications and pushNotifications switches: each
+ * switch sets the email or push channel of the types it stood for, and a type is on when any of
+ * its switches is. Settings of the typed update take precedence.
+ * @param {LegacyNotificationSettings} legacy
+ * @param {NotificationPreferencesUpdate} [update] - typed update sent along
+ * @returns {NotificationPreferencesUpdate | undefined} undefined when neither sets anything
+ */
+const fromLegacySettings = (
+  legacy: LegacyNotificationSettings,
+  update?: NotificationPreferencesUpdate
+): NotificationPreferencesUpdate | undefined => {
+  const types: NonNullable<NotificationPreferencesUpdate['types']> = {};
+  const applySwitches = (
+    switches: Record<string, boolean | undefined> | undefined,
+    switchTypes: Record<string, NotificationTypeName>,
+    channel: 'email' | 'push'
+  ) => {
+    Object.entries(switches ?? {}).forEach(([name, enabled]) => {
+      const type = switchTypes[name];
+      if (!type || enabled === undefined) {
+        return;
+      }
+      types[type] = { ...types[type], [channel]: Boolean(types[type]?.[channel]) || enabled };
+    });
+  };
+  applySwitches(legacy.emailNotifications, LEGACY_EMAIL_SWITCHES, 'email');
+  applySwitches(legacy.pushNotifications, LEGACY_PUSH_SWITCHES, 'push');
+
+  if (Object.keys(types).length === 0) {
+    return update;
+  }
+  Object.entries(update?.types ?? {}).forEach(([type, typeUpdate]) => {
+    const name = type as NotificationTypeName;
+    types[name] = { ...types[name], ...typeUpdate };
+  });
+  return { ...update, types };
+};
+
+/**
+ * URL and signing secret of the user's webhook
+ * @param {string} userId
+ * @returns {Promise<{ url: string, secret: string } | null>} null when no webhook is set
+ */
+const getWebhookTarget = async (userId: string) => {
+  const preference = await prisma.notificationPreference.findUnique({
+    where: { userId },
+    select: { webhookUrl: true, webhookSecret: true },
+  });
+  if (!preference?.webhookUrl || !preference.webhookSecret) {
+    return null;
+  }
+  return {
+    url: preference.webhookUrl as string,
+    secret: decryptSecret(preference.webhookSecret, config.notifications.webhookEncryptionSecret),
+  };
+};
+
+/**
+ * Push preferences in the shape of the push-preferences endpoints: push channel, quiet hours
+ * and the push setting of each type
+ * @param {NotificationPreferences} preferences
+ * @returns {Object}
+ */
+const toPushPreferences = (preferences: NotificationPreferences) => ({
+  enabled: preferences.push.enabled,
+  types: Object.fromEntries(
+    Object.entries(preferences.types)
+      .filter(([, typePreference]) => typePreference?.push !== undefined)
+      .map(([type, typePreference]) => [type, typePreference!.push])
+  ),
+  quietHours: preferences.quietHours,
+});
+
+/**
+ * Set or clear the push setting of notification types
+ * @param {string} userId
+ * @param {Object} types - push setting per type; null follows the default again
+ * @returns {Promise<Object>} the push preferences
+ */
+const setPushTypes = async (userId: string, types: Record<string, boolean | null>) => {
+  await updatePreferences(userId, {
+    types: Object.fromEntries(Object.entries(types).map(([type, push]) => [type, { push }])),
+  });
+  return toPushPreferences(await getPreferences(userId));
+};
+
+export default {
+  getPreferences,
+  updatePreferences,
+  fromLegacySettings,
+  resolveRoutes,
+  isInQuietHours,
+  getLastDigestTime,
+  getWebhookTarget,
+  toPushPreferences,
+  setPushTypes,
+};
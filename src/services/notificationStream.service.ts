@@ -0,0 +1,126 @@
+import prisma from '../client';
+import realtimeService, { RealtimeEvent } from './realtime.service';
+
+/**
+ * Notification Stream Service
+ * Server-Sent Events fallback for clients behind proxies that block WebSocket upgrades. Streams
+ * get the same `push_notification` payloads as WebSocket clients. Stored notifications are read
+ * back from the Notification table in order, so the id of the last one a client received is
+ * enough to resume the stream after a reconnect.
+ */
+
+/** Position in a user's notifications, ordered by creation time then id */
+export interface StreamCursor {
+  id: string;
+  createdAt: Date;
+}
+
+/** An open stream of this instance */
+export interface StreamClient {
+  // Receives the push notifications of the user. `notificationId` is set when the event
+  // announces a stored notification; other messages are delivered as they are.
+  onEvent: (event: RealtimeEvent) => void;
+  close: () => void;
+}
+
+const REPLAY_BATCH_SIZE = 100;
+
+const streams = new Map<string, Set<StreamClient>>();
+let unsubscribe: (() => void) | null = null;
+
+/**
+ * Hand push notifications published by any instance to the streams of their user
+ * @param {RealtimeEvent} event
+ */
+const dispatch = (event: RealtimeEvent) => {
+  if (!event.userId || event.message?.type !== 'push_notification') {
+    return;
+  }
+  streams.get(event.userId)?.forEach(stream => stream.onEvent(event));
+};
+
+/**
+ * Receive the push notifications of a user while their stream is open
+ * @param {string} userId
+ * @param {StreamClient} stream
+ * @returns {Function} removes the stream
+ */
+const addStream = (userId: string, stream: StreamClient) => {
+  if (!unsubscribe) {
+    unsubscribe = realtimeService.subscribe(dispatch);
+  }
+  const userStreams = streams.get(userId) ?? new Set<StreamClient>();
+  userStreams.add(stream);
+  streams.set(userId, userStreams);
+
+  return () => {
+    userStreams.delete(stream);
+    if (userStreams.size === 0 && streams.get(userId) === userStreams) {
+      streams.delete(userId);
+    }
+  };
+};
+
+/**
+ * Close every stream of this instance so clients reconnect to another one
+ */
+const closeStreams = () => {
+  for (const userStreams of [...streams.values()]) {
+    [...userStreams].forEach(stream => stream.close());
+  }
+  streams.clear();
+  unsubscribe?.();
+  unsubscribe = null;
+};
+
+/**
+ * Where a stream starts: after the notification the client last received, or after the newest
+ * notification of the user for a new stream. A last event id that is no longer stored also
+ * starts after the newest notification.
+ * @param {string} userId
+ * @param {string} [lastEventId]
+ * @returns {Promise<StreamCursor | null>} null when the user has no notifications yet
+ */
+const getCursor = async (userId: string, lastEventId?: string): Promise<StreamCursor | null> => {
+  const select = { id: true, createdAt: true };
+  const lastReceived = lastEventId
+    ? await prisma.notification.findFirst({ where: { id: lastEventId, userId }, select })
+    : null;
+  return (
+    lastReceived ??
+    prisma.notification.findFirst({
+      where: { userId },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      select,
+    })
+  );
+};
+
+/**
+ * Stored notifications of a user created after a cursor, oldest first
+ * @param {string} userId
+ * @param {StreamCursor | null} cursor
+ * @returns {Promise<Object[]>}
+ */
+const getNotificationsAfter = (userId: string, cursor: StreamCursor | null) =>
+  prisma.notification.findMany({
+    where: {
+      userId,
+      ...(cursor && {
+        OR: [
+          { createdAt: { gt: cursor.createdAt } },
+          { createdAt: cursor.createdAt, id: { gt: cursor.id } },
+        ],
+      }),
+    },
+    orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+    take: REPLAY_BATCH_SIZE,
+  });
+
+export default {
+  REPLAY_BATCH_SIZE,
+  addStream,
+  closeStreams,
+  getCursor,
+  getNotificationsAfter,
+};
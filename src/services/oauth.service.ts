@@ -0,0 +1,763 @@
+import crypto from 'crypto';
+import httpStatus from 'http-status';
+import jwt from 'jsonwebtoken';
+import moment from 'moment';
+import { Request } from 'express';
+import { SecurityEventType } from '@prisma/client';
+import prisma from '../client';
+import config from '../config/config';
+import logger from '../config/logger';
+import OAuthError from '../utils/OAuthError';
+import oauthClientService from './oauthClient.service';
+import signingKeyService from './signingKey.service';
+import dataProcessingService from './dataProcessing.service';
+import securityService from './security.service';
+import { LegalBasis, ProcessingRecordStatus } from '../types/dataProcessing.types';
+import {
+  AuthorizationRequest,
+  OAuthAccessTokenPayload,
+  OAuthGrantType,
+  OAuthScope,
+  OAuthTokenResponse,
+  OAuthTokenType,
+  TokenRequest,
+} from '../types/oauth.types';
+
+/**
+ * OAuth Service
+ * OAuth 2.0 authorization server and OpenID Connect provider. Users sign in to the client app's
+ * authorization page with the regular login (password, passkey or magic link, then any second
+ * factor), so device tracking, lockout and 2FA apply unchanged; the page then approves the
+ * request on their behalf with their first-party access token.
+ *
+ * Access and ID tokens are JWTs signed with the access token signing keys and verifiable
+ * against the JWKS. Refresh tokens are opaque, rotate on every use, and are only issued for the
+ * offline_access scope. Consent is recorded as a processing record; withdrawing it stops the
+ * client from refreshing its tokens.
+ */
+
+const AUTHORIZATION_CODE_EXPIRATION_MINUTES = 10;
+// Consent to a client is asked for again after a year
+const CONSENT_VALIDITY_DAYS = 365;
+
+// Scopes describing the signed-in user, meaningless for client credentials
+const USER_SCOPES: string[] = Object.values(OAuthScope);
+
+interface ValidatedAuthorizationRequest {
+  client: { id: string; clientId: string; name: string };
+  redirectUri: string;
+  scopes: string[];
+  state?: string;
+  nonce?: string;
+  codeChallenge: string;
+}
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+const base64UrlSha256 = (value: string) =>
+  crypto.createHash('sha256').update(value).digest('base64url');
+
+const parseScope = (scope?: string) => [...new Set((scope || '').split(' ').filter(Boolean))];
+
+const consentPurpose = (clientId: string) => `OAUTH_CLIENT:${clientId}`;
+
+/**
+ * Build a redirect back to the client
+ * @param {string} redirectUri
+ * @param {Record<string, string | undefined>} params
+ * @returns {string}
+ */
+const buildRedirectUrl = (redirectUri: string, params: Record<string, string | undefined>) => {
+  const url = new URL(redirectUri);
+  Object.entries(params).forEach(([key, value]) => value && url.searchParams.set(key, value));
+  return url.toString();
+};
+
+/**
+ * Validate an authorization request. Until the client and redirect URI are known to be valid,
+ * errors are shown to the user; afterwards they are sent back to the client.
+ * @param {AuthorizationRequest} params
+ * @returns {Promise<ValidatedAuthorizationRequest>}
+ */
+const validateAuthorizationRequest = async (
+  params: AuthorizationRequest
+): Promise<ValidatedAuthorizationRequest> => {
+  const client = await oauthClientService.getClientByClientId(params.client_id);
+  if (!client || !client.isActive) {
+    throw new OAuthError('invalid_request', 'Unknown client');
+  }
+  if (!client.redirectUris.includes(params.redirect_uri)) {
+    throw new OAuthError('invalid_request', 'Redirect URI is not registered for this client');
+  }
+
+  const redirect = { redirectUri: params.redirect_uri, state: params.state };
+  if (params.response_type !== 'code') {
+    throw new OAuthError(
+      'unsupported_response_type',
+      'Only the authorization code flow is supported',
+      httpStatus.BAD_REQUEST,
+      redirect
+    );
+  }
+  if (!client.grantTypes.includes(OAuthGrantType.AUTHORIZATION_CODE)) {
+    throw new OAuthError(
+      'unauthorized_client',
+      'Client may not use the authorization code flow',
+      httpStatus.BAD_REQUEST,
+      redirect
+    );
+  }
+  if (!params.code_challenge || params.code_challenge_method !== 'S256') {
+    throw new OAuthError(
+      'invalid_request',
+      'A PKCE code challenge using S256 is required',
+      httpStatus.BAD_REQUEST,
+      redirect
+    );
+  }
+
+  const scopes = parseScope(params.scope);
+  if (scopes.length === 0 || scopes.some(scope => !client.scopes.includes(scope))) {
+    throw new OAuthError(
+      'invalid_scope',
+      'Requested scope is not allowed for this client',
+      httpStatus.BAD_REQUEST,
+      redirect
+    );
+  }
+
+  return {
+    client: { id: client.id, clientId: client.clientId, name: client.name },
+    redirectUri: params.redirect_uri,
+    scopes,
+    state: params.state,
+    nonce: params.nonce,
+    codeChallenge: params.code_challenge,
+  };
+};
+
+/**
+ * Send the user to the client app's authorization page, where they sign in and give consent
+ * @param {AuthorizationRequest} params
+ * @returns {Promise<string>} URL to redirect to
+ */
+const startAuthorization = async (params: AuthorizationRequest) => {
+  try {
+    await validateAuthorizationRequest(params);
+  } catch (error) {
+    const redirectUrl = error instanceof OAuthError ? error.toRedirectUrl() : undefined;
+    if (redirectUrl) {
+      return redirectUrl;
+    }
+    throw error;
+  }
+
+  const url = new URL(config.oauth.loginUrl);
+  Object.entries(params).forEach(([key, value]) => value && url.searchParams.set(key, value));
+  return url.toString();
+};
+
+/**
+ * Find the user's active consent to a client. Consent past its expiry date counts as absent even
+ * before the expiry job marks it expired.
+ * @param {string} userId
+ * @param {string} clientId - public client ID
+ * @returns {Promise<Object | null>} the consent record, with the consented scopes as dataTypes
+ */
+const findActiveConsent = async (userId: string, clientId: string) => {
+  const consent = await prisma.dataProcessingRecord.findFirst({
+    where: {
+      userId,
+      purpose: consentPurpose(clientId),
+      legalBasis: LegalBasis.CONSENT,
+      status: ProcessingRecordStatus.ACTIVE,
+      expiresAt: { gt: new Date() },
+    },
+  });
+  if (!consent) {
+    return null;
+  }
+  return {
+    ...consent,
+    dataTypes: Array.isArray(consent.dataTypes) ? (consent.dataTypes as string[]) : [],
+  };
+};
+
+/**
+ * Describe an authorization request for the consent screen
+ * @param {string} userId
+ * @param {AuthorizationRequest} params
+ * @returns {Promise<{ client: Object; scopes: string[]; consentRequired: boolean }>}
+ */
+const getAuthorizationDetails = async (userId: string, params: AuthorizationRequest) => {
+  const request = await validateAuthorizationRequest(params);
+  const consent = await findActiveConsent(userId, request.client.clientId);
+  const consentRequired =
+    !consent || request.scopes.some(scope => !consent.dataTypes.includes(scope));
+
+  return {
+    client: { clientId: request.client.clientId, name: request.client.name },
+    scopes: request.scopes,
+    consentRequired,
+  };
+};
+
+/**
+ * Approve or deny an authorization request for the signed-in user
+ * @param {string} userId
+ * @param {AuthorizationRequest} params
+ * @param {boolean} approved
+ * @param {Request} req
+ * @returns {Promise<string>} URL the user agent is sent back to
+ */
+const authorize = async (
+  userId: string,
+  params: AuthorizationRequest,
+  approved: boolean,
+  req: Request
+) => {
+  let request: ValidatedAuthorizationRequest;
+  try {
+    request = await validateAuthorizationRequest(params);
+  } catch (error) {
+    const redirectUrl = error instanceof OAuthError ? error.toRedirectUrl() : undefined;
+    if (redirectUrl) {
+      return redirectUrl;
+    }
+    throw error;
+  }
+
+  if (!approved) {
+    return buildRedirectUrl(request.redirectUri, {
+      error: 'access_denied',
+      error_description: 'The user denied the request',
+      state: request.state,
+    });
+  }
+
+  const consent = await findActiveConsent(userId, request.client.clientId);
+  if (!consent || request.scopes.some(scope => !consent.dataTypes.includes(scope))) {
+    await dataProcessingService.recordProcessing(
+      userId,
+      {
+        purpose: consentPurpose(request.client.clientId),
+        legalBasis: LegalBasis.CONSENT,
+        dataTypes: [...new Set([...(consent?.dataTypes || []), ...request.scopes])],
+        retention: `Shared with ${request.client.name} until consent is withdrawn`,
+        expiresAt: moment().add(CONSENT_VALIDITY_DAYS, 'days').toDate(),
+      },
+      req
+    );
+  }
+
+  const code = crypto.randomBytes(32).toString('base64url');
+  await prisma.oAuthAuthorizationCode.create({
+    data: {
+      codeHash: hashToken(code),
+      clientId: request.client.id,
+      userId,
+      redirectUri: request.redirectUri,
+      scopes: request.scopes,
+      codeChallenge: request.codeChallenge,
+      nonce: request.nonce,
+      expiresAt: moment().add(AUTHORIZATION_CODE_EXPIRATION_MINUTES, 'minutes').toDate(),
+    },
+  });
+
+  await securityService.logSecurityEvent({
+    userId,
+    ipAddress: req.ip || '',
+    userAgent: req.get('User-Agent') || 'Unknown',
+    eventType: SecurityEventType.OAUTH_AUTHORIZED,
+    success: true,
+    details: { clientId: request.client.clientId, scopes: request.scopes },
+  });
+
+  return buildRedirectUrl(request.redirectUri, { code, state: request.state });
+};
+
+/**
+ * Sign a JWT with the current access token signing key
+ * @param {Object} payload
+ * @returns {Promise<string>}
+ */
+const signJwt = async (payload: Record<string, unknown>) => {
+  const { kid, algorithm, privateKey } = await signingKeyService.getSigningKey();
+  return jwt.sign(payload, privateKey, { algorithm, keyid: kid });
+};
+
+/**
+ * Revoke every token issued under one authorization
+ * @param {string} grantId
+ */
+const revokeGrant = async (grantId: string) => {
+  await prisma.oAuthToken.updateMany({
+    where: { grantId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+};
+
+/**
+ * Standard claims about a user released by the granted scopes
+ * @param {Object} user
+ * @param {string[]} scopes
+ * @returns {Record<string, unknown>}
+ */
+const getUserClaims = (
+  user: {
+    email: string;
+    name: string | null;
+    profilePicture: string | null;
+    isEmailVerified: boolean;
+    updatedAt: Date;
+  },
+  scopes: string[]
+) => ({
+  ...(scopes.includes(OAuthScope.PROFILE) && {
+    name: user.name,
+    picture: user.profilePicture,
+    updated_at: moment(user.updatedAt).unix(),
+  }),
+  ...(scopes.includes(OAuthScope.EMAIL) && {
+    email: user.email,
+    email_verified: user.isEmailVerified,
+  }),
+});
+
+/**
+ * Issue access, refresh and ID tokens
+ * @param {Object} client
+ * @param {Object | null} user - null for client credentials
+ * @param {string[]} scopes
+ * @param {string} grantId
+ * @param {string} [nonce]
+ * @returns {Promise<OAuthTokenResponse>}
+ */
+const issueTokens = async (
+  client: { id: string; clientId: string; grantTypes: string[] },
+  user: {
+    id: string;
+    email: string;
+    name: string | null;
+    profilePicture: string | null;
+    isEmailVerified: boolean;
+    lastLoginAt: Date | null;
+    updatedAt: Date;
+  } | null,
+  scopes: string[],
+  grantId: string,
+  nonce?: string
+): Promise<OAuthTokenResponse> => {
+  const now = moment();
+  const accessExpires = moment(now).add(config.jwt.accessExpirationMinutes, 'minutes');
+  const subject = user ? user.id : client.clientId;
+
+  const accessRecord = await prisma.oAuthToken.create({
+    data: {
+      type: OAuthTokenType.ACCESS,
+      grantId,
+      clientId: client.id,
+      userId: user?.id,
+      scopes,
+      expiresAt: accessExpires.toDate(),
+    },
+  });
+  const accessToken = await signJwt({
+    iss: config.apiUrl,
+    sub: subject,
+    aud: client.clientId,
+    client_id: client.clientId,
+    scope: scopes.join(' '),
+    jti: accessRecord.id,
+    iat: now.unix(),
+    exp: accessExpires.unix(),
+    type: 'OAUTH_ACCESS',
+  });
+
+  const response: OAuthTokenResponse = {
+    access_token: accessToken,
+    token_type: 'Bearer',
+    expires_in: config.jwt.accessExpirationMinutes * 60,
+    scope: scopes.join(' '),
+  };
+
+  if (
+    user &&
+    scopes.includes(OAuthScope.OFFLINE_ACCESS) &&
+    client.grantTypes.includes(OAuthGrantType.REFRESH_TOKEN)
+  ) {
+    const refreshToken = crypto.randomBytes(32).toString('base64url');
+    await prisma.oAuthToken.create({
+      data: {
+        tokenHash: hashToken(refreshToken),
+        type: OAuthTokenType.REFRESH,
+        grantId,
+        clientId: client.id,
+        userId: user.id,
+        scopes,
+        expiresAt: moment(now).add(config.jwt.refreshExpirationDays, 'days').toDate(),
+      },
+    });
+    response.refresh_token = refreshToken;
+  }
+
+  if (user && scopes.includes(OAuthScope.OPENID)) {
+    // at_hash binds the ID token to the access token issued with it
+    const digest = crypto.createHash('sha256').update(accessToken).digest();
+    response.id_token = await signJwt({
+      iss: config.apiUrl,
+      sub: user.id,
+      aud: client.clientId,
+      iat: now.unix(),
+      exp: accessExpires.unix(),
+      auth_time: moment(user.lastLoginAt || now).unix(),
+      at_hash: digest.subarray(0, digest.length / 2).toString('base64url'),
+      ...(nonce && { nonce }),
+      ...getUserClaims(user, scopes),
+    });
+  }
+
+  return response;
+};
+
+/**
+ * Load a user who may still be issued tokens
+ * @param {string} userId
+ */
+const getActiveUser = async (userId: string) => {
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+  if (!user || !user.isActive || user.isLocked || user.erasedAt) {
+    throw new OAuthError('invalid_grant', 'The user is no longer active');
+  }
+  return user;
+};
+
+/**
+ * Exchange an authorization code. A code used twice revokes every token issued for it.
+ * @param {Object} client
+ * @param {TokenRequest} params
+ * @returns {Promise<OAuthTokenResponse>}
+ */
+const exchangeAuthorizationCode = async (client: any, params: TokenRequest) => {
+  if (!params.code || !params.code_verifier) {
+    throw new OAuthError('invalid_request', 'code and code_verifier are required');
+  }
+
+  const code = await prisma.oAuthAuthorizationCode.findUnique({
+    where: { codeHash: hashToken(params.code) },
+  });
+  if (!code || code.clientId !== client.id) {
+    throw new OAuthError('invalid_grant', 'Invalid authorization code');
+  }
+
+  // Claim the code atomically so concurrent exchanges cannot both succeed
+  const claimed = await prisma.oAuthAuthorizationCode.updateMany({
+    where: { id: code.id, usedAt: null },
+    data: { usedAt: new Date() },
+  });
+  if (claimed.count === 0) {
+    await revokeGrant(code.id);
+    logger.warn('OAuth authorization code reused; grant revoked', {
+      clientId: client.clientId,
+      userId: code.userId,
+    });
+    throw new OAuthError('invalid_grant', 'Authorization code has already been used');
+  }
+
+  if (moment(code.expiresAt).isBefore(moment())) {
+    throw new OAuthError('invalid_grant', 'Authorization code has expired');
+  }
+  if (params.redirect_uri !== code.redirectUri) {
+    throw new OAuthError('invalid_grant', 'Redirect URI does not match the authorization request');
+  }
+  if (base64UrlSha256(params.code_verifier) !== code.codeChallenge) {
+    throw new OAuthError('invalid_grant', 'PKCE verification failed');
+  }
+
+  const user = await getActiveUser(code.userId);
+  return issueTokens(client, user, code.scopes, code.id, code.nonce || undefined);
+};
+
+/**
+ * Rotate a refresh token. Reuse of a rotated token revokes the whole grant.
+ * @param {Object} client
+ * @param {TokenRequest} params
+ * @returns {Promise<OAuthTokenResponse>}
+ */
+const exchangeRefreshToken = async (client: any, params: TokenRequest) => {
+  if (!params.refresh_token) {
+    throw new OAuthError('invalid_request', 'refresh_token is required');
+  }
+
+  const token = await prisma.oAuthToken.findUnique({
+    where: { tokenHash: hashToken(params.refresh_token) },
+  });
+  if (!token || token.type !== OAuthTokenType.REFRESH || token.clientId !== client.id) {
+    throw new OAuthError('invalid_grant', 'Invalid refresh token');
+  }
+  if (moment(token.expiresAt).isBefore(moment())) {
+    throw new OAuthError('invalid_grant', 'Refresh token has expired');
+  }
+
+  const rotated = await prisma.oAuthToken.updateMany({
+    where: { id: token.id, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  if (rotated.count === 0) {
+    await revokeGrant(token.grantId);
+    logger.warn('OAuth refresh token reused; grant revoked', {
+      clientId: client.clientId,
+      userId: token.userId,
+    });
+    throw new OAuthError('invalid_grant', 'Refresh token has been revoked');
+  }
+
+  const consent = await findActiveConsent(token.userId!, client.clientId);
+  if (!consent) {
+    await revokeGrant(token.grantId);
+    throw new OAuthError('invalid_grant', 'Consent has been withdrawn or has expired');
+  }
+
+  // A client may ask for fewer scopes than it was granted, never more
+  const requested = params.scope ? parseScope(params.scope) : token.scopes;
+  if (requested.some(scope => !token.scopes.includes(scope))) {
+    throw new OAuthError('invalid_scope', 'Requested scope exceeds the original grant');
+  }
+
+  const user = await getActiveUser(token.userId!);
+  return issueTokens(client, user, requested, token.grantId);
+};
+
+/**
+ * Issue a token to a confidential client acting on its own behalf
+ * @param {Object} client
+ * @param {TokenRequest} params
+ * @returns {Promise<OAuthTokenResponse>}
+ */
+const exchangeClientCredentials = async (client: any, params: TokenRequest) => {
+  if (!client.clientSecretHash) {
+    throw new OAuthError('unauthorized_client', 'Public clients cannot use client credentials');
+  }
+
+  const allowed = client.scopes.filter((scope: string) => !USER_SCOPES.includes(scope));
+  const requested = params.scope ? parseScope(params.scope) : allowed;
+  if (requested.some(scope => !allowed.includes(scope))) {
+    throw new OAuthError('invalid_scope', 'Requested scope is not allowed for this client');
+  }
+
+  return issueTokens(client, null, requested, crypto.randomUUID());
+};
+
+/**
+ * Token endpoint
+ * @param {Request} req
+ * @returns {Promise<OAuthTokenResponse>}
+ */
+const exchangeToken = async (req: Request) => {
+  const client = await oauthClientService.authenticateClient(req);
+  const params = (req.body || {}) as TokenRequest;
+
+  if (!client.grantTypes.includes(params.grant_type)) {
+    throw new OAuthError('unauthorized_client', 'Client may not use this grant type');
+  }
+
+  switch (params.grant_type) {
+    case OAuthGrantType.AUTHORIZATION_CODE:
+      return exchangeAuthorizationCode(client, params);
+    case OAuthGrantType.REFRESH_TOKEN:
+      return exchangeRefreshToken(client, params);
+    case OAuthGrantType.CLIENT_CREDENTIALS:
+      return exchangeClientCredentials(client, params);
+    default:
+      throw new OAuthError('unsupported_grant_type', 'Unsupported grant type');
+  }
+};
+
+/**
+ * Verify an access token issued to a client, including that it has not been revoked
+ * @param {string} token
+ * @returns {Promise<OAuthAccessTokenPayload | null>}
+ */
+const verifyAccessToken = async (token: string): Promise<OAuthAccessTokenPayload | null> => {
+  try {
+    const key = await signingKeyService.getVerificationKeyForToken(token);
+    if (!key) {
+      return null;
+    }
+    const payload = jwt.verify(token, key.publicKey, {
+      algorithms: [key.algorithm],
+      issuer: config.apiUrl,
+    }) as OAuthAccessTokenPayload;
+    if (payload.type !== 'OAUTH_ACCESS') {
+      return null;
+    }
+
+    const record = await prisma.oAuthToken.findUnique({ where: { id: payload.jti } });
+    return record && !record.revokedAt ? payload : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Token introspection (RFC 7662). Public clients may only introspect their own tokens.
+ * @param {Request} req
+ * @returns {Promise<Object>}
+ */
+const introspect = async (req: Request) => {
+  const client = await oauthClientService.authenticateClient(req);
+  const token: string | undefined = req.body?.token;
+  if (!token) {
+    throw new OAuthError('invalid_request', 'token is required');
+  }
+  const inactive = { active: false };
+
+  const access = await verifyAccessToken(token);
+  if (access) {
+    if (!client.clientSecretHash && access.client_id !== client.clientId) {
+      return inactive;
+    }
+    return {
+      active: true,
+      token_type: 'Bearer',
+      scope: access.scope,
+      client_id: access.client_id,
+      sub: access.sub,
+      aud: access.aud,
+      iss: access.iss,
+      iat: access.iat,
+      exp: access.exp,
+      jti: access.jti,
+    };
+  }
+
+  // Refresh tokens are only meaningful to the client holding them
+  const refresh = await prisma.oAuthToken.findUnique({ where: { tokenHash: hashToken(token) } });
+  if (
+    !refresh ||
+    refresh.clientId !== client.id ||
+    refresh.revokedAt ||
+    moment(refresh.expiresAt).isBefore(moment())
+  ) {
+    return inactive;
+  }
+  return {
+    active: true,
+    token_type: 'refresh_token',
+    scope: refresh.scopes.join(' '),
+    client_id: client.clientId,
+    sub: refresh.userId,
+    iat: moment(refresh.createdAt).unix(),
+    exp: moment(refresh.expiresAt).unix(),
+  };
+};
+
+/**
+ * Token revocation (RFC 7009). Revoking any token revokes the whole grant. Unknown tokens are
+ * ignored so the endpoint reveals nothing about them.
+ * @param {Request} req
+ */
+const revoke = async (req: Request) => {
+  const client = await oauthClientService.authenticateClient(req);
+  const token: string | undefined = req.body?.token;
+  if (!token) {
+    throw new OAuthError('invalid_request', 'token is required');
+  }
+
+  const access = await verifyAccessToken(token);
+  const record = access
+    ? await prisma.oAuthToken.findUnique({ where: { id: access.jti } })
+    : await prisma.oAuthToken.findUnique({ where: { tokenHash: hashToken(token) } });
+
+  if (record && record.clientId === client.id) {
+    await revokeGrant(record.grantId);
+  }
+};
+
+/**
+ * OpenID Connect UserInfo endpoint
+ * @param {string} [authorization] - Authorization header carrying the access token
+ * @returns {Promise<Record<string, unknown>>}
+ */
+const getUserInfo = async (authorization?: string) => {
+  const token = authorization?.startsWith('Bearer ') ? authorization.slice(7) : undefined;
+  const payload = token ? await verifyAccessToken(token) : null;
+  if (!payload) {
+    throw new OAuthError(
+      'invalid_token',
+      'Invalid or expired access token',
+      httpStatus.UNAUTHORIZED
+    );
+  }
+
+  const scopes = parseScope(payload.scope);
+  if (!scopes.includes(OAuthScope.OPENID)) {
+    throw new OAuthError(
+      'insufficient_scope',
+      'The openid scope is required',
+      httpStatus.FORBIDDEN
+    );
+  }
+
+  const user = await prisma.user.findUnique({ where: { id: payload.sub } });
+  if (!user || !user.isActive || user.erasedAt) {
+    throw new OAuthError(
+      'invalid_token',
+      'Invalid or expired access token',
+      httpStatus.UNAUTHORIZED
+    );
+  }
+
+  return { sub: user.id, ...getUserClaims(user, scopes) };
+};
+
+/**
+ * OpenID Connect discovery document
+ * @returns {Record<string, unknown>}
+ */
+const getDiscoveryDocument = () => {
+  const baseUrl = `${config.apiUrl}/v1/oauth`;
+  return {
+    issuer: config.apiUrl,
+    authorization_endpoint: `${baseUrl}/authorize`,
+    token_endpoint: `${baseUrl}/token`,
+    userinfo_endpoint: `${baseUrl}/userinfo`,
+    introspection_endpoint: `${baseUrl}/introspect`,
+    revocation_endpoint: `${baseUrl}/revoke`,
+    jwks_uri: `${config.apiUrl}/.well-known/jwks.json`,
+    scopes_supported: USER_SCOPES,
+    response_types_supported: ['code'],
+    grant_types_supported: Object.values(OAuthGrantType),
+    subject_types_supported: ['public'],
+    id_token_signing_alg_values_supported: [config.jwt.signingAlgorithm],
+    token_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post', 'none'],
+    code_challenge_methods_supported: ['S256'],
+    claims_supported: [
+      'sub',
+      'iss',
+      'aud',
+      'exp',
+      'iat',
+      'auth_time',
+      'nonce',
+      'name',
+      'picture',
+      'updated_at',
+      'email',
+      'email_verified',
+    ],
+  };
+};
+
+export default {
+  validateAuthorizationRequest,
+  startAuthorization,
+  getAuthorizationDetails,
+  authorize,
+  exchangeToken,
+  verifyAccessToken,
+  introspect,
+  revoke,
+  getUserInfo,
+  getDiscoveryDocument,
+};
@@ -0,0 +1,219 @@
+import crypto from 'crypto';
+import httpStatus from 'http-status';
+import { Request } from 'express';
+import prisma from '../client';
+import ApiError from '../utils/ApiError';
+import OAuthError from '../utils/OAuthError';
+import { CreateOAuthClient, OAuthGrantType, UpdateOAuthClient } from '../types/oauth.types';
+
+/**
+ * OAuth Client Service
+ * Registry of the applications allowed to use this API as an OAuth 2.0 / OpenID Connect
+ * provider. Confidential clients authenticate with a secret that is only shown when it is
+ * issued; public clients identify themselves by client ID and must use PKCE.
+ */
+
+const hashSecret = (secret: string) => crypto.createHash('sha256').update(secret).digest('hex');
+
+const generateSecret = () => `cs_${crypto.randomBytes(32).toString('base64url')}`;
+
+// Never return the secret hash
+const publicFields = {
+  id: true,
+  clientId: true,
+  name: true,
+  redirectUris: true,
+  grantTypes: true,
+  scopes: true,
+  isActive: true,
+  createdById: true,
+  createdAt: true,
+  updatedAt: true,
+};
+
+/**
+ * Client credentials grants act as the client itself and need a secret to be safe
+ * @param {OAuthGrantType[]} grantTypes
+ * @param {boolean} isConfidential
+ */
+const assertGrantTypesAllowed = (grantTypes: OAuthGrantType[], isConfidential: boolean) => {
+  if (!isConfidential && grantTypes.includes(OAuthGrantType.CLIENT_CREDENTIALS)) {
+    throw new ApiError(
+      httpStatus.BAD_REQUEST,
+      'Public clients cannot use the client_credentials grant'
+    );
+  }
+};
+
+/**
+ * Register a client
+ * @param {CreateOAuthClient} data
+ * @param {string} createdById
+ * @returns {Promise<{ client: Object; clientSecret?: string }>} the secret is returned only once
+ */
+const createClient = async (data: CreateOAuthClient, createdById: string) => {
+  assertGrantTypesAllowed(data.grantTypes, data.isConfidential);
+
+  const clientSecret = data.isConfidential ? generateSecret() : undefined;
+  const client = await prisma.oAuthClient.create({
+    data: {
+      clientId: crypto.randomUUID(),
+      clientSecretHash: clientSecret ? hashSecret(clientSecret) : null,
+      name: data.name,
+      redirectUris: data.redirectUris,
+      grantTypes: data.grantTypes,
+      scopes: data.scopes,
+      createdById,
+    },
+    select: publicFields,
+  });
+
+  return { client: { ...client, isConfidential: data.isConfidential }, clientSecret };
+};
+
+/**
+ * List registered clients
+ * @returns {Promise<Object[]>}
+ */
+const listClients = async () => {
+  const clients = await prisma.oAuthClient.findMany({
+    select: { ...publicFields, clientSecretHash: true },
+    orderBy: { createdAt: 'desc' },
+  });
+  return clients.map(({ clientSecretHash, ...client }: any) => ({
+    ...client,
+    isConfidential: !!clientSecretHash,
+  }));
+};
+
+/**
+ * Get a client by its public client ID, including the secret hash
+ * @param {string} clientId
+ * @returns {Promise<Object | null>}
+ */
+const getClientByClientId = async (clientId: string) => {
+  return prisma.oAuthClient.findUnique({ where: { clientId } });
+};
+
+/**
+ * Get a registered client
+ * @param {string} clientId
+ * @returns {Promise<Object>}
+ */
+const getClient = async (clientId: string) => {
+  const client = await getClientByClientId(clientId);
+  if (!client) {
+    throw new ApiError(httpStatus.NOT_FOUND, 'OAuth client not found');
+  }
+  const { clientSecretHash, ...rest } = client;
+  return { ...rest, isConfidential: !!clientSecretHash };
+};
+
+/**
+ * Update a client
+ * @param {string} clientId
+ * @param {UpdateOAuthClient} data
+ * @returns {Promise<Object>}
+ */
+const updateClient = async (clientId: string, data: UpdateOAuthClient) => {
+  const client = await getClient(clientId);
+  if (data.grantTypes) {
+    assertGrantTypesAllowed(data.grantTypes, client.isConfidential);
+  }
+
+  await prisma.oAuthClient.update({ where: { clientId }, data });
+
+  // Tokens issued while the client was active stop working once it is disabled
+  if (data.isActive === false) {
+    await prisma.oAuthToken.updateMany({
+      where: { clientId: client.id, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+  }
+
+  return getClient(clientId);
+};
+
+/**
+ * Issue a new secret for a confidential client. The previous secret stops working immediately.
+ * @param {string} clientId
+ * @returns {Promise<{ clientId: string; clientSecret: string }>}
+ */
+const rotateClientSecret = async (clientId: string) => {
+  const client = await getClient(clientId);
+  if (!client.isConfidential) {
+    throw new ApiError(httpStatus.BAD_REQUEST, 'Public clients have no secret');
+  }
+
+  const clientSecret = generateSecret();
+  await prisma.oAuthClient.update({
+    where: { clientId },
+    data: { clientSecretHash: hashSecret(clientSecret) },
+  });
+  return { clientId, clientSecret };
+};
+
+/**
+ * Delete a client together with its codes and tokens
+ * @param {string} clientId
+ */
+const deleteClient = async (clientId: string) => {
+  await getClient(clientId);
+  await prisma.oAuthClient.delete({ where: { clientId } });
+};
+
+/**
+ * Authenticate the client calling the token, introspection or revocation endpoint, with
+ * HTTP Basic credentials or client_secret_post. Public clients send only their client ID.
+ * @param {Request} req
+ * @returns {Promise<Object>} the active client
+ */
+const authenticateClient = async (req: Request) => {
+  let clientId: string | undefined = req.body?.client_id;
+  let clientSecret: string | undefined = req.body?.client_secret;
+
+  const authorization = req.get('Authorization');
+  if (authorization?.startsWith('Basic ')) {
+    const decoded = Buffer.from(authorization.slice(6), 'base64').toString();
+    const separator = decoded.indexOf(':');
+    if (separator > 0) {
+      clientId = decodeURIComponent(decoded.slice(0, separator));
+      clientSecret = decodeURIComponent(decoded.slice(separator + 1));
+    }
+  }
+
+  const invalidClient = new OAuthError(
+    'invalid_client',
+    'Client authentication failed',
+    httpStatus.UNAUTHORIZED
+  );
+  if (!clientId) {
+    throw invalidClient;
+  }
+
+  const client = await getClientByClientId(clientId);
+  if (!client || !client.isActive) {
+    throw invalidClient;
+  }
+
+  if (client.clientSecretHash) {
+    const expected = Buffer.from(client.clientSecretHash, 'hex');
+    const actual = Buffer.from(hashSecret(clientSecret || ''), 'hex');
+    if (!clientSecret || !crypto.timingSafeEqual(expected, actual)) {
+      throw invalidClient;
+    }
+  }
+
+  return client;
+};
+
+export default {
+  createClient,
+  listClients,
+  getClientByClientId,
+  getClient,
+  updateClient,
+  rotateClientSecret,
+  deleteClient,
+  authenticateClient,
+};
@@ -0,0 +1,412 @@
+import crypto from 'crypto';
+import httpStatus from 'http-status';
+import jwt from 'jsonwebtoken';
+import config from '../config/config';
+import logger from '../config/logger';
+import ApiError from '../utils/ApiError';
+import { decryptSecret, encryptSecret } from '../utils/encryption';
+
+/**
+ * OIDC Service
+ * Sign-in through any OpenID Connect provider listed in OIDC_PROVIDERS (Microsoft, GitLab,
+ * Keycloak, ...). Endpoints and signing keys come from the issuer's discovery document, so a new
+ * provider only needs configuration. Uses the authorization code flow with PKCE, a nonce, and a
+ * state bound to the browser through an encrypted cookie.
+ */
+
+export type OidcProvider = (typeof config.oidc.providers)[number];
+
+export interface OidcProfile {
+  id: string;
+  email: string;
+  name?: string;
+  avatar?: string;
+  provider: string;
+  providerId: string;
+  accessToken?: string;
+  refreshToken?: string;
+  expiresIn?: number;
+  scope?: string;
+}
+
+interface ProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  userinfo_endpoint?: string;
+  jwks_uri: string;
+  revocation_endpoint?: string;
+  id_token_signing_alg_values_supported?: string[];
+  token_endpoint_auth_methods_supported?: string[];
+}
+
+interface Jwk extends crypto.webcrypto.JsonWebKey {
+  kid?: string;
+}
+
+interface AuthorizationState {
+  provider: string;
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  expiresAt: number;
+}
+
+export const STATE_COOKIE = 'oidc_state';
+export const STATE_TTL_MS = 10 * 60 * 1000;
+
+// Discovery documents are cached and refetched periodically to follow provider changes
+const METADATA_CACHE_TTL_MS = 60 * 60 * 1000;
+// An unknown kid forces a JWKS reload at most this often
+const JWKS_RELOAD_INTERVAL_MS = 60 * 1000;
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+// ID tokens signed with a shared secret or not at all are never accepted
+const ASYMMETRIC_ALGORITHMS: jwt.Algorithm[] = [
+  'RS256',
+  'RS384',
+  'RS512',
+  'PS256',
+  'PS384',
+  'PS512',
+  'ES256',
+  'ES384',
+  'ES512',
+];
+
+const metadataCache = new Map<string, { metadata: ProviderMetadata; fetchedAt: number }>();
+const jwksCache = new Map<string, { keys: Jwk[]; fetchedAt: number }>();
+
+const loginFailed = (message: string) => new ApiError(httpStatus.UNAUTHORIZED, message);
+
+/**
+ * Fetch a JSON document from a provider
+ * @param {string} url
+ * @param {RequestInit} [init]
+ * @returns {Promise<any>}
+ */
+const fetchJson = async (url: string, init?: RequestInit): Promise<any> => {
+  const response = await fetch(url, {
+    ...init,
+    headers: { Accept: 'application/json', ...init?.headers },
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    logger.warn('OIDC provider request failed', { url, status: response.status, body });
+    throw loginFailed('The identity provider rejected the request');
+  }
+  return body;
+};
+
+/**
+ * Configured providers, without their secrets
+ * @returns {{ name: string; displayName: string }[]}
+ */
+const listProviders = () =>
+  config.oidc.providers.map(({ name, displayName }) => ({ name, displayName }));
+
+/**
+ * Get a configured provider by name
+ * @param {string} name
+ * @returns {OidcProvider | undefined}
+ */
+const getProvider = (name: string) => config.oidc.providers.find(p => p.name === name);
+
+/**
+ * Callback URL registered at the provider
+ * @param {OidcProvider} provider
+ * @returns {string}
+ */
+const getCallbackUrl = (provider: OidcProvider) =>
+  `${config.apiUrl}/v1/auth/${provider.name}/callback`;
+
+/**
+ * Load a provider's discovery document
+ * @param {OidcProvider} provider
+ * @returns {Promise<ProviderMetadata>}
+ */
+const discover = async (provider: OidcProvider): Promise<ProviderMetadata> => {
+  const cached = metadataCache.get(provider.name);
+  if (cached && Date.now() - cached.fetchedAt < METADATA_CACHE_TTL_MS) {
+    return cached.metadata;
+  }
+
+  const metadata: ProviderMetadata = await fetchJson(
+    `${provider.issuer.replace(/\/$/, '')}/.well-known/openid-configuration`
+  );
+  // The document must describe the configured issuer, or ID tokens could come from anyone
+  if (metadata.issuer !== provider.issuer) {
+    throw new ApiError(
+      httpStatus.BAD_GATEWAY,
+      `Discovery document of ${provider.name} names a different issuer`
+    );
+  }
+
+  metadataCache.set(provider.name, { metadata, fetchedAt: Date.now() });
+  return metadata;
+};
+
+/**
+ * Find the provider key that signed an ID token
+ * @param {OidcProvider} provider
+ * @param {ProviderMetadata} metadata
+ * @param {string} [kid]
+ * @returns {Promise<crypto.KeyObject>}
+ */
+const getSigningKey = async (provider: OidcProvider, metadata: ProviderMetadata, kid?: string) => {
+  const findKey = (keys: Jwk[]) => {
+    const signingKeys = keys.filter(key => !key.use || key.use === 'sig');
+    return kid
+      ? signingKeys.find(key => key.kid === kid)
+      : signingKeys.length === 1
+        ? signingKeys[0]
+        : undefined;
+  };
+
+  let cached = jwksCache.get(provider.name);
+  let jwk = cached && findKey(cached.keys);
+  // The provider may have rotated its keys since they were fetched
+  if (!jwk && (!cached || Date.now() - cached.fetchedAt >= JWKS_RELOAD_INTERVAL_MS)) {
+    const { keys = [] } = await fetchJson(metadata.jwks_uri);
+    cached = { keys, fetchedAt: Date.now() };
+    jwksCache.set(provider.name, cached);
+    jwk = findKey(keys);
+  }
+  if (!jwk) {
+    throw loginFailed('ID token is signed with an unknown key');
+  }
+
+  return crypto.createPublicKey({ key: jwk, format: 'jwk' });
+};
+
+/**
+ * Start a login: build the provider's authorization URL and the encrypted state to store in a
+ * cookie until the callback
+ * @param {string} providerName
+ * @returns {Promise<{ url: string; state: string }>}
+ */
+const createAuthorizationRequest = async (providerName: string) => {
+  const provider = getProvider(providerName);
+  if (!provider) {
+    throw new ApiError(httpStatus.NOT_FOUND, 'Unknown identity provider');
+  }
+  const metadata = await discover(provider);
+
+  const authState: AuthorizationState = {
+    provider: provider.name,
+    state: crypto.randomBytes(16).toString('base64url'),
+    nonce: crypto.randomBytes(16).toString('base64url'),
+    codeVerifier: crypto.randomBytes(32).toString('base64url'),
+    expiresAt: Date.now() + STATE_TTL_MS,
+  };
+
+  const url = new URL(metadata.authorization_endpoint);
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('client_id', provider.clientId);
+  url.searchParams.set('redirect_uri', getCallbackUrl(provider));
+  url.searchParams.set('scope', provider.scopes);
+  url.searchParams.set('state', authState.state);
+  url.searchParams.set('nonce', authState.nonce);
+  url.searchParams.set(
+    'code_challenge',
+    crypto.createHash('sha256').update(authState.codeVerifier).digest('base64url')
+  );
+  url.searchParams.set('code_challenge_method', 'S256');
+
+  return {
+    url: url.toString(),
+    state: encryptSecret(JSON.stringify(authState), config.jwt.secret),
+  };
+};
+
+/**
+ * Read the state stored when the login started
+ * @param {string} [encryptedState]
+ * @returns {AuthorizationState | null}
+ */
+const readState = (encryptedState?: string): AuthorizationState | null => {
+  if (!encryptedState) {
+    return null;
+  }
+  try {
+    return JSON.parse(decryptSecret(encryptedState, config.jwt.secret));
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Whether the client authenticates at the token endpoint with HTTP Basic rather than in the body
+ * @param {OidcProvider} provider
+ * @param {ProviderMetadata} metadata
+ * @returns {boolean}
+ */
+const usesBasicAuth = (provider: OidcProvider, metadata: ProviderMetadata) => {
+  // client_secret_basic is the default when the provider does not list its methods
+  const authMethods = metadata.token_endpoint_auth_methods_supported || ['client_secret_basic'];
+  return !!provider.clientSecret && authMethods.includes('client_secret_basic');
+};
+
+/**
+ * Redeem the authorization code
+ * @param {OidcProvider} provider
+ * @param {ProviderMetadata} metadata
+ * @param {string} code
+ * @param {string} codeVerifier
+ * @returns {Promise<any>} the provider's token response
+ */
+const exchangeCode = async (
+  provider: OidcProvider,
+  metadata: ProviderMetadata,
+  code: string,
+  codeVerifier: string
+) => {
+  const body = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: getCallbackUrl(provider),
+    code_verifier: codeVerifier,
+  });
+  const headers: Record<string, string> = { 'Content-Type': 'application/x-www-form-urlencoded' };
+
+  if (usesBasicAuth(provider, metadata)) {
+    const credentials = `${encodeURIComponent(provider.clientId)}:${encodeURIComponent(provider.clientSecret!)}`;
+    headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+  } else {
+    body.set('client_id', provider.clientId);
+    if (provider.clientSecret) {
+      body.set('client_secret', provider.clientSecret);
+    }
+  }
+
+  return fetchJson(metadata.token_endpoint, { method: 'POST', headers, body });
+};
+
+/**
+ * Client credentials and endpoints used to refresh and revoke a provider's tokens outside a login
+ * @param {string} providerName
+ * @returns {Promise<Object | null>} null when the provider is no longer configured
+ */
+const getTokenClient = async (providerName: string) => {
+  const provider = getProvider(providerName);
+  if (!provider) {
+    return null;
+  }
+  const metadata = await discover(provider);
+  return {
+    clientId: provider.clientId,
+    clientSecret: provider.clientSecret,
+    tokenEndpoint: metadata.token_endpoint,
+    revocationEndpoint: metadata.revocation_endpoint,
+    basicAuth: usesBasicAuth(provider, metadata),
+  };
+};
+
+/**
+ * Finish a login on the provider's callback: check the state, redeem the code and verify the ID
+ * token
+ * @param {string} providerName
+ * @param {Record<string, any>} params - callback query parameters
+ * @param {string} [encryptedState] - state cookie set when the login started
+ * @returns {Promise<OidcProfile>}
+ */
+const completeAuthorization = async (
+  providerName: string,
+  params: Record<string, any>,
+  encryptedState?: string
+): Promise<OidcProfile> => {
+  const provider = getProvider(providerName);
+  if (!provider) {
+    throw new ApiError(httpStatus.NOT_FOUND, 'Unknown identity provider');
+  }
+
+  const authState = readState(encryptedState);
+  if (
+    !authState ||
+    authState.provider !== provider.name ||
+    authState.expiresAt < Date.now() ||
+    typeof params.state !== 'string' ||
+    params.state !== authState.state
+  ) {
+    throw loginFailed('Login session expired or is invalid. Please try again.');
+  }
+  if (params.error) {
+    logger.info('OIDC provider returned an error', {
+      provider: provider.name,
+      error: params.error,
+      description: params.error_description,
+    });
+    throw loginFailed('Sign-in with the identity provider was not completed');
+  }
+  if (typeof params.code !== 'string' || !params.code) {
+    throw loginFailed('Authorization code is missing');
+  }
+
+  const metadata = await discover(provider);
+  const tokens = await exchangeCode(provider, metadata, params.code, authState.codeVerifier);
+  if (!tokens.id_token) {
+    throw loginFailed('The identity provider did not return an ID token');
+  }
+
+  const decoded = jwt.decode(tokens.id_token, { complete: true });
+  const allowedAlgorithms = ASYMMETRIC_ALGORITHMS.filter(algorithm =>
+    (metadata.id_token_signing_alg_values_supported || ['RS256']).includes(algorithm)
+  );
+  if (!decoded || !allowedAlgorithms.includes(decoded.header.alg as jwt.Algorithm)) {
+    throw loginFailed('ID token is invalid');
+  }
+
+  const key = await getSigningKey(provider, metadata, decoded.header.kid);
+  let claims: jwt.JwtPayload;
+  try {
+    claims = jwt.verify(tokens.id_token, key, {
+      algorithms: allowedAlgorithms,
+      issuer: metadata.issuer,
+      audience: provider.clientId,
+      nonce: authState.nonce,
+    }) as jwt.JwtPayload;
+  } catch (error) {
+    logger.warn('OIDC ID token rejected', { provider: provider.name, error: error.message });
+    throw loginFailed('ID token is invalid');
+  }
+
+  // Some providers only release profile claims at the UserInfo endpoint
+  if (!claims.email && metadata.userinfo_endpoint && tokens.access_token) {
+    const userInfo = await fetchJson(metadata.userinfo_endpoint, {
+      headers: { Authorization: `Bearer ${tokens.access_token}` },
+    });
+    if (userInfo.sub === claims.sub) {
+      claims = { ...userInfo, ...claims };
+    }
+  }
+
+  // Accounts are matched by email, so an unverified address could take over someone else's
+  if (!claims.email) {
+    throw loginFailed('The identity provider did not share an email address');
+  }
+  if (claims.email_verified !== true && claims.email_verified !== 'true') {
+    throw loginFailed('The identity provider has not verified this email address');
+  }
+
+  return {
+    id: claims.sub as string,
+    email: String(claims.email).toLowerCase(),
+    name: claims.name,
+    avatar: claims.picture,
+    provider: provider.name,
+    providerId: claims.sub as string,
+    accessToken: tokens.access_token,
+    refreshToken: tokens.refresh_token,
+    expiresIn: tokens.expires_in,
+    scope: tokens.scope || provider.scopes,
+  };
+};
+
+export default {
+  listProviders,
+  getProvider,
+  getCallbackUrl,
+  createAuthorizationRequest,
+  completeAuthorization,
+  getTokenClient,
+};
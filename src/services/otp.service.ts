@@ -1,4 +1,5 @@
 import { PrismaClient, OtpType } from '@prisma/client';
+import crypto from 'crypto';
 import moment from 'moment';
 import jwt from 'jsonwebtoken';
 import config from '../config/config';
@@ -9,7 +10,7 @@ const OTP_EXPIRY_MINUTES = 5;
 const OTP_VERIFICATION_TOKEN_EXPIRY = '15m'; // 15 minutes for verification token
 
 function generateOtp(): string {
-  return Math.floor(100000 + Math.random() * 900000).toString(); // 6-digit
+  return crypto.randomInt(100000, 1000000).toString(); // 6-digit
 }
 
 /**
@@ -195,6 +196,53 @@ export async function verifyPasswordResetOtpByEmail(email: string, otp: string)
   return await verifyPasswordResetOtp(user.id, otp);
 }
 
+/**
+ * Create a two-factor code for the email or SMS channel, replacing any unused one
+ * @param {string} userId
+ * @param {OtpType} type - TWO_FACTOR_EMAIL or TWO_FACTOR_SMS
+ * @returns {Promise<string>} the code to deliver
+ */
+export async function createTwoFactorOtp(userId: string, type: OtpType) {
+  await prisma.otp.updateMany({
+    where: { userId, type, consumed: false },
+    data: { consumed: true },
+  });
+
+  const otp = generateOtp();
+  await prisma.otp.create({
+    data: {
+      userId,
+      otp,
+      type,
+      expiresAt: moment().add(OTP_EXPIRY_MINUTES, 'minutes').toDate(),
+      consumed: false,
+    },
+  });
+  return otp;
+}
+
+/**
+ * Verify and consume a two-factor code
+ * @param {string} userId
+ * @param {OtpType} type - TWO_FACTOR_EMAIL or TWO_FACTOR_SMS
+ * @param {string} otp
+ * @returns {Promise<boolean>}
+ */
+export async function verifyTwoFactorOtp(userId: string, type: OtpType, otp: string) {
+  const otpRecord = await prisma.otp.findFirst({
+    where: {
+      userId,
+      otp,
+      type,
+      consumed: false,
+      expiresAt: { gt: new Date() },
+    },
+  });
+  if (!otpRecord) return false;
+  await prisma.otp.update({ where: { id: otpRecord.id }, data: { consumed: true } });
+  return true;
+}
+
 /**
  * Generate OTP verification token
  * @param {string} userId
@@ -38,6 +38,15 @@ class PasswordPolicyService {
     });
   }
 
+  /**
+   * Get password policy by ID
+   */
+  async getPolicyById(id: string): Promise<PasswordPolicy | null> {
+    return await prisma.passwordPolicy.findUnique({
+      where: { id },
+    });
+  }
+
   /**
    * Create password policy
    */
@@ -3,6 +3,7 @@ import prisma from '../client';
 import bcrypt from 'bcryptjs';
 import ApiError from '../utils/ApiError';
 import httpStatus from 'http-status';
+import tokenService from './token.service';
 
 const PASSWORD_HISTORY_LIMIT = 5;
 const PASSWORD_EXPIRY_DAYS = 90;
@@ -255,6 +256,10 @@ const updatePassword = async (userId: string, newPassword: string): Promise<void
       passwordChangedAt: new Date(),
     },
   });
+
+  // Every session signed in with the old password ends: refresh tokens of all families, OAuth
+  // grants and access tokens stop working immediately
+  await tokenService.revokeAllUserTokens(userId);
 };
 
 /**
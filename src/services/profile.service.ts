@@ -2,8 +2,13 @@ import ApiError from '../utils/ApiError';
 import httpStatus from 'http-status';
 import pick from '../utils/pick';
 import userActivityService from './userActivity.service';
+import accountErasureService from './accountErasure.service';
+import notificationPreferenceService from './notificationPreference.service';
+import {
+  LegacyNotificationSettings,
+  NotificationPreferencesUpdate,
+} from '../types/notification.types';
 import prisma from '../client';
-import { ActivityType } from '@prisma/client';
 
 export interface ProfileUpdateData {
   name?: string;
@@ -18,12 +23,12 @@ export interface ProfileUpdateData {
   gender?: string;
 }
 
-export interface PreferencesUpdateData {
-  emailNotifications?: boolean;
+export interface PreferencesUpdateData extends LegacyNotificationSettings {
   smsNotifications?: boolean;
   marketingEmails?: boolean;
   loginAlerts?: boolean;
   securityUpdates?: boolean;
+  notifications?: NotificationPreferencesUpdate;
 }
 
 export interface PrivacySettingsData {
@@ -140,6 +145,14 @@ export class ProfileService {
       throw new ApiError(httpStatus.NOT_FOUND, 'User not found');
     }
 
+    const notificationsUpdate = notificationPreferenceService.fromLegacySettings(
+      data,
+      data.notifications
+    );
+    const notifications = notificationsUpdate
+      ? await notificationPreferenceService.updatePreferences(userId, notificationsUpdate)
+      : undefined;
+
     // Log preference update activity
     await userActivityService.createActivity({
       userId,
@@ -149,7 +162,7 @@ export class ProfileService {
       ipAddress,
     });
 
-    return { id: user.id, updatedAt: user.updatedAt };
+    return { id: user.id, updatedAt: user.updatedAt, notifications };
   }
 
   /**
@@ -190,7 +203,6 @@ export class ProfileService {
       where: { id: userId },
       select: {
         id: true,
-        emailNotifications: true,
         preferences: true,
       },
     });
@@ -199,7 +211,10 @@ export class ProfileService {
       throw new ApiError(httpStatus.NOT_FOUND, 'User not found');
     }
 
-    return user;
+    return {
+      ...user,
+      notifications: await notificationPreferenceService.getPreferences(userId),
+    };
   }
 
   /**
@@ -242,34 +257,17 @@ export class ProfileService {
   }
 
   /**
-   * Delete user account (soft delete)
+   * Request deletion of the account; erasure runs once the grace period has passed
    */
-  static async deleteAccount(userId: string, reason?: string, ipAddress?: string) {
-    // For now, we'll just mark the user as inactive
-    // In a real implementation, you might want to implement soft delete
-    const user = await prisma.user.update({
-      where: { id: userId },
-      data: {
-        isActive: false,
-        isLocked: true,
-      },
-      select: {
-        id: true,
-        email: true,
-        updatedAt: true,
-      },
-    });
-
-    // Log account deletion activity
-    await userActivityService.createActivity({
-      userId,
-      activityType: ActivityType.ACCOUNT_LOCKED,
-      description: 'Account deleted',
-      metadata: { reason },
-      ipAddress,
-    });
+  static async deleteAccount(userId: string, password: string, ipAddress?: string) {
+    return await accountErasureService.requestErasure(userId, password, ipAddress);
+  }
 
-    return { id: user.id, email: user.email, deletedAt: new Date() };
+  /**
+   * Cancel a pending account deletion
+   */
+  static async cancelAccountDeletion(userId: string, ipAddress?: string) {
+    await accountErasureService.cancelErasure(userId, ipAddress);
   }
 
   /**
@@ -0,0 +1,161 @@
+import Redis from 'ioredis';
+import { NotificationType } from '@prisma/client';
+import logger from '../config/logger';
+import cacheService, { CacheKeys } from './cache.service';
+
+/**
+ * Realtime Service
+ * Fans WebSocket and notification stream events out to every API instance through Redis
+ * pub/sub, so an event raised on one worker reaches clients held by another, and tracks
+ * connected users across instances. Without Redis, events only reach the clients of the
+ * instance that raised them.
+ */
+
+export interface RealtimeEvent {
+  // User whose sockets receive the event; every socket when not set
+  userId?: string;
+  // Socket the event came from, which already has it
+  excludeConnectionId?: string;
+  // Notification type, for sockets subscribed to some types only
+  notificationType?: NotificationType;
+  // Stored notification the event announces
+  notificationId?: string;
+  message: any;
+}
+
+type EventHandler = (event: RealtimeEvent) => void;
+
+const CHANNEL = 'ws:events';
+// Connections not refreshed within this time belonged to an instance that stopped
+export const PRESENCE_TTL_SECONDS = 90;
+
+const eventHandlers = new Set<EventHandler>();
+let subscriber: Redis | null = null;
+
+/**
+ * Hand an event to every handler of this instance
+ * @param {RealtimeEvent} event
+ */
+const dispatch = (event: RealtimeEvent) => {
+  for (const handler of eventHandlers) {
+    try {
+      handler(event);
+    } catch (error) {
+      logger.error('Failed to deliver realtime event', { error });
+    }
+  }
+};
+
+/**
+ * Receive the events published by every instance
+ * @param {EventHandler} onEvent - delivers an event to this instance's clients
+ * @returns {Function} stops handing events to onEvent
+ */
+const subscribe = (onEvent: EventHandler) => {
+  eventHandlers.add(onEvent);
+  const unsubscribe = () => {
+    eventHandlers.delete(onEvent);
+  };
+  if (subscriber) {
+    return unsubscribe;
+  }
+
+  subscriber = cacheService.createSubscriber();
+  subscriber.on('message', (channel: string, raw: string) => {
+    if (channel !== CHANNEL) {
+      return;
+    }
+    try {
+      dispatch(JSON.parse(raw));
+    } catch (error) {
+      logger.error('Failed to parse realtime event', { error });
+    }
+  });
+  // Subscribe on every (re)connection; Redis may be down when the server starts
+  subscriber.on('ready', () => {
+    subscriber
+      ?.subscribe(CHANNEL)
+      .catch(error => logger.error('Realtime channel subscription failed', { error }));
+  });
+  subscriber.connect().catch(error => {
+    logger.warn('Realtime pub/sub unavailable; events reach this instance only', { error });
+  });
+  return unsubscribe;
+};
+
+/**
+ * Publish an event to the clients of every instance
+ * @param {RealtimeEvent} event
+ * @returns {Promise<void>}
+ */
+const publish = async (event: RealtimeEvent) => {
+  const published = await cacheService.publish(CHANNEL, event);
+  if (!published) {
+    dispatch(event);
+  }
+};
+
+/**
+ * Record a socket connection of a user, or renew it before it expires
+ * @param {string} userId
+ * @param {string} connectionId
+ * @returns {Promise<void>}
+ */
+const trackConnection = async (userId: string, connectionId: string) => {
+  const expiresAt = Date.now() + PRESENCE_TTL_SECONDS * 1000;
+  await cacheService.zadd(
+    CacheKeys.WS_USER_CONNECTIONS(userId),
+    expiresAt,
+    connectionId,
+    PRESENCE_TTL_SECONDS
+  );
+  await cacheService.zadd(CacheKeys.WS_ONLINE_USERS, expiresAt, userId);
+};
+
+/**
+ * Forget a closed socket connection; the user goes offline with their last one
+ * @param {string} userId
+ * @param {string} connectionId
+ * @returns {Promise<void>}
+ */
+const untrackConnection = async (userId: string, connectionId: string) => {
+  const key = CacheKeys.WS_USER_CONNECTIONS(userId);
+  await cacheService.zrem(key, connectionId);
+  if ((await cacheService.zcardFrom(key, Date.now())) === 0) {
+    await cacheService.zrem(CacheKeys.WS_ONLINE_USERS, userId);
+  }
+};
+
+/**
+ * Open socket connections of a user across all instances
+ * @param {string} userId
+ * @returns {Promise<number | null>} null when Redis is unavailable
+ */
+const countUserConnections = (userId: string) =>
+  cacheService.zcardFrom(CacheKeys.WS_USER_CONNECTIONS(userId), Date.now());
+
+/**
+ * Users with at least one open socket connection across all instances
+ * @returns {Promise<number | null>} null when Redis is unavailable
+ */
+const countOnlineUsers = () => cacheService.zcardFrom(CacheKeys.WS_ONLINE_USERS, Date.now());
+
+/**
+ * Stop receiving events
+ * @returns {Promise<void>}
+ */
+const close = async () => {
+  eventHandlers.clear();
+  await subscriber?.quit().catch(() => undefined);
+  subscriber = null;
+};
+
+export default {
+  subscribe,
+  publish,
+  trackConnection,
+  untrackConnection,
+  countUserConnections,
+  countOnlineUsers,
+  close,
+};
@@ -0,0 +1,359 @@
+import fs from 'fs';
+import httpStatus from 'http-status';
+import { CacheProvider, Profile, SAML, ValidateInResponseTo } from '@node-saml/node-saml';
+import prisma from '../client';
+import config from '../config/config';
+import logger from '../config/logger';
+import ApiError from '../utils/ApiError';
+import RbacService from './rbac.service';
+import cacheService, { CacheKeys, CacheTTL } from './cache.service';
+import samlConnectionService, {
+  DEFAULT_ATTRIBUTE_MAPPING,
+  SAML_PROVIDER_PREFIX,
+} from './samlConnection.service';
+import { SamlAttributeMapping, SamlProfileField, SamlRoleMapping } from '../types/saml.types';
+
+/**
+ * SAML Service
+ * SAML 2.0 Web Browser SSO through the connections of samlConnection.service, with this API as
+ * the service provider. Users are sent to the IdP with a signed AuthnRequest, or arrive with an
+ * unsolicited response when the connection allows IdP-initiated login. Signed assertions are
+ * mapped onto a user, provisioned just in time, whose RBAC roles follow their IdP groups.
+ */
+
+const rbacService = new RbacService();
+
+// How long an AuthnRequest stays answerable
+const REQUEST_TTL_SECONDS = CacheTTL.LONG;
+// Assertions older than this are refused, so their IDs only need remembering this long
+const MAX_ASSERTION_AGE_SECONDS = CacheTTL.HOUR;
+const CLOCK_SKEW_MS = 60 * 1000;
+
+const UNSPECIFIED_NAMEID_FORMAT = 'urn:oasis:names:tc:SAML:1.1:nameid-format:unspecified';
+const EMAIL_NAMEID_FORMAT = 'urn:oasis:names:tc:SAML:1.1:nameid-format:emailAddress';
+const TRANSIENT_NAMEID_FORMAT = 'urn:oasis:names:tc:SAML:2.0:nameid-format:transient';
+
+let spCredentials: { privateKey: string; certificate: string } | null | undefined;
+
+/**
+ * Load the key pair signing AuthnRequests and metadata, once
+ * @returns {{ privateKey: string; certificate: string } | null}
+ */
+const getSpCredentials = () => {
+  if (spCredentials === undefined) {
+    const { spPrivateKeyFile, spCertificateFile } = config.saml;
+    if (spPrivateKeyFile && spCertificateFile) {
+      spCredentials = {
+        privateKey: fs.readFileSync(spPrivateKeyFile, 'utf8'),
+        certificate: fs.readFileSync(spCertificateFile, 'utf8'),
+      };
+    } else {
+      logger.warn('SAML SP key pair not configured; AuthnRequests and metadata are not signed');
+      spCredentials = null;
+    }
+  }
+  return spCredentials;
+};
+
+/**
+ * SP entity ID of a connection, which is also where its metadata is served
+ * @param {string} slug
+ * @returns {string}
+ */
+const getSpEntityId = (slug: string) => `${config.apiUrl}/v1/auth/saml/${slug}/metadata`;
+
+/**
+ * Assertion Consumer Service URL of a connection
+ * @param {string} slug
+ * @returns {string}
+ */
+const getAcsUrl = (slug: string) => `${config.apiUrl}/v1/auth/saml/${slug}/acs`;
+
+/**
+ * Keep outstanding AuthnRequest IDs in Redis so any instance can accept the response
+ * @param {string} connectionId
+ * @returns {CacheProvider}
+ */
+const createRequestCache = (connectionId: string): CacheProvider => ({
+  saveAsync: async (requestId, value) => {
+    const saved = await cacheService.set(CacheKeys.SAML_REQUEST(connectionId, requestId), value, {
+      ttl: REQUEST_TTL_SECONDS,
+    });
+    return saved ? { value, createdAt: Date.now() } : null;
+  },
+  getAsync: requestId => cacheService.get<string>(CacheKeys.SAML_REQUEST(connectionId, requestId)),
+  removeAsync: async requestId => {
+    if (!requestId) {
+      return null;
+    }
+    const key = CacheKeys.SAML_REQUEST(connectionId, requestId);
+    const value = await cacheService.get<string>(key);
+    await cacheService.del(key);
+    return value;
+  },
+});
+
+/**
+ * Service provider for a connection
+ * @param {Object} connection
+ * @returns {SAML}
+ */
+const createServiceProvider = (connection: any) => {
+  const credentials = getSpCredentials();
+  return new SAML({
+    issuer: getSpEntityId(connection.slug),
+    audience: getSpEntityId(connection.slug),
+    callbackUrl: getAcsUrl(connection.slug),
+    entryPoint: connection.idpSsoUrl,
+    idpIssuer: connection.idpEntityId,
+    idpCert: connection.idpCertificates,
+    identifierFormat: UNSPECIFIED_NAMEID_FORMAT,
+    // Let the IdP choose how users authenticate, including MFA
+    disableRequestedAuthnContext: true,
+    wantAssertionsSigned: true,
+    // Most IdPs sign only the assertion
+    wantAuthnResponseSigned: false,
+    // Unsolicited responses are only accepted when IdP-initiated login is allowed
+    validateInResponseTo: connection.allowIdpInitiated
+      ? ValidateInResponseTo.ifPresent
+      : ValidateInResponseTo.always,
+    requestIdExpirationPeriodMs: REQUEST_TTL_SECONDS * 1000,
+    maxAssertionAgeMs: MAX_ASSERTION_AGE_SECONDS * 1000,
+    acceptedClockSkewMs: CLOCK_SKEW_MS,
+    cacheProvider: createRequestCache(connection.id),
+    ...(credentials && {
+      privateKey: credentials.privateKey,
+      publicCert: credentials.certificate,
+      signatureAlgorithm: 'sha256' as const,
+      signMetadata: true,
+    }),
+  });
+};
+
+/**
+ * Read the non-empty values of an assertion attribute
+ * @param {Profile} profile
+ * @param {string} [attribute]
+ * @returns {string[]}
+ */
+const readAttribute = (profile: Profile, attribute?: string): string[] => {
+  const value = attribute ? profile[attribute] : undefined;
+  return (Array.isArray(value) ? value : [value])
+    .filter((item): item is string => typeof item === 'string')
+    .map(item => item.trim())
+    .filter(Boolean);
+};
+
+/**
+ * Map an assertion onto user fields with the connection's attribute mapping
+ * @param {Object} connection
+ * @param {Profile} profile
+ * @returns {{ email: string; fields: Object; groups: string[] }}
+ */
+const mapProfile = (connection: any, profile: Profile) => {
+  const mapping = {
+    ...DEFAULT_ATTRIBUTE_MAPPING,
+    ...(connection.attributeMapping as SamlAttributeMapping),
+  };
+  const first = (field: SamlProfileField) => readAttribute(profile, mapping[field])[0];
+
+  const email = (
+    first('email') ||
+    readAttribute(profile, 'email')[0] ||
+    readAttribute(profile, 'mail')[0] ||
+    (profile.nameIDFormat === EMAIL_NAMEID_FORMAT ? profile.nameID : undefined)
+  )?.toLowerCase();
+  if (!email || !email.includes('@')) {
+    throw new ApiError(
+      httpStatus.UNAUTHORIZED,
+      'The identity provider did not send an email address'
+    );
+  }
+
+  // Accounts are linked by email, so an IdP may only assert the domains it was registered for.
+  // Connections created without domains sign in nobody.
+  const domain = email.split('@').pop() as string;
+  if (!connection.emailDomains.includes(domain)) {
+    throw new ApiError(
+      httpStatus.FORBIDDEN,
+      'This identity provider cannot sign in users of this email domain'
+    );
+  }
+
+  const fullName = [first('firstName'), first('lastName')].filter(Boolean).join(' ');
+  const fields = Object.fromEntries(
+    Object.entries({
+      name: first('name') || fullName,
+      phone: first('phone'),
+      country: first('country'),
+      state: first('state'),
+      city: first('city'),
+    }).filter(([, value]) => value)
+  );
+
+  return { email, fields, groups: readAttribute(profile, mapping.groups) };
+};
+
+/**
+ * Find the user behind an assertion, linking or creating their account on first sign-in
+ * @param {Object} connection
+ * @param {Profile} profile
+ * @param {{ email: string; fields: Object }} mapped
+ * @returns {Promise<User>}
+ */
+const provisionUser = async (
+  connection: any,
+  profile: Profile,
+  { email, fields }: ReturnType<typeof mapProfile>
+) => {
+  const provider = `${SAML_PROVIDER_PREFIX}${connection.slug}`;
+  // Transient name IDs change on every sign-in, so identify those users by email instead
+  const providerId = profile.nameIDFormat === TRANSIENT_NAMEID_FORMAT ? email : profile.nameID;
+
+  const socialAccount = await prisma.socialAccount.findUnique({
+    where: { provider_providerId: { provider, providerId } },
+  });
+
+  let userId = socialAccount?.userId;
+  if (!userId) {
+    let user = await prisma.user.findUnique({ where: { email } });
+    if (!user) {
+      if (!connection.jitProvisioning) {
+        throw new ApiError(
+          httpStatus.FORBIDDEN,
+          'No account exists for this user. Ask an administrator for access.'
+        );
+      }
+      user = await prisma.user.create({
+        data: {
+          email,
+          name: email.split('@')[0],
+          password: '', // Users of SAML connections sign in through their IdP
+          isEmailVerified: true,
+          role: 'USER',
+        },
+      });
+    }
+    await prisma.socialAccount.create({ data: { userId: user.id, provider, providerId } });
+    userId = user.id;
+  }
+
+  // The IdP is the source of truth for the profile fields it sends
+  return prisma.user.update({ where: { id: userId }, data: fields });
+};
+
+/**
+ * Grant the roles mapped from the user's IdP groups and take back those granted by this
+ * connection for groups they have left. Roles assigned by administrators are left alone.
+ * @param {Object} connection
+ * @param {string} userId
+ * @param {string[]} groups
+ */
+const syncRoles = async (connection: any, userId: string, groups: string[]) => {
+  const roleMapping = connection.roleMapping as SamlRoleMapping;
+  if (!Object.keys(roleMapping).length) {
+    return;
+  }
+
+  const assignedBy = `${SAML_PROVIDER_PREFIX}${connection.slug}`;
+  const roleNames = [...new Set(groups.flatMap(group => roleMapping[group] || []))];
+  const roles = roleNames.length
+    ? await prisma.roleModel.findMany({ where: { name: { in: roleNames }, isActive: true } })
+    : [];
+  const granted = await prisma.userRole.findMany({ where: { userId, assignedBy } });
+
+  for (const userRole of granted) {
+    if (!roles.some((role: { id: string }) => role.id === userRole.roleId)) {
+      await rbacService.removeRoleFromUser(userId, userRole.roleId);
+    }
+  }
+
+  for (const role of roles) {
+    if (granted.some((userRole: { roleId: string }) => userRole.roleId === role.id)) {
+      continue;
+    }
+    try {
+      await rbacService.assignRoleToUser({ userId, roleId: role.id }, assignedBy);
+    } catch (error) {
+      // Already assigned by an administrator
+      if (!(error instanceof ApiError && error.statusCode === httpStatus.CONFLICT)) {
+        throw error;
+      }
+    }
+  }
+};
+
+/**
+ * Build the IdP sign-in URL carrying an AuthnRequest (SP-initiated login)
+ * @param {string} slug
+ * @returns {Promise<string>}
+ */
+const createLoginUrl = async (slug: string) => {
+  const connection = await samlConnectionService.getActiveConnection(slug);
+  return createServiceProvider(connection).getAuthorizeUrlAsync('', undefined, {});
+};
+
+/**
+ * Verify a SAML response posted to the ACS and sign its subject in
+ * @param {string} slug
+ * @param {Record<string, string>} body - SAMLResponse and RelayState form fields
+ * @returns {Promise<User>}
+ */
+const completeLogin = async (slug: string, body: Record<string, string>) => {
+  const connection = await samlConnectionService.getActiveConnection(slug);
+
+  let profile: Profile | null;
+  try {
+    ({ profile } = await createServiceProvider(connection).validatePostResponseAsync({
+      SAMLResponse: body.SAMLResponse,
+      RelayState: body.RelayState,
+    }));
+  } catch (error) {
+    logger.warn('SAML response rejected', { connection: slug, error: error.message });
+    profile = null;
+  }
+  if (!profile) {
+    throw new ApiError(httpStatus.UNAUTHORIZED, 'SAML response is invalid or has expired');
+  }
+
+  // An intercepted response must not sign anyone in a second time
+  const assertion = profile.getAssertion?.() as { Assertion?: { $?: { ID?: string } } };
+  const assertionId = assertion?.Assertion?.$?.ID;
+  if (
+    !assertionId ||
+    !(await cacheService.setnx(
+      CacheKeys.SAML_ASSERTION(connection.id, assertionId),
+      true,
+      MAX_ASSERTION_AGE_SECONDS + CLOCK_SKEW_MS / 1000
+    ))
+  ) {
+    throw new ApiError(httpStatus.UNAUTHORIZED, 'SAML response is invalid or has expired');
+  }
+
+  const mapped = mapProfile(connection, profile);
+  const user = await provisionUser(connection, profile, mapped);
+  await syncRoles(connection, user.id, mapped.groups);
+  return user;
+};
+
+/**
+ * SP metadata to register with the IdP, signed when the SP key pair is configured
+ * @param {string} slug
+ * @returns {Promise<string>}
+ */
+const getMetadata = async (slug: string) => {
+  const connection = await samlConnectionService.getActiveConnection(slug);
+  const credentials = getSpCredentials();
+  return createServiceProvider(connection).generateServiceProviderMetadata(
+    null,
+    credentials?.certificate
+  );
+};
+
+export default {
+  getSpEntityId,
+  getAcsUrl,
+  createLoginUrl,
+  completeLogin,
+  getMetadata,
+};
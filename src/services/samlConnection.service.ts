@@ -0,0 +1,291 @@
+import crypto from 'crypto';
+import httpStatus from 'http-status';
+import { DOMParser } from '@xmldom/xmldom';
+import prisma from '../client';
+import ApiError from '../utils/ApiError';
+import {
+  CreateSamlConnection,
+  SamlAttributeMapping,
+  SamlIdpSettings,
+  SamlRoleMapping,
+  UpdateSamlConnection,
+} from '../types/saml.types';
+
+/**
+ * SAML Connection Service
+ * Registry of the enterprise identity providers users can sign in with over SAML 2.0. Each
+ * connection is addressed by its slug and holds the IdP settings, either entered directly or
+ * imported from the IdP metadata, plus how assertion attributes map onto users and roles.
+ */
+
+const METADATA_NS = 'urn:oasis:names:tc:SAML:2.0:metadata';
+const XMLDSIG_NS = 'http://www.w3.org/2000/09/xmldsig#';
+const HTTP_REDIRECT_BINDING = 'urn:oasis:names:tc:SAML:2.0:bindings:HTTP-Redirect';
+const METADATA_TIMEOUT_MS = 10 * 1000;
+
+export const SAML_PROVIDER_PREFIX = 'saml:';
+
+// Attribute names used by Microsoft Entra ID, ADFS, Okta and other common IdPs
+export const DEFAULT_ATTRIBUTE_MAPPING: Required<SamlAttributeMapping> = {
+  email: 'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/emailaddress',
+  name: 'http://schemas.microsoft.com/identity/claims/displayname',
+  firstName: 'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/givenname',
+  lastName: 'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/surname',
+  phone: 'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/mobilephone',
+  country: 'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/country',
+  state: 'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/stateorprovince',
+  city: 'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/locality',
+  groups: 'http://schemas.microsoft.com/ws/2008/06/identity/claims/groups',
+};
+
+/**
+ * Turn a base64 DER or PEM certificate into PEM, rejecting anything that does not parse
+ * @param {string} certificate
+ * @returns {string}
+ */
+const normalizeCertificate = (certificate: string) => {
+  const body = certificate.replace(/-----(BEGIN|END) CERTIFICATE-----/g, '').replace(/\s+/g, '');
+  const pem = `-----BEGIN CERTIFICATE-----\n${body.match(/.{1,64}/g)?.join('\n')}\n-----END CERTIFICATE-----\n`;
+  try {
+    new crypto.X509Certificate(pem);
+  } catch {
+    throw new ApiError(httpStatus.BAD_REQUEST, 'Invalid IdP signing certificate');
+  }
+  return pem;
+};
+
+/**
+ * Read the entity ID, HTTP-Redirect sign-in URL and signing certificates from IdP metadata
+ * @param {string} metadataXml
+ * @returns {SamlIdpSettings}
+ */
+const parseIdpMetadata = (metadataXml: string): SamlIdpSettings => {
+  const invalid = (reason: string) =>
+    new ApiError(httpStatus.BAD_REQUEST, `Invalid IdP metadata: ${reason}`);
+
+  const errors: string[] = [];
+  const document = new DOMParser({
+    errorHandler: (level: string, message: string) => {
+      if (level !== 'warning') {
+        errors.push(message);
+      }
+    },
+  }).parseFromString(metadataXml, 'text/xml');
+  if (errors.length || !document?.documentElement) {
+    throw invalid('not well-formed XML');
+  }
+
+  // Metadata aggregates may describe several entities; use the first identity provider
+  const descriptor = Array.from(
+    document.getElementsByTagNameNS(METADATA_NS, 'IDPSSODescriptor')
+  )[0];
+  if (!descriptor) {
+    throw invalid('no IDPSSODescriptor found');
+  }
+
+  const idpEntityId = (descriptor.parentNode as Element).getAttribute('entityID');
+  if (!idpEntityId) {
+    throw invalid('missing entityID');
+  }
+
+  const idpSsoUrl = Array.from(
+    descriptor.getElementsByTagNameNS(METADATA_NS, 'SingleSignOnService')
+  )
+    .find(service => service.getAttribute('Binding') === HTTP_REDIRECT_BINDING)
+    ?.getAttribute('Location');
+  if (!idpSsoUrl) {
+    throw invalid('no HTTP-Redirect SingleSignOnService found');
+  }
+
+  // Key descriptors without a use attribute apply to both signing and encryption
+  const idpCertificates = Array.from(
+    descriptor.getElementsByTagNameNS(METADATA_NS, 'KeyDescriptor')
+  )
+    .filter(key => (key.getAttribute('use') || 'signing') === 'signing')
+    .flatMap(key => Array.from(key.getElementsByTagNameNS(XMLDSIG_NS, 'X509Certificate')))
+    .map(certificate => normalizeCertificate(certificate.textContent || ''));
+  if (!idpCertificates.length) {
+    throw invalid('no signing certificate found');
+  }
+
+  return { idpEntityId, idpSsoUrl, idpCertificates: [...new Set(idpCertificates)] };
+};
+
+/**
+ * Download and parse the metadata an IdP publishes
+ * @param {string} metadataUrl
+ * @returns {Promise<SamlIdpSettings>}
+ */
+const fetchIdpMetadata = async (metadataUrl: string) => {
+  let response: globalThis.Response;
+  try {
+    response = await fetch(metadataUrl, { signal: AbortSignal.timeout(METADATA_TIMEOUT_MS) });
+  } catch {
+    throw new ApiError(httpStatus.BAD_REQUEST, 'IdP metadata could not be downloaded');
+  }
+  if (!response.ok) {
+    throw new ApiError(
+      httpStatus.BAD_REQUEST,
+      `IdP metadata could not be downloaded (HTTP ${response.status})`
+    );
+  }
+  return parseIdpMetadata(await response.text());
+};
+
+/**
+ * Combine imported metadata with explicitly given IdP settings, which take precedence
+ * @param {Partial<SamlIdpSettings> & { metadataUrl?: string }} data
+ * @returns {Promise<Partial<SamlIdpSettings> & { idpMetadataUrl?: string }>}
+ */
+const resolveIdpSettings = async (data: Partial<SamlIdpSettings> & { metadataUrl?: string }) => {
+  const fromMetadata = data.metadataUrl ? await fetchIdpMetadata(data.metadataUrl) : {};
+  return {
+    ...fromMetadata,
+    ...(data.idpEntityId && { idpEntityId: data.idpEntityId }),
+    ...(data.idpSsoUrl && { idpSsoUrl: data.idpSsoUrl }),
+    ...(data.idpCertificates && {
+      idpCertificates: data.idpCertificates.map(normalizeCertificate),
+    }),
+    ...(data.metadataUrl && { idpMetadataUrl: data.metadataUrl }),
+  };
+};
+
+/**
+ * Make sure every role named in a role mapping exists
+ * @param {SamlRoleMapping} roleMapping
+ */
+const assertRolesExist = async (roleMapping: SamlRoleMapping) => {
+  const names = [...new Set(Object.values(roleMapping).flat())];
+  if (!names.length) {
+    return;
+  }
+
+  const roles = await prisma.roleModel.findMany({
+    where: { name: { in: names } },
+    select: { name: true },
+  });
+  const missing = names.filter(name => !roles.some((role: { name: string }) => role.name === name));
+  if (missing.length) {
+    throw new ApiError(
+      httpStatus.BAD_REQUEST,
+      `Unknown roles in role mapping: ${missing.join(', ')}`
+    );
+  }
+};
+
+/**
+ * Create a connection
+ * @param {CreateSamlConnection} data
+ * @param {string} createdById
+ * @returns {Promise<Object>}
+ */
+const createConnection = async (data: CreateSamlConnection, createdById: string) => {
+  if (await prisma.samlConnection.findUnique({ where: { slug: data.slug } })) {
+    throw new ApiError(httpStatus.CONFLICT, 'A SAML connection with this slug already exists');
+  }
+
+  const idpSettings = await resolveIdpSettings(data);
+  if (!idpSettings.idpEntityId || !idpSettings.idpSsoUrl || !idpSettings.idpCertificates?.length) {
+    throw new ApiError(
+      httpStatus.BAD_REQUEST,
+      'An IdP metadata URL or the IdP entity ID, sign-in URL and signing certificates are required'
+    );
+  }
+  await assertRolesExist(data.roleMapping || {});
+
+  return prisma.samlConnection.create({
+    data: {
+      slug: data.slug,
+      name: data.name,
+      ...idpSettings,
+      emailDomains: data.emailDomains.map(domain => domain.toLowerCase()),
+      attributeMapping: data.attributeMapping || {},
+      roleMapping: data.roleMapping || {},
+      allowIdpInitiated: data.allowIdpInitiated,
+      jitProvisioning: data.jitProvisioning,
+      createdById,
+    },
+  });
+};
+
+/**
+ * List connections
+ * @returns {Promise<Object[]>}
+ */
+const listConnections = async () => {
+  return prisma.samlConnection.findMany({
+    orderBy: { createdAt: 'desc' },
+  });
+};
+
+/**
+ * Get a connection by its slug
+ * @param {string} slug
+ * @returns {Promise<Object>}
+ */
+const getConnection = async (slug: string) => {
+  const connection = await prisma.samlConnection.findUnique({ where: { slug } });
+  if (!connection) {
+    throw new ApiError(httpStatus.NOT_FOUND, 'SAML connection not found');
+  }
+  return connection;
+};
+
+/**
+ * Get a connection users can sign in with
+ * @param {string} slug
+ * @returns {Promise<Object>}
+ */
+const getActiveConnection = async (slug: string) => {
+  const connection = await prisma.samlConnection.findUnique({ where: { slug } });
+  if (!connection || !connection.isActive) {
+    throw new ApiError(httpStatus.NOT_FOUND, 'SAML connection not found');
+  }
+  return connection;
+};
+
+/**
+ * Update a connection. The slug cannot change since linked identities refer to it.
+ * @param {string} slug
+ * @param {UpdateSamlConnection} data
+ * @returns {Promise<Object>}
+ */
+const updateConnection = async (slug: string, data: UpdateSamlConnection) => {
+  await getConnection(slug);
+  if (data.roleMapping) {
+    await assertRolesExist(data.roleMapping);
+  }
+
+  const { metadataUrl, idpEntityId, idpSsoUrl, idpCertificates, emailDomains, ...rest } = data;
+  return prisma.samlConnection.update({
+    where: { slug },
+    data: {
+      ...rest,
+      ...(emailDomains && { emailDomains: emailDomains.map(domain => domain.toLowerCase()) }),
+      ...(await resolveIdpSettings({ metadataUrl, idpEntityId, idpSsoUrl, idpCertificates })),
+    },
+  });
+};
+
+/**
+ * Delete a connection and unlink the identities signed in through it, so a new connection
+ * reusing the slug cannot take over their accounts
+ * @param {string} slug
+ */
+const deleteConnection = async (slug: string) => {
+  await getConnection(slug);
+  await prisma.$transaction([
+    prisma.socialAccount.deleteMany({ where: { provider: `${SAML_PROVIDER_PREFIX}${slug}` } }),
+    prisma.samlConnection.delete({ where: { slug } }),
+  ]);
+};
+
+export default {
+  parseIdpMetadata,
+  createConnection,
+  listConnections,
+  getConnection,
+  getActiveConnection,
+  updateConnection,
+  deleteConnection,
+};
@@ -0,0 +1,722 @@
+import httpStatus from 'http-status';
+import prisma from '../client';
+import config from '../config/config';
+import ScimError from '../utils/ScimError';
+import {
+  ScimAttributeResolver,
+  ScimPatchOperation,
+  applyPatch,
+  columnResolver,
+  filterToWhere,
+  parseFilter,
+  parseScimBoolean,
+  projectAttributes,
+} from '../utils/scim';
+import userService from './user.service';
+import RbacService from './rbac.service';
+
+const rbacService = new RbacService();
+
+export const SCIM_SCHEMAS = {
+  user: 'urn:ietf:params:scim:schemas:core:2.0:User',
+  group: 'urn:ietf:params:scim:schemas:core:2.0:Group',
+  listResponse: 'urn:ietf:params:scim:api:messages:2.0:ListResponse',
+  patchOp: 'urn:ietf:params:scim:api:messages:2.0:PatchOp',
+  serviceProviderConfig: 'urn:ietf:params:scim:schemas:core:2.0:ServiceProviderConfig',
+  schema: 'urn:ietf:params:scim:schemas:core:2.0:Schema',
+  resourceType: 'urn:ietf:params:scim:schemas:core:2.0:ResourceType',
+};
+
+/** Recorded on UserRole.assignedBy for memberships pushed by the identity provider */
+const SCIM_ASSIGNED_BY = 'scim';
+
+/**
+ * SCIM clients only see and change the users and roles they created, so they cannot take over
+ * accounts or roles managed in this application, such as admins and the built-in roles
+ */
+const SCIM_USER_SCOPE = { scimProvisioned: true, erasedAt: null };
+const SCIM_GROUP_SCOPE = { scimProvisioned: true };
+export const MAX_PAGE_SIZE = 200;
+
+export interface ScimQuery {
+  filter?: string;
+  startIndex?: number;
+  count?: number;
+  attributes?: string;
+  excludedAttributes?: string;
+}
+
+const USER_ATTRIBUTES: Record<string, ScimAttributeResolver> = {
+  id: columnResolver('id', { caseExact: true }),
+  externalid: columnResolver('scimExternalId', { caseExact: true }),
+  username: columnResolver('email'),
+  emails: columnResolver('email'),
+  displayname: columnResolver('name'),
+  'name.formatted': columnResolver('name'),
+  active: columnResolver('isActive'),
+  'meta.created': columnResolver('createdAt', { date: true }),
+  'meta.lastmodified': columnResolver('updatedAt', { date: true }),
+};
+
+const GROUP_ATTRIBUTES: Record<string, ScimAttributeResolver> = {
+  id: columnResolver('id', { caseExact: true }),
+  externalid: columnResolver('scimExternalId', { caseExact: true }),
+  displayname: columnResolver('name'),
+  members: (op, value) => {
+    if (op === 'eq') return { userRoles: { some: { userId: String(value) } } };
+    if (op === 'pr') return { userRoles: { some: {} } };
+    throw new ScimError(
+      httpStatus.BAD_REQUEST,
+      `Unsupported members filter ${op}`,
+      'invalidFilter'
+    );
+  },
+  'meta.created': columnResolver('createdAt', { date: true }),
+  'meta.lastmodified': columnResolver('updatedAt', { date: true }),
+};
+
+const scimUrl = (path: string) => `${config.apiUrl}/scim/v2${path}`;
+
+const notFound = (resource: string) => new ScimError(httpStatus.NOT_FOUND, `${resource} not found`);
+
+const invalidValue = (detail: string) =>
+  new ScimError(httpStatus.BAD_REQUEST, detail, 'invalidValue');
+
+/**
+ * Whether a response with the given attribute selection includes an attribute
+ */
+const returnsAttribute = (name: string, query: ScimQuery, schema: string) =>
+  name in projectAttributes({ [name]: true }, query.attributes, query.excludedAttributes, schema);
+
+const listResponse = (resources: any[], totalResults: number, startIndex: number) => ({
+  schemas: [SCIM_SCHEMAS.listResponse],
+  totalResults,
+  startIndex,
+  itemsPerPage: resources.length,
+  Resources: resources,
+});
+
+const primaryOf = (values: any) =>
+  Array.isArray(values)
+    ? (values.find(value => parseScimBoolean(value?.primary)) ?? values[0])
+    : undefined;
+
+/**
+ * Display name, formatted name and given plus family name, in order of precedence
+ */
+const nameCandidates = (resource: any): (string | undefined)[] => [
+  resource.displayName || undefined,
+  resource.name?.formatted || undefined,
+  [resource.name?.givenName, resource.name?.familyName].filter(Boolean).join(' ') || undefined,
+];
+
+/**
+ * Pick the user's name from a SCIM representation. After a PATCH the representation the client
+ * changed wins, since the others still carry the previous name.
+ * @param {Object} resource
+ * @param {Object} [previous] - representation before the PATCH
+ * @returns {string | null}
+ */
+const scimName = (resource: any, previous?: any) => {
+  const candidates = nameCandidates(resource);
+  if (previous) {
+    const before = nameCandidates(previous);
+    const changed = candidates.find((name, index) => name && name !== before[index]);
+    if (changed) return changed;
+  }
+  return candidates.find(Boolean) ?? null;
+};
+
+/**
+ * SCIM User representation of a user
+ * @param {Object} user - user, with userRoles and their roles when groups are returned
+ * @returns {Object}
+ */
+const toScimUser = (user: any) => ({
+  schemas: [SCIM_SCHEMAS.user],
+  id: user.id,
+  ...(user.scimExternalId && { externalId: user.scimExternalId }),
+  userName: user.email,
+  ...(user.name && { name: { formatted: user.name }, displayName: user.name }),
+  active: user.isActive,
+  emails: [{ value: user.email, type: 'work', primary: true }],
+  ...(user.phone && { phoneNumbers: [{ value: user.phone, type: 'work', primary: true }] }),
+  ...((user.address || user.city || user.state || user.country) && {
+    addresses: [
+      {
+        type: 'work',
+        ...(user.address && { streetAddress: user.address }),
+        ...(user.city && { locality: user.city }),
+        ...(user.state && { region: user.state }),
+        ...(user.country && { country: user.country }),
+        primary: true,
+      },
+    ],
+  }),
+  ...(user.userRoles && {
+    groups: user.userRoles.map((userRole: any) => ({
+      value: userRole.roleId,
+      display: userRole.role.name,
+      $ref: scimUrl(`/Groups/${userRole.roleId}`),
+    })),
+  }),
+  meta: {
+    resourceType: 'User',
+    created: user.createdAt,
+    lastModified: user.updatedAt,
+    location: scimUrl(`/Users/${user.id}`),
+  },
+});
+
+/**
+ * User fields from a SCIM User representation. Attributes missing from the representation are
+ * cleared, as PUT replaces the resource and PATCH is applied to the full representation.
+ * @param {Object} resource
+ * @param {Object} [previous] - representation before a PATCH
+ * @returns {Object}
+ */
+const fromScimUser = (resource: any, previous?: any) => {
+  const email = resource.userName || primaryOf(resource.emails)?.value;
+  if (!email || typeof email !== 'string') {
+    throw invalidValue('userName is required');
+  }
+  const address = primaryOf(resource.addresses);
+  const active = parseScimBoolean(resource.active);
+
+  return {
+    email,
+    name: scimName(resource, previous),
+    scimExternalId: resource.externalId || null,
+    phone: primaryOf(resource.phoneNumbers)?.value || null,
+    address: address?.streetAddress || null,
+    city: address?.locality || null,
+    state: address?.region || null,
+    country: address?.country || null,
+    ...(active !== undefined && { isActive: active }),
+  };
+};
+
+const userInclude = (withGroups: boolean) =>
+  withGroups ? { userRoles: { include: { role: true } } } : undefined;
+
+const findUser = async (id: string, withGroups = true) => {
+  const user = await prisma.user.findFirst({
+    where: { id, ...SCIM_USER_SCOPE },
+    include: userInclude(withGroups),
+  });
+  if (!user) {
+    throw notFound('User');
+  }
+  return user;
+};
+
+/**
+ * List users matching a SCIM filter
+ * @param {ScimQuery} query
+ * @returns {Promise<Object>} ListResponse
+ */
+const listUsers = async (query: ScimQuery) => {
+  const startIndex = query.startIndex ?? 1;
+  const count = query.count ?? MAX_PAGE_SIZE;
+  const where = {
+    ...SCIM_USER_SCOPE,
+    ...(query.filter &&
+      filterToWhere(parseFilter(query.filter), USER_ATTRIBUTES, SCIM_SCHEMAS.user)),
+  };
+
+  const [totalResults, users] = await Promise.all([
+    prisma.user.count({ where }),
+    count > 0
+      ? prisma.user.findMany({
+          where,
+          include: userInclude(returnsAttribute('groups', query, SCIM_SCHEMAS.user)),
+          orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+          skip: startIndex - 1,
+          take: count,
+        })
+      : [],
+  ]);
+
+  return listResponse(
+    users.map((user: any) =>
+      projectAttributes(
+        toScimUser(user),
+        query.attributes,
+        query.excludedAttributes,
+        SCIM_SCHEMAS.user
+      )
+    ),
+    totalResults,
+    startIndex
+  );
+};
+
+/**
+ * Get a user
+ * @param {string} id
+ * @param {ScimQuery} [query] - attribute selection
+ * @returns {Promise<Object>}
+ */
+const getUser = async (id: string, query: ScimQuery = {}) => {
+  const user = await findUser(id, returnsAttribute('groups', query, SCIM_SCHEMAS.user));
+  return projectAttributes(
+    toScimUser(user),
+    query.attributes,
+    query.excludedAttributes,
+    SCIM_SCHEMAS.user
+  );
+};
+
+/**
+ * Provision a user. Provisioned users have no password and sign in through the IdP.
+ * @param {Object} resource - SCIM User
+ * @returns {Promise<Object>}
+ */
+const createUser = async (resource: any) => {
+  const data = fromScimUser(resource);
+  if (await userService.getUserByEmail(data.email)) {
+    throw new ScimError(
+      httpStatus.CONFLICT,
+      'A user with this userName already exists',
+      'uniqueness'
+    );
+  }
+  const user = await prisma.user.create({
+    data: {
+      ...data,
+      password: '',
+      isEmailVerified: true,
+      role: 'USER',
+      scimProvisioned: true,
+    },
+  });
+  return getUser(user.id);
+};
+
+/**
+ * Save the fields of a SCIM User representation. A new email address has to be verified again.
+ * @param {Object} user - user before the update
+ * @param {Object} data - fields from fromScimUser
+ */
+const updateUser = async (user: { id: string; email: string }, data: any) => {
+  const emailChanged = data.email.toLowerCase() !== user.email.toLowerCase();
+  await userService.updateUserById(user.id, {
+    ...data,
+    ...(emailChanged && { isEmailVerified: false }),
+  });
+};
+
+/**
+ * Replace a user (PUT)
+ * @param {string} id
+ * @param {Object} resource - SCIM User
+ * @returns {Promise<Object>}
+ */
+const replaceUser = async (id: string, resource: any) => {
+  const user = await findUser(id, false);
+  await updateUser(user, fromScimUser(resource));
+  return getUser(id);
+};
+
+/**
+ * Apply PATCH operations to a user. Setting `active` to false deactivates the account and
+ * signs it out everywhere.
+ * @param {string} id
+ * @param {ScimPatchOperation[]} operations
+ * @returns {Promise<Object>}
+ */
+const patchUser = async (id: string, operations: ScimPatchOperation[]) => {
+  const user = await findUser(id);
+  const current = toScimUser(user);
+  const patched = applyPatch(current, operations, SCIM_SCHEMAS.user);
+  await updateUser(user, fromScimUser(patched, current));
+  return getUser(id);
+};
+
+/**
+ * Delete a user
+ * @param {string} id
+ */
+const deleteUser = async (id: string) => {
+  await findUser(id, false);
+  await userService.deleteUserById(id);
+};
+
+/**
+ * SCIM Group representation of a role
+ * @param {Object} role - role, with userRoles and their users when members are returned
+ * @returns {Object}
+ */
+const toScimGroup = (role: any) => ({
+  schemas: [SCIM_SCHEMAS.group],
+  id: role.id,
+  ...(role.scimExternalId && { externalId: role.scimExternalId }),
+  displayName: role.name,
+  ...(role.userRoles && {
+    members: role.userRoles.map((userRole: any) => ({
+      value: userRole.userId,
+      display: userRole.user.email,
+      $ref: scimUrl(`/Users/${userRole.userId}`),
+    })),
+  }),
+  meta: {
+    resourceType: 'Group',
+    created: role.createdAt,
+    lastModified: role.updatedAt,
+    location: scimUrl(`/Groups/${role.id}`),
+  },
+});
+
+const memberIdsOf = (resource: any): string[] => {
+  if (resource.members !== undefined && !Array.isArray(resource.members)) {
+    throw invalidValue('members must be an array');
+  }
+  return [...new Set<string>((resource.members ?? []).map((member: any) => String(member?.value)))];
+};
+
+const groupInclude = (withMembers: boolean) =>
+  withMembers ? { userRoles: { include: { user: { select: { email: true } } } } } : undefined;
+
+const findGroup = async (id: string, withMembers = true) => {
+  const role = await prisma.roleModel.findFirst({
+    where: { id, ...SCIM_GROUP_SCOPE },
+    include: groupInclude(withMembers),
+  });
+  if (!role) {
+    throw notFound('Group');
+  }
+  return role;
+};
+
+/**
+ * Make the given users the members of a group, through rbac role assignments
+ * @param {string} roleId
+ * @param {string[]} userIds
+ */
+const setMembers = async (roleId: string, userIds: string[]) => {
+  const users = await prisma.user.findMany({
+    where: { id: { in: userIds }, ...SCIM_USER_SCOPE },
+    select: { id: true },
+  });
+  if (users.length !== userIds.length) {
+    throw invalidValue('One or more members do not exist');
+  }
+
+  const current = await prisma.userRole.findMany({ where: { roleId } });
+  for (const userRole of current) {
+    if (!userIds.includes(userRole.userId)) {
+      await rbacService.removeRoleFromUser(userRole.userId, roleId);
+    }
+  }
+  for (const userId of userIds) {
+    if (!current.some((userRole: { userId: string }) => userRole.userId === userId)) {
+      await rbacService.assignRoleToUser({ userId, roleId }, SCIM_ASSIGNED_BY);
+    }
+  }
+};
+
+const displayNameOf = (resource: any) => {
+  if (!resource.displayName || typeof resource.displayName !== 'string') {
+    throw invalidValue('displayName is required');
+  }
+  return resource.displayName as string;
+};
+
+/**
+ * List groups matching a SCIM filter
+ * @param {ScimQuery} query
+ * @returns {Promise<Object>} ListResponse
+ */
+const listGroups = async (query: ScimQuery) => {
+  const startIndex = query.startIndex ?? 1;
+  const count = query.count ?? MAX_PAGE_SIZE;
+  const where = {
+    ...SCIM_GROUP_SCOPE,
+    ...(query.filter &&
+      filterToWhere(parseFilter(query.filter), GROUP_ATTRIBUTES, SCIM_SCHEMAS.group)),
+  };
+
+  const [totalResults, roles] = await Promise.all([
+    prisma.roleModel.count({ where }),
+    count > 0
+      ? prisma.roleModel.findMany({
+          where,
+          include: groupInclude(returnsAttribute('members', query, SCIM_SCHEMAS.group)),
+          orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+          skip: startIndex - 1,
+          take: count,
+        })
+      : [],
+  ]);
+
+  return listResponse(
+    roles.map((role: any) =>
+      projectAttributes(
+        toScimGroup(role),
+        query.attributes,
+        query.excludedAttributes,
+        SCIM_SCHEMAS.group
+      )
+    ),
+    totalResults,
+    startIndex
+  );
+};
+
+/**
+ * Get a group
+ * @param {string} id
+ * @param {ScimQuery} [query] - attribute selection
+ * @returns {Promise<Object>}
+ */
+const getGroup = async (id: string, query: ScimQuery = {}) => {
+  const role = await findGroup(id, returnsAttribute('members', query, SCIM_SCHEMAS.group));
+  return projectAttributes(
+    toScimGroup(role),
+    query.attributes,
+    query.excludedAttributes,
+    SCIM_SCHEMAS.group
+  );
+};
+
+/**
+ * Provision a group as a role
+ * @param {Object} resource - SCIM Group
+ * @returns {Promise<Object>}
+ */
+const createGroup = async (resource: any) => {
+  const memberIds = memberIdsOf(resource);
+  const role = await rbacService.createRole({ name: displayNameOf(resource) });
+  await prisma.roleModel.update({
+    where: { id: role.id },
+    data: { scimProvisioned: true, scimExternalId: resource.externalId || null },
+  });
+  await setMembers(role.id, memberIds);
+  return getGroup(role.id);
+};
+
+/**
+ * Replace a group (PUT), including its members
+ * @param {string} id
+ * @param {Object} resource - SCIM Group
+ * @returns {Promise<Object>}
+ */
+const replaceGroup = async (id: string, resource: any) => {
+  await findGroup(id, false);
+  await rbacService.updateRole(id, { name: displayNameOf(resource) });
+  await prisma.roleModel.update({
+    where: { id },
+    data: { scimExternalId: resource.externalId || null },
+  });
+  await setMembers(id, memberIdsOf(resource));
+  return getGroup(id);
+};
+
+/**
+ * Apply PATCH operations to a group
+ * @param {string} id
+ * @param {ScimPatchOperation[]} operations
+ * @returns {Promise<Object>}
+ */
+const patchGroup = async (id: string, operations: ScimPatchOperation[]) => {
+  const current = toScimGroup(await findGroup(id));
+  const patched = applyPatch(current, operations, SCIM_SCHEMAS.group);
+
+  if (patched.displayName !== current.displayName) {
+    await rbacService.updateRole(id, { name: displayNameOf(patched) });
+  }
+  if (patched.externalId !== current.externalId) {
+    await prisma.roleModel.update({
+      where: { id },
+      data: { scimExternalId: patched.externalId || null },
+    });
+  }
+  const memberIds = memberIdsOf(patched);
+  const currentIds = memberIdsOf(current);
+  if (
+    memberIds.length !== currentIds.length ||
+    memberIds.some(memberId => !currentIds.includes(memberId))
+  ) {
+    await setMembers(id, memberIds);
+  }
+  return getGroup(id);
+};
+
+/**
+ * Delete a group, removing it from its members first
+ * @param {string} id
+ */
+const deleteGroup = async (id: string) => {
+  await findGroup(id, false);
+  await prisma.userRole.deleteMany({ where: { roleId: id } });
+  await rbacService.deleteRole(id);
+};
+
+/**
+ * Features of this SCIM service provider
+ * @returns {Object}
+ */
+const getServiceProviderConfig = () => ({
+  schemas: [SCIM_SCHEMAS.serviceProviderConfig],
+  patch: { supported: true },
+  bulk: { supported: false, maxOperations: 0, maxPayloadSize: 0 },
+  filter: { supported: true, maxResults: MAX_PAGE_SIZE },
+  changePassword: { supported: false },
+  sort: { supported: false },
+  etag: { supported: false },
+  authenticationSchemes: [
+    {
+      type: 'oauthbearertoken',
+      name: 'API key',
+      description: 'An API key with the scim:provision scope, sent as a bearer token',
+      primary: true,
+    },
+  ],
+  meta: { resourceType: 'ServiceProviderConfig', location: scimUrl('/ServiceProviderConfig') },
+});
+
+const attribute = (name: string, type: string, options: Record<string, any> = {}) => ({
+  name,
+  type,
+  multiValued: false,
+  required: false,
+  caseExact: false,
+  mutability: 'readWrite',
+  returned: 'default',
+  uniqueness: 'none',
+  ...options,
+});
+
+const multiValued = (name: string, subAttributes: any[], options: Record<string, any> = {}) =>
+  attribute(name, 'complex', { multiValued: true, subAttributes, ...options });
+
+const SCHEMAS = [
+  {
+    id: SCIM_SCHEMAS.user,
+    name: 'User',
+    description: 'User account',
+    attributes: [
+      attribute('userName', 'string', { required: true, uniqueness: 'server' }),
+      attribute('name', 'complex', {
+        subAttributes: [
+          attribute('formatted', 'string'),
+          attribute('givenName', 'string'),
+          attribute('familyName', 'string'),
+        ],
+      }),
+      attribute('displayName', 'string'),
+      attribute('active', 'boolean'),
+      multiValued('emails', [
+        attribute('value', 'string'),
+        attribute('type', 'string'),
+        attribute('primary', 'boolean'),
+      ]),
+      multiValued('phoneNumbers', [
+        attribute('value', 'string'),
+        attribute('type', 'string'),
+        attribute('primary', 'boolean'),
+      ]),
+      multiValued('addresses', [
+        attribute('streetAddress', 'string'),
+        attribute('locality', 'string'),
+        attribute('region', 'string'),
+        attribute('country', 'string'),
+        attribute('type', 'string'),
+        attribute('primary', 'boolean'),
+      ]),
+      multiValued(
+        'groups',
+        [
+          attribute('value', 'string', { mutability: 'readOnly' }),
+          attribute('display', 'string', { mutability: 'readOnly' }),
+          attribute('$ref', 'reference', { mutability: 'readOnly', referenceTypes: ['Group'] }),
+        ],
+        { mutability: 'readOnly' }
+      ),
+    ],
+  },
+  {
+    id: SCIM_SCHEMAS.group,
+    name: 'Group',
+    description: 'Group, provisioned as a role',
+    attributes: [
+      attribute('displayName', 'string', { required: true, uniqueness: 'server' }),
+      multiValued('members', [
+        attribute('value', 'string', { mutability: 'immutable' }),
+        attribute('display', 'string', { mutability: 'readOnly' }),
+        attribute('$ref', 'reference', { mutability: 'immutable', referenceTypes: ['User'] }),
+      ]),
+    ],
+  },
+].map(schema => ({
+  schemas: [SCIM_SCHEMAS.schema],
+  ...schema,
+  meta: { resourceType: 'Schema', location: scimUrl(`/Schemas/${schema.id}`) },
+}));
+
+/**
+ * Schemas of the resources served
+ * @returns {Object} ListResponse
+ */
+const listSchemas = () => listResponse(SCHEMAS, SCHEMAS.length, 1);
+
+/**
+ * Get a schema by URN
+ * @param {string} id
+ * @returns {Object}
+ */
+const getSchema = (id: string) => {
+  const schema = SCHEMAS.find(candidate => candidate.id === id);
+  if (!schema) {
+    throw notFound('Schema');
+  }
+  return schema;
+};
+
+const RESOURCE_TYPES = [
+  { id: 'User', name: 'User', endpoint: '/Users', schema: SCIM_SCHEMAS.user },
+  { id: 'Group', name: 'Group', endpoint: '/Groups', schema: SCIM_SCHEMAS.group },
+].map(resourceType => ({
+  schemas: [SCIM_SCHEMAS.resourceType],
+  ...resourceType,
+  meta: { resourceType: 'ResourceType', location: scimUrl(`/ResourceTypes/${resourceType.id}`) },
+}));
+
+/**
+ * Resource types served
+ * @returns {Object} ListResponse
+ */
+const listResourceTypes = () => listResponse(RESOURCE_TYPES, RESOURCE_TYPES.length, 1);
+
+/**
+ * Get a resource type
+ * @param {string} id
+ * @returns {Object}
+ */
+const getResourceType = (id: string) => {
+  const resourceType = RESOURCE_TYPES.find(candidate => candidate.id === id);
+  if (!resourceType) {
+    throw notFound('Resource type');
+  }
+  return resourceType;
+};
+
+export default {
+  listUsers,
+  getUser,
+  createUser,
+  replaceUser,
+  patchUser,
+  deleteUser,
+  listGroups,
+  getGroup,
+  createGroup,
+  replaceGroup,
+  patchGroup,
+  deleteGroup,
+  getServiceProviderConfig,
+  listSchemas,
+  getSchema,
+  listResourceTypes,
+  getResourceType,
+};
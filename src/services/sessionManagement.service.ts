@@ -1,6 +1,7 @@
 import httpStatus from 'http-status';
 import prisma from '../client';
 import ApiError from '../utils/ApiError';
+import tokenRevocationService from './tokenRevocation.service';
 import { UserSession, SessionSecurityEvent } from '@prisma/client';
 
 interface SessionData {
@@ -149,6 +150,7 @@ class SessionManagementService {
         isActive: false,
       },
     });
+    await tokenRevocationService.revokeSessionAccessTokens(sessionId);
 
     // Create security event
     await this.createSecurityEvent(sessionId, 'SESSION_REVOKED', 0.5, {
@@ -189,6 +191,9 @@ class SessionManagementService {
         revokedAt: new Date(),
       });
     }
+    await tokenRevocationService.revokeSessionAccessTokens(
+      revokedSessions.map(session => session.sessionId)
+    );
 
     return result.count;
   }
@@ -220,6 +225,7 @@ class SessionManagementService {
         revokedAt: new Date(),
       });
     }
+    await tokenRevocationService.revokeUserAccessTokens(userId);
 
     return result.count;
   }
@@ -0,0 +1,241 @@
+import crypto from 'crypto';
+import { promisify } from 'util';
+import jwt from 'jsonwebtoken';
+import moment from 'moment';
+import prisma from '../client';
+import config from '../config/config';
+import logger from '../config/logger';
+import { decryptSecret, encryptSecret } from '../utils/encryption';
+
+/**
+ * Signing Key Service
+ * Asymmetric keys signing access tokens, identified by the `kid` JWT header. The newest key
+ * signs; keys it replaced keep verifying until every access token they signed has expired, and
+ * are then retired. Public keys are published as a JWKS so other services can verify access
+ * tokens without holding a shared secret.
+ */
+
+export type SigningAlgorithm = 'RS256' | 'ES256';
+
+interface StoredKey {
+  kid: string;
+  algorithm: string;
+  publicKey: string;
+  privateKey: string;
+  createdAt: Date;
+  rotatedAt: Date | null;
+}
+
+interface RotationStats {
+  rotated: boolean;
+  retired: number;
+}
+
+const generateKeyPairAsync = promisify(crypto.generateKeyPair);
+
+// Keys are cached in memory and reloaded periodically to pick up rotations by other instances
+const KEY_CACHE_TTL_MS = 60 * 1000;
+// An unknown kid forces a reload at most this often, so forged headers cannot flood the database
+const KEY_RELOAD_INTERVAL_MS = 5 * 1000;
+
+let cachedKeys = new Map<string, StoredKey>();
+let cachedAt = 0;
+let pendingKey: Promise<StoredKey> | null = null;
+const privateKeys = new Map<string, crypto.KeyObject>();
+const publicKeys = new Map<string, crypto.KeyObject>();
+
+/**
+ * Load the keys that have not been retired
+ * @param {boolean} [force] - bypass the cache
+ * @returns {Promise<Map<string, StoredKey>>}
+ */
+const loadKeys = async (force = false) => {
+  if (!force && Date.now() - cachedAt < KEY_CACHE_TTL_MS) {
+    return cachedKeys;
+  }
+
+  const keys = await prisma.signingKey.findMany({
+    where: { retiredAt: null },
+    orderBy: { createdAt: 'desc' },
+  });
+  cachedKeys = new Map(keys.map((key: StoredKey) => [key.kid, key]));
+  cachedAt = Date.now();
+  return cachedKeys;
+};
+
+/**
+ * Generate a key pair for the configured algorithm
+ * @param {SigningAlgorithm} algorithm
+ * @returns {Promise<{ publicKey: string; privateKey: string }>}
+ */
+const generateKeyPair = (algorithm: SigningAlgorithm) => {
+  const encoding = {
+    publicKeyEncoding: { type: 'spki', format: 'pem' },
+    privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+  } as const;
+
+  return algorithm === 'ES256'
+    ? generateKeyPairAsync('ec', { namedCurve: 'P-256', ...encoding })
+    : generateKeyPairAsync('rsa', { modulusLength: 2048, ...encoding });
+};
+
+/**
+ * Generate a new signing key. The current key is kept for verification only.
+ * @returns {Promise<StoredKey>}
+ */
+const createSigningKey = async (): Promise<StoredKey> => {
+  const algorithm = config.jwt.signingAlgorithm;
+  const { publicKey, privateKey } = await generateKeyPair(algorithm);
+
+  const [, key] = await prisma.$transaction([
+    prisma.signingKey.updateMany({
+      where: { rotatedAt: null, retiredAt: null },
+      data: { rotatedAt: new Date() },
+    }),
+    prisma.signingKey.create({
+      data: {
+        kid: crypto.randomUUID(),
+        algorithm,
+        publicKey,
+        privateKey: encryptSecret(privateKey, config.jwt.keyEncryptionSecret),
+      },
+    }),
+  ]);
+
+  await loadKeys(true);
+  logger.info('Generated access token signing key', { kid: key.kid, algorithm });
+  return key;
+};
+
+/**
+ * Get the key that signs new access tokens, generating the first one when none exists
+ * @returns {Promise<{ kid: string; algorithm: SigningAlgorithm; privateKey: crypto.KeyObject }>}
+ */
+const getSigningKey = async () => {
+  const keys = await loadKeys();
+  let current = [...keys.values()].find(key => !key.rotatedAt);
+  if (!current) {
+    // Concurrent first requests share one key instead of each generating their own
+    pendingKey = pendingKey || createSigningKey().finally(() => (pendingKey = null));
+    current = await pendingKey;
+  }
+
+  let privateKey = privateKeys.get(current.kid);
+  if (!privateKey) {
+    privateKey = crypto.createPrivateKey(
+      decryptSecret(current.privateKey, config.jwt.keyEncryptionSecret)
+    );
+    privateKeys.set(current.kid, privateKey);
+  }
+
+  return { kid: current.kid, algorithm: current.algorithm as SigningAlgorithm, privateKey };
+};
+
+/**
+ * Get a non-retired verification key by ID
+ * @param {string} kid
+ * @returns {Promise<{ algorithm: SigningAlgorithm; publicKey: crypto.KeyObject } | null>}
+ */
+const getVerificationKey = async (kid: string) => {
+  let key = (await loadKeys()).get(kid);
+  // The key may have just been generated by another instance
+  if (!key && Date.now() - cachedAt >= KEY_RELOAD_INTERVAL_MS) {
+    key = (await loadKeys(true)).get(kid);
+  }
+  if (!key) {
+    return null;
+  }
+
+  let publicKey = publicKeys.get(kid);
+  if (!publicKey) {
+    publicKey = crypto.createPublicKey(key.publicKey);
+    publicKeys.set(kid, publicKey);
+  }
+
+  return { algorithm: key.algorithm as SigningAlgorithm, publicKey };
+};
+
+/**
+ * Get the verification key named by a token's `kid` header
+ * @param {string} token - raw JWT
+ * @returns {Promise<{ algorithm: SigningAlgorithm; publicKey: crypto.KeyObject } | null>}
+ */
+const getVerificationKeyForToken = async (token: string) => {
+  const decoded = jwt.decode(token, { complete: true });
+  const kid = decoded?.header.kid;
+  return kid ? getVerificationKey(kid) : null;
+};
+
+/**
+ * Public keys that verify access tokens, as a JSON Web Key Set
+ * @returns {Promise<{ keys: Object[] }>}
+ */
+const getJwks = async () => {
+  const keys = await loadKeys();
+  return {
+    keys: [...keys.values()].map(key => ({
+      ...crypto.createPublicKey(key.publicKey).export({ format: 'jwk' }),
+      kid: key.kid,
+      alg: key.algorithm,
+      use: 'sig',
+    })),
+  };
+};
+
+/**
+ * Generate a new signing key when the current one is due, and retire replaced keys whose
+ * access tokens have all expired
+ * @returns {Promise<RotationStats>}
+ */
+const rotateKeys = async (): Promise<RotationStats> => {
+  const keys = await loadKeys(true);
+  const current = [...keys.values()].find(key => !key.rotatedAt);
+
+  const rotationDue =
+    !current ||
+    moment(current.createdAt).add(config.jwt.keyRotationDays, 'days').isSameOrBefore(moment());
+  if (rotationDue) {
+    await createSigningKey();
+  }
+
+  const retireBefore = moment().subtract(config.jwt.accessExpirationMinutes, 'minutes').toDate();
+  const retired = await prisma.signingKey.updateMany({
+    where: { retiredAt: null, rotatedAt: { lte: retireBefore } },
+    data: { retiredAt: new Date() },
+  });
+  if (retired.count > 0) {
+    await loadKeys(true);
+    logger.info('Retired access token signing keys', { count: retired.count });
+  }
+
+  return { rotated: rotationDue, retired: retired.count };
+};
+
+/**
+ * Schedule signing key rotation. Runs once immediately so a key exists before the first login.
+ * @param {number} intervalMinutes - Interval in minutes between runs
+ */
+const scheduleKeyRotation = (intervalMinutes: number = 60) => {
+  logger.info(`Scheduling signing key rotation every ${intervalMinutes} minutes`);
+
+  const run = async () => {
+    try {
+      await rotateKeys();
+    } catch (error) {
+      logger.error('Scheduled signing key rotation failed', { error });
+    }
+  };
+
+  run();
+  setInterval(run, intervalMinutes * 60 * 1000);
+};
+
+export default {
+  createSigningKey,
+  getSigningKey,
+  getVerificationKey,
+  getVerificationKeyForToken,
+  getJwks,
+  rotateKeys,
+  scheduleKeyRotation,
+};
@@ -0,0 +1,94 @@
+import fs from 'fs';
+import path from 'path';
+import config from '../config/config';
+import logger from '../config/logger';
+
+/**
+ * SMS Service
+ * Delivers text messages through a pluggable transport. The built-in transports are local
+ * stand-ins for development and tests; a provider (Twilio, SNS, ...) is plugged in with
+ * setTransport at startup.
+ */
+
+export interface SmsMessage {
+  to: string;
+  body: string;
+}
+
+export interface SmsTransport {
+  name: string;
+  send: (message: SmsMessage) => Promise<void>;
+}
+
+/**
+ * Writes messages to the application log
+ */
+const consoleTransport: SmsTransport = {
+  name: 'console',
+  send: async message => {
+    logger.info('SMS message', message);
+  },
+};
+
+/**
+ * Appends messages as JSON lines to a file
+ * @param {string} filePath
+ * @returns {SmsTransport}
+ */
+const createFileTransport = (filePath: string): SmsTransport => ({
+  name: 'file',
+  send: async message => {
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.appendFile(
+      filePath,
+      `${JSON.stringify({ ...message, sentAt: new Date().toISOString() })}\n`
+    );
+  },
+});
+
+let transport: SmsTransport =
+  config.sms.transport === 'file' ? createFileTransport(config.sms.filePath) : consoleTransport;
+
+/**
+ * Replace the transport used to deliver messages
+ * @param {SmsTransport} smsTransport
+ */
+const setTransport = (smsTransport: SmsTransport) => {
+  transport = smsTransport;
+};
+
+/**
+ * Send an SMS
+ * @param {string} to - phone number in E.164 format
+ * @param {string} body
+ * @returns {Promise<void>}
+ */
+const sendSms = async (to: string, body: string) => {
+  try {
+    await transport.send({ to, body });
+    logger.info(`SMS sent to ${to.slice(0, -4).replace(/\d/g, '*')}${to.slice(-4)}`, {
+      transport: transport.name,
+    });
+  } catch (error) {
+    logger.error('Failed to send SMS', { transport: transport.name, error: error.message });
+    throw error;
+  }
+};
+
+/**
+ * Send a two-factor authentication code
+ * @param {string} to
+ * @param {string} code
+ * @returns {Promise<void>}
+ */
+const sendTwoFactorCode = async (to: string, code: string) => {
+  await sendSms(to, `Your verification code is ${code}. It expires in 5 minutes.`);
+};
+
+export default {
+  consoleTransport,
+  createFileTransport,
+  setTransport,
+  sendSms,
+  sendTwoFactorCode,
+};
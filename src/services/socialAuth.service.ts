@@ -3,6 +3,7 @@ import prisma from '../client';
 import ApiError from '../utils/ApiError';
 import { SocialAccount } from '@prisma/client';
 import { Request } from 'express';
+import socialTokenService from './socialToken.service';
 
 interface SocialProfile {
   id: string;
@@ -13,15 +14,25 @@ interface SocialProfile {
   providerId: string;
   accessToken?: string;
   refreshToken?: string;
+  expiresIn?: number;
   scope?: string;
 }
 
+// Social accounts as returned to callers; provider tokens never leave the service
+type LinkedSocialAccount = Omit<SocialAccount, 'accessToken' | 'refreshToken'>;
+
 interface SocialAuthResult {
   user: any;
   isNewUser: boolean;
-  socialAccount: SocialAccount;
+  socialAccount: LinkedSocialAccount;
 }
 
+const withoutTokens = ({
+  accessToken,
+  refreshToken,
+  ...socialAccount
+}: SocialAccount): LinkedSocialAccount => socialAccount;
+
 /**
  * Social Authentication Service
  * Handles OAuth authentication and account linking
@@ -52,17 +63,17 @@ class SocialAuthService {
         await prisma.socialAccount.update({
           where: { id: existingSocialAccount.id },
           data: {
-            accessToken: profile.accessToken || existingSocialAccount.accessToken,
-            refreshToken: profile.refreshToken || existingSocialAccount.refreshToken,
+            ...socialTokenService.toStoredTokens(profile),
             scope: profile.scope || existingSocialAccount.scope,
           },
         });
       }
 
+      const { user: existingUser, ...socialAccount } = existingSocialAccount;
       return {
-        user: existingSocialAccount.user,
+        user: existingUser,
         isNewUser: false,
-        socialAccount: existingSocialAccount,
+        socialAccount: withoutTokens(socialAccount),
       };
     }
 
@@ -92,8 +103,7 @@ class SocialAuthService {
         userId: user.id,
         provider,
         providerId,
-        accessToken: profile.accessToken,
-        refreshToken: profile.refreshToken,
+        ...socialTokenService.toStoredTokens(profile),
         scope: profile.scope,
       },
     });
@@ -109,15 +119,15 @@ class SocialAuthService {
     return {
       user,
       isNewUser,
-      socialAccount,
+      socialAccount: withoutTokens(socialAccount),
     };
   }
 
   /**
    * Link social account to existing user
    */
-  async linkSocialAccount(userId: string, profile: SocialProfile): Promise<SocialAccount> {
-    const { provider, providerId, accessToken, refreshToken, scope } = profile;
+  async linkSocialAccount(userId: string, profile: SocialProfile): Promise<LinkedSocialAccount> {
+    const { provider, providerId, scope } = profile;
 
     // Check if social account already exists
     const existingAccount = await prisma.socialAccount.findUnique({
@@ -149,20 +159,20 @@ class SocialAuthService {
     }
 
     // Create the social account link
-    return await prisma.socialAccount.create({
+    const socialAccount = await prisma.socialAccount.create({
       data: {
         userId,
         provider,
         providerId,
-        accessToken,
-        refreshToken,
+        ...socialTokenService.toStoredTokens(profile),
         scope,
       },
     });
+    return withoutTokens(socialAccount);
   }
 
   /**
-   * Unlink social account from user
+   * Unlink social account from user and revoke its tokens at the provider
    */
   async unlinkSocialAccount(userId: string, provider: string): Promise<void> {
     const socialAccount = await prisma.socialAccount.findFirst({
@@ -197,6 +207,7 @@ class SocialAuthService {
       );
     }
 
+    await socialTokenService.revokeAccountTokens(socialAccount);
     await prisma.socialAccount.delete({
       where: { id: socialAccount.id },
     });
@@ -205,11 +216,12 @@ class SocialAuthService {
   /**
    * Get user's social accounts
    */
-  async getUserSocialAccounts(userId: string): Promise<SocialAccount[]> {
-    return await prisma.socialAccount.findMany({
+  async getUserSocialAccounts(userId: string): Promise<LinkedSocialAccount[]> {
+    const socialAccounts = await prisma.socialAccount.findMany({
       where: { userId },
       orderBy: { createdAt: 'desc' },
     });
+    return socialAccounts.map(withoutTokens);
   }
 
   /**
@@ -220,8 +232,9 @@ class SocialAuthService {
     provider: string,
     accessToken?: string,
     refreshToken?: string,
-    scope?: string
-  ): Promise<SocialAccount> {
+    scope?: string,
+    expiresIn?: number
+  ): Promise<LinkedSocialAccount> {
     const socialAccount = await prisma.socialAccount.findFirst({
       where: {
         userId,
@@ -233,14 +246,14 @@ class SocialAuthService {
       throw new ApiError(httpStatus.NOT_FOUND, 'Social account not found');
     }
 
-    return await prisma.socialAccount.update({
+    const updated = await prisma.socialAccount.update({
       where: { id: socialAccount.id },
       data: {
-        accessToken: accessToken || socialAccount.accessToken,
-        refreshToken: refreshToken || socialAccount.refreshToken,
+        ...socialTokenService.toStoredTokens({ accessToken, refreshToken, expiresIn }),
         scope: scope || socialAccount.scope,
       },
     });
+    return withoutTokens(updated);
   }
 
   /**
@@ -0,0 +1,475 @@
+import moment from 'moment';
+import prisma from '../client';
+import config from '../config/config';
+import logger from '../config/logger';
+import { decryptSecret, encryptSecret, isEncryptedSecret } from '../utils/encryption';
+import oidcService from './oidc.service';
+
+/**
+ * Social Token Service
+ * Keeps the provider tokens of linked social accounts encrypted at rest, renews access tokens
+ * before they expire, and revokes them at the provider when an account is unlinked or deleted.
+ */
+
+interface StoredTokens {
+  id: string;
+  userId: string;
+  provider: string;
+  accessToken?: string | null;
+  refreshToken?: string | null;
+  scope?: string | null;
+}
+
+interface TokenClient {
+  clientId: string;
+  clientSecret?: string;
+  tokenEndpoint?: string;
+  revocationEndpoint?: string;
+  // Send the client credentials with HTTP Basic instead of in the form body
+  basicAuth: boolean;
+}
+
+const GOOGLE_TOKEN_ENDPOINT = 'https://oauth2.googleapis.com/token';
+const GOOGLE_REVOCATION_ENDPOINT = 'https://oauth2.googleapis.com/revoke';
+const GITHUB_TOKEN_ENDPOINT = 'https://github.com/login/oauth/access_token';
+const GITHUB_API_URL = 'https://api.github.com';
+
+// Access tokens expiring within this window are renewed by the scheduled refresh
+const REFRESH_WINDOW_MINUTES = 10;
+const BATCH_SIZE = 100;
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+// Token endpoint errors meaning the refresh token will never work again
+const PERMANENT_REFRESH_ERRORS = ['invalid_grant', 'unauthorized_client', 'invalid_client'];
+// Delay before retrying a failed refresh, doubled on each failure in a row up to the maximum
+const RETRY_DELAY_MINUTES = 5;
+const MAX_RETRY_DELAY_MINUTES = 24 * 60;
+// How long an instance holds its claim on refreshing an account, well beyond one refresh
+const REFRESH_LEASE_MINUTES = 2;
+
+/**
+ * Encrypt a provider token for storage
+ * @param {string} [token]
+ * @returns {string | null}
+ */
+const encryptToken = (token?: string | null) =>
+  token ? encryptSecret(token, config.social.tokenEncryptionSecret) : null;
+
+/**
+ * Read a stored provider token. Tokens stored before encryption was introduced are returned as
+ * they are until encryptStoredTokens has run.
+ * @param {string} [stored]
+ * @returns {string | null}
+ * @throws {Error} when the token was encrypted with another SOCIAL_TOKEN_ENCRYPTION_SECRET
+ */
+const decryptToken = (stored?: string | null) => {
+  if (!stored) {
+    return null;
+  }
+  if (!isEncryptedSecret(stored)) {
+    return stored;
+  }
+  try {
+    return decryptSecret(stored, config.social.tokenEncryptionSecret);
+  } catch {
+    throw new Error('Provider token was encrypted with another secret');
+  }
+};
+
+/**
+ * Column values storing the tokens of a provider token response or login
+ * @param {Object} tokens
+ * @returns {Object}
+ */
+const toStoredTokens = (tokens: {
+  accessToken?: string;
+  refreshToken?: string;
+  expiresIn?: number;
+}) => ({
+  ...(tokens.accessToken && {
+    accessToken: encryptToken(tokens.accessToken),
+    // Providers that do not say when the token expires are never refreshed on a schedule
+    tokenExpiresAt: tokens.expiresIn ? moment().add(tokens.expiresIn, 'seconds').toDate() : null,
+    refreshFailures: 0,
+    refreshRetryAt: null,
+  }),
+  ...(tokens.refreshToken && { refreshToken: encryptToken(tokens.refreshToken) }),
+});
+
+/**
+ * Client credentials and endpoints of the provider a social account belongs to
+ * @param {string} provider
+ * @returns {Promise<TokenClient | null>} null for providers without tokens (SAML) or not configured
+ */
+const getTokenClient = async (provider: string): Promise<TokenClient | null> => {
+  if (provider === 'google') {
+    const { clientId, clientSecret } = config.social.google;
+    return clientId
+      ? {
+          clientId,
+          clientSecret,
+          tokenEndpoint: GOOGLE_TOKEN_ENDPOINT,
+          revocationEndpoint: GOOGLE_REVOCATION_ENDPOINT,
+          basicAuth: false,
+        }
+      : null;
+  }
+  if (provider === 'github') {
+    const { clientId, clientSecret } = config.social.github;
+    // GitHub revokes through its REST API rather than an RFC 7009 endpoint
+    return clientId
+      ? { clientId, clientSecret, tokenEndpoint: GITHUB_TOKEN_ENDPOINT, basicAuth: false }
+      : null;
+  }
+  return oidcService.getTokenClient(provider);
+};
+
+/**
+ * POST a form to a provider's token or revocation endpoint as the client
+ * @param {TokenClient} client
+ * @param {string} url
+ * @param {Record<string, string>} params
+ * @returns {Promise<{ ok: boolean; status: number; body: any }>}
+ */
+const postToProvider = async (client: TokenClient, url: string, params: Record<string, string>) => {
+  const body = new URLSearchParams(params);
+  const headers: Record<string, string> = {
+    Accept: 'application/json',
+    'Content-Type': 'application/x-www-form-urlencoded',
+  };
+  if (client.basicAuth && client.clientSecret) {
+    const credentials = `${encodeURIComponent(client.clientId)}:${encodeURIComponent(client.clientSecret)}`;
+    headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+  } else {
+    body.set('client_id', client.clientId);
+    if (client.clientSecret) {
+      body.set('client_secret', client.clientSecret);
+    }
+  }
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers,
+    body,
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+  return {
+    ok: response.ok,
+    status: response.status,
+    body: await response.json().catch(() => ({})),
+  };
+};
+
+/**
+ * Put off refreshing a social account's tokens after a failed attempt, for longer after each
+ * failure in a row, so that accounts the provider keeps failing do not hold up the others
+ * @param {string} socialAccountId
+ * @returns {Promise<void>}
+ */
+const deferRefresh = async (socialAccountId: string) => {
+  const { refreshFailures } = await prisma.socialAccount.update({
+    where: { id: socialAccountId },
+    data: { refreshFailures: { increment: 1 } },
+    select: { refreshFailures: true },
+  });
+  const delayMinutes = Math.min(
+    RETRY_DELAY_MINUTES * 2 ** (refreshFailures - 1),
+    MAX_RETRY_DELAY_MINUTES
+  );
+  await prisma.socialAccount.update({
+    where: { id: socialAccountId },
+    data: { refreshRetryAt: moment().add(delayMinutes, 'minutes').toDate() },
+  });
+};
+
+/**
+ * Renew a social account's access token with its refresh token. A refresh token the provider
+ * rejects for good is removed along with the access token; other failures are retried later.
+ * @param {StoredTokens} account
+ * @returns {Promise<boolean>} whether new tokens were stored
+ */
+const refreshAccountTokens = async (account: StoredTokens) => {
+  const refreshToken = decryptToken(account.refreshToken);
+  const client = await getTokenClient(account.provider);
+  if (!refreshToken || !client?.tokenEndpoint) {
+    // Nothing to refresh with; keep the account out of later refresh runs
+    await prisma.socialAccount.update({
+      where: { id: account.id },
+      data: { tokenExpiresAt: null },
+    });
+    return false;
+  }
+
+  const response = await postToProvider(client, client.tokenEndpoint, {
+    grant_type: 'refresh_token',
+    refresh_token: refreshToken,
+  });
+  // GitHub answers token errors with 200 and an error body
+  if (!response.ok || response.body.error || !response.body.access_token) {
+    const error = response.body.error;
+    logger.warn('Provider token refresh failed', {
+      socialAccountId: account.id,
+      provider: account.provider,
+      status: response.status,
+      error,
+    });
+    if (PERMANENT_REFRESH_ERRORS.includes(error)) {
+      await prisma.socialAccount.update({
+        where: { id: account.id },
+        data: { accessToken: null, refreshToken: null, tokenExpiresAt: null },
+      });
+    } else {
+      await deferRefresh(account.id);
+    }
+    return false;
+  }
+
+  await prisma.socialAccount.update({
+    where: { id: account.id },
+    data: {
+      // Providers that do not rotate refresh tokens omit them; the stored one stays valid
+      ...toStoredTokens({
+        accessToken: response.body.access_token,
+        refreshToken: response.body.refresh_token,
+        expiresIn: Number(response.body.expires_in) || undefined,
+      }),
+      scope: response.body.scope || account.scope,
+    },
+  });
+  return true;
+};
+
+/**
+ * Social accounts whose access token expires within the refresh window, except those put off
+ * after a failure or claimed by another instance
+ * @returns {Prisma.SocialAccountWhereInput}
+ */
+const dueForRefresh = () => ({
+  refreshToken: { not: null },
+  tokenExpiresAt: { lte: moment().add(REFRESH_WINDOW_MINUTES, 'minutes').toDate() },
+  OR: [{ refreshRetryAt: null }, { refreshRetryAt: { lte: new Date() } }],
+  AND: [{ OR: [{ refreshLeaseUntil: null }, { refreshLeaseUntil: { lte: new Date() } }] }],
+});
+
+/**
+ * Claim the refresh of a social account for this instance. Every instance runs the scheduled
+ * refresh, and two of them refreshing at once would send the provider a refresh token the
+ * other has just rotated.
+ * @param {string} socialAccountId
+ * @returns {Promise<boolean>} false when another instance claimed or refreshed it first
+ */
+const claimRefresh = async (socialAccountId: string) => {
+  const { count } = await prisma.socialAccount.updateMany({
+    where: { id: socialAccountId, ...dueForRefresh() },
+    data: { refreshLeaseUntil: moment().add(REFRESH_LEASE_MINUTES, 'minutes').toDate() },
+  });
+  return count === 1;
+};
+
+/**
+ * Refresh the access tokens that expire within the refresh window, except those put off after
+ * a failure
+ * @returns {Promise<{ refreshed: number; failed: number }>}
+ */
+const refreshExpiringTokens = async () => {
+  const accounts = await prisma.socialAccount.findMany({
+    where: dueForRefresh(),
+    orderBy: { tokenExpiresAt: 'asc' },
+    take: BATCH_SIZE,
+  });
+
+  let refreshed = 0;
+  let skipped = 0;
+  for (const account of accounts) {
+    try {
+      if (!(await claimRefresh(account.id))) {
+        skipped += 1;
+        continue;
+      }
+      if (await refreshAccountTokens(account)) {
+        refreshed += 1;
+      }
+    } catch (error) {
+      logger.error('Provider token refresh failed', { socialAccountId: account.id, error });
+      await deferRefresh(account.id).catch(deferError =>
+        logger.error('Failed to defer provider token refresh', {
+          socialAccountId: account.id,
+          error: deferError,
+        })
+      );
+    }
+  }
+
+  if (accounts.length > skipped) {
+    logger.info(`Refreshed ${refreshed} of ${accounts.length - skipped} expiring provider tokens`);
+  }
+  return { refreshed, failed: accounts.length - skipped - refreshed };
+};
+
+/**
+ * Encrypt provider tokens stored in plain text before encryption was introduced
+ * @returns {Promise<number>} number of social accounts updated
+ */
+const encryptStoredTokens = async () => {
+  let updated = 0;
+  let cursor: string | undefined;
+
+  for (;;) {
+    const accounts = await prisma.socialAccount.findMany({
+      where: { OR: [{ accessToken: { not: null } }, { refreshToken: { not: null } }] },
+      select: { id: true, accessToken: true, refreshToken: true },
+      orderBy: { id: 'asc' },
+      take: BATCH_SIZE,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+    });
+    if (accounts.length === 0) {
+      break;
+    }
+    cursor = accounts[accounts.length - 1].id;
+
+    for (const account of accounts) {
+      const data: Record<string, string | null> = {};
+      for (const field of ['accessToken', 'refreshToken'] as const) {
+        const stored = account[field];
+        // Tokens encrypted with another secret are left alone rather than encrypted twice
+        if (stored && !isEncryptedSecret(stored)) {
+          data[field] = encryptToken(stored);
+        }
+      }
+      if (Object.keys(data).length > 0) {
+        await prisma.socialAccount.update({ where: { id: account.id }, data });
+        updated += 1;
+      }
+    }
+  }
+
+  if (updated > 0) {
+    logger.info(`Encrypted the stored provider tokens of ${updated} social accounts`);
+  }
+  return updated;
+};
+
+/**
+ * Revoke a social account's tokens at the provider. Best effort: failures are logged so that
+ * unlinking or deleting the account still goes ahead.
+ * @param {StoredTokens} account
+ * @returns {Promise<void>}
+ */
+const revokeAccountTokens = async (account: StoredTokens) => {
+  try {
+    const accessToken = decryptToken(account.accessToken);
+    const refreshToken = decryptToken(account.refreshToken);
+    if (!accessToken && !refreshToken) {
+      return;
+    }
+
+    const client = await getTokenClient(account.provider);
+    if (!client) {
+      return;
+    }
+
+    if (account.provider === 'github') {
+      if (!accessToken || !client.clientSecret) {
+        return;
+      }
+      // Deleting the grant revokes every token the app holds for this user
+      const credentials = Buffer.from(`${client.clientId}:${client.clientSecret}`).toString(
+        'base64'
+      );
+      const response = await fetch(`${GITHUB_API_URL}/applications/${client.clientId}/grant`, {
+        method: 'DELETE',
+        headers: {
+          Accept: 'application/vnd.github+json',
+          Authorization: `Basic ${credentials}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ access_token: accessToken }),
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      // 404 means the grant is already gone
+      if (!response.ok && response.status !== 404) {
+        logger.warn('Provider token revocation failed', {
+          socialAccountId: account.id,
+          provider: account.provider,
+          status: response.status,
+        });
+      }
+      return;
+    }
+
+    if (!client.revocationEndpoint) {
+      return;
+    }
+    // Revoking the refresh token usually ends the whole grant; the access token is revoked too
+    // for providers that keep them separate
+    const tokens = [
+      { token: refreshToken, hint: 'refresh_token' },
+      { token: accessToken, hint: 'access_token' },
+    ];
+    for (const { token, hint } of tokens) {
+      if (!token) {
+        continue;
+      }
+      const response = await postToProvider(client, client.revocationEndpoint, {
+        token,
+        token_type_hint: hint,
+      });
+      if (!response.ok) {
+        logger.warn('Provider token revocation failed', {
+          socialAccountId: account.id,
+          provider: account.provider,
+          status: response.status,
+          error: response.body.error,
+        });
+      }
+    }
+  } catch (error) {
+    logger.warn('Provider token revocation failed', {
+      socialAccountId: account.id,
+      provider: account.provider,
+      error,
+    });
+  }
+};
+
+/**
+ * Revoke the provider tokens of every social account of a user
+ * @param {string} userId
+ * @returns {Promise<void>}
+ */
+const revokeUserTokens = async (userId: string) => {
+  const accounts = await prisma.socialAccount.findMany({ where: { userId } });
+  await Promise.all(accounts.map(revokeAccountTokens));
+};
+
+/**
+ * Schedule the provider token refresh. Tokens stored in plain text are encrypted on the first run.
+ * @param {number} intervalMinutes - Interval in minutes between runs
+ */
+const scheduleTokenRefresh = (intervalMinutes: number = 5) => {
+  logger.info(`Scheduling provider token refresh every ${intervalMinutes} minutes`);
+
+  const run = async () => {
+    try {
+      await refreshExpiringTokens();
+    } catch (error) {
+      logger.error('Scheduled provider token refresh failed', { error });
+    }
+  };
+
+  encryptStoredTokens()
+    .catch(error => logger.error('Encrypting stored provider tokens failed', { error }))
+    .then(run);
+  setInterval(run, intervalMinutes * 60 * 1000);
+};
+
+export default {
+  encryptToken,
+  decryptToken,
+  toStoredTokens,
+  refreshAccountTokens,
+  refreshExpiringTokens,
+  encryptStoredTokens,
+  revokeAccountTokens,
+  revokeUserTokens,
+  scheduleTokenRefresh,
+};
@@ -1,3 +1,4 @@
+import crypto from 'crypto';
 import jwt from 'jsonwebtoken';
 import moment, { Moment } from 'moment';
 import httpStatus from 'http-status';
@@ -5,12 +6,18 @@ import config from '../config/config';
 import userService from './user.service';
 import deviceService from './device.service';
 import notificationService from './notification.service';
+import tokenRevocationService from './tokenRevocation.service';
+import signingKeyService from './signingKey.service';
 import ApiError from '../utils/ApiError';
 import { Token, TokenType } from '@prisma/client';
 import prisma from '../client';
 import { AuthTokensResponse } from '../types/response';
+import { AccessTokenPayload } from '../types/auth.types';
 import { Request } from 'express';
 
+const TWO_FACTOR_TOKEN_EXPIRATION_MINUTES = 5;
+const SOCIAL_LOGIN_TOKEN_EXPIRATION_MINUTES = 2;
+
 /**
  * Generate token
  * @param {string} userId
@@ -34,6 +41,50 @@ const generateToken = (
   return jwt.sign(payload, secret);
 };
 
+/**
+ * Generate an access token signed with the current asymmetric signing key, so other services
+ * can verify it against the JWKS
+ * @param {string} userId
+ * @param {Moment} expires
+ * @param {string} sessionId - session the token belongs to, so it can be revoked with it
+ * @param {string} [actorId] - admin impersonating the user, recorded in the `act` claim
+ * @returns {Promise<string>}
+ */
+const generateAccessToken = async (
+  userId: string,
+  expires: Moment,
+  sessionId: string,
+  actorId?: string
+): Promise<string> => {
+  const { kid, algorithm, privateKey } = await signingKeyService.getSigningKey();
+  const payload = {
+    sub: userId,
+    iat: moment().unix(),
+    exp: expires.unix(),
+    type: TokenType.ACCESS,
+    sid: sessionId,
+    ...(actorId && { act: { sub: actorId } }),
+  };
+  return jwt.sign(payload, privateKey, { algorithm, keyid: kid });
+};
+
+/**
+ * Verify an access token against the non-retired signing keys
+ * @param {string} token
+ * @returns {Promise<AccessTokenPayload>}
+ */
+const verifyAccessToken = async (token: string): Promise<AccessTokenPayload> => {
+  const key = await signingKeyService.getVerificationKeyForToken(token);
+  if (!key) {
+    throw new Error('Unknown signing key');
+  }
+  const payload = jwt.verify(token, key.publicKey, { algorithms: [key.algorithm] });
+  if (typeof payload === 'string' || payload.type !== TokenType.ACCESS) {
+    throw new Error('Invalid token type');
+  }
+  return payload as AccessTokenPayload;
+};
+
 /**
  * Save a token
  * @param {string} token
@@ -41,6 +92,7 @@ const generateToken = (
  * @param {Moment} expires
  * @param {string} type
  * @param {boolean} [blacklisted]
+ * @param {string} [familyId] - refresh token family
  * @returns {Promise<Token>}
  */
 const saveToken = async (
@@ -48,7 +100,8 @@ const saveToken = async (
   userId: string,
   expires: Moment,
   type: TokenType,
-  blacklisted = false
+  blacklisted = false,
+  familyId?: string
 ): Promise<Token> => {
   console.log('[TOKEN] Saving token:', { token, userId, type, expires: expires.toISOString() });
   const tokenDoc = await prisma.token.create({
@@ -58,6 +111,7 @@ const saveToken = async (
       expires: expires.toDate(),
       type,
       blacklisted,
+      familyId,
     },
   });
   return tokenDoc;
@@ -80,33 +134,56 @@ const verifyToken = async (token: string, type: TokenType): Promise<Token> => {
   return tokenDoc;
 };
 
+/**
+ * Find a refresh token whatever its state, so rotated tokens can be recognised when replayed
+ * @param {string} token
+ * @returns {Promise<Token | null>}
+ */
+const findRefreshToken = async (token: string): Promise<Token | null> => {
+  const payload = jwt.verify(token, config.jwt.secret) as any;
+  return prisma.token.findFirst({
+    where: { token, type: TokenType.REFRESH, userId: payload.sub as string },
+  });
+};
+
 /**
  * Generate auth tokens with device management
  * @param {User} user
  * @param {Request} req - Express request object for device info
+ * @param {string} [familyId] - refresh token family being rotated; a login starts a new one
  * @returns {Promise<AuthTokensResponse>}
  */
 const generateAuthTokens = async (
   user: { id: string },
-  req: Request
+  req: Request,
+  familyId?: string
 ): Promise<AuthTokensResponse> => {
+  const tokenFamilyId = familyId || crypto.randomUUID();
+
   const accessTokenExpires = moment().add(config.jwt.accessExpirationMinutes, 'minutes');
-  const accessToken = generateToken(user.id, accessTokenExpires, TokenType.ACCESS);
+  const accessToken = await generateAccessToken(user.id, accessTokenExpires, tokenFamilyId);
   await saveToken(accessToken, user.id, accessTokenExpires, TokenType.ACCESS);
 
   const refreshTokenExpires = moment().add(config.jwt.refreshExpirationDays, 'days');
   const refreshToken = generateToken(user.id, refreshTokenExpires, TokenType.REFRESH);
-  await saveToken(refreshToken, user.id, refreshTokenExpires, TokenType.REFRESH);
+  await saveToken(
+    refreshToken,
+    user.id,
+    refreshTokenExpires,
+    TokenType.REFRESH,
+    false,
+    tokenFamilyId
+  );
 
   // Create device session
   const deviceSession = await deviceService.createDeviceSession(user.id, refreshToken, req);
 
-  // Create user session
-  const sessionId = deviceSession.deviceId + '-' + refreshToken.slice(0, 8);
-  const session = await prisma.userSession.create({
-    data: {
+  // One user session per token family, kept alive by each rotation
+  const session = await prisma.userSession.upsert({
+    where: { sessionId: tokenFamilyId },
+    create: {
       userId: user.id,
-      sessionId,
+      sessionId: tokenFamilyId,
       deviceId: deviceSession.deviceId,
       deviceName: deviceSession.deviceName,
       ipAddress: deviceSession.ipAddress,
@@ -115,14 +192,20 @@ const generateAuthTokens = async (
       lastActivity: new Date(),
       expiresAt: refreshTokenExpires.toDate(),
     },
+    update: {
+      ipAddress: deviceSession.ipAddress,
+      userAgent: deviceSession.userAgent,
+      lastActivity: new Date(),
+      expiresAt: refreshTokenExpires.toDate(),
+    },
   });
 
-  // Get full user data for notifications
-  const fullUser = await userService.getUserById(user.id);
-
-  // Send login alert notification
-  if (fullUser) {
-    await notificationService.sendLoginAlert(fullUser, req, deviceSession);
+  // Send login alert notification for new logins only
+  if (!familyId) {
+    const fullUser = await userService.getUserById(user.id);
+    if (fullUser) {
+      await notificationService.sendLoginAlert(fullUser, req, deviceSession);
+    }
   }
 
   return {
@@ -173,6 +256,48 @@ const generateVerifyEmailToken = async (user: { id: string }): Promise<string> =
   return verifyEmailToken;
 };
 
+/**
+ * Generate a short-lived token proving the first login factor, exchanged for auth tokens once
+ * a second factor is verified
+ * @param {string} userId
+ * @returns {Promise<string>}
+ */
+const generateTwoFactorToken = async (userId: string): Promise<string> => {
+  const expires = moment().add(TWO_FACTOR_TOKEN_EXPIRATION_MINUTES, 'minutes');
+  const twoFactorToken = generateToken(userId, expires, TokenType.TWO_FACTOR);
+  await saveToken(twoFactorToken, userId, expires, TokenType.TWO_FACTOR);
+  return twoFactorToken;
+};
+
+/**
+ * Generate a single-use magic login link token. Links issued earlier stop working.
+ * @param {string} userId
+ * @returns {Promise<string>}
+ */
+const generateMagicLinkToken = async (userId: string): Promise<string> => {
+  await prisma.token.updateMany({
+    where: { userId, type: TokenType.MAGIC_LINK, blacklisted: false },
+    data: { blacklisted: true },
+  });
+  const expires = moment().add(config.jwt.magicLinkExpirationMinutes, 'minutes');
+  const magicLinkToken = generateToken(userId, expires, TokenType.MAGIC_LINK);
+  await saveToken(magicLinkToken, userId, expires, TokenType.MAGIC_LINK);
+  return magicLinkToken;
+};
+
+/**
+ * Generate the single-use code handed to the client app after a social provider login, which it
+ * exchanges for auth tokens or a two-factor challenge
+ * @param {string} userId
+ * @returns {Promise<string>}
+ */
+const generateSocialLoginToken = async (userId: string): Promise<string> => {
+  const expires = moment().add(SOCIAL_LOGIN_TOKEN_EXPIRATION_MINUTES, 'minutes');
+  const socialLoginToken = generateToken(userId, expires, TokenType.SOCIAL_LOGIN);
+  await saveToken(socialLoginToken, userId, expires, TokenType.SOCIAL_LOGIN);
+  return socialLoginToken;
+};
+
 /**
  * Blacklist a token
  * @param {string} tokenId
@@ -185,6 +310,52 @@ const blacklistToken = async (tokenId: string): Promise<void> => {
   });
 };
 
+/**
+ * Retire a refresh token that is being exchanged for a new pair. Only one caller can retire a
+ * given token, so a concurrent replay is treated as reuse.
+ * @param {string} tokenId
+ * @returns {Promise<boolean>} whether the token was still live
+ */
+const markTokenRotated = async (tokenId: string): Promise<boolean> => {
+  const result = await prisma.token.updateMany({
+    where: { id: tokenId, blacklisted: false, rotatedAt: null },
+    data: { blacklisted: true, rotatedAt: new Date() },
+  });
+  return result.count === 1;
+};
+
+/**
+ * Whether the user session of a refresh token family is still active
+ * @param {string} familyId
+ * @returns {Promise<boolean>}
+ */
+const isTokenFamilyActive = async (familyId: string): Promise<boolean> => {
+  const session = await prisma.userSession.findUnique({
+    where: { sessionId: familyId },
+    select: { isActive: true },
+  });
+  return !!session?.isActive;
+};
+
+/**
+ * Revoke every token of a refresh token family and end its user session
+ * @param {string} familyId
+ * @returns {Promise<void>}
+ */
+const revokeTokenFamily = async (familyId: string): Promise<void> => {
+  await prisma.$transaction([
+    prisma.token.updateMany({
+      where: { familyId, blacklisted: false },
+      data: { blacklisted: true },
+    }),
+    prisma.userSession.updateMany({
+      where: { sessionId: familyId, isActive: true },
+      data: { isActive: false, lastActivity: new Date() },
+    }),
+  ]);
+  await tokenRevocationService.revokeSessionAccessTokens(familyId);
+};
+
 /**
  * Remove expired tokens
  * @returns {Promise<void>}
@@ -221,23 +392,51 @@ const revokeAllUserTokens = async (userId: string): Promise<void> => {
     where: { userId },
     data: { blacklisted: true },
   });
+  // Tokens issued to OAuth clients on the user's behalf
+  await prisma.oAuthToken.updateMany({
+    where: { userId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  await tokenRevocationService.revokeUserAccessTokens(userId);
 };
 
+/**
+ * End the active sessions of a device and revoke their access tokens
+ * @param {string} userId
+ * @param {string} deviceId
+ * @returns {Promise<void>}
+ */
 const endUserSession = async (userId: string, deviceId: string) => {
+  const sessions = await prisma.userSession.findMany({
+    where: { userId, deviceId, isActive: true },
+    select: { sessionId: true },
+  });
   await prisma.userSession.updateMany({
     where: { userId, deviceId, isActive: true },
     data: { isActive: false, lastActivity: new Date() },
   });
+  await tokenRevocationService.revokeSessionAccessTokens(
+    sessions.map(session => session.sessionId)
+  );
 };
 
 export default {
   generateToken,
+  generateAccessToken,
+  verifyAccessToken,
   saveToken,
   verifyToken,
+  findRefreshToken,
   generateAuthTokens,
   generateResetPasswordToken,
   generateVerifyEmailToken,
+  generateTwoFactorToken,
+  generateMagicLinkToken,
+  generateSocialLoginToken,
   blacklistToken,
+  markTokenRotated,
+  isTokenFamilyActive,
+  revokeTokenFamily,
   removeExpiredTokens,
   getUserTokens,
   revokeAllUserTokens,
@@ -12,6 +12,8 @@ interface CleanupStats {
   deletedTokens: number;
   deletedSessions: number;
   deletedOtps: number;
+  deletedChallenges: number;
+  deletedOAuthGrants: number;
   duration: number;
 }
 
@@ -25,6 +27,8 @@ const cleanupExpiredTokens = async (): Promise<CleanupStats> => {
     deletedTokens: 0,
     deletedSessions: 0,
     deletedOtps: 0,
+    deletedChallenges: 0,
+    deletedOAuthGrants: 0,
     duration: 0,
   };
 
@@ -40,11 +44,13 @@ const cleanupExpiredTokens = async (): Promise<CleanupStats> => {
         deletedTokens: 0,
         deletedSessions: 0,
         deletedOtps: 0,
+        deletedChallenges: 0,
+        deletedOAuthGrants: 0,
         duration: Date.now() - startTime,
       };
     }
 
-    // Clean up expired auth tokens (access, refresh, reset password, verify email)
+    // Clean up expired auth tokens (access, refresh, reset password, verify email, 2FA login, magic link, social login)
     const expiredTokens = await prisma.token.deleteMany({
       where: {
         expires: {
@@ -56,6 +62,9 @@ const cleanupExpiredTokens = async (): Promise<CleanupStats> => {
             TokenType.REFRESH,
             TokenType.RESET_PASSWORD,
             TokenType.VERIFY_EMAIL,
+            TokenType.TWO_FACTOR,
+            TokenType.MAGIC_LINK,
+            TokenType.SOCIAL_LOGIN,
           ],
         },
       },
@@ -91,12 +100,33 @@ const cleanupExpiredTokens = async (): Promise<CleanupStats> => {
       stats.deletedOtps = 0;
     }
 
+    // Clean up challenges of WebAuthn ceremonies that were never completed
+    const expiredChallenges = await prisma.webAuthnChallenge.deleteMany({
+      where: {
+        expiresAt: {
+          lt: new Date(),
+        },
+      },
+    });
+
+    stats.deletedChallenges = expiredChallenges.count;
+
+    // Clean up expired OAuth authorization codes and tokens
+    const [expiredCodes, expiredOAuthTokens] = await prisma.$transaction([
+      prisma.oAuthAuthorizationCode.deleteMany({ where: { expiresAt: { lt: new Date() } } }),
+      prisma.oAuthToken.deleteMany({ where: { expiresAt: { lt: new Date() } } }),
+    ]);
+
+    stats.deletedOAuthGrants = expiredCodes.count + expiredOAuthTokens.count;
+
     stats.duration = Date.now() - startTime;
 
     logger.info('Token cleanup completed', {
       deletedTokens: stats.deletedTokens,
       deletedSessions: stats.deletedSessions,
       deletedOtps: stats.deletedOtps,
+      deletedChallenges: stats.deletedChallenges,
+      deletedOAuthGrants: stats.deletedOAuthGrants,
       duration: `${stats.duration}ms`,
     });
 
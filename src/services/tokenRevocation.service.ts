@@ -0,0 +1,90 @@
+import config from '../config/config';
+import logger from '../config/logger';
+import cacheService, { CacheKeys } from './cache.service';
+
+/**
+ * Token Revocation Service
+ * Access tokens are stateless JWTs, so revoking them early needs a denylist consulted on every
+ * request. Entries live in Redis only as long as an access token can, after which the token has
+ * expired on its own.
+ *
+ * Two kinds of entries are kept: a per-user cut-off time rejecting every access token issued
+ * before it, and revoked sessions rejecting tokens carrying that session's `sid` claim.
+ *
+ * The denylist fails open: while Redis is unavailable revocations are not recorded and tokens
+ * are not checked against it. The JWT strategy still refuses deactivated, locked and erased
+ * accounts from the database, but a token of a revoked session keeps working until it expires.
+ */
+
+const accessTokenTtlSeconds = () => config.jwt.accessExpirationMinutes * 60;
+
+/**
+ * Reject every access token issued to a user before the current second. The cut-off is kept in
+ * whole seconds like `iat`, so tokens issued right after it, such as those of the sign-in that
+ * follows a password change, keep working. So do tokens issued earlier within that same second.
+ * @param {string} userId
+ * @returns {Promise<void>}
+ */
+const revokeUserAccessTokens = async (userId: string): Promise<void> => {
+  const revokedBefore = Math.floor(Date.now() / 1000);
+  const saved = await cacheService.set(
+    CacheKeys.ACCESS_TOKENS_REVOKED_BEFORE(userId),
+    revokedBefore,
+    { ttl: accessTokenTtlSeconds() }
+  );
+  if (!saved) {
+    logger.warn('Access tokens could not be revoked: cache unavailable', { userId });
+  }
+};
+
+/**
+ * Reject the access tokens issued for one or more sessions
+ * @param {string | string[]} sessionIds
+ * @returns {Promise<void>}
+ */
+const revokeSessionAccessTokens = async (sessionIds: string | string[]): Promise<void> => {
+  const ids = Array.isArray(sessionIds) ? sessionIds : [sessionIds];
+  const saved = await Promise.all(
+    ids.map(sessionId =>
+      cacheService.set(CacheKeys.REVOKED_SESSION(sessionId), true, {
+        ttl: accessTokenTtlSeconds(),
+      })
+    )
+  );
+  if (saved.includes(false)) {
+    logger.warn('Session access tokens could not be revoked: cache unavailable', {
+      sessionIds: ids,
+    });
+  }
+};
+
+/**
+ * Whether an access token was revoked before it expired
+ * @param {Object} payload - verified JWT payload
+ * @param {string} payload.sub - user ID
+ * @param {number} payload.iat - issued at, in seconds
+ * @param {string} [payload.sid] - session the token belongs to
+ * @returns {Promise<boolean>}
+ */
+const isAccessTokenRevoked = async (payload: {
+  sub: string;
+  iat: number;
+  sid?: string;
+}): Promise<boolean> => {
+  const keys = [CacheKeys.ACCESS_TOKENS_REVOKED_BEFORE(payload.sub)];
+  if (payload.sid) {
+    keys.push(CacheKeys.REVOKED_SESSION(payload.sid));
+  }
+
+  const [revokedBefore, sessionRevoked] = await cacheService.mget<number | boolean>(keys);
+  if (typeof revokedBefore === 'number' && payload.iat < revokedBefore) {
+    return true;
+  }
+  return sessionRevoked === true;
+};
+
+export default {
+  revokeUserAccessTokens,
+  revokeSessionAccessTokens,
+  isAccessTokenRevoked,
+};
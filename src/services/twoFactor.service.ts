@@ -1,8 +1,21 @@
 import speakeasy from 'speakeasy';
 import QRCode from 'qrcode';
+import { OtpType } from '@prisma/client';
 import ApiError from '../utils/ApiError';
 import httpStatus from 'http-status';
 import prisma from '../client';
+import emailService from './email.service';
+import smsService from './sms.service';
+import webAuthnService from './webAuthn.service';
+import { createTwoFactorOtp, verifyTwoFactorOtp } from './otp.service';
+import { TwoFactorMethod } from '../types/auth.types';
+
+type OtpMethod = Extract<TwoFactorMethod, 'email' | 'sms'>;
+
+const OTP_METHOD_TYPES: Record<OtpMethod, OtpType> = {
+  email: OtpType.TWO_FACTOR_EMAIL,
+  sms: OtpType.TWO_FACTOR_SMS,
+};
 
 /**
  * Generate a new secret for 2FA
@@ -286,16 +299,177 @@ const regenerateBackupCodes = async (userId: string, token: string): Promise<str
   return backupCodes;
 };
 
+/**
+ * Get the second factors a user has enrolled, preferred factor first
+ * @param {string} userId - User ID
+ * @returns {Promise<{methods: TwoFactorMethod[], preferredMethod: TwoFactorMethod | null}>}
+ */
+const getEnrolledMethods = async (
+  userId: string
+): Promise<{
+  methods: TwoFactorMethod[];
+  preferredMethod: TwoFactorMethod | null;
+}> => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      twoFactorEnabled: true,
+      emailTwoFactorEnabled: true,
+      smsTwoFactorEnabled: true,
+      phone: true,
+      preferredTwoFactorMethod: true,
+    },
+  });
+
+  if (!user) {
+    throw new ApiError(httpStatus.NOT_FOUND, 'User not found');
+  }
+
+  const methods: TwoFactorMethod[] = [];
+  if (user.twoFactorEnabled) methods.push('totp');
+  if (await webAuthnService.hasCredentials(userId)) methods.push('webauthn');
+  if (user.emailTwoFactorEnabled) methods.push('email');
+  if (user.smsTwoFactorEnabled && user.phone) methods.push('sms');
+
+  // A preference for a factor that was since removed falls back to the first enrolled one
+  const preferred = methods.find(method => method === user.preferredTwoFactorMethod);
+  const preferredMethod = preferred || methods[0] || null;
+
+  return {
+    methods: preferredMethod
+      ? [preferredMethod, ...methods.filter(method => method !== preferredMethod)]
+      : methods,
+    preferredMethod,
+  };
+};
+
+/**
+ * Deliver a one-time code over email or SMS
+ * @param {string} userId - User ID
+ * @param {OtpMethod} method - 'email' or 'sms'
+ * @returns {Promise<void>}
+ */
+const sendOtpCode = async (userId: string, method: OtpMethod): Promise<void> => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { email: true, name: true, phone: true, phoneCode: true },
+  });
+
+  if (!user) {
+    throw new ApiError(httpStatus.NOT_FOUND, 'User not found');
+  }
+
+  if (method === 'sms' && !user.phone) {
+    throw new ApiError(httpStatus.BAD_REQUEST, 'Add a phone number to your profile first');
+  }
+
+  const code = await createTwoFactorOtp(userId, OTP_METHOD_TYPES[method]);
+
+  if (method === 'sms') {
+    await smsService.sendTwoFactorCode(`${user.phoneCode || ''}${user.phone}`, code);
+  } else {
+    await emailService.sendTwoFactorOtp(user.email, code, user.name || 'User');
+  }
+};
+
+/**
+ * Verify a one-time code sent over email or SMS
+ * @param {string} userId - User ID
+ * @param {OtpMethod} method - 'email' or 'sms'
+ * @param {string} code - Code to verify
+ * @returns {Promise<boolean>} Whether the code is valid
+ */
+const verifyOtpCode = async (userId: string, method: OtpMethod, code: string) => {
+  return verifyTwoFactorOtp(userId, OTP_METHOD_TYPES[method], code);
+};
+
+/**
+ * Enable email or SMS codes as a second factor once the user proves access to the channel
+ * @param {string} userId - User ID
+ * @param {OtpMethod} method - 'email' or 'sms'
+ * @param {string} code - Code sent to the channel
+ * @returns {Promise<void>}
+ */
+const enableOtpMethod = async (userId: string, method: OtpMethod, code: string): Promise<void> => {
+  if (!(await verifyOtpCode(userId, method, code))) {
+    throw new ApiError(httpStatus.BAD_REQUEST, 'Invalid or expired code');
+  }
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: method === 'sms' ? { smsTwoFactorEnabled: true } : { emailTwoFactorEnabled: true },
+  });
+};
+
+/**
+ * Disable email or SMS codes as a second factor
+ * @param {string} userId - User ID
+ * @param {OtpMethod} method - 'email' or 'sms'
+ * @param {string} code - Code sent to the channel
+ * @returns {Promise<void>}
+ */
+const disableOtpMethod = async (userId: string, method: OtpMethod, code: string): Promise<void> => {
+  if (!(await verifyOtpCode(userId, method, code))) {
+    throw new ApiError(httpStatus.BAD_REQUEST, 'Invalid or expired code');
+  }
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: method === 'sms' ? { smsTwoFactorEnabled: false } : { emailTwoFactorEnabled: false },
+  });
+};
+
+/**
+ * Set the factor offered first at login
+ * @param {string} userId - User ID
+ * @param {TwoFactorMethod} method - An enrolled factor
+ * @returns {Promise<void>}
+ */
+const setPreferredMethod = async (userId: string, method: TwoFactorMethod): Promise<void> => {
+  const { methods } = await getEnrolledMethods(userId);
+  if (!methods.includes(method)) {
+    throw new ApiError(httpStatus.BAD_REQUEST, `${method} is not enabled for this account`);
+  }
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { preferredTwoFactorMethod: method },
+  });
+};
+
+/**
+ * Verify a code-based second factor during login
+ * @param {string} userId - User ID
+ * @param {TwoFactorMethod} method - 'totp' (including backup codes), 'email' or 'sms'
+ * @param {string} code - Code entered by the user
+ * @returns {Promise<boolean>} Whether the code is valid
+ */
+const verifyLoginCode = async (
+  userId: string,
+  method: TwoFactorMethod,
+  code: string
+): Promise<boolean> => {
+  if (method === 'totp') {
+    return verifyTwoFactor(userId, code);
+  }
+  if (method === 'email' || method === 'sms') {
+    return verifyOtpCode(userId, method, code);
+  }
+  return false;
+};
+
 /**
  * Get 2FA status for a user
  * @param {string} userId - User ID
- * @returns {Promise<{enabled: boolean, setup: boolean}>}
+ * @returns {Promise<Object>}
  */
 const getTwoFactorStatus = async (
   userId: string
 ): Promise<{
   enabled: boolean;
   setup: boolean;
+  methods: TwoFactorMethod[];
+  preferredMethod: TwoFactorMethod | null;
 }> => {
   const user = await prisma.user.findUnique({
     where: { id: userId },
@@ -306,9 +480,13 @@ const getTwoFactorStatus = async (
     throw new ApiError(httpStatus.NOT_FOUND, 'User not found');
   }
 
+  const { methods, preferredMethod } = await getEnrolledMethods(userId);
+
   return {
     enabled: user.twoFactorEnabled,
     setup: !!user.twoFactorSecret,
+    methods,
+    preferredMethod,
   };
 };
 
@@ -324,4 +502,10 @@ export default {
   verifyTwoFactor,
   regenerateBackupCodes,
   getTwoFactorStatus,
+  getEnrolledMethods,
+  sendOtpCode,
+  enableOtpMethod,
+  disableOtpMethod,
+  setPreferredMethod,
+  verifyLoginCode,
 };
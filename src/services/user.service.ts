@@ -5,6 +5,9 @@ import prisma from '../client';
 import { encryptPassword, isPasswordMatch } from '../utils/encryption';
 import exclude from '../utils/exclude';
 import pick from '../utils/pick';
+import tokenRevocationService from './tokenRevocation.service';
+import socialTokenService from './socialToken.service';
+import notificationPreferenceService from './notificationPreference.service';
 
 /**
  * Create a user
@@ -71,18 +74,26 @@ const updateUserById = async (userId: string, updateBody: any) => {
   if (!user) {
     throw new ApiError(httpStatus.NOT_FOUND, 'User not found');
   }
-  if (updateBody.email && (await getUserByEmail(updateBody.email)).id !== userId) {
-    throw new ApiError(httpStatus.BAD_REQUEST, 'Email already taken');
+  if (updateBody.email) {
+    const emailOwner = await getUserByEmail(updateBody.email);
+    if (emailOwner && emailOwner.id !== userId) {
+      throw new ApiError(httpStatus.BAD_REQUEST, 'Email already taken');
+    }
   }
   const updatedUser = await prisma.user.update({
     where: { id: userId },
     data: updateBody,
   });
+
+  // A deactivated or locked account is signed out everywhere at once
+  if (updateBody.isActive === false || updateBody.isLocked === true) {
+    await tokenRevocationService.revokeUserAccessTokens(userId);
+  }
   return updatedUser;
 };
 
 /**
- * Delete user by id
+ * Delete user by id, revoking the tokens of their social accounts at the providers
  * @param {string} userId
  * @returns {Promise<User>}
  */
@@ -91,6 +102,7 @@ const deleteUserById = async (userId: string) => {
   if (!user) {
     throw new ApiError(httpStatus.NOT_FOUND, 'User not found');
   }
+  await socialTokenService.revokeUserTokens(userId);
   await prisma.user.delete({ where: { id: userId } });
   return user;
 };
@@ -301,7 +313,6 @@ const getUserPreferences = async (userId: string) => {
   const user = await prisma.user.findUnique({
     where: { id: userId },
     select: {
-      emailNotifications: true,
       preferences: true,
     },
   });
@@ -311,7 +322,7 @@ const getUserPreferences = async (userId: string) => {
   }
 
   return {
-    emailNotifications: user.emailNotifications || {},
+    notifications: await notificationPreferenceService.getPreferences(userId),
     preferences: user.preferences || {},
   };
 };
@@ -326,7 +337,6 @@ const updateUserPreferences = async (userId: string, updateBody: any) => {
   const user = await prisma.user.findUnique({
     where: { id: userId },
     select: {
-      emailNotifications: true,
       preferences: true,
     },
   });
@@ -335,17 +345,29 @@ const updateUserPreferences = async (userId: string, updateBody: any) => {
     throw new ApiError(httpStatus.NOT_FOUND, 'User not found');
   }
 
+  // Setting a webhook URL returns its signing secret, only in this response
+  const { notifications, emailNotifications, pushNotifications, ...preferences } = updateBody;
+  const notificationsUpdate = notificationPreferenceService.fromLegacySettings(
+    { emailNotifications, pushNotifications },
+    notifications
+  );
+  const notificationPreferences = notificationsUpdate
+    ? await notificationPreferenceService.updatePreferences(userId, notificationsUpdate)
+    : await notificationPreferenceService.getPreferences(userId);
+
   const updatedUser = await prisma.user.update({
     where: { id: userId },
-    data: updateBody,
+    data: preferences,
     select: {
-      emailNotifications: true,
       preferences: true,
       updatedAt: true,
     },
   });
 
-  return updatedUser;
+  return {
+    ...updatedUser,
+    notifications: notificationPreferences,
+  };
 };
 
 /**
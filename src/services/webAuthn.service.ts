@@ -0,0 +1,430 @@
+import httpStatus from 'http-status';
+import moment from 'moment';
+import { Request } from 'express';
+import { ActivityType, SecurityEventType } from '@prisma/client';
+import {
+  generateAuthenticationOptions,
+  generateRegistrationOptions,
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse,
+  AuthenticationResponseJSON,
+  AuthenticatorTransportFuture,
+  RegistrationResponseJSON,
+} from '@simplewebauthn/server';
+import prisma from '../client';
+import config from '../config/config';
+import logger from '../config/logger';
+import ApiError from '../utils/ApiError';
+import securityService from './security.service';
+import userActivityService from './userActivity.service';
+
+/**
+ * WebAuthn Service
+ * Passkey registration and authentication ceremonies. Credentials act as a second factor after
+ * a password login, or as a passwordless primary login with user verification.
+ */
+
+type ChallengeType = 'REGISTRATION' | 'AUTHENTICATION';
+
+const CHALLENGE_TTL_MINUTES = 5;
+
+// Never expose the public key; the sign count is a BigInt and is converted for JSON
+const CREDENTIAL_SELECT = {
+  id: true,
+  name: true,
+  transports: true,
+  deviceType: true,
+  backedUp: true,
+  aaguid: true,
+  signCount: true,
+  lastUsedAt: true,
+  createdAt: true,
+} as const;
+
+const toCredentialResponse = <T extends { signCount: bigint }>(credential: T) => ({
+  ...credential,
+  signCount: Number(credential.signCount),
+});
+
+const logEvent = (
+  userId: string,
+  eventType: SecurityEventType,
+  req: Request,
+  success: boolean,
+  details: Record<string, any> = {}
+) =>
+  securityService.logSecurityEvent({
+    userId,
+    ipAddress: req.ip || '',
+    userAgent: req.get('User-Agent') || 'Unknown',
+    eventType,
+    success,
+    details: { ...details, timestamp: new Date().toISOString() },
+  });
+
+/**
+ * Store a ceremony challenge until it is consumed or expires
+ * @param {string} challenge
+ * @param {ChallengeType} type
+ * @param {string} [userId]
+ */
+const saveChallenge = async (challenge: string, type: ChallengeType, userId?: string) => {
+  await prisma.webAuthnChallenge.create({
+    data: {
+      challenge,
+      type,
+      userId,
+      expiresAt: moment().add(CHALLENGE_TTL_MINUTES, 'minutes').toDate(),
+    },
+  });
+};
+
+/**
+ * Consume the challenge signed by the authenticator. Each challenge can be used once.
+ * @param {string} clientDataJSON - base64url client data from the ceremony response
+ * @param {ChallengeType} type
+ * @returns {Promise<WebAuthnChallenge>}
+ */
+const consumeChallenge = async (clientDataJSON: string, type: ChallengeType) => {
+  let challenge: string | undefined;
+  try {
+    challenge = JSON.parse(Buffer.from(clientDataJSON, 'base64url').toString('utf8')).challenge;
+  } catch {
+    challenge = undefined;
+  }
+  if (!challenge) {
+    throw new ApiError(httpStatus.BAD_REQUEST, 'Malformed client data');
+  }
+
+  const stored = await prisma.webAuthnChallenge.findUnique({ where: { challenge } });
+  if (!stored || stored.type !== type) {
+    throw new ApiError(httpStatus.BAD_REQUEST, 'Unknown or already used challenge');
+  }
+
+  await prisma.webAuthnChallenge.delete({ where: { id: stored.id } });
+  if (stored.expiresAt < new Date()) {
+    throw new ApiError(httpStatus.BAD_REQUEST, 'Challenge has expired');
+  }
+  return stored;
+};
+
+/**
+ * Start registering a new passkey for a user
+ * @param {string} userId
+ * @returns {Promise<PublicKeyCredentialCreationOptionsJSON>}
+ */
+const generateRegistration = async (userId: string) => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      id: true,
+      email: true,
+      name: true,
+      webAuthnCredentials: { select: { credentialId: true, transports: true } },
+    },
+  });
+  if (!user) {
+    throw new ApiError(httpStatus.NOT_FOUND, 'User not found');
+  }
+
+  const options = await generateRegistrationOptions({
+    rpName: config.webauthn.rpName,
+    rpID: config.webauthn.rpId,
+    userID: Buffer.from(user.id),
+    userName: user.email,
+    userDisplayName: user.name || user.email,
+    attestationType: 'none',
+    // Stops the same authenticator from being registered twice
+    excludeCredentials: user.webAuthnCredentials.map(credential => ({
+      id: credential.credentialId,
+      transports: credential.transports as AuthenticatorTransportFuture[],
+    })),
+    authenticatorSelection: {
+      residentKey: 'preferred',
+      userVerification: 'preferred',
+    },
+  });
+
+  await saveChallenge(options.challenge, 'REGISTRATION', user.id);
+  return options;
+};
+
+/**
+ * Verify a registration response and store the new credential
+ * @param {string} userId
+ * @param {RegistrationResponseJSON} response
+ * @param {string} [name] - label shown in the credential list
+ * @param {Request} req
+ */
+const verifyRegistration = async (
+  userId: string,
+  response: RegistrationResponseJSON,
+  name: string | undefined,
+  req: Request
+) => {
+  const challenge = await consumeChallenge(response.response.clientDataJSON, 'REGISTRATION');
+  if (challenge.userId !== userId) {
+    throw new ApiError(httpStatus.BAD_REQUEST, 'Unknown or already used challenge');
+  }
+
+  let verification;
+  try {
+    verification = await verifyRegistrationResponse({
+      response,
+      expectedChallenge: challenge.challenge,
+      expectedOrigin: config.webauthn.origins,
+      expectedRPID: config.webauthn.rpId,
+      requireUserVerification: false,
+    });
+  } catch (error) {
+    logger.warn('WebAuthn registration rejected', { userId, error });
+    throw new ApiError(httpStatus.BAD_REQUEST, 'Passkey registration could not be verified');
+  }
+  if (!verification.verified) {
+    throw new ApiError(httpStatus.BAD_REQUEST, 'Passkey registration could not be verified');
+  }
+
+  const { credential, credentialDeviceType, credentialBackedUp, aaguid } =
+    verification.registrationInfo;
+
+  const existing = await prisma.webAuthnCredential.findUnique({
+    where: { credentialId: credential.id },
+  });
+  if (existing) {
+    throw new ApiError(httpStatus.CONFLICT, 'This passkey is already registered');
+  }
+
+  const count = await prisma.webAuthnCredential.count({ where: { userId } });
+  const created = await prisma.webAuthnCredential.create({
+    data: {
+      userId,
+      credentialId: credential.id,
+      publicKey: Buffer.from(credential.publicKey),
+      signCount: credential.counter,
+      transports: credential.transports || response.response.transports || [],
+      deviceType: credentialDeviceType,
+      backedUp: credentialBackedUp,
+      aaguid,
+      name: name || `Passkey ${count + 1}`,
+    },
+    select: CREDENTIAL_SELECT,
+  });
+
+  await logEvent(userId, SecurityEventType.WEBAUTHN_REGISTERED, req, true, {
+    credentialId: created.id,
+    deviceType: credentialDeviceType,
+  });
+  await userActivityService.logActivity({
+    userId,
+    activityType: ActivityType.WEBAUTHN_CREDENTIAL_ADDED,
+    description: `Passkey registered: ${created.name}`,
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent'),
+    metadata: { credentialId: created.id },
+  });
+
+  return toCredentialResponse(created);
+};
+
+/**
+ * Start an authentication ceremony
+ * @param {string} [userId] - restricts the ceremony to this user's credentials; omitted for
+ * discoverable (usernameless) passkey login
+ * @param {boolean} [secondFactor] - the user already proved a password, so user verification
+ * is optional
+ * @returns {Promise<PublicKeyCredentialRequestOptionsJSON>}
+ */
+const generateAuthentication = async (userId?: string, secondFactor = false) => {
+  const credentials = userId
+    ? await prisma.webAuthnCredential.findMany({
+        where: { userId },
+        select: { credentialId: true, transports: true },
+      })
+    : [];
+
+  if (secondFactor && credentials.length === 0) {
+    throw new ApiError(httpStatus.BAD_REQUEST, 'No passkeys registered');
+  }
+
+  const options = await generateAuthenticationOptions({
+    rpID: config.webauthn.rpId,
+    allowCredentials: credentials.map(credential => ({
+      id: credential.credentialId,
+      transports: credential.transports as AuthenticatorTransportFuture[],
+    })),
+    userVerification: secondFactor ? 'preferred' : 'required',
+  });
+
+  await saveChallenge(options.challenge, 'AUTHENTICATION', userId);
+  return options;
+};
+
+/**
+ * Verify an authentication response and update the credential's sign count
+ * @param {AuthenticationResponseJSON} response
+ * @param {Request} req
+ * @param {string} [expectedUserId] - set when the assertion is a second factor for this user
+ * @returns {Promise<string>} ID of the authenticated user
+ */
+const verifyAuthentication = async (
+  response: AuthenticationResponseJSON,
+  req: Request,
+  expectedUserId?: string
+): Promise<string> => {
+  const challenge = await consumeChallenge(response.response.clientDataJSON, 'AUTHENTICATION');
+
+  const credential = await prisma.webAuthnCredential.findUnique({
+    where: { credentialId: response.id },
+  });
+  const ownerMismatch =
+    credential &&
+    ((challenge.userId && challenge.userId !== credential.userId) ||
+      (expectedUserId && expectedUserId !== credential.userId));
+  if (!credential || ownerMismatch) {
+    if (credential || expectedUserId) {
+      await logEvent(
+        expectedUserId || credential.userId,
+        SecurityEventType.WEBAUTHN_LOGIN_FAILED,
+        req,
+        false,
+        { reason: 'Credential does not belong to user' }
+      );
+    }
+    throw new ApiError(httpStatus.UNAUTHORIZED, 'Passkey authentication failed');
+  }
+
+  let verification;
+  try {
+    verification = await verifyAuthenticationResponse({
+      response,
+      expectedChallenge: challenge.challenge,
+      expectedOrigin: config.webauthn.origins,
+      expectedRPID: config.webauthn.rpId,
+      credential: {
+        id: credential.credentialId,
+        publicKey: new Uint8Array(credential.publicKey),
+        counter: Number(credential.signCount),
+        transports: credential.transports as AuthenticatorTransportFuture[],
+      },
+      // A passwordless login must prove the user, not just the device
+      requireUserVerification: !expectedUserId,
+    });
+  } catch (error) {
+    // Includes sign counts that did not increase, which suggests a cloned authenticator
+    await logEvent(credential.userId, SecurityEventType.WEBAUTHN_LOGIN_FAILED, req, false, {
+      credentialId: credential.id,
+      reason: error instanceof Error ? error.message : String(error),
+    });
+    throw new ApiError(httpStatus.UNAUTHORIZED, 'Passkey authentication failed');
+  }
+  if (!verification.verified) {
+    await logEvent(credential.userId, SecurityEventType.WEBAUTHN_LOGIN_FAILED, req, false, {
+      credentialId: credential.id,
+    });
+    throw new ApiError(httpStatus.UNAUTHORIZED, 'Passkey authentication failed');
+  }
+
+  const { newCounter, credentialBackedUp, userVerified } = verification.authenticationInfo;
+  await prisma.webAuthnCredential.update({
+    where: { id: credential.id },
+    data: { signCount: newCounter, backedUp: credentialBackedUp, lastUsedAt: new Date() },
+  });
+
+  await logEvent(credential.userId, SecurityEventType.WEBAUTHN_LOGIN_SUCCESS, req, true, {
+    credentialId: credential.id,
+    secondFactor: !!expectedUserId,
+    userVerified,
+  });
+
+  return credential.userId;
+};
+
+/**
+ * Whether a user has at least one passkey
+ * @param {string} userId
+ * @returns {Promise<boolean>}
+ */
+const hasCredentials = async (userId: string): Promise<boolean> => {
+  const count = await prisma.webAuthnCredential.count({ where: { userId } });
+  return count > 0;
+};
+
+/**
+ * List a user's passkeys
+ * @param {string} userId
+ */
+const listCredentials = async (userId: string) => {
+  const credentials = await prisma.webAuthnCredential.findMany({
+    where: { userId },
+    select: CREDENTIAL_SELECT,
+    orderBy: { createdAt: 'asc' },
+  });
+  return credentials.map(toCredentialResponse);
+};
+
+/**
+ * Get a passkey owned by a user
+ * @param {string} userId
+ * @param {string} credentialId
+ */
+const getCredential = async (userId: string, credentialId: string) => {
+  const credential = await prisma.webAuthnCredential.findFirst({
+    where: { id: credentialId, userId },
+    select: CREDENTIAL_SELECT,
+  });
+  if (!credential) {
+    throw new ApiError(httpStatus.NOT_FOUND, 'Passkey not found');
+  }
+  return toCredentialResponse(credential);
+};
+
+/**
+ * Rename a passkey
+ * @param {string} userId
+ * @param {string} credentialId
+ * @param {string} name
+ */
+const renameCredential = async (userId: string, credentialId: string, name: string) => {
+  await getCredential(userId, credentialId);
+  const credential = await prisma.webAuthnCredential.update({
+    where: { id: credentialId },
+    data: { name },
+    select: CREDENTIAL_SELECT,
+  });
+  return toCredentialResponse(credential);
+};
+
+/**
+ * Remove a passkey
+ * @param {string} userId
+ * @param {string} credentialId
+ * @param {Request} req
+ */
+const removeCredential = async (userId: string, credentialId: string, req: Request) => {
+  const credential = await getCredential(userId, credentialId);
+  await prisma.webAuthnCredential.delete({ where: { id: credentialId } });
+
+  await logEvent(userId, SecurityEventType.WEBAUTHN_REMOVED, req, true, {
+    credentialId,
+  });
+  await userActivityService.logActivity({
+    userId,
+    activityType: ActivityType.WEBAUTHN_CREDENTIAL_REMOVED,
+    description: `Passkey removed: ${credential.name}`,
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent'),
+    metadata: { credentialId },
+  });
+};
+
+export default {
+  generateRegistration,
+  verifyRegistration,
+  generateAuthentication,
+  verifyAuthentication,
+  hasCredentials,
+  listCredentials,
+  getCredential,
+  renameCredential,
+  removeCredential,
+};
@@ -56,6 +56,7 @@ const setupGoogleStrategy = (passport: PassportStatic): void => {
             providerId: profile.id,
             accessToken,
             refreshToken,
+            expiresIn: params.expires_in,
             scope: 'profile email',
           };
 
@@ -36,6 +36,15 @@ export interface AuthResponse {
   message?: string;
 }
 
+export interface AccessTokenPayload {
+  sub: string;
+  iat: number;
+  exp: number;
+  type: 'ACCESS';
+  sid?: string; // Session (refresh token family) the token was issued for
+  act?: { sub: string }; // Admin impersonating the user (RFC 8693 actor claim)
+}
+
 export interface SecurityEvent {
   userId?: string;
   email?: string;
@@ -79,3 +88,23 @@ export interface SessionInfo {
   expiresAt: Date;
   isActive: boolean;
 }
+
+export type PrincipalType = 'user' | 'apiKey';
+
+export interface AuthPrincipal {
+  type: PrincipalType;
+  userId: string;
+  role: string;
+  rights: string[];
+  // RBAC permission names granted to the credential, '*' when not restricted beyond the user
+  permissions: string[] | '*';
+  apiKeyId?: string;
+  sessionId?: string;
+  // Admin acting as the user with an impersonation token
+  impersonatorId?: string;
+}
+
+// Second factors a user can enrol; email and SMS deliver one-time codes
+export const TWO_FACTOR_METHODS = ['totp', 'webauthn', 'email', 'sms'] as const;
+
+export type TwoFactorMethod = (typeof TWO_FACTOR_METHODS)[number];
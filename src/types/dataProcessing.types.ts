@@ -0,0 +1,34 @@
+// Data Processing (GDPR Art. 6 / Art. 30) Module Types
+
+export enum LegalBasis {
+  CONSENT = 'CONSENT',
+  CONTRACT = 'CONTRACT',
+  LEGAL_OBLIGATION = 'LEGAL_OBLIGATION',
+  VITAL_INTERESTS = 'VITAL_INTERESTS',
+  PUBLIC_TASK = 'PUBLIC_TASK',
+  LEGITIMATE_INTERESTS = 'LEGITIMATE_INTERESTS',
+}
+
+export enum ProcessingRecordStatus {
+  ACTIVE = 'ACTIVE',
+  WITHDRAWN = 'WITHDRAWN',
+  EXPIRED = 'EXPIRED',
+  SUPERSEDED = 'SUPERSEDED',
+}
+
+export interface CreateProcessingRecord {
+  purpose: string;
+  legalBasis: LegalBasis;
+  dataTypes: string[];
+  retention: string;
+  expiresAt: Date;
+}
+
+export interface ProcessingRecordFilters {
+  purpose?: string;
+  legalBasis?: LegalBasis;
+  status?: ProcessingRecordStatus;
+  userId?: string;
+  page?: number;
+  limit?: number;
+}
@@ -2,6 +2,10 @@
 export * from './ipSecurity.types';
 export * from './captcha.types';
 export * from './auth.types';
+export * from './dataProcessing.types';
+export * from './oauth.types';
+export * from './saml.types';
+export * from './notification.types';
 
 // Re-export commonly used Prisma types for convenience
 export type {
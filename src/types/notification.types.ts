@@ -0,0 +1,104 @@
+// Notification Module Types
+
+export const NOTIFICATION_TYPES = [
+  'LOGIN_ALERT',
+  'PASSWORD_CHANGE',
+  'EMAIL_VERIFICATION',
+  'TWO_FACTOR_SETUP',
+  'ACCOUNT_LOCKED',
+  'SECURITY_ALERT',
+  'SYSTEM_UPDATE',
+  'WELCOME',
+] as const;
+
+export type NotificationTypeName = (typeof NOTIFICATION_TYPES)[number];
+
+/**
+ * Where a notification is sent: stored for the in-app list, pushed to WebSocket and
+ * Server-Sent Events clients, emailed, or POSTed to the user's webhook
+ */
+export type NotificationChannel = 'inApp' | 'push' | 'email' | 'webhook';
+
+export type ChannelRoutes = Record<NotificationChannel, boolean>;
+
+export type EmailDeliveryMode = 'INSTANT' | 'DIGEST';
+
+export type DigestFrequency = 'DAILY' | 'WEEKLY';
+
+/** Channels of one notification type; channels not set follow the defaults */
+export interface NotificationTypePreferences extends Partial<ChannelRoutes> {
+  emailMode: EmailDeliveryMode;
+}
+
+export interface QuietHours {
+  enabled: boolean;
+  start: string; // HH:mm format
+  end: string; // HH:mm format
+}
+
+export interface NotificationPreferences {
+  push: { enabled: boolean };
+  email: { enabled: boolean };
+  webhook: { url: string | null };
+  quietHours: QuietHours;
+  timezone: string;
+  // Local hour digests are sent at, and the weekday of weekly digests with 0 as Sunday
+  digest: { frequency: DigestFrequency; hour: number; day: number };
+  types: Partial<Record<NotificationTypeName, NotificationTypePreferences>>;
+}
+
+export interface NotificationPreferencesUpdate {
+  push?: { enabled?: boolean };
+  email?: { enabled?: boolean };
+  webhook?: { url: string | null };
+  quietHours?: Partial<QuietHours>;
+  timezone?: string;
+  digest?: { frequency?: DigestFrequency; hour?: number; day?: number };
+  types?: Partial<
+    Record<
+      NotificationTypeName,
+      Partial<Record<NotificationChannel, boolean | null>> & { emailMode?: EmailDeliveryMode }
+    >
+  >;
+}
+
+/**
+ * Switches of the emailNotifications and pushNotifications preference fields that notification
+ * preferences replaced; the preference endpoints still accept them
+ */
+export interface LegacyNotificationSettings {
+  emailNotifications?: {
+    loginAlerts?: boolean;
+    passwordChanges?: boolean;
+    twoFactorChanges?: boolean;
+    deviceLogins?: boolean;
+  };
+  pushNotifications?: {
+    loginAlerts?: boolean;
+    securityUpdates?: boolean;
+  };
+}
+
+export interface NotificationRecipient {
+  id: string;
+  email: string;
+  name: string | null;
+}
+
+/** Something a user is notified about, routed to channels by notificationDispatcher */
+export interface NotificationEvent {
+  userId: string;
+  type: NotificationTypeName;
+  title: string;
+  message: string;
+  metadata?: Record<string, any>;
+  // Sends the email of this event; events without one use the generic security update email
+  sendEmail?: (recipient: NotificationRecipient) => Promise<void>;
+  // Channels the event may use; every channel when not set
+  channels?: NotificationChannel[];
+}
+
+export interface DispatchResult {
+  notification: any | null;
+  channels: NotificationChannel[];
+}
@@ -0,0 +1,77 @@
+// OAuth 2.0 / OpenID Connect Provider Types
+
+export enum OAuthGrantType {
+  AUTHORIZATION_CODE = 'authorization_code',
+  REFRESH_TOKEN = 'refresh_token',
+  CLIENT_CREDENTIALS = 'client_credentials',
+}
+
+export enum OAuthScope {
+  OPENID = 'openid',
+  PROFILE = 'profile',
+  EMAIL = 'email',
+  OFFLINE_ACCESS = 'offline_access',
+}
+
+export enum OAuthTokenType {
+  ACCESS = 'ACCESS',
+  REFRESH = 'REFRESH',
+}
+
+export interface CreateOAuthClient {
+  name: string;
+  redirectUris: string[];
+  grantTypes: OAuthGrantType[];
+  scopes: string[];
+  // Public clients (SPAs, mobile apps) have no secret and must use PKCE
+  isConfidential: boolean;
+}
+
+export interface UpdateOAuthClient {
+  name?: string;
+  redirectUris?: string[];
+  grantTypes?: OAuthGrantType[];
+  scopes?: string[];
+  isActive?: boolean;
+}
+
+export interface AuthorizationRequest {
+  response_type: string;
+  client_id: string;
+  redirect_uri: string;
+  scope?: string;
+  state?: string;
+  nonce?: string;
+  code_challenge?: string;
+  code_challenge_method?: string;
+}
+
+export interface TokenRequest {
+  grant_type: string;
+  code?: string;
+  redirect_uri?: string;
+  code_verifier?: string;
+  refresh_token?: string;
+  scope?: string;
+}
+
+export interface OAuthTokenResponse {
+  access_token: string;
+  token_type: 'Bearer';
+  expires_in: number;
+  scope: string;
+  refresh_token?: string;
+  id_token?: string;
+}
+
+export interface OAuthAccessTokenPayload {
+  iss: string;
+  sub: string;
+  aud: string;
+  client_id: string;
+  scope: string;
+  jti: string;
+  iat: number;
+  exp: number;
+  type: 'OAUTH_ACCESS';
+}
@@ -0,0 +1,42 @@
+// SAML 2.0 Single Sign-On Types
+
+// User fields that can be filled from assertion attributes; groups feed the role mapping
+export type SamlProfileField =
+  | 'email'
+  | 'name'
+  | 'firstName'
+  | 'lastName'
+  | 'phone'
+  | 'country'
+  | 'state'
+  | 'city'
+  | 'groups';
+
+// Profile field -> name of the SAML attribute carrying it
+export type SamlAttributeMapping = Partial<Record<SamlProfileField, string>>;
+
+// IdP group value -> names of the RBAC roles granted to its members
+export type SamlRoleMapping = Record<string, string[]>;
+
+export interface SamlIdpSettings {
+  idpEntityId: string;
+  idpSsoUrl: string;
+  idpCertificates: string[];
+}
+
+export interface CreateSamlConnection extends Partial<SamlIdpSettings> {
+  slug: string;
+  name: string;
+  // URL of the IdP metadata; fills in any IdP settings not given explicitly
+  metadataUrl?: string;
+  // Email domains the IdP is trusted to assert; users of other domains cannot sign in through it
+  emailDomains: string[];
+  attributeMapping?: SamlAttributeMapping;
+  roleMapping?: SamlRoleMapping;
+  allowIdpInitiated?: boolean;
+  jitProvisioning?: boolean;
+}
+
+export interface UpdateSamlConnection extends Partial<Omit<CreateSamlConnection, 'slug'>> {
+  isActive?: boolean;
+}
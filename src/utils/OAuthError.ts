@@ -0,0 +1,43 @@
+import httpStatus from 'http-status';
+import ApiError from './ApiError';
+
+/**
+ * Error from the OAuth 2.0 endpoints, carrying the RFC 6749 error code. Errors in an
+ * authorization request are sent back to the client's redirect URI when it has been validated.
+ */
+class OAuthError extends ApiError {
+  error: string;
+  redirectUri?: string;
+  state?: string;
+
+  constructor(
+    error: string,
+    description: string,
+    statusCode: number = httpStatus.BAD_REQUEST,
+    redirect?: { redirectUri: string; state?: string }
+  ) {
+    super(statusCode, description);
+    this.error = error;
+    this.redirectUri = redirect?.redirectUri;
+    this.state = redirect?.state;
+  }
+
+  /**
+   * Redirect URI carrying the error back to the client
+   * @returns {string | undefined}
+   */
+  toRedirectUrl(): string | undefined {
+    if (!this.redirectUri) {
+      return undefined;
+    }
+    const url = new URL(this.redirectUri);
+    url.searchParams.set('error', this.error);
+    url.searchParams.set('error_description', this.message);
+    if (this.state) {
+      url.searchParams.set('state', this.state);
+    }
+    return url.toString();
+  }
+}
+
+export default OAuthError;
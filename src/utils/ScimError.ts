@@ -0,0 +1,57 @@
+import httpStatus from 'http-status';
+import ApiError from './ApiError';
+
+export const SCIM_ERROR_SCHEMA = 'urn:ietf:params:scim:api:messages:2.0:Error';
+
+/**
+ * Error from the SCIM endpoints, carrying the RFC 7644 scimType when one applies
+ */
+class ScimError extends ApiError {
+  scimType?: string;
+
+  constructor(statusCode: number, detail: string, scimType?: string) {
+    super(statusCode, detail);
+    this.scimType = scimType;
+  }
+
+  /**
+   * Convert any error raised while serving a SCIM request
+   * @param {Error} error
+   * @returns {ScimError}
+   */
+  static from(error: any): ScimError {
+    if (error instanceof ScimError) {
+      return error;
+    }
+    // Unique constraint violations, e.g. a second user with the same externalId
+    if (error?.code === 'P2002') {
+      return new ScimError(httpStatus.CONFLICT, 'Resource already exists', 'uniqueness');
+    }
+    if (error?.type === 'entity.parse.failed') {
+      return new ScimError(httpStatus.BAD_REQUEST, 'Invalid JSON body', 'invalidSyntax');
+    }
+    if (!(error instanceof ApiError)) {
+      return new ScimError(httpStatus.INTERNAL_SERVER_ERROR, 'Internal server error');
+    }
+    // Services report duplicates as 400 or 409; SCIM clients look for 409 uniqueness
+    if (error.statusCode === httpStatus.CONFLICT || /already (taken|exists)/i.test(error.message)) {
+      return new ScimError(httpStatus.CONFLICT, error.message, 'uniqueness');
+    }
+    return new ScimError(error.statusCode, error.message);
+  }
+
+  /**
+   * Response body of the error
+   * @returns {Object}
+   */
+  toJSON() {
+    return {
+      schemas: [SCIM_ERROR_SCHEMA],
+      status: String(this.statusCode),
+      ...(this.scimType && { scimType: this.scimType }),
+      detail: this.message,
+    };
+  }
+}
+
+export default ScimError;
@@ -160,7 +160,7 @@ export const sendSuccess = <T>(
   res: Response,
   data: T,
   message?: string,
-  statusCode = httpStatus.OK,
+  statusCode: number = httpStatus.OK,
   requestId?: string,
   pagination?: PaginationMeta
 ): Response => {
@@ -208,7 +208,7 @@ export const sendError = (
   res: Response,
   code: ErrorCode,
   message: string,
-  statusCode = httpStatus.INTERNAL_SERVER_ERROR,
+  statusCode: number = httpStatus.INTERNAL_SERVER_ERROR,
   details?: any,
   requestId?: string,
   stack?: string
@@ -1,3 +1,4 @@
+import crypto from 'crypto';
 import bcrypt from 'bcryptjs';
 
 export const encryptPassword = async (password: string) => {
@@ -8,3 +9,41 @@ export const encryptPassword = async (password: string) => {
 export const isPasswordMatch = async (password: string, userPassword: string) => {
   return bcrypt.compare(password, userPassword);
 };
+
+const deriveKey = (secret: string) => crypto.createHash('sha256').update(secret).digest();
+
+/**
+ * Encrypt a value for storage with AES-256-GCM
+ * @param {string} plaintext
+ * @param {string} secret
+ * @returns {string} iv, auth tag and ciphertext, base64url encoded and dot separated
+ */
+export const encryptSecret = (plaintext: string, secret: string) => {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', deriveKey(secret), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), ciphertext].map(part => part.toString('base64url')).join('.');
+};
+
+// A 12-byte IV and a 16-byte auth tag, then the ciphertext
+const ENCRYPTED_SECRET_FORMAT = /^[A-Za-z0-9_-]{16}\.[A-Za-z0-9_-]{22}\.[A-Za-z0-9_-]*$/;
+
+/**
+ * Whether a value has the format encryptSecret produces, whatever secret it was encrypted with
+ * @param {string} value
+ * @returns {boolean}
+ */
+export const isEncryptedSecret = (value: string) => ENCRYPTED_SECRET_FORMAT.test(value);
+
+/**
+ * Decrypt a value produced by encryptSecret
+ * @param {string} encrypted
+ * @param {string} secret
+ * @returns {string}
+ */
+export const decryptSecret = (encrypted: string, secret: string) => {
+  const [iv, tag, ciphertext] = encrypted.split('.').map(part => Buffer.from(part, 'base64url'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', deriveKey(secret), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+};
@@ -4,6 +4,8 @@ import httpStatus from 'http-status';
 import config from '../config/config';
 import logger from '../config/logger';
 import ApiError from './ApiError';
+import OAuthError from './OAuthError';
+import ScimError from './ScimError';
 import { ErrorCode, sendError } from './apiResponse';
 
 // Error classification function
@@ -123,6 +125,22 @@ export const errorHandler: ErrorRequestHandler = (err, req, res, next) => {
   const details = extractErrorDetails(err);
   const requestId = (req as any).requestId;
 
+  // OAuth clients expect the RFC 6749 error body rather than the API envelope
+  if (err instanceof OAuthError) {
+    if (err.error === 'invalid_client') {
+      res.set('WWW-Authenticate', 'Basic realm="oauth"');
+    } else if (err.error === 'invalid_token') {
+      res.set('WWW-Authenticate', 'Bearer error="invalid_token"');
+    }
+    res.set('Cache-Control', 'no-store');
+    return res.status(err.statusCode).send({ error: err.error, error_description: err.message });
+  }
+
+  // SCIM clients parse the RFC 7644 error schema
+  if (err instanceof ScimError) {
+    return res.status(err.statusCode).type('application/scim+json').send(JSON.stringify(err));
+  }
+
   // Log error in development
   if (config.env === 'development') {
     logger.error('Error details:', {
@@ -0,0 +1,87 @@
+import dns from 'dns/promises';
+import net from 'net';
+
+// Addresses that are not reachable on the public internet: this network, private, carrier-grade
+// NAT, loopback, link-local, benchmarking, multicast and reserved ranges. IPv4-mapped IPv6
+// addresses are checked against the IPv4 ranges.
+const nonPublicRanges = new net.BlockList();
+(
+  [
+    ['0.0.0.0', 8],
+    ['10.0.0.0', 8],
+    ['100.64.0.0', 10],
+    ['127.0.0.0', 8],
+    ['169.254.0.0', 16],
+    ['172.16.0.0', 12],
+    ['192.0.0.0', 24],
+    ['192.168.0.0', 16],
+    ['198.18.0.0', 15],
+    ['224.0.0.0', 4],
+    ['240.0.0.0', 4],
+  ] as const
+).forEach(([network, prefix]) => nonPublicRanges.addSubnet(network, prefix, 'ipv4'));
+(
+  [
+    ['::', 128],
+    ['::1', 128],
+    ['fc00::', 7],
+    ['fe80::', 10],
+    ['ff00::', 8],
+  ] as const
+).forEach(([network, prefix]) => nonPublicRanges.addSubnet(network, prefix, 'ipv6'));
+
+// Host of a URL without the brackets of IPv6 literals and the trailing dot of absolute names
+const normaliseHost = (hostname: string) =>
+  hostname
+    .replace(/^\[(.*)\]$/, '$1')
+    .replace(/\.$/, '')
+    .toLowerCase();
+
+/**
+ * Whether an IP address is reachable on the public internet
+ * @param {string} address
+ * @returns {boolean} false for loopback, private, link-local and reserved addresses
+ */
+export const isPublicAddress = (address: string) => {
+  const family = net.isIP(address);
+  if (family === 0) {
+    return false;
+  }
+  return !nonPublicRanges.check(address, family === 4 ? 'ipv4' : 'ipv6');
+};
+
+/**
+ * Whether a host may be public without resolving it: a public IP address, or a qualified name
+ * other than localhost. Names still have to be resolved with resolvesToPublicAddresses.
+ * @param {string} hostname - hostname of a URL
+ * @returns {boolean}
+ */
+export const isPublicHostname = (hostname: string) => {
+  const host = normaliseHost(hostname);
+  if (net.isIP(host)) {
+    return isPublicAddress(host);
+  }
+  return host.includes('.') && host !== 'localhost' && !host.endsWith('.localhost');
+};
+
+/**
+ * Whether every address a host resolves to is public, so requests to it cannot reach the
+ * internal network
+ * @param {string} hostname - hostname of a URL
+ * @returns {Promise<boolean>} false as well when the name does not resolve
+ */
+export const resolvesToPublicAddresses = async (hostname: string) => {
+  const host = normaliseHost(hostname);
+  if (!isPublicHostname(host)) {
+    return false;
+  }
+  if (net.isIP(host)) {
+    return true;
+  }
+  try {
+    const addresses = await dns.lookup(host, { all: true, verbatim: true });
+    return addresses.length > 0 && addresses.every(({ address }) => isPublicAddress(address));
+  } catch {
+    return false;
+  }
+};
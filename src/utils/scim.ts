@@ -0,0 +1,507 @@
+import httpStatus from 'http-status';
+import ScimError from './ScimError';
+
+/**
+ * SCIM 2.0 filter expressions and PATCH operations (RFC 7644 §3.4.2.2 and §3.5.2)
+ */
+
+type CompareOperator = 'eq' | 'ne' | 'co' | 'sw' | 'ew' | 'pr' | 'gt' | 'ge' | 'lt' | 'le';
+
+export type ScimFilter =
+  | { op: 'and' | 'or'; left: ScimFilter; right: ScimFilter }
+  | { op: 'not'; filter: ScimFilter }
+  | { op: 'valuePath'; attr: string; filter: ScimFilter }
+  | { op: CompareOperator; attr: string; value?: any };
+
+/**
+ * Translates a comparison on one SCIM attribute into a Prisma where clause
+ */
+export type ScimAttributeResolver = (op: CompareOperator, value: any) => Record<string, any>;
+
+export interface ScimPatchOperation {
+  op: string;
+  path?: string;
+  value?: any;
+}
+
+const COMPARE_OPERATORS = ['eq', 'ne', 'co', 'sw', 'ew', 'gt', 'ge', 'lt', 'le'];
+const TOKEN_PATTERN = /\(|\)|\[|\]|"(?:[^"\\]|\\.)*"|[^\s()[\]]+/g;
+
+const invalidFilter = (detail: string) =>
+  new ScimError(httpStatus.BAD_REQUEST, detail, 'invalidFilter');
+
+const invalidPath = (detail: string) =>
+  new ScimError(httpStatus.BAD_REQUEST, detail, 'invalidPath');
+
+/**
+ * Remove the schema URN from a fully qualified attribute of that schema
+ * @param {string} attr
+ * @param {string} schema
+ * @returns {string}
+ */
+export const stripSchema = (attr: string, schema: string) =>
+  attr.toLowerCase().startsWith(`${schema.toLowerCase()}:`) ? attr.slice(schema.length + 1) : attr;
+
+const parseValue = (token: string | undefined) => {
+  if (token === undefined) {
+    throw invalidFilter('Missing comparison value');
+  }
+  if (token.startsWith('"')) {
+    try {
+      return JSON.parse(token);
+    } catch {
+      throw invalidFilter(`Invalid string ${token}`);
+    }
+  }
+  const lower = token.toLowerCase();
+  if (lower === 'true' || lower === 'false') return lower === 'true';
+  if (lower === 'null') return null;
+  if (!Number.isNaN(Number(token))) return Number(token);
+  throw invalidFilter(`Invalid comparison value ${token}`);
+};
+
+/**
+ * Parse a SCIM filter expression
+ * @param {string} expression - e.g. `userName eq "ada@example.com" and active eq true`
+ * @returns {ScimFilter}
+ */
+export const parseFilter = (expression: string): ScimFilter => {
+  const tokens = expression.match(TOKEN_PATTERN) || [];
+  let position = 0;
+
+  const peek = () => tokens[position]?.toLowerCase();
+  const expect = (token: string) => {
+    if (peek() !== token) {
+      throw invalidFilter(`Expected "${token}" in filter`);
+    }
+    position += 1;
+  };
+
+  const parseOr = (): ScimFilter => {
+    let left = parseAnd();
+    while (peek() === 'or') {
+      position += 1;
+      left = { op: 'or', left, right: parseAnd() };
+    }
+    return left;
+  };
+
+  const parseAnd = (): ScimFilter => {
+    let left = parseFactor();
+    while (peek() === 'and') {
+      position += 1;
+      left = { op: 'and', left, right: parseFactor() };
+    }
+    return left;
+  };
+
+  const parseFactor = (): ScimFilter => {
+    if (peek() === 'not') {
+      position += 1;
+      expect('(');
+      const filter = parseOr();
+      expect(')');
+      return { op: 'not', filter };
+    }
+    if (peek() === '(') {
+      position += 1;
+      const filter = parseOr();
+      expect(')');
+      return filter;
+    }
+
+    const attr = tokens[position++];
+    if (!attr || /^["()[\]]/.test(attr)) {
+      throw invalidFilter('Expected an attribute name in filter');
+    }
+    if (peek() === '[') {
+      position += 1;
+      const filter = parseOr();
+      expect(']');
+      return { op: 'valuePath', attr, filter };
+    }
+
+    const op = peek();
+    position += 1;
+    if (op === 'pr') {
+      return { op, attr };
+    }
+    if (!op || !COMPARE_OPERATORS.includes(op)) {
+      throw invalidFilter(`Unsupported filter operator ${op ?? ''}`.trim());
+    }
+    return { op: op as CompareOperator, attr, value: parseValue(tokens[position++]) };
+  };
+
+  const filter = parseOr();
+  if (position < tokens.length) {
+    throw invalidFilter(`Unexpected "${tokens[position]}" in filter`);
+  }
+  return filter;
+};
+
+/**
+ * Translate a filter into a Prisma where clause
+ * @param {ScimFilter} filter
+ * @param {Object} attributes - resolvers keyed by lowercase attribute path, e.g. 'emails.value'
+ * @param {string} schema - core schema URN that may prefix attribute names
+ * @param {string} [prefix] - parent attribute inside a value path filter
+ * @returns {Object}
+ */
+export const filterToWhere = (
+  filter: ScimFilter,
+  attributes: Record<string, ScimAttributeResolver>,
+  schema: string,
+  prefix?: string
+): Record<string, any> => {
+  switch (filter.op) {
+    case 'and':
+      return {
+        AND: [
+          filterToWhere(filter.left, attributes, schema, prefix),
+          filterToWhere(filter.right, attributes, schema, prefix),
+        ],
+      };
+    case 'or':
+      return {
+        OR: [
+          filterToWhere(filter.left, attributes, schema, prefix),
+          filterToWhere(filter.right, attributes, schema, prefix),
+        ],
+      };
+    case 'not':
+      return { NOT: filterToWhere(filter.filter, attributes, schema, prefix) };
+    case 'valuePath':
+      return filterToWhere(filter.filter, attributes, schema, stripSchema(filter.attr, schema));
+    default: {
+      const name = stripSchema(filter.attr, schema);
+      const path = (prefix ? `${prefix}.${name}` : name).toLowerCase();
+      const resolve = attributes[path] ?? attributes[path.replace(/\.value$/, '')];
+      if (!resolve) {
+        throw invalidFilter(`Filtering on ${filter.attr} is not supported`);
+      }
+      return resolve(filter.op, filter.value);
+    }
+  }
+};
+
+/**
+ * Resolver for an attribute stored in a single column
+ * @param {string} field - Prisma field name
+ * @param {Object} [options]
+ * @param {boolean} [options.caseExact] - compare strings case-sensitively
+ * @param {boolean} [options.date] - parse comparison values as timestamps
+ * @returns {ScimAttributeResolver}
+ */
+export const columnResolver =
+  (field: string, options: { caseExact?: boolean; date?: boolean } = {}): ScimAttributeResolver =>
+  (op, value) => {
+    const mode = options.caseExact || typeof value !== 'string' ? {} : { mode: 'insensitive' };
+    const operand = options.date && value !== undefined ? new Date(value) : value;
+    if (operand instanceof Date && Number.isNaN(operand.getTime())) {
+      throw invalidFilter(`Invalid timestamp ${value}`);
+    }
+
+    switch (op) {
+      case 'pr':
+        return { [field]: { not: null } };
+      case 'eq':
+        return { [field]: operand === null ? null : { equals: operand, ...mode } };
+      case 'ne':
+        return { NOT: { [field]: operand === null ? null : { equals: operand, ...mode } } };
+      case 'co':
+        return { [field]: { contains: String(operand), ...mode } };
+      case 'sw':
+        return { [field]: { startsWith: String(operand), ...mode } };
+      case 'ew':
+        return { [field]: { endsWith: String(operand), ...mode } };
+      default:
+        return { [field]: { [op]: operand } };
+    }
+  };
+
+const findKey = (object: Record<string, any>, name: string) =>
+  Object.keys(object).find(key => key.toLowerCase() === name.toLowerCase()) ?? name;
+
+const compare = (actual: any, op: CompareOperator, expected: any): boolean => {
+  if (op === 'pr') {
+    return (
+      actual !== undefined &&
+      actual !== null &&
+      actual !== '' &&
+      !(Array.isArray(actual) && actual.length === 0)
+    );
+  }
+  if (Array.isArray(actual)) {
+    return actual.some(item => compare(item, op, expected));
+  }
+  const a = typeof actual === 'string' ? actual.toLowerCase() : actual;
+  const b = typeof expected === 'string' ? expected.toLowerCase() : expected;
+  switch (op) {
+    case 'eq':
+      return a === b;
+    case 'ne':
+      return a !== b;
+    case 'co':
+      return typeof a === 'string' && a.includes(b);
+    case 'sw':
+      return typeof a === 'string' && a.startsWith(b);
+    case 'ew':
+      return typeof a === 'string' && a.endsWith(b);
+    case 'gt':
+      return a > b;
+    case 'ge':
+      return a >= b;
+    case 'lt':
+      return a < b;
+    case 'le':
+      return a <= b;
+  }
+};
+
+const valueAt = (resource: any, path: string): any =>
+  path.split('.').reduce((value, name) => {
+    if (Array.isArray(value)) {
+      return value.map(item => item?.[findKey(item, name)]);
+    }
+    return value && typeof value === 'object' ? value[findKey(value, name)] : undefined;
+  }, resource);
+
+/**
+ * Evaluate a filter against a SCIM resource or one element of a multi-valued attribute
+ * @param {Object} resource
+ * @param {ScimFilter} filter
+ * @returns {boolean}
+ */
+export const matchesFilter = (resource: any, filter: ScimFilter): boolean => {
+  switch (filter.op) {
+    case 'and':
+      return matchesFilter(resource, filter.left) && matchesFilter(resource, filter.right);
+    case 'or':
+      return matchesFilter(resource, filter.left) || matchesFilter(resource, filter.right);
+    case 'not':
+      return !matchesFilter(resource, filter.filter);
+    case 'valuePath': {
+      const values = valueAt(resource, filter.attr);
+      return Array.isArray(values) && values.some(item => matchesFilter(item, filter.filter));
+    }
+    default:
+      return compare(valueAt(resource, filter.attr), filter.op, filter.value);
+  }
+};
+
+/**
+ * Attribute values an `eq` filter pins down, used to create the element a filtered PATCH
+ * targets when it does not exist yet
+ */
+const equalityValues = (filter: ScimFilter): Record<string, any> => {
+  if (filter.op === 'and') {
+    return { ...equalityValues(filter.left), ...equalityValues(filter.right) };
+  }
+  return filter.op === 'eq' ? { [filter.attr]: filter.value } : {};
+};
+
+interface PatchPath {
+  container: Record<string, any>;
+  attr: string;
+  filter?: ScimFilter;
+  subAttr?: string;
+}
+
+/**
+ * Resolve a PATCH path such as `emails[type eq "work"].value` or
+ * `urn:ietf:params:scim:schemas:extension:enterprise:2.0:User:department`
+ */
+const resolvePath = (resource: Record<string, any>, path: string, schema: string): PatchPath => {
+  let container = resource;
+  let attrPath = stripSchema(path, schema);
+
+  // Attributes of an extension schema live in an object keyed by the schema URN
+  if (attrPath.toLowerCase().startsWith('urn:')) {
+    const separator = attrPath.lastIndexOf(':');
+    const extension = findKey(resource, attrPath.slice(0, separator));
+    resource[extension] = resource[extension] ?? {};
+    container = resource[extension];
+    attrPath = attrPath.slice(separator + 1);
+  }
+
+  const match = attrPath.match(/^([^.[\]]+)(?:\[(.+)\])?(?:\.([^.[\]]+))?$/);
+  if (!match) {
+    throw invalidPath(`Invalid path ${path}`);
+  }
+  const [, attr, filter, subAttr] = match;
+  return {
+    container,
+    attr: findKey(container, attr),
+    filter: filter ? parseFilter(filter) : undefined,
+    subAttr,
+  };
+};
+
+const sameElement = (a: any, b: any) =>
+  a && b && typeof a === 'object' && a.value !== undefined
+    ? String(a.value) === String(b?.value)
+    : JSON.stringify(a) === JSON.stringify(b);
+
+const applyOperation = (
+  resource: Record<string, any>,
+  op: string,
+  path: string,
+  value: any,
+  schema: string
+) => {
+  const { container, attr, filter, subAttr } = resolvePath(resource, path, schema);
+
+  if (filter) {
+    const elements: any[] = Array.isArray(container[attr]) ? container[attr] : [];
+    const matched = elements.filter(element => matchesFilter(element, filter));
+
+    if (op === 'remove') {
+      if (subAttr) {
+        matched.forEach(element => delete element[findKey(element, subAttr)]);
+      } else {
+        container[attr] = elements.filter(element => !matched.includes(element));
+      }
+      return;
+    }
+
+    if (matched.length === 0) {
+      const created = equalityValues(filter);
+      elements.push(created);
+      matched.push(created);
+    }
+    matched.forEach(element => {
+      if (subAttr) {
+        element[findKey(element, subAttr)] = value;
+      } else {
+        Object.assign(element, value);
+      }
+    });
+    container[attr] = elements;
+    return;
+  }
+
+  if (subAttr) {
+    const parent = container[attr] && typeof container[attr] === 'object' ? container[attr] : {};
+    if (op === 'remove') {
+      delete parent[findKey(parent, subAttr)];
+    } else {
+      parent[findKey(parent, subAttr)] = value;
+    }
+    container[attr] = parent;
+    return;
+  }
+
+  const current = container[attr];
+  if (op === 'remove') {
+    // Some clients remove members of a multi-valued attribute by listing them as the value
+    if (Array.isArray(current) && Array.isArray(value)) {
+      container[attr] = current.filter(element => !value.some(item => sameElement(element, item)));
+    } else {
+      delete container[attr];
+    }
+  } else if (op === 'add' && Array.isArray(current)) {
+    const additions = (Array.isArray(value) ? value : [value]).filter(
+      item => !current.some(element => sameElement(element, item))
+    );
+    container[attr] = [...current, ...additions];
+  } else if (
+    op === 'add' &&
+    current &&
+    typeof current === 'object' &&
+    value &&
+    typeof value === 'object' &&
+    !Array.isArray(value)
+  ) {
+    Object.assign(current, value);
+  } else {
+    container[attr] = value;
+  }
+};
+
+/**
+ * Apply PATCH operations to a copy of a SCIM resource
+ * @param {Object} resource - current representation of the resource
+ * @param {ScimPatchOperation[]} operations
+ * @param {string} schema - core schema URN of the resource
+ * @returns {Object} the patched representation
+ */
+export const applyPatch = (
+  resource: Record<string, any>,
+  operations: ScimPatchOperation[],
+  schema: string
+) => {
+  const patched = JSON.parse(JSON.stringify(resource));
+
+  operations.forEach(operation => {
+    const op = String(operation.op).toLowerCase();
+    if (!['add', 'replace', 'remove'].includes(op)) {
+      throw new ScimError(
+        httpStatus.BAD_REQUEST,
+        `Unsupported PATCH operation ${operation.op}`,
+        'invalidSyntax'
+      );
+    }
+
+    if (operation.path) {
+      applyOperation(patched, op, operation.path, operation.value, schema);
+      return;
+    }
+    if (op === 'remove') {
+      throw new ScimError(httpStatus.BAD_REQUEST, 'Remove requires a path', 'noTarget');
+    }
+    if (!operation.value || typeof operation.value !== 'object') {
+      throw new ScimError(httpStatus.BAD_REQUEST, 'PATCH value must be an object', 'invalidValue');
+    }
+    // Without a path each key of the value is an attribute path of its own
+    Object.entries(operation.value).forEach(([path, value]) =>
+      applyOperation(patched, op, path, value, schema)
+    );
+  });
+
+  return patched;
+};
+
+/**
+ * Read a SCIM boolean; some clients send "True" and "False" as strings
+ * @param {any} value
+ * @returns {boolean | undefined}
+ */
+export const parseScimBoolean = (value: any): boolean | undefined => {
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'string' && /^(true|false)$/i.test(value)) {
+    return value.toLowerCase() === 'true';
+  }
+  return undefined;
+};
+
+/**
+ * Keep only the requested attributes of a resource, or drop the excluded ones. `id` and
+ * `schemas` are always returned.
+ * @param {Object} resource
+ * @param {string} [attributes] - comma separated attribute names
+ * @param {string} [excludedAttributes] - comma separated attribute names
+ * @param {string} schema - core schema URN that may prefix attribute names
+ * @returns {Object}
+ */
+export const projectAttributes = (
+  resource: Record<string, any>,
+  attributes: string | undefined,
+  excludedAttributes: string | undefined,
+  schema: string
+) => {
+  const names = (list?: string) =>
+    (list ? list.split(',') : []).map(name =>
+      stripSchema(name.trim(), schema).split('.')[0].toLowerCase()
+    );
+
+  const included = names(attributes);
+  const excluded = names(excludedAttributes);
+  return Object.fromEntries(
+    Object.entries(resource).filter(([key]) => {
+      const name = key.toLowerCase();
+      if (name === 'id' || name === 'schemas') return true;
+      if (included.length > 0) return included.includes(name);
+      return !excluded.includes(name);
+    })
+  );
+};
@@ -22,6 +22,7 @@ export enum WebSocketMessageType {
   PING = 'ping',
   PONG = 'pong',
   MARK_NOTIFICATION_READ = 'mark_notification_read',
+  ACK_NOTIFICATION = 'ack_notification',
   MARK_ALL_NOTIFICATIONS_READ = 'mark_all_notifications_read',
   SUBSCRIBE_NOTIFICATIONS = 'subscribe_notifications',
   UNSUBSCRIBE_NOTIFICATIONS = 'unsubscribe_notifications',
@@ -31,6 +32,7 @@ export enum WebSocketEventType {
   CONNECTED = 'connected',
   AUTHENTICATED = 'authenticated',
   PUSH_NOTIFICATION = 'push_notification',
+  NOTIFICATION_ACK_SUCCESS = 'notification_ack_success',
   NOTIFICATION_MARKED_READ = 'notification_marked_read',
   ALL_NOTIFICATIONS_MARKED_READ = 'all_notifications_marked_read',
   SUBSCRIBED = 'subscribed',
@@ -196,6 +198,16 @@ export class WebSocketClient {
     });
   }
 
+  /**
+   * Confirm that notifications were received
+   */
+  acknowledgeNotifications(notificationIds: string[]): void {
+    this.sendMessage({
+      type: WebSocketMessageType.ACK_NOTIFICATION,
+      data: { notificationIds },
+    });
+  }
+
   /**
    * Mark all notifications as read
    */
@@ -240,6 +252,11 @@ export class WebSocketClient {
 
       case WebSocketEventType.PUSH_NOTIFICATION:
         this.emit(WebSocketEventType.PUSH_NOTIFICATION, message.data);
+        // Unacknowledged notifications are sent again on the next connection
+        this.acknowledgeNotifications([message.data.id]);
+        break;
+
+      case WebSocketEventType.NOTIFICATION_ACK_SUCCESS:
         break;
 
       case WebSocketEventType.NOTIFICATION_MARKED_READ:
@@ -369,7 +386,7 @@ export class WebSocketClient {
  * Create WebSocket client instance
  */
 export const createWebSocketClient = (
-  wsUrl: string = `ws://localhost:${process.env.WS_PORT || '8080'}/ws`,
+  wsUrl: string = `ws://localhost:${process.env.PORT || '8000'}/ws`,
   token?: string
 ): WebSocketClient => {
   return new WebSocketClient(wsUrl, token);
@@ -0,0 +1,35 @@
+import { z } from 'zod';
+
+const password = z.string().min(1, { message: 'Password is required' });
+const loginCode = z.string().min(1, { message: 'Login code is required' });
+const code = z.string().trim().min(1).max(64);
+
+export const accountMergeValidation = {
+  startMerge: {
+    body: z.object({
+      // Proof for the signed-in account, which is kept
+      current: z
+        .object({ password: password.optional(), loginCode: loginCode.optional() })
+        .refine(current => !!current.password !== !!current.loginCode, {
+          message: 'Provide either the password or a login code for this account',
+        }),
+      // Proof for the account merged into it
+      other: z
+        .object({
+          email: z.string().email({ message: 'Invalid email' }).optional(),
+          password: password.optional(),
+          loginCode: loginCode.optional(),
+        })
+        .refine(other => (other.loginCode ? !other.password : !!other.email && !!other.password), {
+          message: 'Provide either the email and password or a login code for the other account',
+        }),
+    }),
+  },
+  completeMerge: {
+    body: z.object({
+      mergeToken: z.string().min(1, { message: 'Merge token is required' }),
+      currentCode: code.optional(),
+      otherCode: code.optional(),
+    }),
+  },
+};
@@ -0,0 +1,40 @@
+import { z } from 'zod';
+
+const apiKeyId = z.object({
+  apiKeyId: z.string().min(1, { message: 'API key ID is required' }),
+});
+
+const expiresAt = z.coerce.date().refine(date => date.getTime() > Date.now(), {
+  message: 'Expiration date must be in the future',
+});
+
+export const createApiKey = z.object({
+  name: z.string().min(1, { message: 'Name is required' }).max(100),
+  description: z.string().max(500).optional(),
+  permissions: z
+    .array(z.string().min(1))
+    .min(1, { message: 'At least one permission is required' }),
+  expiresAt: expiresAt.optional(),
+  rateLimitPerHour: z.number().int().min(1).max(100000).optional(),
+  allowedIPs: z.array(z.string().min(1)).optional(),
+  allowedOrigins: z.array(z.string().url({ message: 'Invalid origin URL' })).optional(),
+});
+
+export const updateApiKey = z.object({
+  name: z.string().min(1).max(100).optional(),
+  description: z.string().max(500).optional(),
+  permissions: z.array(z.string().min(1)).min(1).optional(),
+  expiresAt: expiresAt.optional(),
+  rateLimitPerHour: z.number().int().min(1).max(100000).optional(),
+  allowedIPs: z.array(z.string().min(1)).optional(),
+  allowedOrigins: z.array(z.string().url({ message: 'Invalid origin URL' })).optional(),
+});
+
+export const apiKeyValidation = {
+  createApiKey: { body: createApiKey },
+  getApiKey: { params: apiKeyId },
+  updateApiKey: { params: apiKeyId, body: updateApiKey },
+  revokeApiKey: { params: apiKeyId },
+  regenerateApiKey: { params: apiKeyId },
+  getApiKeyUsage: { params: apiKeyId },
+};
@@ -20,6 +20,24 @@ const login = {
   }),
 };
 
+const requestMagicLink = {
+  body: z.object({
+    email: z.string().email({ message: 'Invalid email format' }),
+  }),
+};
+
+const verifyMagicLink = {
+  body: z.object({
+    token: z.string().min(1, { message: 'Token is required' }),
+  }),
+};
+
+const exchangeSocialLoginCode = {
+  body: z.object({
+    code: z.string().min(1, { message: 'Code is required' }),
+  }),
+};
+
 const logout = {
   body: z.object({
     refreshToken: z.string().min(1, { message: 'Refresh token is required' }),
@@ -55,11 +73,19 @@ const verifyEmail = {
 
 const verifyTwoFactor = {
   body: z.object({
-    userId: z.string().min(1, { message: 'User ID is required' }),
-    token: z
+    twoFactorToken: z.string().min(1, { message: 'Two-factor token is required' }),
+    code: z
       .string()
-      .min(6, { message: 'Token must be at least 6 characters' })
-      .max(8, { message: 'Token cannot exceed 8 characters' }),
+      .min(6, { message: 'Code must be at least 6 characters' })
+      .max(8, { message: 'Code cannot exceed 8 characters' }),
+    method: z.enum(['totp', 'email', 'sms']).optional(),
+  }),
+};
+
+const sendTwoFactorCode = {
+  body: z.object({
+    twoFactorToken: z.string().min(1, { message: 'Two-factor token is required' }),
+    method: z.enum(['email', 'sms']),
   }),
 };
 
@@ -158,6 +184,9 @@ const verifyResetOtp = {
 export default {
   register,
   login,
+  requestMagicLink,
+  verifyMagicLink,
+  exchangeSocialLoginCode,
   logout,
   refreshTokens,
   forgotPassword,
@@ -170,6 +199,7 @@ export default {
   resendEmailVerificationOtp,
   resendPasswordResetOtp,
   verifyTwoFactor,
+  sendTwoFactorCode,
   changePassword,
   enableTwoFactor,
   disableTwoFactor,
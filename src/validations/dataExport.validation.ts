@@ -0,0 +1,16 @@
+import { z } from 'zod';
+
+const jobId = z.object({
+  jobId: z.string().min(1, { message: 'Export job ID is required' }),
+});
+
+export const dataExportValidation = {
+  getExportJob: { params: jobId },
+  downloadExport: {
+    params: jobId,
+    query: z.object({
+      expires: z.coerce.number().int(),
+      signature: z.string().min(1, { message: 'Signature is required' }),
+    }),
+  },
+};
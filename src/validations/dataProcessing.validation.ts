@@ -0,0 +1,47 @@
+import { z } from 'zod';
+import { LegalBasis, ProcessingRecordStatus } from '../types/dataProcessing.types';
+
+const recordId = z.object({
+  recordId: z.string().min(1, { message: 'Record ID is required' }),
+});
+
+const processingDetails = {
+  purpose: z.string().min(1, { message: 'Purpose is required' }).max(100),
+  dataTypes: z.array(z.string().min(1)).min(1, { message: 'At least one data type is required' }),
+  retention: z.string().min(1, { message: 'Retention period is required' }).max(255),
+  expiresAt: z.coerce.date().refine(date => date.getTime() > Date.now(), {
+    message: 'Expiration date must be in the future',
+  }),
+};
+
+const pagination = {
+  page: z.coerce.number().int().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+};
+
+export const dataProcessingValidation = {
+  getMyConsents: {
+    query: z.object({ status: z.enum(ProcessingRecordStatus).optional() }),
+  },
+  giveConsent: {
+    body: z.object(processingDetails),
+  },
+  withdrawConsent: { params: recordId },
+  recordProcessing: {
+    body: z.object({
+      userId: z.string().min(1, { message: 'User ID is required' }),
+      legalBasis: z.enum(LegalBasis),
+      ...processingDetails,
+    }),
+  },
+  queryRecords: {
+    query: z.object({
+      purpose: z.string().optional(),
+      legalBasis: z.enum(LegalBasis).optional(),
+      status: z.enum(ProcessingRecordStatus).optional(),
+      userId: z.string().optional(),
+      ...pagination,
+    }),
+  },
+  getRecord: { params: recordId },
+};
@@ -0,0 +1,19 @@
+import { z } from 'zod';
+
+export const impersonationValidation = {
+  startImpersonation: {
+    params: z.object({
+      userId: z.string().min(1, { message: 'User ID is required' }),
+    }),
+    body: z.object({
+      // Why support needs to act as the user, e.g. a ticket reference; kept in the audit log
+      reason: z.string().trim().min(3).max(500),
+      notifyUser: z.boolean().default(true),
+    }),
+  },
+  endImpersonation: {
+    params: z.object({
+      userId: z.string().min(1, { message: 'User ID is required' }),
+    }),
+  },
+};
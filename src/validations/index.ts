@@ -7,3 +7,13 @@ export { ipSecurityValidation } from './ipSecurity.validation';
 export { pushNotificationValidation } from './pushNotification.validation';
 export { socialAuthValidation } from './socialAuth.validation';
 export { rbacValidation } from './rbac.validation';
+export { apiKeyValidation } from './apiKey.validation';
+export { dataExportValidation } from './dataExport.validation';
+export { dataProcessingValidation } from './dataProcessing.validation';
+export { webAuthnValidation } from './webAuthn.validation';
+export { oauthValidation } from './oauth.validation';
+export { samlValidation } from './saml.validation';
+export { scimValidation } from './scim.validation';
+export { accountMergeValidation } from './accountMerge.validation';
+export { impersonationValidation } from './impersonation.validation';
+export { notificationPreferenceValidation } from './notificationPreference.validation';
@@ -0,0 +1,84 @@
+import { z } from 'zod';
+import { NOTIFICATION_TYPES } from '../types/notification.types';
+import { isPublicHostname } from '../utils/publicAddress';
+
+const notificationType = z.enum(NOTIFICATION_TYPES);
+
+const time = z.string().regex(/^([01]?[0-9]|2[0-3]):[0-5][0-9]$/, {
+  message: 'Time must be in HH:mm format',
+});
+
+const timezone = z.string().refine(
+  value => {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: value });
+      return true;
+    } catch {
+      return false;
+    }
+  },
+  { message: 'Unknown time zone' }
+);
+
+// Channels of one notification type; null follows the default again
+const typePreferences = z.object({
+  inApp: z.boolean().nullable().optional(),
+  push: z.boolean().nullable().optional(),
+  email: z.boolean().nullable().optional(),
+  webhook: z.boolean().nullable().optional(),
+  emailMode: z.enum(['INSTANT', 'DIGEST']).optional(),
+});
+
+/** Typed notification preferences, also accepted by the profile and user preference endpoints */
+export const notificationPreferencesBody = z.object({
+  push: z.object({ enabled: z.boolean() }).optional(),
+  email: z.object({ enabled: z.boolean() }).optional(),
+  webhook: z
+    .object({
+      url: z
+        .string()
+        .url()
+        .refine(url => url.startsWith('https://'), { message: 'Webhook URL must use HTTPS' })
+        .refine(url => isPublicHostname(new URL(url).hostname), {
+          message: 'Webhook URL must point to a public host',
+        })
+        .nullable(),
+    })
+    .optional(),
+  quietHours: z
+    .object({
+      enabled: z.boolean().optional(),
+      start: time.optional(),
+      end: time.optional(),
+    })
+    .optional(),
+  timezone: timezone.optional(),
+  digest: z
+    .object({
+      frequency: z.enum(['DAILY', 'WEEKLY']).optional(),
+      hour: z.number().int().min(0).max(23).optional(),
+      day: z.number().int().min(0).max(6).optional(),
+    })
+    .optional(),
+  types: z.partialRecord(notificationType, typePreferences).optional(),
+});
+
+/** Switches of the removed emailNotifications preference field, still accepted */
+export const legacyEmailNotificationsBody = z.object({
+  loginAlerts: z.boolean().optional(),
+  passwordChanges: z.boolean().optional(),
+  twoFactorChanges: z.boolean().optional(),
+  deviceLogins: z.boolean().optional(),
+});
+
+/** Switches of the removed pushNotifications preference field, still accepted */
+export const legacyPushNotificationsBody = z.object({
+  loginAlerts: z.boolean().optional(),
+  securityUpdates: z.boolean().optional(),
+});
+
+export const notificationPreferenceValidation = {
+  updatePreferences: {
+    body: notificationPreferencesBody,
+  },
+};
@@ -0,0 +1,58 @@
+import { z } from 'zod';
+import { OAuthGrantType } from '../types/oauth.types';
+
+const clientId = z.object({
+  clientId: z.string().min(1, { message: 'Client ID is required' }),
+});
+
+// Checked in depth by the service so errors can be sent back to the client's redirect URI
+const authorizationRequest = z.object({
+  response_type: z.string().min(1, { message: 'response_type is required' }),
+  client_id: z.string().min(1, { message: 'client_id is required' }),
+  redirect_uri: z.string().min(1, { message: 'redirect_uri is required' }),
+  scope: z.string().optional(),
+  state: z.string().max(1024).optional(),
+  nonce: z.string().max(1024).optional(),
+  code_challenge: z.string().optional(),
+  code_challenge_method: z.string().optional(),
+});
+
+const redirectUris = z
+  .array(z.string().url({ message: 'Invalid redirect URI' }))
+  .min(1, { message: 'At least one redirect URI is required' });
+
+const grantTypes = z
+  .array(z.enum(OAuthGrantType))
+  .min(1, { message: 'At least one grant type is required' });
+
+const scopes = z.array(z.string().min(1)).min(1, { message: 'At least one scope is required' });
+
+export const oauthValidation = {
+  startAuthorization: { query: authorizationRequest },
+  getAuthorizationDetails: { query: authorizationRequest },
+  authorize: {
+    body: authorizationRequest.extend({ approved: z.boolean() }),
+  },
+  createClient: {
+    body: z.object({
+      name: z.string().min(1, { message: 'Name is required' }).max(100),
+      redirectUris,
+      grantTypes,
+      scopes,
+      isConfidential: z.boolean().default(true),
+    }),
+  },
+  getClient: { params: clientId },
+  updateClient: {
+    params: clientId,
+    body: z.object({
+      name: z.string().min(1).max(100).optional(),
+      redirectUris: redirectUris.optional(),
+      grantTypes: grantTypes.optional(),
+      scopes: scopes.optional(),
+      isActive: z.boolean().optional(),
+    }),
+  },
+  rotateClientSecret: { params: clientId },
+  deleteClient: { params: clientId },
+};
@@ -1,4 +1,9 @@
 import { z } from 'zod';
+import {
+  legacyEmailNotificationsBody,
+  legacyPushNotificationsBody,
+  notificationPreferencesBody,
+} from './notificationPreference.validation';
 
 const updateProfile = {
   body: z.object({
@@ -27,20 +32,10 @@ const updateProfile = {
 
 const updatePreferences = {
   body: z.object({
-    emailNotifications: z
-      .object({
-        loginAlerts: z.boolean().optional(),
-        passwordChanges: z.boolean().optional(),
-        twoFactorChanges: z.boolean().optional(),
-        deviceLogins: z.boolean().optional(),
-      })
-      .optional(),
-    pushNotifications: z
-      .object({
-        loginAlerts: z.boolean().optional(),
-        securityUpdates: z.boolean().optional(),
-      })
-      .optional(),
+    notifications: notificationPreferencesBody.optional(),
+    // Replaced by notifications; translated onto the notification type preferences
+    emailNotifications: legacyEmailNotificationsBody.optional(),
+    pushNotifications: legacyPushNotificationsBody.optional(),
     privacySettings: z
       .object({
         profileVisibility: z.enum(['public', 'private', 'friends_only']).optional(),
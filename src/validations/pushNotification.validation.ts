@@ -1,19 +1,11 @@
 import { z } from 'zod';
+import { NOTIFICATION_TYPES } from '../types/notification.types';
 
-const notificationTypeEnum = z.enum([
-  'LOGIN_ALERT',
-  'PASSWORD_CHANGE',
-  'EMAIL_VERIFICATION',
-  'TWO_FACTOR_SETUP',
-  'ACCOUNT_LOCKED',
-  'SECURITY_ALERT',
-  'SYSTEM_UPDATE',
-  'WELCOME',
-]);
+const notificationTypeEnum = z.enum(NOTIFICATION_TYPES);
 
 const updatePreferences = z.object({
   enabled: z.boolean().optional(),
-  types: z.record(z.string(), z.boolean()).optional(),
+  types: z.partialRecord(notificationTypeEnum, z.boolean()).optional(),
   quietHours: z
     .object({
       enabled: z.boolean().optional(),
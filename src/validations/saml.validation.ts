@@ -0,0 +1,65 @@
+import { z } from 'zod';
+
+const connection = z.object({
+  connection: z.string().min(1, { message: 'Connection is required' }),
+});
+
+const slug = z
+  .string()
+  .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, {
+    message: 'Slug must be lowercase letters, numbers and hyphens',
+  })
+  .max(64);
+
+const profileField = z.enum([
+  'email',
+  'name',
+  'firstName',
+  'lastName',
+  'phone',
+  'country',
+  'state',
+  'city',
+  'groups',
+]);
+
+const connectionSettings = {
+  name: z.string().min(1, { message: 'Name is required' }).max(100),
+  metadataUrl: z.string().url({ message: 'Invalid metadata URL' }).optional(),
+  idpEntityId: z.string().min(1).optional(),
+  idpSsoUrl: z.string().url({ message: 'Invalid IdP sign-in URL' }).optional(),
+  idpCertificates: z.array(z.string().min(1)).min(1).optional(),
+  emailDomains: z
+    .array(z.string().regex(/^[a-z0-9.-]+\.[a-z]{2,}$/i, { message: 'Invalid email domain' }))
+    .min(1, { message: 'At least one email domain is required' }),
+  attributeMapping: z.partialRecord(profileField, z.string().min(1)).optional(),
+  roleMapping: z.record(z.string().min(1), z.array(z.string().min(1)).min(1)).optional(),
+  allowIdpInitiated: z.boolean().optional(),
+  jitProvisioning: z.boolean().optional(),
+};
+
+export const samlValidation = {
+  login: { params: connection },
+  assertionConsumerService: {
+    params: connection,
+    body: z.object({
+      SAMLResponse: z.string().min(1, { message: 'SAMLResponse is required' }),
+      RelayState: z.string().optional(),
+    }),
+  },
+  getMetadata: { params: connection },
+  createConnection: {
+    body: z.object({ slug, ...connectionSettings }),
+  },
+  getConnection: { params: connection },
+  updateConnection: {
+    params: connection,
+    body: z.object({
+      ...connectionSettings,
+      name: connectionSettings.name.optional(),
+      emailDomains: connectionSettings.emailDomains.optional(),
+      isActive: z.boolean().optional(),
+    }),
+  },
+  deleteConnection: { params: connection },
+};
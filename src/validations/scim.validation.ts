@@ -0,0 +1,59 @@
+import { z } from 'zod';
+import { MAX_PAGE_SIZE } from '../services/scim.service';
+
+const id = z.object({
+  id: z.string().min(1, { message: 'ID is required' }),
+});
+
+const attributeSelection = {
+  attributes: z.string().optional(),
+  excludedAttributes: z.string().optional(),
+};
+
+const listQuery = z.object({
+  filter: z.string().optional(),
+  // RFC 7644 treats a start index below 1 as 1 and lets the server cap the page size
+  startIndex: z.coerce
+    .number()
+    .int()
+    .default(1)
+    .transform(startIndex => Math.max(startIndex, 1)),
+  count: z.coerce
+    .number()
+    .int()
+    .default(MAX_PAGE_SIZE)
+    .transform(count => Math.min(Math.max(count, 0), MAX_PAGE_SIZE)),
+  ...attributeSelection,
+});
+
+const patchOp = z.object({
+  schemas: z.array(z.string()).optional(),
+  Operations: z
+    .array(
+      z.object({
+        op: z.string().min(1, { message: 'op is required' }),
+        path: z.string().optional(),
+        value: z.any().optional(),
+      })
+    )
+    .min(1, { message: 'Operations are required' }),
+});
+
+const user = z.looseObject({
+  userName: z.string().min(1, { message: 'userName is required' }),
+});
+
+const group = z.looseObject({
+  displayName: z.string().min(1, { message: 'displayName is required' }),
+});
+
+export const scimValidation = {
+  listResources: { query: listQuery },
+  getResource: { params: id, query: z.object(attributeSelection) },
+  createUser: { body: user },
+  replaceUser: { params: id, body: user },
+  createGroup: { body: group },
+  replaceGroup: { params: id, body: group },
+  patchResource: { params: id, body: patchOp },
+  deleteResource: { params: id },
+};
@@ -7,12 +7,16 @@ const linkSocialAccount = z.object({
   name: z.string().min(1).max(100),
   accessToken: z.string().min(1),
   refreshToken: z.string().optional(),
+  // Lifetime of the access token in seconds, so it is refreshed before it expires
+  expiresIn: z.number().int().positive().optional(),
   scope: z.string().optional(),
 });
 
 const updateSocialTokens = z.object({
   accessToken: z.string().min(1),
   refreshToken: z.string().optional(),
+  // Lifetime of the access token in seconds, so it is refreshed before it expires
+  expiresIn: z.number().int().positive().optional(),
   scope: z.string().optional(),
 });
 
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { TWO_FACTOR_METHODS } from '../types/auth.types';
 
 const enableTwoFactor = {
   body: z.object({
@@ -37,9 +38,41 @@ const verifyToken = {
   }),
 };
 
+const otpMethodParams = z.object({
+  method: z.enum(['email', 'sms'], { message: 'Method must be email or sms' }),
+});
+
+const sendMethodCode = {
+  params: otpMethodParams,
+};
+
+const enableMethod = {
+  params: otpMethodParams,
+  body: z.object({
+    code: z.string().length(6, { message: 'Code must be 6 digits' }),
+  }),
+};
+
+const disableMethod = {
+  params: otpMethodParams,
+  body: z.object({
+    code: z.string().length(6, { message: 'Code must be 6 digits' }),
+  }),
+};
+
+const setPreferredMethod = {
+  body: z.object({
+    method: z.enum(TWO_FACTOR_METHODS),
+  }),
+};
+
 export default {
   enableTwoFactor,
   disableTwoFactor,
   regenerateBackupCodes,
   verifyToken,
+  sendMethodCode,
+  enableMethod,
+  disableMethod,
+  setPreferredMethod,
 };
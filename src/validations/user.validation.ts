@@ -1,5 +1,10 @@
 import { Role } from '@prisma/client';
 import { z } from 'zod';
+import {
+  legacyEmailNotificationsBody,
+  legacyPushNotificationsBody,
+  notificationPreferencesBody,
+} from './notificationPreference.validation';
 
 const createUser = {
   body: z.object({
@@ -96,20 +101,10 @@ const getUserPreferences = {
     userId: z.string().min(1, { message: 'User ID is required' }),
   }),
   body: z.object({
-    emailNotifications: z
-      .object({
-        loginAlerts: z.boolean().optional(),
-        passwordChanges: z.boolean().optional(),
-        twoFactorChanges: z.boolean().optional(),
-        deviceLogins: z.boolean().optional(),
-      })
-      .optional(),
-    pushNotifications: z
-      .object({
-        loginAlerts: z.boolean().optional(),
-        securityUpdates: z.boolean().optional(),
-      })
-      .optional(),
+    notifications: notificationPreferencesBody.optional(),
+    // Replaced by notifications; translated onto the notification type preferences
+    emailNotifications: legacyEmailNotificationsBody.optional(),
+    pushNotifications: legacyPushNotificationsBody.optional(),
     privacySettings: z
       .object({
         profileVisibility: z.enum(['public', 'private', 'friends_only']).optional(),
@@ -0,0 +1,65 @@
+import { z } from 'zod';
+
+// Credentials as serialised by the browser (PublicKeyCredential.toJSON); the inner response
+// is kept as-is and checked by the ceremony verification
+const publicKeyCredential = (response: z.ZodObject) =>
+  z.object({
+    id: z.string().min(1, { message: 'Credential ID is required' }),
+    rawId: z.string().min(1, { message: 'Raw credential ID is required' }),
+    type: z.literal('public-key'),
+    response,
+    authenticatorAttachment: z.enum(['platform', 'cross-platform']).optional(),
+    clientExtensionResults: z.looseObject({}).default({}),
+  });
+
+const twoFactorToken = z.string().min(1, { message: 'Two-factor token is required' });
+const credentialName = z
+  .string()
+  .trim()
+  .min(1, { message: 'Name is required' })
+  .max(64, { message: 'Name cannot exceed 64 characters' });
+
+export const webAuthnValidation = {
+  verifyRegistration: {
+    body: z.object({
+      credential: publicKeyCredential(
+        z.looseObject({
+          clientDataJSON: z.string().min(1),
+          attestationObject: z.string().min(1),
+          transports: z.array(z.string()).optional(),
+        })
+      ),
+      name: credentialName.optional(),
+    }),
+  },
+  authenticationOptions: {
+    body: z.object({
+      email: z.string().email({ message: 'Invalid email format' }).optional(),
+      twoFactorToken: twoFactorToken.optional(),
+    }),
+  },
+  verifyAuthentication: {
+    body: z.object({
+      credential: publicKeyCredential(
+        z.looseObject({
+          clientDataJSON: z.string().min(1),
+          authenticatorData: z.string().min(1),
+          signature: z.string().min(1),
+          userHandle: z.string().optional(),
+        })
+      ),
+      twoFactorToken: twoFactorToken.optional(),
+    }),
+  },
+  renameCredential: {
+    params: z.object({
+      credentialId: z.string().min(1, { message: 'Credential ID is required' }),
+    }),
+    body: z.object({ name: credentialName }),
+  },
+  removeCredential: {
+    params: z.object({
+      credentialId: z.string().min(1, { message: 'Credential ID is required' }),
+    }),
+  },
+};
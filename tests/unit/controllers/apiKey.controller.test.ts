@@ -0,0 +1,87 @@
+import httpStatus from 'http-status';
+import * as apiKeyController from '../../../src/controllers/apiKey.controller';
+import apiKeyService from '../../../src/services/apiKey.service';
+
+jest.mock('../../../src/services/apiKey.service');
+
+const mockApiKeyService = apiKeyService as jest.Mocked<typeof apiKeyService>;
+
+const storedKey = {
+  id: 'key-1',
+  userId: 'user-1',
+  name: 'CI',
+  hashedKey: 'key-hash',
+  permissions: ['users:read'],
+  isActive: true,
+};
+
+describe('API key controller', () => {
+  let req: any;
+  let res: any;
+  let next: jest.Mock;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    req = { user: { id: 'user-1' }, params: {}, body: {}, requestId: 'request-1' };
+    res = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn().mockReturnThis(),
+      send: jest.fn().mockReturnThis(),
+    };
+    next = jest.fn();
+  });
+
+  const run = async (handler: any) => {
+    await handler(req, res, next);
+    return res.json.mock.calls[0]?.[0];
+  };
+
+  test('should create a key for the current user and show it without its hash', async () => {
+    req.body = { name: 'CI', permissions: ['users:read'] };
+    mockApiKeyService.createApiKey.mockResolvedValue({ ...storedKey, key: 'ak_raw' } as any);
+
+    const body = await run(apiKeyController.createApiKey);
+
+    expect(mockApiKeyService.createApiKey).toHaveBeenCalledWith('user-1', req.body, req);
+    expect(res.status).toHaveBeenCalledWith(httpStatus.CREATED);
+    expect(body.data.apiKey).toMatchObject({ id: 'key-1', key: 'ak_raw' });
+    expect(body.data.apiKey).not.toHaveProperty('hashedKey');
+  });
+
+  test('should only look up keys of the current user', async () => {
+    req.params.apiKeyId = 'key-2';
+    mockApiKeyService.getApiKeyById.mockResolvedValue(null);
+
+    await run(apiKeyController.getApiKey);
+
+    expect(mockApiKeyService.getApiKeyById).toHaveBeenCalledWith('user-1', 'key-2');
+    expect(next.mock.calls[0][0].statusCode).toBe(httpStatus.NOT_FOUND);
+  });
+
+  test('should return the new secret of a rotated key', async () => {
+    req.params.apiKeyId = 'key-1';
+    mockApiKeyService.regenerateApiKey.mockResolvedValue('ak_rotated');
+
+    const body = await run(apiKeyController.regenerateApiKey);
+
+    expect(mockApiKeyService.regenerateApiKey).toHaveBeenCalledWith('user-1', 'key-1', req);
+    expect(body.data).toEqual({ id: 'key-1', key: 'ak_rotated' });
+  });
+
+  test('should answer a revoked key with no content', async () => {
+    req.params.apiKeyId = 'key-1';
+
+    await run(apiKeyController.revokeApiKey);
+
+    expect(mockApiKeyService.revokeApiKey).toHaveBeenCalledWith('user-1', 'key-1', req);
+    expect(res.status).toHaveBeenCalledWith(httpStatus.NO_CONTENT);
+  });
+
+  test('should list every key without hashes for admins', async () => {
+    mockApiKeyService.getAllApiKeys.mockResolvedValue([storedKey] as any);
+
+    const body = await run(apiKeyController.getAllApiKeys);
+
+    expect(body.data.apiKeys).toEqual([expect.not.objectContaining({ hashedKey: 'key-hash' })]);
+  });
+});
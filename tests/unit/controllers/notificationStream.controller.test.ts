@@ -0,0 +1,91 @@
+import { streamNotifications } from '../../../src/controllers/notificationStream.controller';
+import notificationPreferenceService from '../../../src/services/notificationPreference.service';
+import notificationStreamService from '../../../src/services/notificationStream.service';
+
+jest.mock('../../../src/services/notificationStream.service', () => ({
+  __esModule: true,
+  default: {
+    REPLAY_BATCH_SIZE: 100,
+    getCursor: jest.fn(),
+    getNotificationsAfter: jest.fn(),
+    addStream: jest.fn(),
+  },
+}));
+jest.mock('../../../src/services/notificationPreference.service');
+jest.mock('../../../src/services/notificationDelivery.service');
+
+const mockNotificationStreamService = notificationStreamService as jest.Mocked<
+  typeof notificationStreamService
+>;
+const mockNotificationPreferenceService = notificationPreferenceService as jest.Mocked<
+  typeof notificationPreferenceService
+>;
+
+describe('Notification stream controller', () => {
+  const removeStream = jest.fn();
+  let req: any;
+  let res: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers({ now: new Date('2026-10-19T12:00:00Z') });
+    mockNotificationStreamService.getCursor.mockResolvedValue(null as any);
+    mockNotificationStreamService.getNotificationsAfter.mockResolvedValue([]);
+    mockNotificationStreamService.addStream.mockReturnValue(removeStream);
+    mockNotificationPreferenceService.isInQuietHours.mockReturnValue(false);
+    req = {
+      user: { id: 'user-1' },
+      accessTokenPayload: { sub: 'user-1', exp: Date.now() / 1000 + 60 },
+      get: jest.fn(),
+      on: jest.fn(),
+    };
+    res = {
+      status: jest.fn().mockReturnThis(),
+      set: jest.fn().mockReturnThis(),
+      flushHeaders: jest.fn(),
+      write: jest.fn(),
+      end: jest.fn(),
+    };
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const openStream = async () => {
+    await streamNotifications(req, res, jest.fn());
+    // Let the initial replay of stored notifications run
+    await jest.advanceTimersByTimeAsync(0);
+  };
+
+  test('should end the stream when its access token expires', async () => {
+    await openStream();
+    expect(res.end).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(60 * 1000);
+
+    expect(res.end).toHaveBeenCalledTimes(1);
+    expect(removeStream).toHaveBeenCalled();
+  });
+
+  test('should end the stream when the server closes it', async () => {
+    await openStream();
+
+    mockNotificationStreamService.addStream.mock.calls[0][1].close();
+
+    expect(res.end).toHaveBeenCalledTimes(1);
+    expect(removeStream).toHaveBeenCalled();
+  });
+
+  test('should stop writing once the client disconnects', async () => {
+    await openStream();
+    const onClose = req.on.mock.calls.find((call: any[]) => call[0] === 'close')[1];
+
+    onClose();
+    res.write.mockClear();
+    await jest.advanceTimersByTimeAsync(30 * 1000);
+
+    expect(res.write).not.toHaveBeenCalled();
+    expect(removeStream).toHaveBeenCalled();
+  });
+});
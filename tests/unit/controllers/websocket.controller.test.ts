@@ -0,0 +1,98 @@
+import http from 'http';
+import { WebSocket } from 'ws';
+import { findAccessTokenUser } from '../../../src/config/passport';
+import WebSocketController from '../../../src/controllers/websocket.controller';
+import notificationDeliveryService from '../../../src/services/notificationDelivery.service';
+import notificationPreferenceService from '../../../src/services/notificationPreference.service';
+import realtimeService from '../../../src/services/realtime.service';
+import tokenService from '../../../src/services/token.service';
+
+jest.mock('../../../src/config/passport', () => ({ findAccessTokenUser: jest.fn() }));
+jest.mock('../../../src/services/token.service');
+jest.mock('../../../src/services/realtime.service');
+jest.mock('../../../src/services/notificationDelivery.service');
+jest.mock('../../../src/services/notificationPreference.service');
+
+const mockFindAccessTokenUser = findAccessTokenUser as jest.Mock;
+const mockTokenService = tokenService as jest.Mocked<typeof tokenService>;
+const mockRealtimeService = realtimeService as jest.Mocked<typeof realtimeService>;
+const mockNotificationDeliveryService = notificationDeliveryService as jest.Mocked<
+  typeof notificationDeliveryService
+>;
+const mockNotificationPreferenceService = notificationPreferenceService as jest.Mocked<
+  typeof notificationPreferenceService
+>;
+
+const socket = () => ({ readyState: WebSocket.OPEN, send: jest.fn(), close: jest.fn() }) as any;
+
+const sentMessages = (ws: any) => ws.send.mock.calls.map((call: any[]) => JSON.parse(call[0]));
+
+describe('WebSocket controller', () => {
+  let controller: WebSocketController;
+  const send = (ws: any, message: Record<string, unknown>) =>
+    (controller as any).handleMessage(ws, message);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockRealtimeService.close.mockResolvedValue();
+    controller = new WebSocketController(http.createServer());
+    mockTokenService.verifyAccessToken.mockResolvedValue({
+      sub: 'user-1',
+      iat: 1,
+      exp: 2,
+      type: 'ACCESS',
+      sid: 'session-1',
+    } as any);
+    mockFindAccessTokenUser.mockResolvedValue({ id: 'user-1' });
+    mockNotificationPreferenceService.isInQuietHours.mockReturnValue(false);
+    mockNotificationDeliveryService.getUndelivered.mockResolvedValue([]);
+  });
+
+  afterEach(async () => {
+    await controller.close();
+  });
+
+  test('should authenticate a connection with a usable access token', async () => {
+    const ws = socket();
+
+    await send(ws, { type: 'authenticate', token: 'access-token' });
+
+    expect(mockFindAccessTokenUser).toHaveBeenCalledWith(
+      expect.objectContaining({ sub: 'user-1' })
+    );
+    expect(ws.isAuthenticated).toBe(true);
+    expect(sentMessages(ws)[0]).toMatchObject({ type: 'authenticated' });
+    expect(mockRealtimeService.trackConnection).toHaveBeenCalledWith('user-1', ws.connectionId);
+  });
+
+  test('should refuse a revoked token or an unusable account', async () => {
+    mockFindAccessTokenUser.mockResolvedValue(null);
+    const ws = socket();
+
+    await send(ws, { type: 'authenticate', token: 'access-token' });
+
+    expect(ws.isAuthenticated).toBeUndefined();
+    expect(sentMessages(ws)).toEqual([
+      { type: 'error', data: { error: 'Invalid authentication token' } },
+    ]);
+    expect(mockRealtimeService.trackConnection).not.toHaveBeenCalled();
+  });
+
+  test('should refuse a token that does not verify', async () => {
+    mockTokenService.verifyAccessToken.mockRejectedValue(new Error('invalid signature'));
+    const ws = socket();
+
+    await send(ws, { type: 'authenticate', token: 'forged-token' });
+
+    expect(ws.isAuthenticated).toBeUndefined();
+    expect(mockFindAccessTokenUser).not.toHaveBeenCalled();
+  });
+
+  test('should refuse requests before authentication', async () => {
+    const ws = socket();
+
+    await send(ws, { type: 'mark_all_notifications_read' });
+
+    expect(sentMessages(ws)).toEqual([{ type: 'error', data: { error: 'Not authenticated' } }]);
+  });
+});
@@ -0,0 +1,97 @@
+import { EventEmitter } from 'events';
+import audit from '../../../src/middlewares/audit';
+import AuditLogService from '../../../src/services/auditLog.service';
+
+jest.mock('../../../src/client', () => ({ __esModule: true, default: {} }));
+
+describe('Audit middleware', () => {
+  let createLogFromRequest: jest.SpyInstance;
+  let res: any;
+
+  beforeEach(() => {
+    createLogFromRequest = jest
+      .spyOn(AuditLogService.prototype, 'createLogFromRequest')
+      .mockResolvedValue({} as any);
+    res = Object.assign(new EventEmitter(), {
+      statusCode: 200,
+      json: jest.fn().mockReturnThis(),
+    });
+  });
+
+  const request = (method: string, params: Record<string, string> = {}, body: any = {}) =>
+    ({ method, params, body, requestId: 'request-1' }) as any;
+
+  // Run the middleware, let the handler answer, and wait for the audit entry
+  const handle = async (middleware: any, req: any, responseBody?: any) => {
+    const next = jest.fn();
+    await middleware(req, res, next);
+    expect(next).toHaveBeenCalledWith();
+    if (responseBody !== undefined) {
+      res.json(responseBody);
+    }
+    res.emit('finish');
+    await new Promise(resolve => setImmediate(resolve));
+  };
+
+  test('should record the changed fields of an updated resource', async () => {
+    const load = jest
+      .fn()
+      .mockResolvedValueOnce({ id: 'user-1', name: 'Jane', role: 'USER' })
+      .mockResolvedValueOnce({ id: 'user-1', name: 'Jane', role: 'ADMIN' });
+    const req = request('PATCH', { userId: 'user-1' }, { role: 'ADMIN' });
+
+    await handle(audit({ resource: 'user', resourceIdParam: 'userId', load }), req);
+
+    expect(createLogFromRequest).toHaveBeenCalledWith(
+      req,
+      'UPDATE',
+      'user',
+      'user-1',
+      { role: 'USER' },
+      { role: 'ADMIN' },
+      undefined,
+      'DATA'
+    );
+  });
+
+  test('should find the ID of a created resource in the response', async () => {
+    const req = request('POST', {}, { name: 'support' });
+
+    await handle(audit({ resource: 'role', category: 'SECURITY' }), req, {
+      data: { role: { id: 'role-1', name: 'support' } },
+    });
+
+    const [, action, resource, resourceId, oldValues, , , category] =
+      createLogFromRequest.mock.calls[0];
+    expect({ action, resource, resourceId, oldValues, category }).toEqual({
+      action: 'CREATE',
+      resource: 'role',
+      resourceId: 'role-1',
+      oldValues: undefined,
+      category: 'SECURITY',
+    });
+  });
+
+  test('should keep only the previous state of a deleted resource', async () => {
+    const load = jest.fn().mockResolvedValue({ id: 'rule-1', ipAddress: '203.0.113.7' });
+
+    await handle(
+      audit({ resource: 'ip_rule', resourceIdParam: 'ruleId', load }),
+      request('DELETE', { ruleId: 'rule-1' })
+    );
+
+    expect(load).toHaveBeenCalledTimes(1);
+    const [, action, , , oldValues, newValues] = createLogFromRequest.mock.calls[0];
+    expect(action).toBe('DELETE');
+    expect(oldValues).toEqual({ id: 'rule-1', ipAddress: '203.0.113.7' });
+    expect(newValues).toBeUndefined();
+  });
+
+  test('should not record failed requests', async () => {
+    res.statusCode = 400;
+
+    await handle(audit({ resource: 'user' }), request('POST', {}, { email: 'invalid' }));
+
+    expect(createLogFromRequest).not.toHaveBeenCalled();
+  });
+});
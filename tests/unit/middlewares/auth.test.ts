@@ -0,0 +1,138 @@
+import { Role } from '@prisma/client';
+import httpStatus from 'http-status';
+import passport from 'passport';
+import prisma from '../../../src/client';
+import { authenticate, denyImpersonation } from '../../../src/middlewares/auth';
+import apiKeyService from '../../../src/services/apiKey.service';
+import ApiError from '../../../src/utils/ApiError';
+
+jest.mock('../../../src/client', () => ({
+  __esModule: true,
+  default: { user: { findUnique: jest.fn() } },
+}));
+jest.mock('../../../src/services/tokenRevocation.service');
+jest.mock('../../../src/middlewares/audit');
+
+const mockedPrisma = prisma as any;
+
+const owner = {
+  id: 'owner-id',
+  email: 'owner@example.com',
+  name: 'Owner',
+  role: Role.ADMIN,
+  isActive: true,
+  isLocked: false,
+  erasedAt: null,
+};
+
+const requestWithKey = (params: Record<string, string> = {}) =>
+  ({ params, header: (name: string) => (name === 'X-API-Key' ? 'raw-key' : undefined) }) as any;
+
+const run = async (req: any, ...requiredRights: string[]) => {
+  const next = jest.fn();
+  await authenticate(...requiredRights)(req, {} as any, next);
+  return next.mock.calls[0][0];
+};
+
+describe('API key authentication', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedPrisma.user.findUnique.mockResolvedValue(owner);
+  });
+
+  const withScopes = (...permissions: string[]) =>
+    jest
+      .spyOn(apiKeyService, 'authenticateApiKey')
+      .mockResolvedValue({ id: 'key-id', userId: owner.id, permissions } as any);
+
+  test('should grant the rights of the key scopes', async () => {
+    withScopes('users:read');
+    const req = requestWithKey();
+
+    expect(await run(req, 'getUsers')).toBeUndefined();
+    expect(req.principal).toMatchObject({ type: 'apiKey', userId: owner.id, apiKeyId: 'key-id' });
+  });
+
+  test('should refuse rights outside the key scopes', async () => {
+    withScopes('users:read');
+
+    const error = await run(requestWithKey(), 'manageUsers');
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error.statusCode).toBe(httpStatus.FORBIDDEN);
+  });
+
+  test('should not let a key reach its owner resources without the right', async () => {
+    withScopes('sessions:read');
+
+    const error = await run(requestWithKey({ userId: owner.id }), 'manageUsers');
+
+    expect(error.statusCode).toBe(httpStatus.FORBIDDEN);
+  });
+
+  test('should refuse keys of erased owners', async () => {
+    withScopes('*');
+    mockedPrisma.user.findUnique.mockResolvedValue({ ...owner, erasedAt: new Date() });
+
+    const error = await run(requestWithKey(), 'getUsers');
+
+    expect(error.statusCode).toBe(httpStatus.UNAUTHORIZED);
+  });
+});
+
+describe('Own account access', () => {
+  const user = { id: 'user-id', email: 'user@example.com', role: Role.USER };
+
+  beforeEach(() => {
+    jest
+      .spyOn(passport, 'authenticate')
+      .mockImplementation(
+        (_strategy: any, _options: any, callback: any) => () => callback(null, user, undefined)
+      );
+  });
+
+  const requestForUser = (userId: string) =>
+    ({ params: { userId }, header: () => undefined }) as any;
+
+  test('should let users reach their own resources without the right', async () => {
+    expect(await run(requestForUser(user.id), 'getUserProfile')).toBeUndefined();
+  });
+
+  test('should not let users reach resources of others without the right', async () => {
+    const error = await run(requestForUser('other-id'), 'getUserProfile');
+
+    expect(error.statusCode).toBe(httpStatus.FORBIDDEN);
+  });
+
+  test('should not let users update or delete their own account without the right', async () => {
+    const error = await run(requestForUser(user.id), 'manageUsers');
+
+    expect(error.statusCode).toBe(httpStatus.FORBIDDEN);
+  });
+
+  test('should not let users reach the session admin routes for their own account', async () => {
+    const error = await run(requestForUser(user.id), 'manageAllSessions');
+
+    expect(error.statusCode).toBe(httpStatus.FORBIDDEN);
+  });
+});
+
+describe('denyImpersonation', () => {
+  test('should refuse requests made with an impersonation token', () => {
+    const next = jest.fn();
+    denyImpersonation(
+      { principal: { type: 'user', userId: 'user-id', impersonatorId: 'admin-id' } } as any,
+      {} as any,
+      next
+    );
+
+    expect(next.mock.calls[0][0].statusCode).toBe(httpStatus.FORBIDDEN);
+  });
+
+  test('should let the user through', () => {
+    const next = jest.fn();
+    denyImpersonation({ principal: { type: 'user', userId: 'user-id' } } as any, {} as any, next);
+
+    expect(next).toHaveBeenCalledWith();
+  });
+});
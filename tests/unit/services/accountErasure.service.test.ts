@@ -0,0 +1,160 @@
+import prisma from '../../../src/client';
+import accountErasureService from '../../../src/services/accountErasure.service';
+import AuditLogService from '../../../src/services/auditLog.service';
+import emailService from '../../../src/services/email.service';
+import socialTokenService from '../../../src/services/socialToken.service';
+import { encryptPassword } from '../../../src/utils/encryption';
+
+// Models the erasure deletes the user's rows from
+const ERASED_MODELS = [
+  'token',
+  'userSession',
+  'device',
+  'socialAccount',
+  'otp',
+  'notification',
+  'passwordHistory',
+  'passwordBreachCheck',
+  'userActivity',
+  'apiKey',
+  'webAuthnCredential',
+  'webAuthnChallenge',
+  'oAuthToken',
+  'oAuthAuthorizationCode',
+  'userRole',
+  'notificationPreference',
+  'notificationTypePreference',
+];
+
+jest.mock('../../../src/client', () => ({
+  __esModule: true,
+  default: {
+    $transaction: jest.fn(),
+    $queryRaw: jest.fn(),
+    user: { findUnique: jest.fn(), findMany: jest.fn(), update: jest.fn() },
+    dataExportJob: { findMany: jest.fn(), deleteMany: jest.fn() },
+    securityLog: { updateMany: jest.fn() },
+    dataProcessingRecord: { updateMany: jest.fn(), create: jest.fn() },
+  },
+}));
+jest.mock('../../../src/services/auditLog.service');
+jest.mock('../../../src/services/email.service');
+jest.mock('../../../src/services/socialToken.service');
+jest.mock('../../../src/services/userActivity.service');
+
+const mockedPrisma = prisma as any;
+const mockAuditLogService = AuditLogService.prototype as jest.Mocked<AuditLogService>;
+const mockEmailService = emailService as jest.Mocked<typeof emailService>;
+const mockSocialTokenService = socialTokenService as jest.Mocked<typeof socialTokenService>;
+
+for (const model of ERASED_MODELS) {
+  mockedPrisma[model] = { deleteMany: jest.fn() };
+}
+
+describe('Account erasure service', () => {
+  let user: any;
+
+  beforeAll(async () => {
+    user = {
+      id: 'user-1',
+      email: 'jane@example.com',
+      name: 'Jane',
+      password: await encryptPassword('password123'),
+      deletionScheduledAt: null,
+      erasedAt: null,
+    };
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedPrisma.user.findUnique.mockResolvedValue(user);
+    mockedPrisma.dataExportJob.findMany.mockResolvedValue([]);
+    mockedPrisma.$transaction.mockResolvedValue([]);
+    mockedPrisma.$queryRaw.mockResolvedValue([]);
+    mockEmailService.sendAccountDeletionScheduledEmail.mockResolvedValue(undefined);
+  });
+
+  describe('requestErasure', () => {
+    test('should require the account password', async () => {
+      await expect(
+        accountErasureService.requestErasure(user.id, 'wrong-password')
+      ).rejects.toMatchObject({ statusCode: 401 });
+      expect(mockedPrisma.user.update).not.toHaveBeenCalled();
+    });
+
+    test('should schedule the erasure after the grace period', async () => {
+      const result = await accountErasureService.requestErasure(user.id, 'password123');
+
+      const days = (result.deletionScheduledAt.getTime() - Date.now()) / (24 * 60 * 60 * 1000);
+      expect(Math.round(days)).toBe(30);
+      expect(mockedPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: user.id },
+        data: { deletionRequestedAt: expect.any(Date), deletionScheduledAt: expect.any(Date) },
+      });
+    });
+  });
+
+  describe('eraseUser', () => {
+    test('should anonymise the user and remove their data', async () => {
+      await accountErasureService.eraseUser(user.id);
+
+      const { data } = mockedPrisma.user.update.mock.calls[0][0];
+      expect(data).toMatchObject({
+        email: 'erased-user-1@erased.invalid',
+        name: null,
+        phone: null,
+        twoFactorSecret: null,
+        isActive: false,
+        isLocked: true,
+        erasedAt: expect.any(Date),
+      });
+      expect(data.password).not.toBe(user.password);
+      for (const model of ERASED_MODELS) {
+        expect(mockedPrisma[model].deleteMany).toHaveBeenCalledWith({ where: { userId: user.id } });
+      }
+      expect(mockSocialTokenService.revokeUserTokens).toHaveBeenCalledWith(user.id);
+    });
+
+    test('should redact the audit log entries of the user', async () => {
+      mockAuditLogService.pseudonymise.mockReturnValue('user-pseudonym');
+
+      await accountErasureService.eraseUser(user.id);
+
+      expect(mockAuditLogService.redactUserLogs).toHaveBeenCalledWith(user.id);
+      expect(mockAuditLogService.createLog).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'ERASE', resourceId: 'user-pseudonym' })
+      );
+    });
+
+    test('should leave erased users alone', async () => {
+      mockedPrisma.user.findUnique.mockResolvedValue({ ...user, erasedAt: new Date() });
+
+      await accountErasureService.eraseUser(user.id);
+
+      expect(mockedPrisma.$transaction).not.toHaveBeenCalled();
+      expect(mockAuditLogService.redactUserLogs).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('processDueErasures', () => {
+    test('should carry on after a failed erasure', async () => {
+      mockedPrisma.user.findMany.mockResolvedValue([{ id: 'user-1' }, { id: 'user-2' }]);
+      mockedPrisma.user.findUnique
+        .mockRejectedValueOnce(new Error('connection lost'))
+        .mockResolvedValueOnce({ ...user, id: 'user-2' });
+
+      const stats = await accountErasureService.processDueErasures();
+
+      expect(stats).toMatchObject({ processed: 1, failed: 1 });
+    });
+
+    test('should redact the audit log entries left about erased users', async () => {
+      mockedPrisma.user.findMany.mockResolvedValue([]);
+      mockedPrisma.$queryRaw.mockResolvedValue([{ resourceId: 'user-3' }]);
+
+      await accountErasureService.processDueErasures();
+
+      expect(mockAuditLogService.redactUserLogs).toHaveBeenCalledWith('user-3');
+    });
+  });
+});
@@ -0,0 +1,201 @@
+import prisma from '../../../src/client';
+import accountMergeService from '../../../src/services/accountMerge.service';
+import AuditLogService from '../../../src/services/auditLog.service';
+import authService from '../../../src/services/auth.service';
+import cacheService from '../../../src/services/cache.service';
+import twoFactorService from '../../../src/services/twoFactor.service';
+import { encryptPassword } from '../../../src/utils/encryption';
+
+jest.mock('../../../src/client', () => ({
+  __esModule: true,
+  default: { $transaction: jest.fn(), user: { findUnique: jest.fn(), findMany: jest.fn() } },
+}));
+jest.mock('../../../src/services/cache.service', () => ({
+  __esModule: true,
+  default: { get: jest.fn(), set: jest.fn(), del: jest.fn() },
+  CacheKeys: {
+    ACCOUNT_MERGE: (token: string) => `account-merge:${token}`,
+    API_KEY: (hashedKey: string) => `api_key:${hashedKey}`,
+  },
+  CacheTTL: { LONG: 3600 },
+}));
+jest.mock('../../../src/services/auditLog.service');
+jest.mock('../../../src/services/auth.service');
+jest.mock('../../../src/services/twoFactor.service');
+jest.mock('../../../src/services/token.service');
+jest.mock('../../../src/services/tokenRevocation.service');
+jest.mock('../../../src/services/security.service');
+
+const mockedPrisma = prisma as any;
+const mockAuditLogService = AuditLogService.prototype as jest.Mocked<AuditLogService>;
+const mockAuthService = authService as jest.Mocked<typeof authService>;
+const mockCacheService = cacheService as jest.Mocked<typeof cacheService>;
+const mockTwoFactorService = twoFactorService as jest.Mocked<typeof twoFactorService>;
+
+const req = { ip: '127.0.0.1', get: jest.fn().mockReturnValue('test-agent') } as any;
+
+describe('Account merge service', () => {
+  let current: any;
+  let other: any;
+
+  beforeAll(async () => {
+    current = {
+      id: 'current-id',
+      email: 'jane@example.com',
+      password: await encryptPassword('current-password'),
+      isLocked: false,
+      isActive: true,
+      erasedAt: null,
+      lockoutUntil: null,
+    };
+    other = {
+      ...current,
+      id: 'other-id',
+      email: 'jane@work.example.com',
+      password: await encryptPassword('other-password'),
+    };
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedPrisma.user.findUnique.mockImplementation(({ where }: any) =>
+      Promise.resolve(where.id === current.id ? current : where.email === other.email && other)
+    );
+    mockAuthService.isTemporarilyLockedOut.mockReturnValue(false);
+    mockTwoFactorService.getEnrolledMethods.mockResolvedValue({
+      methods: [],
+      preferredMethod: null,
+    });
+    mockCacheService.set.mockResolvedValue(true);
+  });
+
+  const startMerge = (otherPassword: string) =>
+    accountMergeService.startMerge(
+      current.id,
+      { password: 'current-password' },
+      { email: other.email, password: otherPassword },
+      req
+    );
+
+  test('should start a merge when both passwords match', async () => {
+    const result = await startMerge('other-password');
+
+    expect(result.mergeToken).toEqual(expect.any(String));
+    expect(result.account.email).toBe('j***@work.example.com');
+    expect(mockAuthService.recordFailedLogin).not.toHaveBeenCalled();
+  });
+
+  test('should count a wrong password towards the lockout', async () => {
+    await expect(startMerge('wrong-password')).rejects.toThrow('Incorrect email or password');
+    expect(mockAuthService.recordFailedLogin).toHaveBeenCalledWith(other.id, req);
+    expect(mockCacheService.set).not.toHaveBeenCalled();
+  });
+
+  test('should refuse a locked account with the error of a wrong password', async () => {
+    mockedPrisma.user.findUnique.mockImplementation(({ where }: any) =>
+      Promise.resolve(where.id === current.id ? current : { ...other, isLocked: true })
+    );
+
+    await expect(startMerge('other-password')).rejects.toMatchObject({
+      statusCode: 401,
+      message: 'Incorrect email or password',
+    });
+  });
+
+  test('should not check the password of a locked out account', async () => {
+    mockAuthService.isTemporarilyLockedOut.mockImplementation((user: any) => user === other);
+
+    await expect(startMerge('other-password')).rejects.toThrow('Incorrect email or password');
+    expect(mockAuthService.recordFailedLogin).not.toHaveBeenCalled();
+  });
+
+  describe('findDuplicateCandidates', () => {
+    test('should match verified identifiers without revealing the other account', async () => {
+      mockedPrisma.user.findUnique.mockResolvedValue({
+        email: 'jane@example.com',
+        isEmailVerified: true,
+        socialAccounts: [{ provider: 'google', providerId: 'google-sub' }],
+      });
+      mockedPrisma.user.findMany.mockResolvedValue([
+        {
+          email: 'Jane@Example.com',
+          isEmailVerified: true,
+          socialAccounts: [{ provider: 'github', providerId: 'github-id' }],
+        },
+      ]);
+
+      const candidates = await accountMergeService.findDuplicateCandidates(current.id);
+
+      expect(candidates).toEqual([{ reasons: ['email'] }]);
+      expect(mockedPrisma.user.findMany.mock.calls[0][0].where.OR).toEqual([
+        { socialAccounts: { some: { provider: { in: ['google'] }, providerId: 'google-sub' } } },
+        { isEmailVerified: true, email: { equals: 'jane@example.com', mode: 'insensitive' } },
+      ]);
+    });
+
+    test('should not look for candidates without a verified identifier', async () => {
+      mockedPrisma.user.findUnique.mockResolvedValue({
+        email: 'jane@example.com',
+        isEmailVerified: false,
+        socialAccounts: [],
+      });
+
+      await expect(accountMergeService.findDuplicateCandidates(current.id)).resolves.toEqual([]);
+      expect(mockedPrisma.user.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('completeMerge', () => {
+    const tx: any = {
+      user: { findUnique: jest.fn(), update: jest.fn(), delete: jest.fn() },
+      userRole: { findMany: jest.fn(), deleteMany: jest.fn(), updateMany: jest.fn() },
+      apiKey: { findMany: jest.fn(), updateMany: jest.fn() },
+    };
+    const MOVED_MODELS = [
+      'socialAccount',
+      'device',
+      'notification',
+      'userActivity',
+      'dataProcessingRecord',
+      'securityLog',
+      'oAuthToken',
+    ];
+    for (const model of MOVED_MODELS) {
+      tx[model] = { updateMany: jest.fn() };
+    }
+
+    beforeEach(() => {
+      mockCacheService.get.mockResolvedValue({
+        targetId: current.id,
+        sourceId: other.id,
+        twoFactor: { current: null, other: null },
+        attempts: 0,
+      });
+      mockedPrisma.$transaction.mockImplementation((operations: any) => operations(tx));
+      tx.user.findUnique.mockImplementation(({ where }: any) =>
+        Promise.resolve(where.id === current.id ? current : other)
+      );
+      tx.userRole.findMany.mockResolvedValue([]);
+      tx.userRole.updateMany.mockResolvedValue({ count: 0 });
+      tx.apiKey.findMany.mockResolvedValue([{ hashedKey: 'key-hash' }]);
+      mockAuditLogService.createLogFromRequest.mockResolvedValue({} as any);
+      for (const model of MOVED_MODELS) {
+        tx[model].updateMany.mockResolvedValue({ count: 1 });
+      }
+    });
+
+    test('should move compliance records, API keys and OAuth grants before the delete', async () => {
+      const summary = await accountMergeService.completeMerge(current.id, 'merge-token', {}, req);
+
+      const moveTo = { data: { userId: current.id }, where: { userId: other.id } };
+      for (const model of [...MOVED_MODELS, 'apiKey']) {
+        expect(tx[model].updateMany).toHaveBeenCalledWith(moveTo);
+        expect(tx[model].updateMany.mock.invocationCallOrder[0]).toBeLessThan(
+          tx.user.delete.mock.invocationCallOrder[0]
+        );
+      }
+      expect(summary).toMatchObject({ dataProcessingRecords: 1, apiKeys: 1, oauthTokens: 1 });
+      expect(mockCacheService.del).toHaveBeenCalledWith('api_key:key-hash');
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import crypto from 'crypto';
+import prisma from '../../../src/client';
+import apiKeyService from '../../../src/services/apiKey.service';
+import cacheService from '../../../src/services/cache.service';
+
+jest.mock('../../../src/client', () => ({
+  __esModule: true,
+  default: {
+    apiKey: { findFirst: jest.fn(), update: jest.fn() },
+  },
+}));
+jest.mock('../../../src/services/auditLog.service');
+jest.mock('../../../src/services/cache.service', () => ({
+  ...jest.requireActual('../../../src/services/cache.service'),
+  __esModule: true,
+  default: {
+    get: jest.fn(),
+    set: jest.fn(),
+    del: jest.fn(),
+    setnx: jest.fn(),
+    incr: jest.fn(),
+  },
+}));
+
+const mockedPrisma = prisma as any;
+const mockCacheService = cacheService as jest.Mocked<typeof cacheService>;
+
+const rawKey = 'ak_raw-key';
+const hashedKey = crypto.createHash('sha256').update(rawKey).digest('hex');
+
+const storedKey = {
+  id: 'key-1',
+  userId: 'user-1',
+  name: 'CI',
+  hashedKey,
+  permissions: ['users:read'],
+  expiresAt: null,
+  rateLimitPerHour: 1000,
+  allowedIPs: [],
+  allowedOrigins: [],
+  isActive: true,
+  lastUsedAt: null,
+  usageCount: 0,
+  createdAt: new Date('2026-01-01'),
+  updatedAt: new Date('2026-01-01'),
+};
+
+const req = {
+  ip: '127.0.0.1',
+  path: '/v1/users',
+  method: 'GET',
+  get: jest.fn().mockReturnValue(undefined),
+} as any;
+
+describe('API key service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockCacheService.get.mockResolvedValue(null);
+    mockCacheService.incr.mockResolvedValue(1);
+    mockedPrisma.apiKey.findFirst.mockResolvedValue(storedKey);
+  });
+
+  describe('authenticateApiKey', () => {
+    test('should cache a key for every instance under its hash', async () => {
+      await apiKeyService.authenticateApiKey(rawKey, req);
+
+      expect(mockCacheService.set).toHaveBeenCalledWith(`api_key:${hashedKey}`, storedKey, {
+        ttl: 300,
+      });
+      expect(JSON.stringify(mockCacheService.set.mock.calls[0])).not.toContain(rawKey);
+    });
+
+    test('should enforce the expiry of a cached key', async () => {
+      mockCacheService.get.mockResolvedValue(
+        JSON.parse(JSON.stringify({ ...storedKey, expiresAt: new Date(Date.now() - 1000) }))
+      );
+
+      await expect(apiKeyService.authenticateApiKey(rawKey, req)).rejects.toMatchObject({
+        statusCode: 401,
+      });
+      expect(mockedPrisma.apiKey.findFirst).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revokeApiKey', () => {
+    test('should drop the key from the shared cache', async () => {
+      await apiKeyService.revokeApiKey('user-1', 'key-1', req);
+
+      expect(mockedPrisma.apiKey.update).toHaveBeenCalledWith({
+        where: { id: 'key-1' },
+        data: { isActive: false },
+      });
+      expect(mockCacheService.del).toHaveBeenCalledWith(`api_key:${hashedKey}`);
+    });
+  });
+
+  describe('regenerateApiKey', () => {
+    test('should drop the old key from the shared cache', async () => {
+      await apiKeyService.regenerateApiKey('user-1', 'key-1', req);
+
+      expect(mockCacheService.del).toHaveBeenCalledWith(`api_key:${hashedKey}`);
+    });
+  });
+});
@@ -0,0 +1,309 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../../../src/client';
+import AuditLogService from '../../../src/services/auditLog.service';
+
+jest.mock('../../../src/config/config', () => ({
+  __esModule: true,
+  default: { audit: { signingSecret: 'audit-secret' } },
+}));
+jest.mock('../../../src/client', () => ({
+  __esModule: true,
+  default: {
+    $transaction: jest.fn(),
+    $executeRaw: jest.fn(),
+    auditLog: {
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+      updateMany: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    auditLogCheckpoint: { findMany: jest.fn(), create: jest.fn() },
+  },
+}));
+
+const mockedPrisma = prisma as any;
+
+const COLUMNS = [
+  'userId',
+  'resourceId',
+  'oldValues',
+  'newValues',
+  'ipAddress',
+  'userAgent',
+  'sessionId',
+  'requestId',
+  'impersonatorId',
+  'redactedAt',
+];
+
+// In-memory audit_logs and audit_log_checkpoints tables, storing rows the way the database
+// returns them
+let rows: any[];
+let checkpoints: any[];
+
+const matchesCondition = (value: any, condition: any) => {
+  if (condition instanceof Date || condition === null || typeof condition !== 'object') {
+    return value === condition;
+  }
+  return (
+    (!('in' in condition) || condition.in.includes(value)) &&
+    (!('not' in condition) || value !== condition.not) &&
+    (!('lt' in condition) || value < condition.lt) &&
+    (!('gt' in condition) || value > condition.gt)
+  );
+};
+
+const matches = (row: any, where: Record<string, any>): boolean =>
+  Object.entries(where).every(([key, condition]) =>
+    key === 'OR'
+      ? condition.some((alternative: any) => matches(row, alternative))
+      : matchesCondition(row[key], condition)
+  );
+
+const fromDb = (value: any) => (value === Prisma.DbNull ? null : value);
+
+describe('Audit log service', () => {
+  const auditLogService = new AuditLogService();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    rows = [];
+    checkpoints = [];
+    mockedPrisma.$transaction.mockImplementation((operations: any) =>
+      typeof operations === 'function' ? operations(mockedPrisma) : Promise.all(operations)
+    );
+    mockedPrisma.auditLog.findFirst.mockImplementation(async () => rows[rows.length - 1] ?? null);
+    mockedPrisma.auditLog.create.mockImplementation(async ({ data }: any) => {
+      const row: any = { id: `log-${rows.length + 1}`, sequence: rows.length + 1 };
+      for (const column of COLUMNS) row[column] = null;
+      for (const [key, value] of Object.entries(data)) {
+        if (value !== undefined) row[key] = value;
+      }
+      rows.push(row);
+      return row;
+    });
+    mockedPrisma.auditLog.findMany.mockImplementation(async ({ where }: any) =>
+      rows.filter(row => matches(row, where))
+    );
+    mockedPrisma.auditLog.updateMany.mockImplementation(async ({ where, data }: any) => {
+      const matched = rows.filter(row => matches(row, where));
+      for (const row of matched) {
+        for (const [key, value] of Object.entries(data)) row[key] = fromDb(value);
+      }
+      return { count: matched.length };
+    });
+    mockedPrisma.auditLog.deleteMany.mockImplementation(async ({ where }: any) => {
+      const count = rows.length;
+      rows = rows.filter(row => !matches(row, where));
+      return { count: count - rows.length };
+    });
+    mockedPrisma.auditLogCheckpoint.findMany.mockImplementation(async () => checkpoints);
+    mockedPrisma.auditLogCheckpoint.create.mockImplementation(async ({ data }: any) => {
+      const checkpoint = {
+        id: `checkpoint-${checkpoints.length + 1}`,
+        createdAt: new Date(),
+        ...data,
+      };
+      checkpoints.push(checkpoint);
+      return checkpoint;
+    });
+  });
+
+  const seedLogs = async () => {
+    await auditLogService.createLog({
+      userId: 'user-1',
+      action: 'UPDATE',
+      resource: 'user',
+      resourceId: 'user-1',
+      oldValues: { name: 'Jane' },
+      newValues: { name: 'Jane Doe' },
+      ipAddress: '203.0.113.7',
+      userAgent: 'test-agent',
+    });
+    await auditLogService.createLog({
+      userId: 'admin-1',
+      action: 'UPDATE',
+      resource: 'user',
+      resourceId: 'user-1',
+      oldValues: { email: 'jane@example.com' },
+      newValues: { email: 'jane@work.example.com' },
+      ipAddress: '198.51.100.1',
+    });
+    await auditLogService.createLog({
+      userId: 'admin-1',
+      action: 'UPDATE',
+      resource: 'user',
+      resourceId: 'user-2',
+      newValues: { name: 'John' },
+    });
+  };
+
+  describe('verifyChain', () => {
+    test('should accept an untouched chain', async () => {
+      await seedLogs();
+
+      await expect(auditLogService.verifyChain()).resolves.toEqual({
+        valid: true,
+        checkedCount: 3,
+        checkpointCount: 0,
+      });
+    });
+
+    test('should detect a changed entry', async () => {
+      await seedLogs();
+      rows[1].newValues = { email: 'someone@example.com' };
+
+      const result = await auditLogService.verifyChain();
+
+      expect(result.valid).toBe(false);
+      expect(result.firstBrokenLink).toMatchObject({
+        sequence: 2,
+        reason: 'Entry content does not match its hash',
+      });
+    });
+
+    test('should detect an entry attributed to another user', async () => {
+      await seedLogs();
+      rows[2].userId = 'user-1';
+
+      const result = await auditLogService.verifyChain();
+
+      expect(result.firstBrokenLink).toMatchObject({ sequence: 3 });
+    });
+
+    test('should detect a deleted entry', async () => {
+      await seedLogs();
+      rows.splice(1, 1);
+
+      const result = await auditLogService.verifyChain();
+
+      expect(result.valid).toBe(false);
+      expect(result.firstBrokenLink).toMatchObject({
+        sequence: 3,
+        expectedPreviousHash: rows[0].hash,
+      });
+    });
+
+    test('should bridge entries removed by retention cleanup', async () => {
+      await seedLogs();
+      rows[0].timestamp = new Date('2020-01-01');
+      rows[1].timestamp = new Date('2020-01-02');
+
+      await expect(auditLogService.cleanupOldLogs(365)).resolves.toBe(2);
+
+      await expect(auditLogService.verifyChain()).resolves.toEqual({
+        valid: true,
+        checkedCount: 1,
+        checkpointCount: 1,
+      });
+    });
+
+    test('should refuse a forged checkpoint', async () => {
+      await seedLogs();
+      rows[0].timestamp = new Date('2020-01-01');
+      await auditLogService.cleanupOldLogs(365);
+      checkpoints[0].deletedCount = 2;
+
+      const result = await auditLogService.verifyChain();
+
+      expect(result.valid).toBe(false);
+      expect(result.firstBrokenLink?.reason).toBe('Checkpoint signature is invalid');
+    });
+  });
+
+  describe('redactUserLogs', () => {
+    test('should remove the personal details of entries made by or about the user', async () => {
+      await seedLogs();
+
+      await auditLogService.redactUserLogs('user-1');
+
+      for (const row of rows.slice(0, 2)) {
+        expect(row).toMatchObject({
+          oldValues: null,
+          newValues: null,
+          ipAddress: null,
+          userAgent: null,
+          redactedAt: expect.any(Date),
+        });
+      }
+      expect(rows[0].userId).toBeNull();
+      expect(rows[1].userId).toBe('admin-1');
+      expect(rows[2]).toMatchObject({ newValues: { name: 'John' }, redactedAt: null });
+    });
+
+    test('should record the redacted entries in the chain', async () => {
+      await seedLogs();
+
+      await expect(auditLogService.redactUserLogs('user-1')).resolves.toBe(2);
+
+      expect(rows[3]).toMatchObject({
+        userId: null,
+        action: 'REDACT',
+        resource: 'audit_log',
+        resourceId: auditLogService.pseudonymise('user-1'),
+        newValues: { sequences: [1, 2] },
+        severity: 'CRITICAL',
+      });
+    });
+
+    test('should not record anything without entries to redact', async () => {
+      await seedLogs();
+
+      await expect(auditLogService.redactUserLogs('user-3')).resolves.toBe(0);
+
+      expect(rows).toHaveLength(3);
+    });
+
+    test('should keep the chain valid', async () => {
+      await seedLogs();
+
+      await auditLogService.redactUserLogs('user-1');
+
+      await expect(auditLogService.verifyChain()).resolves.toEqual({
+        valid: true,
+        checkedCount: 4,
+        checkpointCount: 0,
+      });
+    });
+
+    test('should detect an entry redacted without a record', async () => {
+      await seedLogs();
+      Object.assign(rows[2], { newValues: null, redactedAt: new Date() });
+
+      const result = await auditLogService.verifyChain();
+
+      expect(result.valid).toBe(false);
+      expect(result.firstBrokenLink).toMatchObject({
+        sequence: 3,
+        reason: 'Entry was redacted without a record',
+      });
+    });
+
+    test('should detect an entry added to a redaction record', async () => {
+      await seedLogs();
+      await auditLogService.redactUserLogs('user-1');
+      rows[3].newValues = { sequences: [1, 2, 3] };
+      Object.assign(rows[2], { newValues: null, redactedAt: new Date() });
+
+      const result = await auditLogService.verifyChain();
+
+      expect(result.valid).toBe(false);
+      expect(result.firstBrokenLink).toMatchObject({
+        sequence: 4,
+        reason: 'Entry content does not match its hash',
+      });
+    });
+
+    test('should detect details put back into a redacted entry', async () => {
+      await seedLogs();
+      await auditLogService.redactUserLogs('user-1');
+      rows[1].newValues = { email: 'someone@example.com' };
+
+      const result = await auditLogService.verifyChain();
+
+      expect(result.valid).toBe(false);
+      expect(result.firstBrokenLink).toMatchObject({ sequence: 2 });
+    });
+  });
+});
@@ -1,92 +1,350 @@
-import { PrismaClient, Role } from '@prisma/client';
+import { Role } from '@prisma/client';
+import prisma from '../../../src/client';
 import authService from '../../../src/services/auth.service';
 import tokenService from '../../../src/services/token.service';
 import userService from '../../../src/services/user.service';
+import twoFactorService from '../../../src/services/twoFactor.service';
+import securityService from '../../../src/services/security.service';
+import notificationService from '../../../src/services/notification.service';
+import deviceService from '../../../src/services/device.service';
+import userActivityService from '../../../src/services/userActivity.service';
+import emailService from '../../../src/services/email.service';
 import ApiError from '../../../src/utils/ApiError';
-import httpStatus from 'http-status';
+import { encryptPassword } from '../../../src/utils/encryption';
 
 // Mock dependencies
 jest.mock('../../../src/services/token.service');
 jest.mock('../../../src/services/user.service');
+jest.mock('../../../src/services/twoFactor.service');
+jest.mock('../../../src/services/security.service');
+jest.mock('../../../src/services/notification.service');
+jest.mock('../../../src/services/device.service');
+jest.mock('../../../src/services/userActivity.service');
+jest.mock('../../../src/services/email.service');
+jest.mock('../../../src/client', () => ({
+  __esModule: true,
+  default: { user: { findUnique: jest.fn(), update: jest.fn() } },
+}));
 
 const mockTokenService = tokenService as jest.Mocked<typeof tokenService>;
 const mockUserService = userService as jest.Mocked<typeof userService>;
+const mockTwoFactorService = twoFactorService as jest.Mocked<typeof twoFactorService>;
+const mockSecurityService = securityService as jest.Mocked<typeof securityService>;
+const mockNotificationService = notificationService as jest.Mocked<typeof notificationService>;
+const mockDeviceService = deviceService as jest.Mocked<typeof deviceService>;
+const mockUserActivityService = userActivityService as jest.Mocked<typeof userActivityService>;
+const mockEmailService = emailService as jest.Mocked<typeof emailService>;
+const mockedPrisma = prisma as any;
 
 describe('AuthService Examples', () => {
-  let prisma: PrismaClient;
+  let passwordHash: string;
 
   beforeAll(async () => {
-    prisma = new PrismaClient();
-  });
-
-  afterAll(async () => {
-    await prisma.$disconnect();
+    passwordHash = await encryptPassword('password123');
   });
 
   beforeEach(() => {
     jest.clearAllMocks();
+    mockDeviceService.hasReachedDeviceLimit.mockResolvedValue(false);
+    mockUserActivityService.logLoginActivity.mockResolvedValue(undefined as any);
   });
 
   // Example 1: Login Test - Template for authentication tests
   describe('loginUserWithEmailAndPassword', () => {
+    const loginUser = () => ({
+      id: 'test-user-id',
+      email: 'test@example.com',
+      password: passwordHash,
+      name: 'Test User',
+      role: Role.USER,
+      isEmailVerified: true,
+      isActive: true,
+      isLocked: false,
+      failedLoginAttempts: 0,
+      lockoutUntil: null,
+    });
+    const req = { ip: '127.0.0.1', get: jest.fn().mockReturnValue('test-agent') } as any;
+
     it('should login user successfully with valid credentials', async () => {
-      const testUser = {
-        id: 'test-user-id',
-        email: 'test@example.com',
-        password: 'password123',
-        name: 'Test User',
-        role: Role.USER,
-        isEmailVerified: true,
-        createdAt: new Date(),
-        updatedAt: new Date(),
-        failedLoginAttempts: 0,
-        lockUntil: null,
-        lastLoginAt: null,
-        preferences: {},
-        emailVerificationToken: null,
-        passwordResetToken: null,
-        passwordResetExpires: null,
-        twoFactorSecret: null,
-        isTwoFactorEnabled: false,
-        twoFactorBackupCodes: [],
-        loginAttempts: [],
-        sessions: [],
-        apiKeys: [],
-        auditLogs: [],
-        userActivities: [],
+      const testUser = loginUser();
+      const tokens = {
+        access: { token: 'access-token', expires: new Date() },
+        refresh: { token: 'refresh-token', expires: new Date() },
       };
 
-      const req = { ip: '127.0.0.1' } as any;
-
       mockUserService.getUserByEmail.mockResolvedValue(testUser as any);
-      mockTokenService.generateToken.mockReturnValue('access-token');
-      mockTokenService.saveToken.mockResolvedValue({} as any);
+      mockTwoFactorService.getEnrolledMethods.mockResolvedValue({
+        methods: [],
+        preferredMethod: null,
+      });
+      mockTokenService.generateAuthTokens.mockResolvedValue(tokens as any);
 
       const result = await authService.loginUserWithEmailAndPassword(
         testUser.email,
-        testUser.password,
+        'password123',
         req
       );
 
-      expect(result).toBeDefined();
-      expect(result.user.email).toBe(testUser.email);
+      expect(result).toEqual(tokens);
       expect(mockUserService.getUserByEmail).toHaveBeenCalledWith(testUser.email);
-      expect(mockTokenService.generateToken).toHaveBeenCalled();
+      expect(mockTokenService.generateAuthTokens).toHaveBeenCalledWith(testUser, req);
     });
 
-    it('should throw error for invalid credentials', async () => {
-      const testUser = {
-        email: 'test@example.com',
-        password: 'password123',
-      };
-      const req = { ip: '127.0.0.1' } as any;
+    it('should return a two-factor challenge instead of tokens when a factor is enrolled', async () => {
+      mockUserService.getUserByEmail.mockResolvedValue(loginUser() as any);
+      mockTwoFactorService.getEnrolledMethods.mockResolvedValue({
+        methods: ['totp'],
+        preferredMethod: 'totp',
+      });
+      mockTokenService.generateTwoFactorToken.mockResolvedValue('two-factor-token');
+
+      const result = await authService.loginUserWithEmailAndPassword(
+        'test@example.com',
+        'password123',
+        req
+      );
 
+      expect(result).toEqual(
+        expect.objectContaining({ twoFactorRequired: true, twoFactorToken: 'two-factor-token' })
+      );
+      expect(mockTokenService.generateAuthTokens).not.toHaveBeenCalled();
+    });
+
+    it('should throw error for invalid credentials', async () => {
       mockUserService.getUserByEmail.mockResolvedValue(null);
 
       await expect(
-        authService.loginUserWithEmailAndPassword(testUser.email, testUser.password, req)
+        authService.loginUserWithEmailAndPassword('test@example.com', 'password123', req)
       ).rejects.toThrow(ApiError);
     });
+
+    it('should throw error for a wrong password', async () => {
+      mockUserService.getUserByEmail.mockResolvedValue(loginUser() as any);
+      mockedPrisma.user.update.mockResolvedValue({ failedLoginAttempts: 1 });
+
+      await expect(
+        authService.loginUserWithEmailAndPassword('test@example.com', 'wrong-password', req)
+      ).rejects.toThrow('Incorrect email or password');
+      expect(mockTokenService.generateAuthTokens).not.toHaveBeenCalled();
+      expect(mockedPrisma.user.update).toHaveBeenCalledTimes(1);
+    });
+
+    it('should lock the account out after too many wrong passwords', async () => {
+      mockUserService.getUserByEmail.mockResolvedValue(loginUser() as any);
+      mockedPrisma.user.update.mockResolvedValue({
+        email: 'test@example.com',
+        name: 'Test User',
+        failedLoginAttempts: 5,
+      });
+      mockEmailService.sendAccountLockoutEmail.mockResolvedValue(undefined as any);
+
+      await expect(
+        authService.loginUserWithEmailAndPassword('test@example.com', 'wrong-password', req)
+      ).rejects.toThrow('Incorrect email or password');
+      expect(mockedPrisma.user.update).toHaveBeenLastCalledWith({
+        where: { id: 'test-user-id' },
+        data: { lockoutUntil: expect.any(Date) },
+      });
+      expect(mockSecurityService.logSecurityEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ eventType: 'ACCOUNT_LOCKED' })
+      );
+      expect(mockEmailService.sendAccountLockoutEmail).toHaveBeenCalled();
+    });
+
+    it('should not check the password while the account is locked out', async () => {
+      mockUserService.getUserByEmail.mockResolvedValue({
+        ...loginUser(),
+        lockoutUntil: new Date(Date.now() + 60000),
+      } as any);
+
+      await expect(
+        authService.loginUserWithEmailAndPassword('test@example.com', 'password123', req)
+      ).rejects.toThrow('Too many failed login attempts. Please try again later.');
+      expect(mockTokenService.generateAuthTokens).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a locked account', async () => {
+      mockUserService.getUserByEmail.mockResolvedValue({ ...loginUser(), isLocked: true } as any);
+
+      await expect(
+        authService.loginUserWithEmailAndPassword('test@example.com', 'password123', req)
+      ).rejects.toThrow('Account is locked. Please contact support.');
+      expect(mockTokenService.generateAuthTokens).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('loginWithTwoFactorCode', () => {
+    const req = { ip: '127.0.0.1', get: jest.fn().mockReturnValue('test-agent') } as any;
+
+    beforeEach(() => {
+      mockTokenService.verifyToken.mockResolvedValue({
+        id: 'token-id',
+        userId: 'test-user-id',
+      } as any);
+      mockTwoFactorService.getEnrolledMethods.mockResolvedValue({
+        methods: ['totp'],
+        preferredMethod: 'totp',
+      });
+    });
+
+    it('should issue tokens for a valid code', async () => {
+      const user = { id: 'test-user-id', isLocked: false, isActive: true };
+      mockTwoFactorService.verifyLoginCode.mockResolvedValue(true);
+      mockedPrisma.user.findUnique.mockResolvedValue(user);
+      mockTokenService.generateAuthTokens.mockResolvedValue({ access: {}, refresh: {} } as any);
+
+      await authService.loginWithTwoFactorCode('two-factor-token', '123456', undefined, req);
+
+      expect(mockTokenService.blacklistToken).toHaveBeenCalledWith('token-id');
+      expect(mockTokenService.generateAuthTokens).toHaveBeenCalledWith(user, req);
+    });
+
+    it('should refuse an account locked since the password was checked', async () => {
+      mockTwoFactorService.verifyLoginCode.mockResolvedValue(true);
+      mockedPrisma.user.findUnique.mockResolvedValue({
+        id: 'test-user-id',
+        isLocked: true,
+        isActive: true,
+      });
+
+      await expect(
+        authService.loginWithTwoFactorCode('two-factor-token', '123456', undefined, req)
+      ).rejects.toThrow('Account is locked. Please contact support.');
+      expect(mockTokenService.generateAuthTokens).not.toHaveBeenCalled();
+    });
+
+    it('should reject a wrong code', async () => {
+      mockTwoFactorService.verifyLoginCode.mockResolvedValue(false);
+
+      await expect(
+        authService.loginWithTwoFactorCode('two-factor-token', '000000', 'totp', req)
+      ).rejects.toThrow('Invalid two-factor code');
+      expect(mockSecurityService.logSecurityEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ eventType: 'TWO_FACTOR_VERIFIED', success: false })
+      );
+    });
+
+    it('should refuse a code for a factor the user has not enrolled', async () => {
+      await expect(
+        authService.loginWithTwoFactorCode('two-factor-token', '123456', 'sms', req)
+      ).rejects.toThrow('sms is not enabled for this account');
+      expect(mockTwoFactorService.verifyLoginCode).not.toHaveBeenCalled();
+    });
+
+    it('should try every enrolled code-based factor when none is named', async () => {
+      mockTwoFactorService.getEnrolledMethods.mockResolvedValue({
+        methods: ['webauthn', 'totp', 'email'],
+        preferredMethod: 'webauthn',
+      });
+      mockTwoFactorService.verifyLoginCode.mockImplementation(
+        async (_userId, method) => method === 'email'
+      );
+      mockedPrisma.user.findUnique.mockResolvedValue({
+        id: 'test-user-id',
+        isLocked: false,
+        isActive: true,
+      });
+
+      await authService.loginWithTwoFactorCode('two-factor-token', '123456', undefined, req);
+
+      expect(mockTwoFactorService.verifyLoginCode.mock.calls.map(call => call[1])).toEqual([
+        'totp',
+        'email',
+      ]);
+      expect(mockTokenService.generateAuthTokens).toHaveBeenCalled();
+    });
+
+    it('should refuse an expired two-factor token', async () => {
+      mockTokenService.verifyToken.mockRejectedValue(new Error('Token not found'));
+
+      await expect(
+        authService.loginWithTwoFactorCode('two-factor-token', '123456', undefined, req)
+      ).rejects.toThrow('Invalid or expired two-factor token');
+      expect(mockTwoFactorService.verifyLoginCode).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('magic links', () => {
+    const req = { ip: '127.0.0.1', get: jest.fn().mockReturnValue('test-agent') } as any;
+    const user = {
+      id: 'test-user-id',
+      email: 'test@example.com',
+      name: 'Test User',
+      isEmailVerified: true,
+      isActive: true,
+      isLocked: false,
+      lockoutUntil: null,
+    };
+
+    beforeEach(() => {
+      mockTokenService.verifyToken.mockResolvedValue({
+        id: 'magic-token-id',
+        userId: user.id,
+      } as any);
+      mockedPrisma.user.findUnique.mockResolvedValue(user);
+      mockUserService.getUserByEmail.mockResolvedValue(user as any);
+      mockTwoFactorService.getEnrolledMethods.mockResolvedValue({
+        methods: [],
+        preferredMethod: null,
+      });
+    });
+
+    it('should not email a link to an unverified account', async () => {
+      mockUserService.getUserByEmail.mockResolvedValue({
+        ...user,
+        isEmailVerified: false,
+      } as any);
+
+      await authService.requestMagicLink(user.email, req);
+
+      expect(mockTokenService.generateMagicLinkToken).not.toHaveBeenCalled();
+      expect(mockEmailService.sendMagicLinkEmail).not.toHaveBeenCalled();
+    });
+
+    it('should spend the link when it is used', async () => {
+      mockTokenService.generateAuthTokens.mockResolvedValue({ access: {}, refresh: {} } as any);
+
+      await authService.loginWithMagicLink('magic-token', req);
+
+      expect(mockTokenService.verifyToken).toHaveBeenCalledWith('magic-token', 'MAGIC_LINK');
+      expect(mockTokenService.blacklistToken).toHaveBeenCalledWith('magic-token-id');
+      expect(mockTokenService.generateAuthTokens).toHaveBeenCalled();
+    });
+
+    it('should spend the link of a locked out account without signing in', async () => {
+      mockUserService.getUserByEmail.mockResolvedValue({
+        ...user,
+        lockoutUntil: new Date(Date.now() + 60000),
+      } as any);
+
+      await expect(authService.loginWithMagicLink('magic-token', req)).rejects.toMatchObject({
+        statusCode: 403,
+      });
+      expect(mockTokenService.blacklistToken).toHaveBeenCalledWith('magic-token-id');
+      expect(mockTokenService.generateAuthTokens).not.toHaveBeenCalled();
+    });
+
+    it('should still require the second factor', async () => {
+      mockTwoFactorService.getEnrolledMethods.mockResolvedValue({
+        methods: ['totp'],
+        preferredMethod: 'totp',
+      });
+      mockTokenService.generateTwoFactorToken.mockResolvedValue('two-factor-token');
+
+      const result = await authService.loginWithMagicLink('magic-token', req);
+
+      expect(result).toMatchObject({ twoFactorRequired: true, twoFactorToken: 'two-factor-token' });
+      expect(mockTokenService.generateAuthTokens).not.toHaveBeenCalled();
+    });
+
+    it('should refuse an invalid link', async () => {
+      mockTokenService.verifyToken.mockRejectedValue(new Error('Token not found'));
+
+      await expect(authService.loginWithMagicLink('magic-token', req)).rejects.toThrow(
+        'Invalid or expired magic link'
+      );
+      expect(mockTokenService.generateAuthTokens).not.toHaveBeenCalled();
+    });
   });
 
   // Example 2: Token Refresh Test - Template for token management tests
@@ -107,6 +365,8 @@ describe('AuthService Examples', () => {
         type: 'REFRESH' as any,
         expires: new Date(),
         blacklisted: false,
+        familyId: 'family-1',
+        rotatedAt: null,
         deviceId: 'device-1',
         deviceName: 'Test Device',
         ipAddress: '127.0.0.1',
@@ -114,18 +374,88 @@ describe('AuthService Examples', () => {
         createdAt: new Date(),
       };
 
-      mockTokenService.verifyToken.mockResolvedValue(mockToken);
+      mockTokenService.findRefreshToken.mockResolvedValue(mockToken);
+      mockTokenService.isTokenFamilyActive.mockResolvedValue(true);
+      mockTokenService.markTokenRotated.mockResolvedValue(true);
+      mockUserService.getUserById.mockResolvedValue(testUser as any);
       mockTokenService.generateAuthTokens.mockResolvedValue({
         access: { token: 'new-access-token', expires: new Date() },
         refresh: { token: 'new-refresh-token', expires: new Date() },
-      });
+      } as any);
 
       const result = await authService.refreshAuth(refreshToken, req);
 
-      expect(result).toBeDefined();
-      expect(result.user.email).toBe(testUser.email);
-      expect(mockTokenService.verifyToken).toHaveBeenCalledWith(refreshToken);
-      expect(mockTokenService.generateAuthTokens).toHaveBeenCalled();
+      expect(result.refresh.token).toBe('new-refresh-token');
+      expect(mockTokenService.findRefreshToken).toHaveBeenCalledWith(refreshToken);
+      expect(mockTokenService.markTokenRotated).toHaveBeenCalledWith('token-id');
+      expect(mockTokenService.generateAuthTokens).toHaveBeenCalledWith(testUser, req, 'family-1');
+    });
+
+    it('should revoke the token family when a rotated token is reused', async () => {
+      const req = { ip: '127.0.0.1', get: jest.fn().mockReturnValue('test-agent') } as any;
+
+      mockTokenService.findRefreshToken.mockResolvedValue({
+        id: 'token-id',
+        userId: 'test-user-id',
+        token: 'rotated-refresh-token',
+        type: 'REFRESH' as any,
+        expires: new Date(),
+        blacklisted: true,
+        familyId: 'family-1',
+        rotatedAt: new Date(),
+        deviceId: 'device-1',
+      } as any);
+      mockNotificationService.sendSuspiciousActivityAlert.mockResolvedValue();
+
+      await expect(authService.refreshAuth('rotated-refresh-token', req)).rejects.toThrow(ApiError);
+
+      expect(mockTokenService.revokeTokenFamily).toHaveBeenCalledWith('family-1');
+      expect(mockSecurityService.logSecurityEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ eventType: 'SUSPICIOUS_ACTIVITY', success: false })
+      );
+      expect(mockNotificationService.sendSuspiciousActivityAlert).toHaveBeenCalledWith(
+        'test-user-id',
+        expect.any(String),
+        '127.0.0.1'
+      );
+      expect(mockTokenService.generateAuthTokens).not.toHaveBeenCalled();
+    });
+
+    it('should treat a token rotated by a concurrent request as reused', async () => {
+      const req = { ip: '127.0.0.1', get: jest.fn().mockReturnValue('test-agent') } as any;
+
+      mockTokenService.findRefreshToken.mockResolvedValue({
+        id: 'token-id',
+        userId: 'test-user-id',
+        blacklisted: false,
+        familyId: 'family-1',
+        rotatedAt: null,
+      } as any);
+      mockTokenService.isTokenFamilyActive.mockResolvedValue(true);
+      mockUserService.getUserById.mockResolvedValue({ id: 'test-user-id' } as any);
+      mockTokenService.markTokenRotated.mockResolvedValue(false);
+      mockNotificationService.sendSuspiciousActivityAlert.mockResolvedValue();
+
+      await expect(authService.refreshAuth('refresh-token', req)).rejects.toThrow(ApiError);
+
+      expect(mockTokenService.revokeTokenFamily).toHaveBeenCalledWith('family-1');
+      expect(mockTokenService.generateAuthTokens).not.toHaveBeenCalled();
+    });
+
+    it('should not refresh a family whose session was ended', async () => {
+      mockTokenService.findRefreshToken.mockResolvedValue({
+        id: 'token-id',
+        userId: 'test-user-id',
+        blacklisted: false,
+        familyId: 'family-1',
+        rotatedAt: null,
+      } as any);
+      mockTokenService.isTokenFamilyActive.mockResolvedValue(false);
+
+      await expect(authService.refreshAuth('refresh-token', {} as any)).rejects.toThrow(ApiError);
+
+      expect(mockTokenService.revokeTokenFamily).toHaveBeenCalledWith('family-1');
+      expect(mockTokenService.markTokenRotated).not.toHaveBeenCalled();
     });
   });
 
@@ -0,0 +1,57 @@
+import prisma from '../../../src/client';
+import dataExportService from '../../../src/services/dataExport.service';
+
+jest.mock('../../../src/client', () => ({
+  __esModule: true,
+  default: {
+    dataExportJob: {
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  },
+}));
+jest.mock('../../../src/services/email.service');
+
+const mockedPrisma = prisma as any;
+
+describe('Data export service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(global, 'setImmediate').mockImplementation((() => undefined) as any);
+    mockedPrisma.dataExportJob.create.mockResolvedValue({ id: 'job-2', status: 'PENDING' });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('requestExport', () => {
+    test('should return the job in progress instead of starting another', async () => {
+      const inProgress = { id: 'job-1', status: 'PROCESSING' };
+      mockedPrisma.dataExportJob.findFirst.mockResolvedValue(inProgress);
+
+      await expect(dataExportService.requestExport('user-1')).resolves.toBe(inProgress);
+      expect(mockedPrisma.dataExportJob.create).not.toHaveBeenCalled();
+    });
+
+    test('should fail stale jobs before looking for one in progress', async () => {
+      mockedPrisma.dataExportJob.findFirst.mockResolvedValue(null);
+      const before = Date.now();
+
+      await expect(dataExportService.requestExport('user-1')).resolves.toMatchObject({
+        id: 'job-2',
+      });
+
+      const { where, data } = mockedPrisma.dataExportJob.updateMany.mock.calls[0][0];
+      expect(where).toMatchObject({ userId: 'user-1', status: { in: ['PENDING', 'PROCESSING'] } });
+      expect(where.updatedAt.lt.getTime()).toBeGreaterThanOrEqual(before - 30 * 60 * 1000);
+      expect(where.updatedAt.lt.getTime()).toBeLessThanOrEqual(Date.now() - 30 * 60 * 1000);
+      expect(data).toMatchObject({ status: 'FAILED' });
+      expect(mockedPrisma.dataExportJob.updateMany.mock.invocationCallOrder[0]).toBeLessThan(
+        mockedPrisma.dataExportJob.findFirst.mock.invocationCallOrder[0]
+      );
+    });
+  });
+});
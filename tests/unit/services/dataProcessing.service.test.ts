@@ -0,0 +1,131 @@
+import moment from 'moment';
+import prisma from '../../../src/client';
+import dataProcessingService from '../../../src/services/dataProcessing.service';
+import { LegalBasis, ProcessingRecordStatus } from '../../../src/types/dataProcessing.types';
+
+jest.mock('../../../src/client', () => ({
+  __esModule: true,
+  default: {
+    $transaction: jest.fn(),
+    dataProcessingRecord: {
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      count: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  },
+}));
+
+const mockedPrisma = prisma as any;
+
+const consent = {
+  id: 'record-1',
+  userId: 'user-1',
+  purpose: 'marketing_emails',
+  legalBasis: LegalBasis.CONSENT,
+  status: ProcessingRecordStatus.ACTIVE,
+};
+
+describe('Data processing service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedPrisma.$transaction.mockImplementation((operations: any[]) => Promise.all(operations));
+    mockedPrisma.dataProcessingRecord.findFirst.mockResolvedValue(consent);
+  });
+
+  describe('recordProcessing', () => {
+    test('should supersede the active record for the same purpose', async () => {
+      const req = { ip: '203.0.113.7', get: jest.fn().mockReturnValue('test-agent') } as any;
+
+      await dataProcessingService.recordProcessing(
+        'user-1',
+        {
+          purpose: 'marketing_emails',
+          legalBasis: LegalBasis.CONSENT,
+          dataTypes: ['email'],
+          retention: '2 years',
+          expiresAt: moment().add(2, 'years').toDate(),
+        },
+        req
+      );
+
+      expect(mockedPrisma.dataProcessingRecord.updateMany).toHaveBeenCalledWith({
+        where: {
+          userId: 'user-1',
+          purpose: 'marketing_emails',
+          status: ProcessingRecordStatus.ACTIVE,
+        },
+        data: { status: ProcessingRecordStatus.SUPERSEDED },
+      });
+      expect(mockedPrisma.dataProcessingRecord.create.mock.calls[0][0].data).toMatchObject({
+        userId: 'user-1',
+        ipAddress: '203.0.113.7',
+        userAgent: 'test-agent',
+      });
+    });
+
+    test('should refuse a record that has already expired', async () => {
+      await expect(
+        dataProcessingService.recordProcessing('user-1', {
+          purpose: 'marketing_emails',
+          legalBasis: LegalBasis.CONSENT,
+          dataTypes: ['email'],
+          retention: '2 years',
+          expiresAt: new Date(Date.now() - 1000),
+        })
+      ).rejects.toMatchObject({ statusCode: 400 });
+      expect(mockedPrisma.$transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('withdrawConsent', () => {
+    test('should withdraw an active consent of the user', async () => {
+      await dataProcessingService.withdrawConsent('user-1', 'record-1');
+
+      expect(mockedPrisma.dataProcessingRecord.findFirst).toHaveBeenCalledWith({
+        where: { id: 'record-1', userId: 'user-1' },
+      });
+      expect(mockedPrisma.dataProcessingRecord.update).toHaveBeenCalledWith({
+        where: { id: 'record-1' },
+        data: { status: ProcessingRecordStatus.WITHDRAWN, withdrawnAt: expect.any(Date) },
+      });
+    });
+
+    test('should refuse processing on another legal basis', async () => {
+      mockedPrisma.dataProcessingRecord.findFirst.mockResolvedValue({
+        ...consent,
+        legalBasis: LegalBasis.LEGAL_OBLIGATION,
+      });
+
+      await expect(
+        dataProcessingService.withdrawConsent('user-1', 'record-1')
+      ).rejects.toMatchObject({ statusCode: 400 });
+      expect(mockedPrisma.dataProcessingRecord.update).not.toHaveBeenCalled();
+    });
+
+    test('should refuse a consent that is no longer active', async () => {
+      mockedPrisma.dataProcessingRecord.findFirst.mockResolvedValue({
+        ...consent,
+        status: ProcessingRecordStatus.WITHDRAWN,
+      });
+
+      await expect(
+        dataProcessingService.withdrawConsent('user-1', 'record-1')
+      ).rejects.toMatchObject({ statusCode: 409 });
+    });
+  });
+
+  describe('expireRecords', () => {
+    test('should expire active records past their expiry', async () => {
+      mockedPrisma.dataProcessingRecord.updateMany.mockResolvedValue({ count: 2 });
+
+      await expect(dataProcessingService.expireRecords()).resolves.toBe(2);
+      expect(mockedPrisma.dataProcessingRecord.updateMany).toHaveBeenCalledWith({
+        where: { status: ProcessingRecordStatus.ACTIVE, expiresAt: { lte: expect.any(Date) } },
+        data: { status: ProcessingRecordStatus.EXPIRED },
+      });
+    });
+  });
+});
@@ -0,0 +1,203 @@
+import crypto from 'crypto';
+import { Role, TokenType } from '@prisma/client';
+import prisma from '../../../src/client';
+import config from '../../../src/config/config';
+import AuditLogService from '../../../src/services/auditLog.service';
+import impersonationService from '../../../src/services/impersonation.service';
+import notificationService from '../../../src/services/notification.service';
+import RbacService from '../../../src/services/rbac.service';
+import tokenRevocationService from '../../../src/services/tokenRevocation.service';
+import tokenService from '../../../src/services/token.service';
+
+jest.mock('../../../src/client', () => ({
+  __esModule: true,
+  default: {
+    user: { findUnique: jest.fn() },
+    userSession: { create: jest.fn(), updateMany: jest.fn() },
+  },
+}));
+jest.mock('../../../src/services/auditLog.service');
+jest.mock('../../../src/services/notification.service');
+jest.mock('../../../src/services/rbac.service');
+jest.mock('../../../src/services/security.service');
+jest.mock('../../../src/services/token.service');
+jest.mock('../../../src/services/tokenRevocation.service');
+
+const mockedPrisma = prisma as any;
+const mockAuditLogService = AuditLogService.prototype as jest.Mocked<AuditLogService>;
+const mockNotificationService = notificationService as jest.Mocked<typeof notificationService>;
+const mockRbacService = RbacService.prototype as jest.Mocked<RbacService>;
+const mockTokenRevocationService = tokenRevocationService as jest.Mocked<
+  typeof tokenRevocationService
+>;
+const mockTokenService = tokenService as jest.Mocked<typeof tokenService>;
+
+const adminRequest = (principal: Record<string, unknown> = {}) =>
+  ({
+    ip: '127.0.0.1',
+    get: jest.fn().mockReturnValue('test-agent'),
+    user: { id: 'admin-1', name: 'Support', role: Role.ADMIN },
+    principal: { type: 'user', userId: 'admin-1', ...principal },
+  }) as any;
+
+const user = {
+  id: 'user-1',
+  email: 'jane@example.com',
+  name: 'Jane',
+  role: Role.USER,
+  isActive: true,
+  isLocked: false,
+  erasedAt: null,
+};
+
+const options = { reason: 'Ticket 42', notifyUser: true };
+
+describe('Impersonation service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedPrisma.user.findUnique.mockResolvedValue(user);
+    mockedPrisma.userSession.create.mockImplementation(async ({ data }: any) => data);
+    mockTokenService.generateAccessToken.mockResolvedValue('impersonation-token');
+    mockNotificationService.sendSecurityUpdate.mockResolvedValue(undefined as any);
+    mockRbacService.getUserPermissions.mockResolvedValue([]);
+  });
+
+  // RBAC permissions granted to a user through role assignments
+  const withPermissions = (permissions: Record<string, string[]>) =>
+    mockRbacService.getUserPermissions.mockImplementation(async userId =>
+      (permissions[userId] ?? []).map(name => ({ name }) as any)
+    );
+
+  describe('startImpersonation', () => {
+    test('should issue a short-lived token naming the admin', async () => {
+      const result = await impersonationService.startImpersonation(
+        'user-1',
+        options,
+        adminRequest()
+      );
+
+      expect(result.access.token).toBe('impersonation-token');
+      const [userId, expires, sessionId, actorId] =
+        mockTokenService.generateAccessToken.mock.calls[0];
+      expect(userId).toBe('user-1');
+      expect(expires.diff(Date.now(), 'minutes', true)).toBeCloseTo(
+        config.jwt.impersonationExpirationMinutes,
+        1
+      );
+      expect(actorId).toBe('admin-1');
+      expect(mockedPrisma.userSession.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ userId: 'user-1', sessionId, impersonatorId: 'admin-1' }),
+      });
+      expect(mockTokenService.generateAuthTokens).not.toHaveBeenCalled();
+    });
+
+    test('should only store a hash of the token', async () => {
+      await impersonationService.startImpersonation('user-1', options, adminRequest());
+
+      const [storedToken, userId, , type] = mockTokenService.saveToken.mock.calls[0];
+      expect(storedToken).toBe(
+        crypto.createHash('sha256').update('impersonation-token').digest('hex')
+      );
+      expect(userId).toBe('user-1');
+      expect(type).toBe(TokenType.ACCESS);
+    });
+
+    test('should record the reason and notify the user', async () => {
+      await impersonationService.startImpersonation('user-1', options, adminRequest());
+
+      expect(mockAuditLogService.createLogFromRequest).toHaveBeenCalledWith(
+        expect.anything(),
+        'IMPERSONATION_START',
+        'user',
+        'user-1',
+        undefined,
+        expect.objectContaining({ reason: 'Ticket 42' }),
+        'WARNING',
+        'SECURITY'
+      );
+      expect(mockNotificationService.sendSecurityUpdate).toHaveBeenCalledWith(
+        'user-1',
+        'Support accessed your account',
+        expect.any(String)
+      );
+    });
+
+    test('should not start from an impersonation session', async () => {
+      await expect(
+        impersonationService.startImpersonation(
+          'user-2',
+          options,
+          adminRequest({ userId: 'user-1', impersonatorId: 'admin-1' })
+        )
+      ).rejects.toMatchObject({ statusCode: 403 });
+      expect(mockTokenService.generateAccessToken).not.toHaveBeenCalled();
+    });
+
+    test('should not start with an API key', async () => {
+      await expect(
+        impersonationService.startImpersonation('user-1', options, adminRequest({ type: 'apiKey' }))
+      ).rejects.toMatchObject({ statusCode: 403 });
+    });
+
+    test('should refuse to impersonate an administrator', async () => {
+      mockedPrisma.user.findUnique.mockResolvedValue({ ...user, role: Role.ADMIN });
+
+      await expect(
+        impersonationService.startImpersonation('user-1', options, adminRequest())
+      ).rejects.toThrow('Users who can manage users cannot be impersonated');
+      expect(mockTokenService.generateAccessToken).not.toHaveBeenCalled();
+    });
+
+    test('should refuse a user managing users through an RBAC role', async () => {
+      withPermissions({ 'user-1': ['USER_UPDATE'], 'admin-1': ['USER_UPDATE'] });
+
+      await expect(
+        impersonationService.startImpersonation('user-1', options, adminRequest())
+      ).rejects.toThrow('Users who can manage users cannot be impersonated');
+    });
+
+    test('should refuse a user holding a permission the admin lacks', async () => {
+      withPermissions({ 'user-1': ['AUDIT_EXPORT'] });
+
+      await expect(
+        impersonationService.startImpersonation('user-1', options, adminRequest())
+      ).rejects.toMatchObject({ statusCode: 403 });
+      expect(mockTokenService.generateAccessToken).not.toHaveBeenCalled();
+    });
+
+    test('should refuse to impersonate an erased user', async () => {
+      mockedPrisma.user.findUnique.mockResolvedValue({ ...user, erasedAt: new Date() });
+
+      await expect(
+        impersonationService.startImpersonation('user-1', options, adminRequest())
+      ).rejects.toMatchObject({ statusCode: 404 });
+    });
+  });
+
+  describe('endImpersonation', () => {
+    test('should end the session and revoke its access token', async () => {
+      await impersonationService.endImpersonation(
+        'user-1',
+        adminRequest({ userId: 'user-1', impersonatorId: 'admin-1', sessionId: 'session-1' })
+      );
+
+      expect(mockedPrisma.userSession.updateMany).toHaveBeenCalledWith({
+        where: { sessionId: 'session-1', impersonatorId: 'admin-1' },
+        data: { isActive: false, lastActivity: expect.any(Date) },
+      });
+      expect(mockTokenRevocationService.revokeSessionAccessTokens).toHaveBeenCalledWith(
+        'session-1'
+      );
+    });
+
+    test('should refuse a regular session', async () => {
+      await expect(
+        impersonationService.endImpersonation(
+          'user-1',
+          adminRequest({ userId: 'user-1', sessionId: 'session-1' })
+        )
+      ).rejects.toMatchObject({ statusCode: 400 });
+      expect(mockedPrisma.userSession.updateMany).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import { NotificationType } from '@prisma/client';
+import prisma from '../../../src/client';
+import notificationDeliveryService from '../../../src/services/notificationDelivery.service';
+
+jest.mock('../../../src/client', () => ({
+  __esModule: true,
+  default: {
+    notification: { findMany: jest.fn(), updateMany: jest.fn() },
+    notificationDelivery: { createMany: jest.fn(), updateMany: jest.fn() },
+  },
+}));
+
+const mockedPrisma = prisma as any;
+
+describe('Notification delivery service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('recordSent', () => {
+    test('should record each delivery once', async () => {
+      const deliveries = [{ notificationId: 'notification-1', connectionId: 'connection-1' }];
+
+      await notificationDeliveryService.recordSent(deliveries);
+
+      expect(mockedPrisma.notificationDelivery.createMany).toHaveBeenCalledWith({
+        data: deliveries,
+        skipDuplicates: true,
+      });
+    });
+
+    test('should not write anything without deliveries', async () => {
+      await notificationDeliveryService.recordSent([]);
+
+      expect(mockedPrisma.notificationDelivery.createMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('acknowledge', () => {
+    test('should only acknowledge notifications of the user', async () => {
+      mockedPrisma.notification.findMany.mockResolvedValue([{ id: 'notification-1' }]);
+
+      const acknowledged = await notificationDeliveryService.acknowledge(
+        'user-1',
+        ['notification-1', 'notification-of-another-user'],
+        'connection-1'
+      );
+
+      expect(acknowledged).toEqual(['notification-1']);
+      expect(mockedPrisma.notification.findMany.mock.calls[0][0].where).toEqual({
+        id: { in: ['notification-1', 'notification-of-another-user'] },
+        userId: 'user-1',
+      });
+      expect(mockedPrisma.notificationDelivery.updateMany).toHaveBeenCalledWith({
+        where: {
+          notificationId: { in: ['notification-1'] },
+          connectionId: 'connection-1',
+          acknowledgedAt: null,
+        },
+        data: { acknowledgedAt: expect.any(Date) },
+      });
+      expect(mockedPrisma.notification.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['notification-1'] }, deliveredAt: null },
+        data: { deliveredAt: expect.any(Date) },
+      });
+    });
+
+    test('should ignore notifications of other users', async () => {
+      mockedPrisma.notification.findMany.mockResolvedValue([]);
+
+      await expect(
+        notificationDeliveryService.acknowledge('user-1', ['notification-2'], 'connection-1')
+      ).resolves.toEqual([]);
+      expect(mockedPrisma.notificationDelivery.updateMany).not.toHaveBeenCalled();
+      expect(mockedPrisma.notification.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getUndelivered', () => {
+    test('should replay unacknowledged notifications not yet sent to the connection', async () => {
+      mockedPrisma.notification.findMany.mockResolvedValue([
+        { id: 'notification-2' },
+        { id: 'notification-1' },
+      ]);
+
+      const notifications = await notificationDeliveryService.getUndelivered(
+        'user-1',
+        'connection-1',
+        [NotificationType.SECURITY_ALERT]
+      );
+
+      expect(notifications.map(notification => notification.id)).toEqual([
+        'notification-1',
+        'notification-2',
+      ]);
+      expect(mockedPrisma.notification.findMany.mock.calls[0][0].where).toEqual({
+        userId: 'user-1',
+        isRead: false,
+        deliveredAt: null,
+        deliveries: { none: { connectionId: 'connection-1' } },
+        type: { in: [NotificationType.SECURITY_ALERT] },
+      });
+    });
+
+    test('should replay every type to connections without subscriptions', async () => {
+      mockedPrisma.notification.findMany.mockResolvedValue([]);
+
+      await notificationDeliveryService.getUndelivered('user-1', 'connection-1');
+
+      expect(mockedPrisma.notification.findMany.mock.calls[0][0].where).not.toHaveProperty('type');
+    });
+  });
+});
@@ -0,0 +1,229 @@
+import prisma from '../../../src/client';
+import notificationPreferenceService from '../../../src/services/notificationPreference.service';
+
+jest.mock('../../../src/config/config', () => ({
+  __esModule: true,
+  default: { notifications: { webhookEncryptionSecret: 'test-secret' } },
+}));
+
+jest.mock('../../../src/client', () => ({
+  __esModule: true,
+  default: {
+    notificationPreference: { findUnique: jest.fn() },
+    notificationTypePreference: { findMany: jest.fn() },
+  },
+}));
+
+const mockedPrisma = prisma as any;
+
+const storedPreference = {
+  pushEnabled: true,
+  emailEnabled: true,
+  webhookUrl: null,
+  quietHoursEnabled: true,
+  quietHoursStart: '22:00',
+  quietHoursEnd: '07:00',
+  timezone: 'America/New_York',
+  digestFrequency: 'DAILY',
+  digestHour: 8,
+};
+
+describe('Notification preference service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getPreferences', () => {
+    test('should return the defaults for a user without stored preferences', async () => {
+      mockedPrisma.notificationPreference.findUnique.mockResolvedValue(null);
+      mockedPrisma.notificationTypePreference.findMany.mockResolvedValue([]);
+
+      const preferences = await notificationPreferenceService.getPreferences('user-1');
+
+      expect(preferences.push.enabled).toBe(true);
+      expect(preferences.quietHours.enabled).toBe(false);
+      expect(preferences.timezone).toBe('UTC');
+      expect(preferences.types).toEqual({});
+    });
+
+    test('should only keep the channels a type overrides', async () => {
+      mockedPrisma.notificationPreference.findUnique.mockResolvedValue(storedPreference);
+      mockedPrisma.notificationTypePreference.findMany.mockResolvedValue([
+        {
+          type: 'LOGIN_ALERT',
+          inApp: null,
+          push: null,
+          email: false,
+          webhook: null,
+          emailMode: 'DIGEST',
+        },
+      ]);
+
+      const preferences = await notificationPreferenceService.getPreferences('user-1');
+
+      expect(preferences.types).toEqual({ LOGIN_ALERT: { email: false, emailMode: 'DIGEST' } });
+    });
+  });
+
+  describe('fromLegacySettings', () => {
+    test('should map the legacy switches onto the channels of their types', () => {
+      expect(
+        notificationPreferenceService.fromLegacySettings({
+          emailNotifications: { loginAlerts: false, deviceLogins: true, passwordChanges: false },
+          pushNotifications: { securityUpdates: false },
+        })
+      ).toEqual({
+        types: {
+          LOGIN_ALERT: { email: true },
+          PASSWORD_CHANGE: { email: false },
+          SECURITY_ALERT: { push: false },
+        },
+      });
+    });
+
+    test('should let the typed update take precedence', () => {
+      expect(
+        notificationPreferenceService.fromLegacySettings(
+          { pushNotifications: { loginAlerts: true } },
+          { timezone: 'UTC', types: { LOGIN_ALERT: { push: false, emailMode: 'DIGEST' } } }
+        )
+      ).toEqual({
+        timezone: 'UTC',
+        types: { LOGIN_ALERT: { push: false, emailMode: 'DIGEST' } },
+      });
+    });
+
+    test('should return the typed update when no legacy switch is set', () => {
+      expect(notificationPreferenceService.fromLegacySettings({})).toBeUndefined();
+      expect(
+        notificationPreferenceService.fromLegacySettings({}, { push: { enabled: false } })
+      ).toEqual({ push: { enabled: false } });
+    });
+  });
+
+  describe('resolveRoutes', () => {
+    const preferences = {
+      push: { enabled: true },
+      email: { enabled: true },
+      webhook: { url: null },
+      quietHours: { enabled: false, start: '22:00', end: '08:00' },
+      timezone: 'UTC',
+      digest: { frequency: 'DAILY' as const, hour: 8, day: 1 },
+      types: {},
+    };
+
+    test('should email security types and not other types by default', () => {
+      expect(notificationPreferenceService.resolveRoutes(preferences, 'SECURITY_ALERT')).toEqual({
+        inApp: true,
+        push: true,
+        email: true,
+        webhook: false,
+        emailMode: 'INSTANT',
+      });
+      expect(notificationPreferenceService.resolveRoutes(preferences, 'SYSTEM_UPDATE').email).toBe(
+        false
+      );
+    });
+
+    test('should apply type overrides within the enabled channels', () => {
+      const routes = notificationPreferenceService.resolveRoutes(
+        {
+          ...preferences,
+          push: { enabled: false },
+          webhook: { url: 'https://example.com/hook' },
+          types: { SYSTEM_UPDATE: { push: true, email: true, emailMode: 'DIGEST' } },
+        },
+        'SYSTEM_UPDATE'
+      );
+
+      expect(routes).toEqual({
+        inApp: true,
+        push: false,
+        email: true,
+        webhook: true,
+        emailMode: 'DIGEST',
+      });
+    });
+  });
+
+  describe('isInQuietHours', () => {
+    const preferences = {
+      push: { enabled: true },
+      email: { enabled: true },
+      webhook: { url: null },
+      quietHours: { enabled: true, start: '22:00', end: '07:00' },
+      timezone: 'America/New_York',
+      digest: { frequency: 'DAILY' as const, hour: 8, day: 1 },
+      types: {},
+    };
+
+    test('should read overnight quiet hours in the user time zone', () => {
+      // 03:30 UTC is 23:30 in New York
+      expect(
+        notificationPreferenceService.isInQuietHours(preferences, new Date('2026-06-01T03:30:00Z'))
+      ).toBe(true);
+      // 12:00 UTC is 08:00 in New York
+      expect(
+        notificationPreferenceService.isInQuietHours(preferences, new Date('2026-06-01T12:00:00Z'))
+      ).toBe(false);
+    });
+
+    test('should end quiet hours at the end time', () => {
+      // 11:00 UTC is 07:00 in New York
+      expect(
+        notificationPreferenceService.isInQuietHours(preferences, new Date('2026-06-01T11:00:00Z'))
+      ).toBe(false);
+    });
+
+    test('should never be in quiet hours when they are disabled', () => {
+      expect(
+        notificationPreferenceService.isInQuietHours(
+          { ...preferences, quietHours: { ...preferences.quietHours, enabled: false } },
+          new Date('2026-06-01T03:30:00Z')
+        )
+      ).toBe(false);
+    });
+  });
+
+  describe('getLastDigestTime', () => {
+    const preferences = {
+      push: { enabled: true },
+      email: { enabled: true },
+      webhook: { url: null },
+      quietHours: { enabled: false, start: '22:00', end: '07:00' },
+      timezone: 'America/New_York',
+      digest: { frequency: 'DAILY' as const, hour: 8, day: 1 },
+      types: {},
+    };
+
+    test('should return the digest hour of today once it has passed', () => {
+      // 14:30 UTC on Wednesday is 10:30 in New York; 08:00 there is 12:00 UTC
+      expect(
+        notificationPreferenceService.getLastDigestTime(
+          preferences,
+          new Date('2026-06-03T14:30:00Z')
+        )
+      ).toEqual(new Date('2026-06-03T12:00:00Z'));
+    });
+
+    test('should return the digest hour of yesterday before it is reached', () => {
+      // 11:00 UTC is 07:00 in New York
+      expect(
+        notificationPreferenceService.getLastDigestTime(
+          preferences,
+          new Date('2026-06-03T11:00:00Z')
+        )
+      ).toEqual(new Date('2026-06-02T12:00:00Z'));
+    });
+
+    test('should return the digest weekday of weekly digests', () => {
+      // Wednesday 10:30 in New York; the last Monday 08:00 there is June 1st 12:00 UTC
+      expect(
+        notificationPreferenceService.getLastDigestTime(
+          { ...preferences, digest: { frequency: 'WEEKLY', hour: 8, day: 1 } },
+          new Date('2026-06-03T14:30:00Z')
+        )
+      ).toEqual(new Date('2026-06-01T12:00:00Z'));
+    });
+  });
+});
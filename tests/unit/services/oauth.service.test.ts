@@ -0,0 +1,264 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import prisma from '../../../src/client';
+import oauthClientService from '../../../src/services/oauthClient.service';
+import oauthService from '../../../src/services/oauth.service';
+import signingKeyService from '../../../src/services/signingKey.service';
+import { OAuthGrantType } from '../../../src/types/oauth.types';
+
+jest.mock('../../../src/client', () => ({
+  __esModule: true,
+  default: {
+    user: { findUnique: jest.fn() },
+    oAuthAuthorizationCode: { findUnique: jest.fn(), updateMany: jest.fn() },
+    oAuthToken: { findUnique: jest.fn(), create: jest.fn(), updateMany: jest.fn() },
+    dataProcessingRecord: { findFirst: jest.fn() },
+  },
+}));
+jest.mock('../../../src/services/oauthClient.service');
+jest.mock('../../../src/services/signingKey.service');
+jest.mock('../../../src/services/dataProcessing.service');
+jest.mock('../../../src/services/security.service');
+
+const mockedPrisma = prisma as any;
+const mockOAuthClientService = oauthClientService as jest.Mocked<typeof oauthClientService>;
+const mockSigningKeyService = signingKeyService as jest.Mocked<typeof signingKeyService>;
+
+const { privateKey } = crypto.generateKeyPairSync('ec', {
+  namedCurve: 'P-256',
+  privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+  publicKeyEncoding: { type: 'spki', format: 'pem' },
+});
+
+const client = {
+  id: 'client-row',
+  clientId: 'client-1',
+  name: 'Client',
+  isActive: true,
+  clientSecretHash: 'secret-hash',
+  redirectUris: ['https://client.example.com/callback'],
+  grantTypes: Object.values(OAuthGrantType),
+  scopes: ['openid', 'email', 'offline_access', 'reports:read'],
+};
+
+const user = {
+  id: 'user-1',
+  email: 'jane@example.com',
+  name: 'Jane',
+  profilePicture: null,
+  isEmailVerified: true,
+  isActive: true,
+  isLocked: false,
+  erasedAt: null,
+  lastLoginAt: null,
+  updatedAt: new Date(),
+};
+
+const codeVerifier = 'a-long-random-code-verifier-of-the-client-app';
+const authorizationCode = {
+  id: 'grant-1',
+  clientId: client.id,
+  userId: user.id,
+  redirectUri: 'https://client.example.com/callback',
+  codeChallenge: crypto.createHash('sha256').update(codeVerifier).digest('base64url'),
+  scopes: ['openid', 'email', 'offline_access'],
+  nonce: 'nonce-1',
+  usedAt: null,
+  expiresAt: new Date(Date.now() + 60 * 1000),
+};
+
+const tokenRequest = (body: Record<string, string>) => ({ body }) as any;
+
+describe('OAuth service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockOAuthClientService.getClientByClientId.mockResolvedValue(client as any);
+    mockOAuthClientService.authenticateClient.mockResolvedValue(client as any);
+    mockSigningKeyService.getSigningKey.mockResolvedValue({
+      kid: 'key-1',
+      algorithm: 'ES256',
+      privateKey,
+    } as any);
+    mockedPrisma.user.findUnique.mockResolvedValue(user);
+    mockedPrisma.oAuthAuthorizationCode.findUnique.mockResolvedValue(authorizationCode);
+    mockedPrisma.oAuthAuthorizationCode.updateMany.mockResolvedValue({ count: 1 });
+    mockedPrisma.oAuthToken.create.mockResolvedValue({ id: 'token-row' });
+    mockedPrisma.oAuthToken.updateMany.mockResolvedValue({ count: 1 });
+    mockedPrisma.dataProcessingRecord.findFirst.mockResolvedValue({ dataTypes: [] });
+  });
+
+  describe('validateAuthorizationRequest', () => {
+    const authorizationRequest = {
+      response_type: 'code',
+      client_id: 'client-1',
+      redirect_uri: 'https://client.example.com/callback',
+      scope: 'openid email',
+      state: 'state-1',
+      code_challenge: authorizationCode.codeChallenge,
+      code_challenge_method: 'S256',
+    };
+
+    test('should not redirect to an unregistered URI', async () => {
+      const error = await oauthService
+        .validateAuthorizationRequest({
+          ...authorizationRequest,
+          redirect_uri: 'https://attacker.example.com/callback',
+        })
+        .catch(e => e);
+
+      expect(error.error).toBe('invalid_request');
+      expect(error.toRedirectUrl()).toBeUndefined();
+    });
+
+    test('should require a S256 PKCE challenge', async () => {
+      const error = await oauthService
+        .validateAuthorizationRequest({ ...authorizationRequest, code_challenge_method: 'plain' })
+        .catch(e => e);
+
+      const redirect = new URL(error.toRedirectUrl());
+      expect(redirect.origin).toBe('https://client.example.com');
+      expect(redirect.searchParams.get('error')).toBe('invalid_request');
+      expect(redirect.searchParams.get('state')).toBe('state-1');
+    });
+
+    test('should refuse scopes the client was not registered for', async () => {
+      await expect(
+        oauthService.validateAuthorizationRequest({ ...authorizationRequest, scope: 'admin' })
+      ).rejects.toMatchObject({ error: 'invalid_scope' });
+    });
+  });
+
+  describe('authorization code grant', () => {
+    const exchange = (overrides: Record<string, string> = {}) =>
+      oauthService.exchangeToken(
+        tokenRequest({
+          grant_type: 'authorization_code',
+          code: 'code-1',
+          code_verifier: codeVerifier,
+          redirect_uri: 'https://client.example.com/callback',
+          ...overrides,
+        })
+      );
+
+    test('should issue access, refresh and ID tokens', async () => {
+      const response = await exchange();
+
+      expect(response.refresh_token).toEqual(expect.any(String));
+      expect(jwt.decode(response.id_token!)).toMatchObject({
+        sub: user.id,
+        aud: client.clientId,
+        nonce: 'nonce-1',
+        email: user.email,
+      });
+    });
+
+    test('should refuse a wrong code verifier', async () => {
+      await expect(exchange({ code_verifier: 'another-verifier' })).rejects.toMatchObject({
+        error: 'invalid_grant',
+        message: 'PKCE verification failed',
+      });
+      expect(mockedPrisma.oAuthToken.create).not.toHaveBeenCalled();
+    });
+
+    test('should revoke the grant when a code is used twice', async () => {
+      mockedPrisma.oAuthAuthorizationCode.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(exchange()).rejects.toMatchObject({ error: 'invalid_grant' });
+      expect(mockedPrisma.oAuthToken.updateMany).toHaveBeenCalledWith({
+        where: { grantId: 'grant-1', revokedAt: null },
+        data: { revokedAt: expect.any(Date) },
+      });
+    });
+
+    test('should refuse a code issued to another client', async () => {
+      mockedPrisma.oAuthAuthorizationCode.findUnique.mockResolvedValue({
+        ...authorizationCode,
+        clientId: 'other-client-row',
+      });
+
+      await expect(exchange()).rejects.toMatchObject({ error: 'invalid_grant' });
+      expect(mockedPrisma.oAuthAuthorizationCode.updateMany).not.toHaveBeenCalled();
+    });
+
+    test('should refuse a user locked since the authorization', async () => {
+      mockedPrisma.user.findUnique.mockResolvedValue({ ...user, isLocked: true });
+
+      await expect(exchange()).rejects.toMatchObject({
+        error: 'invalid_grant',
+        message: 'The user is no longer active',
+      });
+    });
+  });
+
+  describe('refresh token grant', () => {
+    const refreshToken = {
+      id: 'refresh-row',
+      type: 'REFRESH',
+      grantId: 'grant-1',
+      clientId: client.id,
+      userId: user.id,
+      scopes: ['openid', 'offline_access'],
+      expiresAt: new Date(Date.now() + 60 * 1000),
+    };
+
+    beforeEach(() => {
+      mockedPrisma.oAuthToken.findUnique.mockResolvedValue(refreshToken);
+    });
+
+    const refresh = (scope?: string) =>
+      oauthService.exchangeToken(
+        tokenRequest({
+          grant_type: 'refresh_token',
+          refresh_token: 'refresh-token',
+          ...(scope && { scope }),
+        })
+      );
+
+    test('should revoke the grant when a rotated token is reused', async () => {
+      mockedPrisma.oAuthToken.updateMany.mockResolvedValueOnce({ count: 0 });
+
+      await expect(refresh()).rejects.toMatchObject({ error: 'invalid_grant' });
+      expect(mockedPrisma.oAuthToken.updateMany).toHaveBeenLastCalledWith({
+        where: { grantId: 'grant-1', revokedAt: null },
+        data: { revokedAt: expect.any(Date) },
+      });
+      expect(mockedPrisma.oAuthToken.create).not.toHaveBeenCalled();
+    });
+
+    test('should stop refreshing once consent is withdrawn', async () => {
+      mockedPrisma.dataProcessingRecord.findFirst.mockResolvedValue(null);
+
+      await expect(refresh()).rejects.toMatchObject({
+        message: 'Consent has been withdrawn or has expired',
+      });
+      expect(mockedPrisma.oAuthToken.create).not.toHaveBeenCalled();
+    });
+
+    test('should refuse scopes beyond the original grant', async () => {
+      await expect(refresh('openid email')).rejects.toMatchObject({ error: 'invalid_scope' });
+    });
+  });
+
+  describe('client credentials grant', () => {
+    test('should refuse public clients', async () => {
+      mockOAuthClientService.authenticateClient.mockResolvedValue({
+        ...client,
+        clientSecretHash: null,
+      } as any);
+
+      await expect(
+        oauthService.exchangeToken(tokenRequest({ grant_type: 'client_credentials' }))
+      ).rejects.toMatchObject({ error: 'unauthorized_client' });
+    });
+
+    test('should only grant scopes that do not describe a user', async () => {
+      const response = await oauthService.exchangeToken(
+        tokenRequest({ grant_type: 'client_credentials' })
+      );
+
+      expect(response.scope).toBe('reports:read');
+      expect(response.id_token).toBeUndefined();
+      expect(response.refresh_token).toBeUndefined();
+    });
+  });
+});
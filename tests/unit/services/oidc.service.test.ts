@@ -0,0 +1,184 @@
+import crypto from 'crypto';
+import http from 'http';
+import { AddressInfo } from 'net';
+import jwt from 'jsonwebtoken';
+import config from '../../../src/config/config';
+import oidcService from '../../../src/services/oidc.service';
+
+jest.mock('../../../src/config/config', () => ({
+  __esModule: true,
+  default: {
+    env: 'test',
+    apiUrl: 'http://api.test',
+    jwt: { secret: 'test-secret' },
+    oidc: {
+      providers: [
+        {
+          name: 'mock',
+          displayName: 'Mock IdP',
+          issuer: '',
+          clientId: 'api-client',
+          clientSecret: 'api-secret',
+          scopes: 'openid email profile',
+        },
+      ],
+      loginRedirectUrl: 'http://client.test/auth/social/callback',
+    },
+  },
+}));
+
+/**
+ * Minimal OpenID Connect issuer: discovery, JWKS and a token endpoint that checks PKCE and the
+ * client secret before issuing an ID token with the claims set by each test
+ */
+describe('OIDC Service', () => {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const kid = 'mock-key';
+  let server: http.Server;
+  let issuer: string;
+  let pendingAuthorization: { codeChallenge: string; nonce: string } | null;
+  let idTokenClaims: Record<string, unknown>;
+
+  const provider = config.oidc.providers[0];
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      const send = (status: number, body: unknown) => {
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(body));
+      };
+
+      if (req.url === '/.well-known/openid-configuration') {
+        return send(200, {
+          issuer,
+          authorization_endpoint: `${issuer}/authorize`,
+          token_endpoint: `${issuer}/token`,
+          jwks_uri: `${issuer}/jwks`,
+          id_token_signing_alg_values_supported: ['RS256'],
+        });
+      }
+      if (req.url === '/jwks') {
+        return send(200, { keys: [{ ...publicKey.export({ format: 'jwk' }), kid, use: 'sig' }] });
+      }
+      if (req.url === '/token' && req.method === 'POST') {
+        let raw = '';
+        req.on('data', chunk => (raw += chunk));
+        req.on('end', () => {
+          const body = new URLSearchParams(raw);
+          const expectedAuth = `Basic ${Buffer.from('api-client:api-secret').toString('base64')}`;
+          const verifier = body.get('code_verifier') || '';
+          const challenge = crypto.createHash('sha256').update(verifier).digest('base64url');
+          if (req.headers.authorization !== expectedAuth) {
+            return send(401, { error: 'invalid_client' });
+          }
+          if (
+            body.get('code') !== 'good-code' ||
+            challenge !== pendingAuthorization?.codeChallenge
+          ) {
+            return send(400, { error: 'invalid_grant' });
+          }
+
+          const idToken = jwt.sign(
+            { nonce: pendingAuthorization.nonce, ...idTokenClaims },
+            privateKey,
+            {
+              algorithm: 'RS256',
+              keyid: kid,
+              issuer,
+              audience: 'api-client',
+              subject: 'user-123',
+              expiresIn: 300,
+            }
+          );
+          send(200, { access_token: 'provider-access', token_type: 'Bearer', id_token: idToken });
+        });
+        return;
+      }
+      send(404, {});
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    provider.issuer = issuer;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    idTokenClaims = { email: 'Jane@Example.com', email_verified: true, name: 'Jane' };
+  });
+
+  const startLogin = async () => {
+    const { url, state } = await oidcService.createAuthorizationRequest('mock');
+    const params = new URL(url).searchParams;
+    pendingAuthorization = {
+      codeChallenge: params.get('code_challenge')!,
+      nonce: params.get('nonce')!,
+    };
+    return { params, state };
+  };
+
+  it('should build an authorization URL with PKCE and a nonce', async () => {
+    const { params } = await startLogin();
+
+    expect(params.get('client_id')).toBe('api-client');
+    expect(params.get('redirect_uri')).toBe('http://api.test/v1/auth/mock/callback');
+    expect(params.get('code_challenge_method')).toBe('S256');
+    expect(params.get('scope')).toBe('openid email profile');
+    expect(params.get('state')).toBeTruthy();
+  });
+
+  it('should map a verified ID token onto a social profile', async () => {
+    const { params, state } = await startLogin();
+
+    const profile = await oidcService.completeAuthorization(
+      'mock',
+      { code: 'good-code', state: params.get('state') },
+      state
+    );
+
+    expect(profile).toMatchObject({
+      provider: 'mock',
+      providerId: 'user-123',
+      email: 'jane@example.com',
+      name: 'Jane',
+      accessToken: 'provider-access',
+    });
+  });
+
+  it('should reject a callback whose state does not match the cookie', async () => {
+    const { state } = await startLogin();
+
+    await expect(
+      oidcService.completeAuthorization('mock', { code: 'good-code', state: 'forged' }, state)
+    ).rejects.toThrow('Login session expired or is invalid');
+  });
+
+  it('should reject an ID token issued for another login', async () => {
+    const { params, state } = await startLogin();
+    idTokenClaims.nonce = 'another-nonce';
+
+    await expect(
+      oidcService.completeAuthorization(
+        'mock',
+        { code: 'good-code', state: params.get('state') },
+        state
+      )
+    ).rejects.toThrow('ID token is invalid');
+  });
+
+  it('should reject an email the provider has not verified', async () => {
+    const { params, state } = await startLogin();
+    idTokenClaims.email_verified = false;
+
+    await expect(
+      oidcService.completeAuthorization(
+        'mock',
+        { code: 'good-code', state: params.get('state') },
+        state
+      )
+    ).rejects.toThrow('has not verified this email address');
+  });
+});
@@ -0,0 +1,65 @@
+import { OtpType } from '@prisma/client';
+import prisma from '../../../src/client';
+import { createTwoFactorOtp, verifyTwoFactorOtp } from '../../../src/services/otp.service';
+
+jest.mock('../../../src/client', () => ({
+  __esModule: true,
+  default: {
+    otp: { create: jest.fn(), findFirst: jest.fn(), update: jest.fn(), updateMany: jest.fn() },
+  },
+}));
+
+const mockedPrisma = prisma as any;
+
+describe('OTP service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('createTwoFactorOtp', () => {
+    test('should replace unused codes of the same channel', async () => {
+      const code = await createTwoFactorOtp('user-1', OtpType.TWO_FACTOR_SMS);
+
+      expect(code).toMatch(/^\d{6}$/);
+      expect(mockedPrisma.otp.updateMany).toHaveBeenCalledWith({
+        where: { userId: 'user-1', type: OtpType.TWO_FACTOR_SMS, consumed: false },
+        data: { consumed: true },
+      });
+      const { data } = mockedPrisma.otp.create.mock.calls[0][0];
+      expect(data).toMatchObject({ userId: 'user-1', otp: code, consumed: false });
+      expect(data.expiresAt.getTime() - Date.now()).toBeLessThanOrEqual(5 * 60 * 1000);
+    });
+  });
+
+  describe('verifyTwoFactorOtp', () => {
+    test('should consume a valid code', async () => {
+      mockedPrisma.otp.findFirst.mockResolvedValue({ id: 'otp-1' });
+
+      await expect(verifyTwoFactorOtp('user-1', OtpType.TWO_FACTOR_EMAIL, '123456')).resolves.toBe(
+        true
+      );
+      expect(mockedPrisma.otp.findFirst).toHaveBeenCalledWith({
+        where: {
+          userId: 'user-1',
+          otp: '123456',
+          type: OtpType.TWO_FACTOR_EMAIL,
+          consumed: false,
+          expiresAt: { gt: expect.any(Date) },
+        },
+      });
+      expect(mockedPrisma.otp.update).toHaveBeenCalledWith({
+        where: { id: 'otp-1' },
+        data: { consumed: true },
+      });
+    });
+
+    test('should refuse an unknown, used or expired code', async () => {
+      mockedPrisma.otp.findFirst.mockResolvedValue(null);
+
+      await expect(verifyTwoFactorOtp('user-1', OtpType.TWO_FACTOR_EMAIL, '123456')).resolves.toBe(
+        false
+      );
+      expect(mockedPrisma.otp.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,43 @@
+import prisma from '../../../src/client';
+import passwordSecurityService from '../../../src/services/passwordSecurity.service';
+import tokenService from '../../../src/services/token.service';
+
+jest.mock('../../../src/client', () => ({
+  __esModule: true,
+  default: {
+    user: { findUnique: jest.fn(), update: jest.fn() },
+    passwordHistory: { findMany: jest.fn(), count: jest.fn(), create: jest.fn() },
+  },
+}));
+jest.mock('../../../src/services/token.service');
+
+const mockedPrisma = prisma as any;
+const mockTokenService = tokenService as jest.Mocked<typeof tokenService>;
+
+describe('Password security service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedPrisma.user.findUnique.mockResolvedValue({ passwordHistory: [] });
+    mockedPrisma.passwordHistory.findMany.mockResolvedValue([]);
+    mockedPrisma.passwordHistory.count.mockResolvedValue(0);
+  });
+
+  describe('updatePassword', () => {
+    test('should revoke every token of the user', async () => {
+      await passwordSecurityService.updatePassword('user-1', 'N3w-Passw0rd!');
+
+      expect(mockedPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-1' },
+        data: { password: expect.any(String), passwordChangedAt: expect.any(Date) },
+      });
+      expect(mockTokenService.revokeAllUserTokens).toHaveBeenCalledWith('user-1');
+    });
+
+    test('should keep the tokens of a refused password', async () => {
+      await expect(passwordSecurityService.updatePassword('user-1', 'weak')).rejects.toMatchObject({
+        statusCode: 400,
+      });
+      expect(mockTokenService.revokeAllUserTokens).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,183 @@
+import { SAML, ValidateInResponseTo } from '@node-saml/node-saml';
+import prisma from '../../../src/client';
+import cacheService from '../../../src/services/cache.service';
+import RbacService from '../../../src/services/rbac.service';
+import samlConnectionService from '../../../src/services/samlConnection.service';
+import samlService from '../../../src/services/saml.service';
+
+const mockValidatePostResponse = jest.fn();
+
+jest.mock('@node-saml/node-saml', () => ({
+  SAML: jest.fn().mockImplementation(() => ({
+    validatePostResponseAsync: mockValidatePostResponse,
+  })),
+  ValidateInResponseTo: { always: 'always', ifPresent: 'ifPresent' },
+}));
+jest.mock('../../../src/client', () => ({
+  __esModule: true,
+  default: {
+    user: { findUnique: jest.fn(), create: jest.fn(), update: jest.fn() },
+    socialAccount: { findUnique: jest.fn(), create: jest.fn() },
+    roleModel: { findMany: jest.fn() },
+    userRole: { findMany: jest.fn() },
+  },
+}));
+jest.mock('../../../src/services/cache.service', () => ({
+  __esModule: true,
+  default: { setnx: jest.fn() },
+  CacheKeys: {
+    SAML_ASSERTION: (connectionId: string, assertionId: string) =>
+      `saml-assertion:${connectionId}:${assertionId}`,
+  },
+  CacheTTL: { LONG: 900, HOUR: 3600 },
+}));
+jest.mock('../../../src/services/rbac.service');
+jest.mock('../../../src/services/samlConnection.service', () => ({
+  ...jest.requireActual('../../../src/services/samlConnection.service'),
+  __esModule: true,
+  default: { getActiveConnection: jest.fn() },
+}));
+
+const mockedPrisma = prisma as any;
+const mockCacheService = cacheService as jest.Mocked<typeof cacheService>;
+const mockRbacService = RbacService.prototype as jest.Mocked<RbacService>;
+const mockSamlConnectionService = samlConnectionService as jest.Mocked<
+  typeof samlConnectionService
+>;
+
+const connection = {
+  id: 'connection-1',
+  slug: 'acme',
+  idpSsoUrl: 'https://idp.example.com/sso',
+  idpEntityId: 'https://idp.example.com',
+  idpCertificates: ['certificate'],
+  emailDomains: ['acme.com'],
+  allowIdpInitiated: false,
+  jitProvisioning: true,
+  attributeMapping: { email: 'email', groups: 'groups' },
+  roleMapping: { Admins: ['admin'], Staff: ['staff'] },
+};
+
+const assertionProfile = (attributes: Record<string, unknown> = {}) => ({
+  issuer: 'https://idp.example.com',
+  nameID: 'idp-user-1',
+  nameIDFormat: 'urn:oasis:names:tc:SAML:1.1:nameid-format:unspecified',
+  email: 'jane@acme.com',
+  groups: ['Staff'],
+  getAssertion: () => ({ Assertion: { $: { ID: 'assertion-1' } } }),
+  getAssertionXml: () => '',
+  getSamlResponseXml: () => '',
+  ...attributes,
+});
+
+const postedResponse = { SAMLResponse: 'response', RelayState: '' };
+
+describe('SAML service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockSamlConnectionService.getActiveConnection.mockResolvedValue(connection as any);
+    mockValidatePostResponse.mockResolvedValue({ profile: assertionProfile() });
+    mockCacheService.setnx.mockResolvedValue(true);
+    mockedPrisma.socialAccount.findUnique.mockResolvedValue({ userId: 'user-1' });
+    mockedPrisma.user.update.mockResolvedValue({ id: 'user-1' });
+    mockedPrisma.roleModel.findMany.mockResolvedValue([{ id: 'role-staff', name: 'staff' }]);
+    mockedPrisma.userRole.findMany.mockResolvedValue([]);
+  });
+
+  test('should only accept responses to its own requests without IdP-initiated login', async () => {
+    await samlService.completeLogin('acme', postedResponse);
+
+    expect(SAML).toHaveBeenCalledWith(
+      expect.objectContaining({
+        wantAssertionsSigned: true,
+        validateInResponseTo: ValidateInResponseTo.always,
+      })
+    );
+  });
+
+  test('should refuse a response that does not verify', async () => {
+    mockValidatePostResponse.mockRejectedValue(new Error('Invalid signature'));
+
+    await expect(samlService.completeLogin('acme', postedResponse)).rejects.toMatchObject({
+      statusCode: 401,
+    });
+    expect(mockedPrisma.user.update).not.toHaveBeenCalled();
+  });
+
+  test('should refuse a replayed assertion', async () => {
+    mockCacheService.setnx.mockResolvedValue(false);
+
+    await expect(samlService.completeLogin('acme', postedResponse)).rejects.toMatchObject({
+      statusCode: 401,
+    });
+    expect(mockCacheService.setnx).toHaveBeenCalledWith(
+      'saml-assertion:connection-1:assertion-1',
+      true,
+      expect.any(Number)
+    );
+    expect(mockedPrisma.socialAccount.findUnique).not.toHaveBeenCalled();
+  });
+
+  test('should refuse an email outside the domains of the connection', async () => {
+    mockValidatePostResponse.mockResolvedValue({
+      profile: assertionProfile({ email: 'admin@example.com' }),
+    });
+
+    await expect(samlService.completeLogin('acme', postedResponse)).rejects.toMatchObject({
+      statusCode: 403,
+    });
+    expect(mockedPrisma.socialAccount.findUnique).not.toHaveBeenCalled();
+    expect(mockedPrisma.user.findUnique).not.toHaveBeenCalled();
+  });
+
+  test('should not create accounts without just-in-time provisioning', async () => {
+    mockSamlConnectionService.getActiveConnection.mockResolvedValue({
+      ...connection,
+      jitProvisioning: false,
+    } as any);
+    mockedPrisma.socialAccount.findUnique.mockResolvedValue(null);
+    mockedPrisma.user.findUnique.mockResolvedValue(null);
+
+    await expect(samlService.completeLogin('acme', postedResponse)).rejects.toMatchObject({
+      statusCode: 403,
+    });
+    expect(mockedPrisma.user.create).not.toHaveBeenCalled();
+  });
+
+  test('should link an existing account on first sign-in', async () => {
+    mockedPrisma.socialAccount.findUnique.mockResolvedValue(null);
+    mockedPrisma.user.findUnique.mockResolvedValue({ id: 'user-1', email: 'jane@acme.com' });
+
+    await samlService.completeLogin('acme', postedResponse);
+
+    expect(mockedPrisma.socialAccount.create).toHaveBeenCalledWith({
+      data: { userId: 'user-1', provider: 'saml:acme', providerId: 'idp-user-1' },
+    });
+  });
+
+  test('should take back roles of groups the user left, but not roles from administrators', async () => {
+    mockedPrisma.roleModel.findMany.mockResolvedValue([]);
+    mockedPrisma.userRole.findMany.mockResolvedValue([{ roleId: 'role-admin' }]);
+    mockValidatePostResponse.mockResolvedValue({ profile: assertionProfile({ groups: [] }) });
+
+    await samlService.completeLogin('acme', postedResponse);
+
+    expect(mockedPrisma.userRole.findMany).toHaveBeenCalledWith({
+      where: { userId: 'user-1', assignedBy: 'saml:acme' },
+    });
+    expect(mockRbacService.removeRoleFromUser).toHaveBeenCalledWith('user-1', 'role-admin');
+    expect(mockRbacService.assignRoleToUser).not.toHaveBeenCalled();
+  });
+
+  test('should grant the roles mapped from the user groups', async () => {
+    await samlService.completeLogin('acme', postedResponse);
+
+    expect(mockedPrisma.roleModel.findMany).toHaveBeenCalledWith({
+      where: { name: { in: ['staff'] }, isActive: true },
+    });
+    expect(mockRbacService.assignRoleToUser).toHaveBeenCalledWith(
+      { userId: 'user-1', roleId: 'role-staff' },
+      'saml:acme'
+    );
+  });
+});
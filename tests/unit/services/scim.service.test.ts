@@ -0,0 +1,87 @@
+import prisma from '../../../src/client';
+import scimService from '../../../src/services/scim.service';
+import userService from '../../../src/services/user.service';
+
+jest.mock('../../../src/client', () => ({
+  __esModule: true,
+  default: {
+    user: { findFirst: jest.fn(), findMany: jest.fn(), count: jest.fn() },
+    roleModel: { findFirst: jest.fn() },
+    userRole: { findMany: jest.fn() },
+  },
+}));
+jest.mock('../../../src/services/user.service');
+jest.mock('../../../src/services/rbac.service');
+
+const mockedPrisma = prisma as any;
+const mockUserService = userService as jest.Mocked<typeof userService>;
+
+const provisionedUser = {
+  id: 'user-1',
+  email: 'jane@example.com',
+  name: 'Jane',
+  isActive: true,
+  scimExternalId: 'ext-1',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  userRoles: [],
+};
+
+describe('SCIM service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('should only list users provisioned over SCIM', async () => {
+    mockedPrisma.user.count.mockResolvedValue(0);
+    mockedPrisma.user.findMany.mockResolvedValue([]);
+
+    await scimService.listUsers({ filter: 'userName eq "admin@example.com"' });
+
+    expect(mockedPrisma.user.count).toHaveBeenCalledWith({
+      where: expect.objectContaining({ scimProvisioned: true, erasedAt: null }),
+    });
+  });
+
+  test('should not find users created in the application', async () => {
+    mockedPrisma.user.findFirst.mockResolvedValue(null);
+
+    await expect(
+      scimService.replaceUser('admin-id', { userName: 'attacker@example.com' })
+    ).rejects.toMatchObject({ statusCode: 404 });
+    expect(mockedPrisma.user.findFirst).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { id: 'admin-id', scimProvisioned: true, erasedAt: null } })
+    );
+    expect(mockUserService.updateUserById).not.toHaveBeenCalled();
+  });
+
+  test('should require a changed email address to be verified again', async () => {
+    mockedPrisma.user.findFirst.mockResolvedValue(provisionedUser);
+
+    await scimService.replaceUser('user-1', { userName: 'jane@work.example.com' });
+
+    expect(mockUserService.updateUserById).toHaveBeenCalledWith(
+      'user-1',
+      expect.objectContaining({ email: 'jane@work.example.com', isEmailVerified: false })
+    );
+  });
+
+  test('should keep the verification when the email address is unchanged', async () => {
+    mockedPrisma.user.findFirst.mockResolvedValue(provisionedUser);
+
+    await scimService.patchUser('user-1', [
+      { op: 'replace', path: 'displayName', value: 'Jane Doe' },
+    ]);
+
+    expect(mockUserService.updateUserById.mock.calls[0][1]).not.toHaveProperty('isEmailVerified');
+  });
+
+  test('should not manage roles created in the application', async () => {
+    mockedPrisma.roleModel.findFirst.mockResolvedValue(null);
+
+    await expect(scimService.deleteGroup('admin-role')).rejects.toMatchObject({ statusCode: 404 });
+    expect(mockedPrisma.roleModel.findFirst).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { id: 'admin-role', scimProvisioned: true } })
+    );
+  });
+});
@@ -0,0 +1,110 @@
+import jwt from 'jsonwebtoken';
+import moment from 'moment';
+import prisma from '../../../src/client';
+import signingKeyService from '../../../src/services/signingKey.service';
+
+jest.mock('../../../src/config/config', () => {
+  const actual = jest.requireActual('../../../src/config/config').default;
+  return {
+    __esModule: true,
+    default: {
+      ...actual,
+      jwt: {
+        ...actual.jwt,
+        signingAlgorithm: 'ES256',
+        keyEncryptionSecret: 'key-secret',
+        keyRotationDays: 30,
+        accessExpirationMinutes: 30,
+      },
+    },
+  };
+});
+jest.mock('../../../src/client', () => ({
+  __esModule: true,
+  default: {
+    $transaction: jest.fn(),
+    signingKey: { findMany: jest.fn(), create: jest.fn(), updateMany: jest.fn() },
+  },
+}));
+
+const mockedPrisma = prisma as any;
+
+// In-memory signing_keys table
+let keys: any[];
+
+const matches = (key: any, where: Record<string, any>) =>
+  Object.entries(where).every(([field, condition]) =>
+    condition !== null && typeof condition === 'object' && 'lte' in condition
+      ? key[field] !== null && key[field] <= condition.lte
+      : key[field] === condition
+  );
+
+describe('Signing key service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    keys = [];
+    mockedPrisma.$transaction.mockImplementation((operations: any[]) => Promise.all(operations));
+    mockedPrisma.signingKey.findMany.mockImplementation(async ({ where }: any) =>
+      keys.filter(key => matches(key, where)).reverse()
+    );
+    mockedPrisma.signingKey.create.mockImplementation(async ({ data }: any) => {
+      const key = { ...data, createdAt: new Date(), rotatedAt: null, retiredAt: null };
+      keys.push(key);
+      return key;
+    });
+    mockedPrisma.signingKey.updateMany.mockImplementation(async ({ where, data }: any) => {
+      const matched = keys.filter(key => matches(key, where));
+      matched.forEach(key => Object.assign(key, data));
+      return { count: matched.length };
+    });
+  });
+
+  const signWithCurrentKey = async () => {
+    const { kid, algorithm, privateKey } = await signingKeyService.getSigningKey();
+    return jwt.sign({ sub: 'user-1' }, privateKey, { algorithm, keyid: kid });
+  };
+
+  const verify = async (token: string) => {
+    const key = await signingKeyService.getVerificationKeyForToken(token);
+    return key && jwt.verify(token, key.publicKey, { algorithms: [key.algorithm] });
+  };
+
+  test('should generate the first key and verify the tokens it signs', async () => {
+    await expect(signingKeyService.rotateKeys()).resolves.toEqual({ rotated: true, retired: 0 });
+
+    const token = await signWithCurrentKey();
+
+    expect(keys).toHaveLength(1);
+    expect(keys[0].privateKey).not.toContain('PRIVATE KEY');
+    await expect(verify(token)).resolves.toMatchObject({ sub: 'user-1' });
+  });
+
+  test('should keep verifying tokens of a replaced key until it is retired', async () => {
+    await signingKeyService.rotateKeys();
+    const oldToken = await signWithCurrentKey();
+    keys[0].createdAt = moment().subtract(31, 'days').toDate();
+
+    await expect(signingKeyService.rotateKeys()).resolves.toEqual({ rotated: true, retired: 0 });
+
+    const newToken = await signWithCurrentKey();
+    expect(jwt.decode(newToken, { complete: true })?.header.kid).toBe(keys[1].kid);
+    await expect(verify(oldToken)).resolves.toMatchObject({ sub: 'user-1' });
+
+    keys[0].rotatedAt = moment().subtract(31, 'minutes').toDate();
+    await expect(signingKeyService.rotateKeys()).resolves.toEqual({ rotated: false, retired: 1 });
+
+    await expect(verify(oldToken)).resolves.toBeNull();
+    await expect(verify(newToken)).resolves.toMatchObject({ sub: 'user-1' });
+  });
+
+  test('should only publish the public part of the keys', async () => {
+    await signingKeyService.rotateKeys();
+
+    const { keys: jwks } = await signingKeyService.getJwks();
+
+    expect(jwks).toEqual([
+      expect.objectContaining({ kid: keys[0].kid, alg: 'ES256', use: 'sig', kty: 'EC' }),
+    ]);
+    expect(jwks[0]).not.toHaveProperty('d');
+  });
+});
@@ -0,0 +1,146 @@
+import prisma from '../../../src/client';
+import socialTokenService from '../../../src/services/socialToken.service';
+import { encryptSecret } from '../../../src/utils/encryption';
+
+jest.mock('../../../src/config/config', () => ({
+  __esModule: true,
+  default: {
+    social: {
+      tokenEncryptionSecret: 'token-secret',
+      google: { clientId: 'google-client', clientSecret: 'google-secret' },
+      github: {},
+    },
+  },
+}));
+jest.mock('../../../src/client', () => ({
+  __esModule: true,
+  default: { socialAccount: { findMany: jest.fn(), update: jest.fn(), updateMany: jest.fn() } },
+}));
+jest.mock('../../../src/services/oidc.service');
+
+const mockedPrisma = prisma as any;
+
+describe('Social token service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('decryptToken', () => {
+    test('should read encrypted and legacy plain text tokens', () => {
+      expect(socialTokenService.decryptToken(socialTokenService.encryptToken('ya29.token'))).toBe(
+        'ya29.token'
+      );
+      expect(socialTokenService.decryptToken('ya29.legacy-token')).toBe('ya29.legacy-token');
+    });
+
+    test('should refuse tokens encrypted with another secret', () => {
+      expect(() => socialTokenService.decryptToken(encryptSecret('token', 'old-secret'))).toThrow(
+        'Provider token was encrypted with another secret'
+      );
+    });
+  });
+
+  describe('encryptStoredTokens', () => {
+    test('should only encrypt plain text tokens', async () => {
+      mockedPrisma.socialAccount.findMany
+        .mockResolvedValueOnce([
+          {
+            id: 'account-1',
+            accessToken: 'legacy-token',
+            refreshToken: encryptSecret('token', 'old-secret'),
+          },
+        ])
+        .mockResolvedValueOnce([]);
+
+      await socialTokenService.encryptStoredTokens();
+
+      const { data } = mockedPrisma.socialAccount.update.mock.calls[0][0];
+      expect(Object.keys(data)).toEqual(['accessToken']);
+      expect(socialTokenService.decryptToken(data.accessToken)).toBe('legacy-token');
+    });
+  });
+
+  describe('refreshExpiringTokens', () => {
+    const account = {
+      id: 'account-1',
+      userId: 'user-1',
+      provider: 'google',
+      refreshToken: socialTokenService.encryptToken('refresh-token'),
+    };
+
+    beforeEach(() => {
+      mockedPrisma.socialAccount.findMany.mockResolvedValue([account]);
+      mockedPrisma.socialAccount.update.mockResolvedValue({ refreshFailures: 3 });
+      mockedPrisma.socialAccount.updateMany.mockResolvedValue({ count: 1 });
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    test('should skip accounts whose refresh was put off', async () => {
+      jest
+        .spyOn(global, 'fetch')
+        .mockResolvedValue(new Response(JSON.stringify({ access_token: 'new' }), { status: 200 }));
+
+      await socialTokenService.refreshExpiringTokens();
+
+      expect(mockedPrisma.socialAccount.findMany.mock.calls[0][0].where.OR).toEqual([
+        { refreshRetryAt: null },
+        { refreshRetryAt: { lte: expect.any(Date) } },
+      ]);
+    });
+
+    test('should leave accounts claimed by another instance alone', async () => {
+      const fetchSpy = jest.spyOn(global, 'fetch');
+      mockedPrisma.socialAccount.updateMany.mockResolvedValue({ count: 0 });
+
+      const result = await socialTokenService.refreshExpiringTokens();
+
+      expect(result).toEqual({ refreshed: 0, failed: 0 });
+      const { where, data } = mockedPrisma.socialAccount.updateMany.mock.calls[0][0];
+      expect(where).toMatchObject({
+        id: account.id,
+        AND: [
+          { OR: [{ refreshLeaseUntil: null }, { refreshLeaseUntil: { lte: expect.any(Date) } }] },
+        ],
+      });
+      expect(data.refreshLeaseUntil).toEqual(expect.any(Date));
+      expect(fetchSpy).not.toHaveBeenCalled();
+    });
+
+    test('should put off the next refresh after a temporary failure', async () => {
+      jest
+        .spyOn(global, 'fetch')
+        .mockResolvedValue(
+          new Response(JSON.stringify({ error: 'temporarily_unavailable' }), { status: 503 })
+        );
+      const before = Date.now();
+
+      const result = await socialTokenService.refreshExpiringTokens();
+
+      expect(result).toEqual({ refreshed: 0, failed: 1 });
+      const { data } = mockedPrisma.socialAccount.update.mock.calls[1][0];
+      // The third failure in a row waits 20 minutes
+      expect(data.refreshRetryAt.getTime() - before).toBeGreaterThanOrEqual(20 * 60 * 1000);
+      expect(data.refreshRetryAt.getTime() - before).toBeLessThan(21 * 60 * 1000);
+    });
+
+    test('should discard a refresh token the provider rejects for good', async () => {
+      jest
+        .spyOn(global, 'fetch')
+        .mockResolvedValue(
+          new Response(JSON.stringify({ error: 'invalid_grant' }), { status: 400 })
+        );
+
+      await socialTokenService.refreshExpiringTokens();
+
+      expect(mockedPrisma.socialAccount.update).toHaveBeenCalledTimes(1);
+      expect(mockedPrisma.socialAccount.update.mock.calls[0][0].data).toEqual({
+        accessToken: null,
+        refreshToken: null,
+        tokenExpiresAt: null,
+      });
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import prisma from '../../../src/client';
+import deviceService from '../../../src/services/device.service';
+import notificationService from '../../../src/services/notification.service';
+import signingKeyService from '../../../src/services/signingKey.service';
+import tokenRevocationService from '../../../src/services/tokenRevocation.service';
+import tokenService from '../../../src/services/token.service';
+import userService from '../../../src/services/user.service';
+
+jest.mock('../../../src/client', () => ({
+  __esModule: true,
+  default: {
+    $transaction: jest.fn(),
+    token: { create: jest.fn(), updateMany: jest.fn() },
+    userSession: { upsert: jest.fn(), updateMany: jest.fn() },
+  },
+}));
+jest.mock('../../../src/services/device.service');
+jest.mock('../../../src/services/notification.service');
+jest.mock('../../../src/services/signingKey.service');
+jest.mock('../../../src/services/tokenRevocation.service');
+jest.mock('../../../src/services/user.service');
+
+const mockedPrisma = prisma as any;
+const mockDeviceService = deviceService as jest.Mocked<typeof deviceService>;
+const mockNotificationService = notificationService as jest.Mocked<typeof notificationService>;
+const mockSigningKeyService = signingKeyService as jest.Mocked<typeof signingKeyService>;
+const mockTokenRevocationService = tokenRevocationService as jest.Mocked<
+  typeof tokenRevocationService
+>;
+const mockUserService = userService as jest.Mocked<typeof userService>;
+
+const req = { ip: '127.0.0.1', get: jest.fn().mockReturnValue('test-agent') } as any;
+
+const { privateKey } = crypto.generateKeyPairSync('ec', {
+  namedCurve: 'P-256',
+  privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+  publicKeyEncoding: { type: 'spki', format: 'pem' },
+});
+
+describe('Token service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockSigningKeyService.getSigningKey.mockResolvedValue({
+      kid: 'key-1',
+      algorithm: 'ES256',
+      privateKey,
+    } as any);
+    mockDeviceService.createDeviceSession.mockResolvedValue({
+      deviceId: 'device-1',
+      deviceName: 'Test Device',
+      ipAddress: '127.0.0.1',
+      userAgent: 'test-agent',
+    } as any);
+    mockedPrisma.userSession.upsert.mockImplementation(async ({ create }: any) => create);
+    mockedPrisma.$transaction.mockImplementation((operations: any[]) => Promise.all(operations));
+    mockUserService.getUserById.mockResolvedValue({ id: 'user-1' } as any);
+  });
+
+  const savedRefreshToken = () =>
+    mockedPrisma.token.create.mock.calls.find((call: any) => call[0].data.type === 'REFRESH')[0]
+      .data;
+
+  describe('generateAuthTokens', () => {
+    test('should start a new family and alert on a login', async () => {
+      const tokens = await tokenService.generateAuthTokens({ id: 'user-1' }, req);
+
+      const { familyId } = savedRefreshToken();
+      expect(familyId).toEqual(expect.any(String));
+      expect(tokens.session.id).toBe(familyId);
+      expect(mockNotificationService.sendLoginAlert).toHaveBeenCalled();
+    });
+
+    test('should keep the family of a rotated token without alerting', async () => {
+      const tokens = await tokenService.generateAuthTokens({ id: 'user-1' }, req, 'family-1');
+
+      expect(savedRefreshToken().familyId).toBe('family-1');
+      expect(jwt.decode(tokens.access.token)).toMatchObject({ sub: 'user-1', sid: 'family-1' });
+      expect(mockedPrisma.userSession.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { sessionId: 'family-1' } })
+      );
+      expect(mockNotificationService.sendLoginAlert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('markTokenRotated', () => {
+    test('should only retire a live token once', async () => {
+      mockedPrisma.token.updateMany.mockResolvedValueOnce({ count: 1 });
+      mockedPrisma.token.updateMany.mockResolvedValueOnce({ count: 0 });
+
+      await expect(tokenService.markTokenRotated('token-1')).resolves.toBe(true);
+      await expect(tokenService.markTokenRotated('token-1')).resolves.toBe(false);
+      expect(mockedPrisma.token.updateMany).toHaveBeenCalledWith({
+        where: { id: 'token-1', blacklisted: false, rotatedAt: null },
+        data: { blacklisted: true, rotatedAt: expect.any(Date) },
+      });
+    });
+  });
+
+  describe('revokeTokenFamily', () => {
+    test('should revoke the tokens, the session and its access tokens', async () => {
+      await tokenService.revokeTokenFamily('family-1');
+
+      expect(mockedPrisma.token.updateMany).toHaveBeenCalledWith({
+        where: { familyId: 'family-1', blacklisted: false },
+        data: { blacklisted: true },
+      });
+      expect(mockedPrisma.userSession.updateMany).toHaveBeenCalledWith({
+        where: { sessionId: 'family-1', isActive: true },
+        data: { isActive: false, lastActivity: expect.any(Date) },
+      });
+      expect(mockTokenRevocationService.revokeSessionAccessTokens).toHaveBeenCalledWith('family-1');
+    });
+  });
+});
@@ -0,0 +1,66 @@
+import cacheService from '../../../src/services/cache.service';
+import tokenRevocationService from '../../../src/services/tokenRevocation.service';
+
+jest.mock('../../../src/config/config', () => ({
+  __esModule: true,
+  default: { jwt: { accessExpirationMinutes: 15 } },
+}));
+jest.mock('../../../src/services/cache.service', () => ({
+  __esModule: true,
+  default: { set: jest.fn(), mget: jest.fn() },
+  CacheKeys: {
+    ACCESS_TOKENS_REVOKED_BEFORE: (userId: string) => `revoked-before:${userId}`,
+    REVOKED_SESSION: (sessionId: string) => `revoked-session:${sessionId}`,
+  },
+}));
+
+const mockCacheService = cacheService as jest.Mocked<typeof cacheService>;
+
+describe('Token revocation service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockCacheService.set.mockResolvedValue(true);
+  });
+
+  test('should reject tokens issued before the second of a revocation', async () => {
+    jest.spyOn(Date, 'now').mockReturnValue(1_800_000_000_400);
+    await tokenRevocationService.revokeUserAccessTokens('user-1');
+    const revokedBefore = mockCacheService.set.mock.calls[0][1] as number;
+    mockCacheService.mget.mockResolvedValue([revokedBefore, null]);
+
+    expect(revokedBefore).toBe(1_800_000_000);
+    await expect(
+      tokenRevocationService.isAccessTokenRevoked({ sub: 'user-1', iat: 1_799_999_999 })
+    ).resolves.toBe(true);
+  });
+
+  test('should accept tokens issued in the second of a revocation', async () => {
+    jest.spyOn(Date, 'now').mockReturnValue(1_800_000_000_400);
+    await tokenRevocationService.revokeUserAccessTokens('user-1');
+    mockCacheService.mget.mockResolvedValue([mockCacheService.set.mock.calls[0][1], null]);
+
+    await expect(
+      tokenRevocationService.isAccessTokenRevoked({ sub: 'user-1', iat: 1_800_000_000 })
+    ).resolves.toBe(false);
+  });
+
+  test('should reject tokens of revoked sessions', async () => {
+    mockCacheService.mget.mockResolvedValue([null, true]);
+
+    await expect(
+      tokenRevocationService.isAccessTokenRevoked({ sub: 'user-1', iat: 1, sid: 'session-1' })
+    ).resolves.toBe(true);
+    expect(mockCacheService.mget).toHaveBeenCalledWith([
+      'revoked-before:user-1',
+      'revoked-session:session-1',
+    ]);
+  });
+
+  test('should accept tokens while the cache is unavailable', async () => {
+    mockCacheService.mget.mockResolvedValue([null, null]);
+
+    await expect(
+      tokenRevocationService.isAccessTokenRevoked({ sub: 'user-1', iat: 1, sid: 'session-1' })
+    ).resolves.toBe(false);
+  });
+});
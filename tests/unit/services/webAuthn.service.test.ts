@@ -0,0 +1,197 @@
+import { verifyAuthenticationResponse, verifyRegistrationResponse } from '@simplewebauthn/server';
+import prisma from '../../../src/client';
+import securityService from '../../../src/services/security.service';
+import webAuthnService from '../../../src/services/webAuthn.service';
+
+jest.mock('@simplewebauthn/server', () => ({
+  generateAuthenticationOptions: jest.fn(),
+  generateRegistrationOptions: jest.fn(),
+  verifyAuthenticationResponse: jest.fn(),
+  verifyRegistrationResponse: jest.fn(),
+}));
+jest.mock('../../../src/client', () => ({
+  __esModule: true,
+  default: {
+    webAuthnChallenge: { findUnique: jest.fn(), delete: jest.fn() },
+    webAuthnCredential: {
+      findUnique: jest.fn(),
+      count: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+  },
+}));
+jest.mock('../../../src/services/security.service');
+jest.mock('../../../src/services/userActivity.service');
+
+const mockedPrisma = prisma as any;
+const mockVerifyAuthentication = verifyAuthenticationResponse as jest.Mock;
+const mockVerifyRegistration = verifyRegistrationResponse as jest.Mock;
+const mockSecurityService = securityService as jest.Mocked<typeof securityService>;
+
+const req = { ip: '127.0.0.1', get: jest.fn().mockReturnValue('test-agent') } as any;
+
+const clientData = (challenge: string) =>
+  Buffer.from(JSON.stringify({ type: 'webauthn.get', challenge })).toString('base64url');
+
+const assertion = {
+  id: 'credential-id',
+  rawId: 'credential-id',
+  type: 'public-key',
+  clientExtensionResults: {},
+  response: { clientDataJSON: clientData('challenge-1'), authenticatorData: '', signature: '' },
+} as any;
+
+const storedChallenge = (overrides: Record<string, any> = {}) => ({
+  id: 'stored-challenge',
+  challenge: 'challenge-1',
+  type: 'AUTHENTICATION',
+  userId: null,
+  expiresAt: new Date(Date.now() + 60 * 1000),
+  ...overrides,
+});
+
+const credential = {
+  id: 'credential-row',
+  userId: 'user-1',
+  credentialId: 'credential-id',
+  publicKey: Buffer.from('public-key'),
+  signCount: BigInt(7),
+  transports: ['internal'],
+};
+
+describe('WebAuthn service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedPrisma.webAuthnChallenge.findUnique.mockResolvedValue(storedChallenge());
+    mockedPrisma.webAuthnCredential.findUnique.mockResolvedValue(credential);
+    mockVerifyAuthentication.mockResolvedValue({
+      verified: true,
+      authenticationInfo: { newCounter: 8, credentialBackedUp: false, userVerified: true },
+    });
+  });
+
+  describe('verifyAuthentication', () => {
+    test('should update the sign count and return the owner', async () => {
+      await expect(webAuthnService.verifyAuthentication(assertion, req)).resolves.toBe('user-1');
+
+      expect(mockedPrisma.webAuthnChallenge.delete).toHaveBeenCalledWith({
+        where: { id: 'stored-challenge' },
+      });
+      expect(mockedPrisma.webAuthnCredential.update).toHaveBeenCalledWith({
+        where: { id: 'credential-row' },
+        data: expect.objectContaining({ signCount: 8 }),
+      });
+    });
+
+    test('should require user verification for a passwordless login only', async () => {
+      await webAuthnService.verifyAuthentication(assertion, req);
+      await webAuthnService.verifyAuthentication(assertion, req, 'user-1');
+
+      expect(mockVerifyAuthentication.mock.calls[0][0]).toMatchObject({
+        expectedChallenge: 'challenge-1',
+        requireUserVerification: true,
+        credential: { counter: 7 },
+      });
+      expect(mockVerifyAuthentication.mock.calls[1][0].requireUserVerification).toBe(false);
+    });
+
+    test('should refuse a challenge that was already used', async () => {
+      mockedPrisma.webAuthnChallenge.findUnique.mockResolvedValue(null);
+
+      await expect(webAuthnService.verifyAuthentication(assertion, req)).rejects.toMatchObject({
+        statusCode: 400,
+        message: 'Unknown or already used challenge',
+      });
+      expect(mockVerifyAuthentication).not.toHaveBeenCalled();
+    });
+
+    test('should consume an expired challenge and refuse it', async () => {
+      mockedPrisma.webAuthnChallenge.findUnique.mockResolvedValue(
+        storedChallenge({ expiresAt: new Date(Date.now() - 1000) })
+      );
+
+      await expect(webAuthnService.verifyAuthentication(assertion, req)).rejects.toThrow(
+        'Challenge has expired'
+      );
+      expect(mockedPrisma.webAuthnChallenge.delete).toHaveBeenCalled();
+    });
+
+    test('should refuse a registration challenge', async () => {
+      mockedPrisma.webAuthnChallenge.findUnique.mockResolvedValue(
+        storedChallenge({ type: 'REGISTRATION' })
+      );
+
+      await expect(webAuthnService.verifyAuthentication(assertion, req)).rejects.toMatchObject({
+        statusCode: 400,
+      });
+    });
+
+    test('should refuse a passkey of another user as second factor', async () => {
+      await expect(
+        webAuthnService.verifyAuthentication(assertion, req, 'user-2')
+      ).rejects.toMatchObject({ statusCode: 401 });
+      expect(mockVerifyAuthentication).not.toHaveBeenCalled();
+      expect(mockSecurityService.logSecurityEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'user-2', success: false })
+      );
+    });
+
+    test('should refuse a passkey of another user than the challenge was issued for', async () => {
+      mockedPrisma.webAuthnChallenge.findUnique.mockResolvedValue(
+        storedChallenge({ userId: 'user-2' })
+      );
+
+      await expect(webAuthnService.verifyAuthentication(assertion, req)).rejects.toMatchObject({
+        statusCode: 401,
+      });
+    });
+
+    test('should refuse an assertion that does not verify', async () => {
+      mockVerifyAuthentication.mockRejectedValue(new Error('Response counter was not higher'));
+
+      await expect(webAuthnService.verifyAuthentication(assertion, req)).rejects.toMatchObject({
+        statusCode: 401,
+      });
+      expect(mockedPrisma.webAuthnCredential.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('verifyRegistration', () => {
+    const registration = {
+      ...assertion,
+      response: { clientDataJSON: clientData('challenge-1'), attestationObject: '' },
+    };
+
+    test('should refuse a challenge issued to another user', async () => {
+      mockedPrisma.webAuthnChallenge.findUnique.mockResolvedValue(
+        storedChallenge({ type: 'REGISTRATION', userId: 'user-2' })
+      );
+
+      await expect(
+        webAuthnService.verifyRegistration('user-1', registration, undefined, req)
+      ).rejects.toMatchObject({ statusCode: 400 });
+      expect(mockVerifyRegistration).not.toHaveBeenCalled();
+    });
+
+    test('should refuse a passkey that is already registered', async () => {
+      mockedPrisma.webAuthnChallenge.findUnique.mockResolvedValue(
+        storedChallenge({ type: 'REGISTRATION', userId: 'user-1' })
+      );
+      mockVerifyRegistration.mockResolvedValue({
+        verified: true,
+        registrationInfo: {
+          credential: { id: 'credential-id', publicKey: new Uint8Array(), counter: 0 },
+          credentialDeviceType: 'singleDevice',
+          credentialBackedUp: false,
+          aaguid: '',
+        },
+      });
+
+      await expect(
+        webAuthnService.verifyRegistration('user-1', registration, undefined, req)
+      ).rejects.toMatchObject({ statusCode: 409 });
+      expect(mockedPrisma.webAuthnCredential.create).not.toHaveBeenCalled();
+    });
+  });
+});
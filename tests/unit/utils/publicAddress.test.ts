@@ -0,0 +1,59 @@
+import {
+  isPublicAddress,
+  isPublicHostname,
+  resolvesToPublicAddresses,
+} from '../../../src/utils/publicAddress';
+
+describe('Public address utilities', () => {
+  describe('isPublicAddress', () => {
+    test('should accept public addresses', () => {
+      expect(isPublicAddress('93.184.216.34')).toBe(true);
+      expect(isPublicAddress('2606:4700::1111')).toBe(true);
+    });
+
+    test('should reject loopback, private, link-local and reserved addresses', () => {
+      [
+        '127.0.0.1',
+        '10.1.2.3',
+        '172.16.0.1',
+        '192.168.1.1',
+        '169.254.169.254',
+        '100.64.0.1',
+        '0.0.0.0',
+        '::1',
+        '::',
+        'fd00::1',
+        'fe80::1',
+        '::ffff:127.0.0.1',
+        '::ffff:a9fe:a9fe',
+      ].forEach(address => expect(isPublicAddress(address)).toBe(false));
+    });
+
+    test('should reject values that are not addresses', () => {
+      expect(isPublicAddress('example.com')).toBe(false);
+    });
+  });
+
+  describe('isPublicHostname', () => {
+    test('should check URL hosts that are addresses', () => {
+      expect(isPublicHostname(new URL('https://[::ffff:127.0.0.1]/hook').hostname)).toBe(false);
+      expect(isPublicHostname(new URL('https://2130706433/hook').hostname)).toBe(false);
+      expect(isPublicHostname(new URL('https://93.184.216.34/hook').hostname)).toBe(true);
+    });
+
+    test('should reject localhost and unqualified names', () => {
+      expect(isPublicHostname('localhost')).toBe(false);
+      expect(isPublicHostname('api.localhost')).toBe(false);
+      expect(isPublicHostname('intranet')).toBe(false);
+      expect(isPublicHostname('hooks.example.com')).toBe(true);
+    });
+  });
+
+  describe('resolvesToPublicAddresses', () => {
+    test('should reject hosts that are not public without resolving them', async () => {
+      await expect(resolvesToPublicAddresses('localhost')).resolves.toBe(false);
+      await expect(resolvesToPublicAddresses('[fe80::1]')).resolves.toBe(false);
+      await expect(resolvesToPublicAddresses('93.184.216.34')).resolves.toBe(true);
+    });
+  });
+});
@@ -0,0 +1,128 @@
+import {
+  applyPatch,
+  columnResolver,
+  filterToWhere,
+  matchesFilter,
+  parseFilter,
+  projectAttributes,
+} from '../../../src/utils/scim';
+import ScimError from '../../../src/utils/ScimError';
+
+const USER_SCHEMA = 'urn:ietf:params:scim:schemas:core:2.0:User';
+const GROUP_SCHEMA = 'urn:ietf:params:scim:schemas:core:2.0:Group';
+
+describe('SCIM utilities', () => {
+  describe('filters', () => {
+    const attributes = {
+      username: columnResolver('email'),
+      externalid: columnResolver('scimExternalId', { caseExact: true }),
+      active: columnResolver('isActive'),
+      emails: columnResolver('email'),
+    };
+
+    test('translates logical expressions, value paths and URN-qualified attributes', () => {
+      const filter = parseFilter(
+        `${USER_SCHEMA}:userName eq "Ada@example.com" and (active eq true or not (externalId pr)) ` +
+          'and emails[value co "example"]'
+      );
+
+      expect(filterToWhere(filter, attributes, USER_SCHEMA)).toEqual({
+        AND: [
+          {
+            AND: [
+              { email: { equals: 'Ada@example.com', mode: 'insensitive' } },
+              {
+                OR: [{ isActive: { equals: true } }, { NOT: { scimExternalId: { not: null } } }],
+              },
+            ],
+          },
+          { email: { contains: 'example', mode: 'insensitive' } },
+        ],
+      });
+    });
+
+    test('rejects unknown operators and attributes with invalidFilter', () => {
+      expect(() => parseFilter('userName xx "a"')).toThrow(ScimError);
+      expect(() => filterToWhere(parseFilter('nickName eq "a"'), attributes, USER_SCHEMA)).toThrow(
+        expect.objectContaining({ statusCode: 400, scimType: 'invalidFilter' })
+      );
+    });
+
+    test('evaluates filters case-insensitively in memory', () => {
+      const user = { emails: [{ value: 'ada@example.com', type: 'work' }] };
+      expect(matchesFilter(user, parseFilter('emails[type eq "WORK"]'))).toBe(true);
+      expect(matchesFilter(user, parseFilter('emails[type eq "home"]'))).toBe(false);
+    });
+  });
+
+  describe('applyPatch', () => {
+    const user = {
+      schemas: [USER_SCHEMA],
+      userName: 'ada@example.com',
+      displayName: 'Ada',
+      active: true,
+      emails: [{ value: 'ada@example.com', type: 'work', primary: true }],
+    };
+
+    test('applies path, filtered and path-less operations without changing the input', () => {
+      const patched = applyPatch(
+        user,
+        [
+          { op: 'Replace', path: 'active', value: 'False' },
+          { op: 'add', value: { 'name.givenName': 'Ada', displayName: 'Ada Lovelace' } },
+          { op: 'replace', path: 'emails[type eq "work"].value', value: 'ada@example.org' },
+          { op: 'add', path: 'phoneNumbers[type eq "mobile"].value', value: '+1555' },
+          {
+            op: 'add',
+            path: 'urn:ietf:params:scim:schemas:extension:enterprise:2.0:User:department',
+            value: 'R&D',
+          },
+        ],
+        USER_SCHEMA
+      );
+
+      expect(patched).toMatchObject({
+        active: 'False',
+        displayName: 'Ada Lovelace',
+        name: { givenName: 'Ada' },
+        emails: [{ value: 'ada@example.org', type: 'work' }],
+        phoneNumbers: [{ type: 'mobile', value: '+1555' }],
+        'urn:ietf:params:scim:schemas:extension:enterprise:2.0:User': { department: 'R&D' },
+      });
+      expect(user.emails[0].value).toBe('ada@example.com');
+    });
+
+    test('adds and removes group members by value or filter', () => {
+      const group = { members: [{ value: '1' }, { value: '2' }] };
+      const patched = applyPatch(
+        group,
+        [
+          { op: 'remove', path: 'members', value: [{ value: '1' }] },
+          { op: 'add', path: 'members', value: [{ value: '3' }, { value: '2' }] },
+          { op: 'remove', path: 'members[value eq "2"]' },
+        ],
+        GROUP_SCHEMA
+      );
+
+      expect(patched.members).toEqual([{ value: '3' }]);
+    });
+
+    test('rejects unsupported operations', () => {
+      expect(() => applyPatch(user, [{ op: 'move', path: 'active' }], USER_SCHEMA)).toThrow(
+        'Unsupported PATCH operation move'
+      );
+    });
+  });
+
+  test('projectAttributes keeps id and schemas', () => {
+    const resource = { schemas: [USER_SCHEMA], id: '1', userName: 'a', groups: [] };
+    expect(projectAttributes(resource, 'userName', undefined, USER_SCHEMA)).toEqual({
+      schemas: [USER_SCHEMA],
+      id: '1',
+      userName: 'a',
+    });
+    expect(projectAttributes(resource, undefined, 'groups', USER_SCHEMA)).not.toHaveProperty(
+      'groups'
+    );
+  });
+});
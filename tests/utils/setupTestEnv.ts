@@ -0,0 +1,22 @@
+// Settings the config module requires, for test runs without a .env file. Values from the
+// environment or .env take precedence.
+const testEnv: Record<string, string> = {
+  NODE_ENV: 'test',
+  PORT: '8000',
+  JWT_SECRET: 'test-jwt-secret',
+  JWT_ACCESS_EXPIRATION_MINUTES: '30',
+  JWT_REFRESH_EXPIRATION_DAYS: '30',
+  JWT_RESET_PASSWORD_EXPIRATION_MINUTES: '10',
+  JWT_VERIFY_EMAIL_EXPIRATION_MINUTES: '10',
+  SMTP_HOST: 'localhost',
+  SMTP_PORT: '587',
+  SMTP_USERNAME: 'test',
+  SMTP_PASSWORD: 'test',
+  EMAIL_FROM: 'test@example.com',
+  REDIS_PORT: '6379',
+  REDIS_DB: '0',
+};
+
+Object.entries(testEnv).forEach(([name, value]) => {
+  process.env[name] ??= value;
+});